@@ -0,0 +1,2 @@
+-- Migration number: 0003 	 Add optimistic concurrency version to users
+ALTER TABLE users ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,16 @@
+-- Migration number: 0004 	 Create authentication tables
+CREATE TABLE IF NOT EXISTS user_credentials (
+	user_id INTEGER PRIMARY KEY REFERENCES users (id) ON DELETE CASCADE,
+	password_hash TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+	token_hash TEXT PRIMARY KEY,
+	user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+	family_id TEXT NOT NULL,
+	expires_at INTEGER NOT NULL,
+	rotated_at INTEGER,
+	revoked_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens (family_id);
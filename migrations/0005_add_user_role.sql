@@ -0,0 +1,2 @@
+-- Migration number: 0005 	 Add roles to users (admin, member, viewer)
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'member';
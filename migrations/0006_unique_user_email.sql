@@ -0,0 +1,4 @@
+-- Migration number: 0006 	 Make user emails unique, ignoring case
+DROP INDEX IF EXISTS idx_users_email;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email ON users (LOWER(email));
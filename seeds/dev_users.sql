@@ -0,0 +1,5 @@
+-- Demo users for local development, applied by `pnpm db:seed` (never by `db:migrate:remote`).
+-- The first demo user administers the demo data. Safe to run again: existing emails are skipped.
+INSERT OR IGNORE INTO users (name, email, created_at, role) VALUES
+	('John Doe', 'john@example.com', 1704067200000, 'admin'),
+	('Jane Smith', 'jane@example.com', 1704153600000, 'member');
@@ -1,3 +1,5 @@
+import type { PlatformContext, ServerEnv } from '$lib/env';
+
 // See https://svelte.dev/docs/kit/types#app.d.ts
 // for information about these interfaces
 declare global {
@@ -6,7 +8,13 @@ declare global {
 		// interface Locals {}
 		// interface PageData {}
 		// interface PageState {}
-		// interface Platform {}
+		// Provided by @sveltejs/adapter-cloudflare; undefined under `vite dev` without a proxy
+		interface Platform {
+			env: ServerEnv;
+			context: PlatformContext;
+			caches: CacheStorage & { default: Cache };
+			cf?: Record<string, unknown>;
+		}
 	}
 }
 
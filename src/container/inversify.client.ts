@@ -1,34 +1,75 @@
 import { Container } from 'inversify';
 import 'reflect-metadata';
+import { browser, dev } from '$app/environment';
 import { PUBLIC_ENV } from '../lib/env';
 import { TYPES } from './types';
 
 // Interfaces
 import type {
 	IApiService,
+	IAuthApiService,
 	IHealthApiService,
 	IHelloApiService,
 	IUserApiService
 } from '../interfaces/api.interface';
-import type { IHttpClient } from '../interfaces/http-client.interface';
+import type { IHttpClient, IHttpInterceptor } from '../interfaces/http-client.interface';
+import type { IQueryCache } from '../interfaces/query-cache.interface';
+import type { ISessionStore } from '../interfaces/session.interface';
 
 // Implementations
 import {
 	ApiService,
+	AuthApiService,
 	HealthApiService,
 	HelloApiService,
 	UserApiService
 } from '../services/client/api.service';
 import { HttpClient } from '../services/client/http-client.service';
+import { LoggingInterceptor, RequestIdInterceptor } from '../services/client/interceptors';
+import { QueryCache } from '../services/client/query-cache.svelte';
+import { SessionStore } from '../services/client/session.svelte';
+import { LocalStorageTokenStore, MemoryTokenStore } from '../services/client/token-store';
 
 // Create Client-side IoC Container
 const clientContainer = new Container();
 
-// Bind HTTP Client with base URL from environment
+// Bind HTTP interceptors, run by HttpClient in binding order (auth is always applied last)
+clientContainer
+	.bind<IHttpInterceptor>(TYPES.HttpInterceptor)
+	.toConstantValue(new RequestIdInterceptor());
+
+if (dev) {
+	clientContainer
+		.bind<IHttpInterceptor>(TYPES.HttpInterceptor)
+		.toConstantValue(new LoggingInterceptor());
+}
+
+// Bind HTTP Client with base URL from environment (sessions survive reloads in the browser).
+// In development, responses that do not match their schema are logged instead of thrown
 clientContainer
 	.bind<IHttpClient>(TYPES.HttpClient)
+	.toDynamicValue((context) => {
+		return new HttpClient(
+			PUBLIC_ENV.API_BASE_URL,
+			{},
+			{
+				tokenStore: browser ? new LocalStorageTokenStore() : new MemoryTokenStore(),
+				interceptors: context.getAll<IHttpInterceptor>(TYPES.HttpInterceptor, { optional: true }),
+				responseValidation: dev ? 'warn' : 'error'
+			}
+		);
+	})
+	.inSingletonScope();
+
+// Bind the query cache shared by every component (revalidated on focus and reconnect)
+clientContainer
+	.bind<IQueryCache>(TYPES.QueryCache)
 	.toDynamicValue(() => {
-		return new HttpClient(PUBLIC_ENV.API_BASE_URL);
+		const queryCache = new QueryCache();
+		if (browser) {
+			queryCache.listen(window);
+		}
+		return queryCache;
 	})
 	.inSingletonScope();
 
@@ -45,6 +86,16 @@ clientContainer
 	.to(HelloApiService)
 	.inSingletonScope();
 
+clientContainer.bind<IAuthApiService>(TYPES.AuthApiService).to(AuthApiService).inSingletonScope();
+
+// Bind the reactive session shared by every component
+clientContainer
+	.bind<ISessionStore>(TYPES.SessionStore)
+	.toDynamicValue((context) => {
+		return new SessionStore(context.get<IAuthApiService>(TYPES.AuthApiService));
+	})
+	.inSingletonScope();
+
 // Bind combined API Service (facade)
 clientContainer.bind<IApiService>(TYPES.ApiService).to(ApiService).inSingletonScope();
 
@@ -1,35 +1,291 @@
 import { Container } from 'inversify';
 import 'reflect-metadata';
+import { getD1BindingName } from '../lib/database';
+import { createTraceContext, parseTraceparent, TRACEPARENT_HEADER } from '../lib/trace';
+import { processEnvSchema } from '../models/env.model';
+import { InternalServerError } from '../models/error.model';
 import { TYPES } from './types';
 
 // Interfaces
+import type {
+	IAuthRepository,
+	IAuthService,
+	IPasswordHasher,
+	ITokenService
+} from '../interfaces/auth.interface';
+import type {
+	IAuthorizationService,
+	IPrincipalResolver
+} from '../interfaces/authorization.interface';
 import type { IConfigService } from '../interfaces/config.interface';
-import type { ILogger, ILoggerFactory } from '../interfaces/logger.interface';
+import type { D1Database } from '../interfaces/database.interface';
+import type { IHealthCheck, IHealthService } from '../interfaces/health.interface';
+import type { IIdempotencyStore } from '../interfaces/idempotency.interface';
+import type { ILogger, ILoggerFactory, ILogSink } from '../interfaces/logger.interface';
+import type { IMetricsRegistry } from '../interfaces/metrics.interface';
+import type { IRateLimitStore } from '../interfaces/rate-limit.interface';
+import type { IRequestContext } from '../interfaces/request.interface';
 import type { IUserRepository, IUserService } from '../interfaces/user.interface';
 
 // Implementations
-import { ConfigService } from '../services/config.service';
-import { Logger, LoggerFactory } from '../services/logger.service';
+import { AuthRepository } from '../services/auth.repository';
+import { AuthService } from '../services/auth.service';
+import { AuthorizationService } from '../services/authorization.service';
+import { ConfigService, readProcessEnv } from '../services/config.service';
+import { D1AuthRepository } from '../services/d1-auth.repository';
+import { D1UserRepository } from '../services/d1-user.repository';
+import { ConfigHealthCheck, KvHealthCheck, RepositoryHealthCheck } from '../services/health.checks';
+import { HealthService } from '../services/health.service';
+import { ConsoleJsonSink, PrettyConsoleSink } from '../services/log.sink';
+import { KvIdempotencyStore, MemoryIdempotencyStore } from '../services/idempotency.store';
+import { LoggerFactory } from '../services/logger.service';
+import { MetricsRegistry } from '../services/metrics.registry';
+import { PasswordHasher } from '../services/password.hasher';
+import {
+	DurableObjectRateLimitStore,
+	KvRateLimitStore,
+	MemoryRateLimitStore
+} from '../services/rate-limit.store';
+import {
+	BearerTokenPrincipalResolver,
+	ChainedPrincipalResolver,
+	SignedHeaderPrincipalResolver
+} from '../services/principal.resolver';
+import { TokenService } from '../services/token.service';
 import { UserRepository } from '../services/user.repository';
 import { UserService } from '../services/user.service';
 
-// Extend Hono's context to include DI container
+// Extend Hono's context to include the request's DI container
 declare module 'hono' {
 	interface ContextVariableMap {
-		container: typeof container;
+		container: Container;
 	}
 }
 
-// Create IoC Container
+// Root IoC Container: application-wide services. Anything tied to a single request
+// is bound in the child container from createRequestContainer() instead
 const container = new Container();
 
+// In-memory repositories keep their data for the lifetime of the process, while
+// D1 repositories are created per request from that request's binding
+const memoryUserRepository = new UserRepository();
+const memoryAuthRepository = new AuthRepository();
+const memoryRateLimitStore = new MemoryRateLimitStore();
+const memoryIdempotencyStore = new MemoryIdempotencyStore();
+
 // Bind User domain services
 container.bind<IUserService>(TYPES.UserService).to(UserService);
-container.bind<IUserRepository>(TYPES.UserRepository).to(UserRepository).inSingletonScope();
+
+// Repository implementation is chosen by DATABASE_URL (d1://<BINDING> or in-memory)
+container.bind<IUserRepository>(TYPES.UserRepository).toDynamicValue((context) => {
+	const { url } = context.get<IConfigService>(TYPES.ConfigService).getDatabaseConfig();
+	if (!getD1BindingName(url)) {
+		return memoryUserRepository;
+	}
+	return new D1UserRepository(
+		resolveDatabase(
+			context.get<D1Database>(TYPES.Database, { optional: true }),
+			url,
+			context.get<ILogger>(TYPES.Logger)
+		)
+	);
+});
+
+// Bind Authentication services (credentials live next to the users they belong to)
+container.bind<IAuthService>(TYPES.AuthService).to(AuthService);
+container.bind<ITokenService>(TYPES.TokenService).to(TokenService);
+container.bind<IPasswordHasher>(TYPES.PasswordHasher).toConstantValue(new PasswordHasher());
+container.bind<IAuthRepository>(TYPES.AuthRepository).toDynamicValue((context) => {
+	const { url } = context.get<IConfigService>(TYPES.ConfigService).getDatabaseConfig();
+	if (!getD1BindingName(url)) {
+		return memoryAuthRepository;
+	}
+	return new D1AuthRepository(
+		resolveDatabase(
+			context.get<D1Database>(TYPES.Database, { optional: true }),
+			url,
+			context.get<ILogger>(TYPES.Logger)
+		)
+	);
+});
+
+// Bind Authorization services. Callers are identified by Bearer token, plus the
+// signed X-Principal header when PRINCIPAL_HEADER_SECRET is set (local testing)
+container.bind<IAuthorizationService>(TYPES.AuthorizationService).to(AuthorizationService);
+container.bind<IPrincipalResolver>(TYPES.PrincipalResolver).toDynamicValue((context) => {
+	const { principalHeaderSecret } = context
+		.get<IConfigService>(TYPES.ConfigService)
+		.getAuthConfig();
+	const resolvers: IPrincipalResolver[] = [
+		new BearerTokenPrincipalResolver(context.get<ITokenService>(TYPES.TokenService))
+	];
+	if (principalHeaderSecret) {
+		resolvers.push(
+			new SignedHeaderPrincipalResolver(
+				principalHeaderSecret,
+				context.get<IUserRepository>(TYPES.UserRepository)
+			)
+		);
+	}
+	return new ChainedPrincipalResolver(resolvers);
+});
+
+// Bind Health checks: every IHealthCheck bound to TYPES.HealthCheck is part of the
+// readiness report. Resolved per request, so they probe that request's bindings
+container.bind<IHealthService>(TYPES.HealthService).to(HealthService);
+container.bind<IHealthCheck>(TYPES.HealthCheck).to(RepositoryHealthCheck);
+container.bind<IHealthCheck>(TYPES.HealthCheck).to(ConfigHealthCheck);
+container.bind<IHealthCheck>(TYPES.HealthCheck).to(KvHealthCheck);
+
+// Rate-limit counters live in the store chosen by RATE_LIMIT_STORE; the KV and Durable
+// Object bindings come from the request's platform env (checked by the config schema)
+container.bind<IRateLimitStore>(TYPES.RateLimitStore).toDynamicValue((context) => {
+	const { store } = context.get<IConfigService>(TYPES.ConfigService).getRateLimitConfig();
+	const env = context.get<IRequestContext>(TYPES.RequestContext, { optional: true })?.env;
+	if (store === 'kv' && env?.CACHE) {
+		return new KvRateLimitStore(env.CACHE);
+	}
+	if (store === 'durable-object' && env?.RATE_LIMITER) {
+		return new DurableObjectRateLimitStore(env.RATE_LIMITER);
+	}
+	return memoryRateLimitStore;
+});
+
+// Responses stored for Idempotency-Key replays, in the store chosen by IDEMPOTENCY_STORE
+container.bind<IIdempotencyStore>(TYPES.IdempotencyStore).toDynamicValue((context) => {
+	const { store } = context.get<IConfigService>(TYPES.ConfigService).getIdempotencyConfig();
+	const env = context.get<IRequestContext>(TYPES.RequestContext, { optional: true })?.env;
+	return store === 'kv' && env?.CACHE ? new KvIdempotencyStore(env.CACHE) : memoryIdempotencyStore;
+});
 
 // Bind Infrastructure services
-container.bind<ILogger>(TYPES.Logger).toConstantValue(new Logger('API'));
+// Loggers follow the configuration in scope: process.env here, the platform env in requests
+container
+	.bind<ILogSink>(TYPES.LogSink)
+	.toDynamicValue((context) =>
+		context.get<IConfigService>(TYPES.ConfigService).getLogConfig().format === 'pretty'
+			? new PrettyConsoleSink()
+			: new ConsoleJsonSink()
+	);
 container.bind<ILoggerFactory>(TYPES.LoggerFactory).to(LoggerFactory);
-container.bind<IConfigService>(TYPES.ConfigService).to(ConfigService).inSingletonScope();
+container
+	.bind<ILogger>(TYPES.Logger)
+	.toDynamicValue((context) =>
+		context.get<ILoggerFactory>(TYPES.LoggerFactory).createLogger('API')
+	);
+// One registry for the process, so every request adds to the same metrics
+container.bind<IMetricsRegistry>(TYPES.MetricsRegistry).to(MetricsRegistry).inSingletonScope();
+// Outside a request only `process.env` is available; it is re-read on every resolution.
+// Platform secrets and bindings are left to the request configuration (see loadConfig)
+container.bind<IConfigService>(TYPES.ConfigService).toDynamicValue(() => loadProcessConfig());
+
+// A platform env object lives as long as the Worker isolate, so each is validated once
+const configByEnv = new WeakMap<object, IConfigService>();
+
+/**
+ * Configuration from `process.env` alone. Throws ConfigError for invalid values, but
+ * not for missing platform secrets or bindings: on Workers `process.env` is empty and
+ * those only arrive with a request's platform env.
+ */
+export function loadProcessConfig(): IConfigService {
+	return new ConfigService(readProcessEnv(), processEnvSchema);
+}
+
+/**
+ * Configuration for a request's platform env (Cloudflare bindings), merged over
+ * `process.env`. Throws ConfigError with every invalid or missing value, so a
+ * misconfigured deployment fails on its first request rather than running on defaults.
+ */
+export function loadConfig(env?: object): IConfigService {
+	if (!env) {
+		return new ConfigService();
+	}
+
+	let config = configByEnv.get(env);
+	if (!config) {
+		config = new ConfigService({ ...readProcessEnv(), ...env });
+		configByEnv.set(env, config);
+	}
+	return config;
+}
+
+// The binding name goes to the logs only: problem details are sent to the client
+function resolveDatabase(db: D1Database | undefined, url: string, logger: ILogger): D1Database {
+	if (!db) {
+		logger.error('D1 binding is not available in this environment', undefined, {
+			binding: getD1BindingName(url) ?? url
+		});
+		throw new InternalServerError('Database is not available', {
+			code: 'database_unavailable'
+		});
+	}
+	return db;
+}
+
+/**
+ * Child container for one API request. It holds what only exists per request:
+ * the request context (and its principal), a logger stamped with the request and
+ * trace IDs, and the configuration and D1 database from the platform env, which on
+ * Workers is only reachable through the request. Everything else is resolved from
+ * the root container, with these bindings taking precedence for the request's
+ * transient services. Throws ConfigError when the platform env is invalid.
+ *
+ * Root singletons must not depend on request-scoped bindings: they would keep
+ * whatever the first request resolved.
+ */
+export function createRequestContainer(requestContext: IRequestContext): Container {
+	const config = loadConfig(requestContext.env);
+	const requestContainer = new Container({ parent: container });
+
+	requestContainer.bind<IConfigService>(TYPES.ConfigService).toConstantValue(config);
+	requestContainer.bind<IRequestContext>(TYPES.RequestContext).toConstantValue(requestContext);
+	requestContainer.bind<ILogger>(TYPES.Logger).toConstantValue(
+		requestContainer.get<ILoggerFactory>(TYPES.LoggerFactory).createLogger('API', {
+			requestId: requestContext.requestId,
+			traceId: requestContext.trace.traceId,
+			spanId: requestContext.trace.spanId
+		})
+	);
+
+	const { url } = config.getDatabaseConfig();
+	const bindingName = getD1BindingName(url);
+	const db = bindingName
+		? (requestContext.env as Record<string, unknown> | undefined)?.[bindingName]
+		: undefined;
+	if (db) {
+		requestContainer.bind<D1Database>(TYPES.Database).toConstantValue(db as D1Database);
+	}
+
+	return requestContainer;
+}
+
+// Release the request's bindings (running their deactivation handlers) once it is handled
+export async function disposeRequestContainer(requestContainer: Container): Promise<void> {
+	await requestContainer.unbindAll();
+}
+
+/**
+ * Run a SvelteKit server `load` against a request container, so pages rendered on
+ * the server resolve the same services, configuration and D1 database as the API.
+ * Pages are rendered anonymously (no principal); the container is disposed once
+ * `task` settles.
+ */
+export async function withRequestContainer<T>(
+	event: { request: Request; platform?: { env: IRequestContext['env'] } },
+	task: (requestContainer: Container) => Promise<T>
+): Promise<T> {
+	const { headers } = event.request;
+	const requestContainer = createRequestContainer({
+		requestId: headers.get('X-Request-Id') ?? crypto.randomUUID(),
+		trace: createTraceContext(parseTraceparent(headers.get(TRACEPARENT_HEADER))),
+		env: event.platform?.env,
+		principal: null
+	});
+	try {
+		return await task(requestContainer);
+	} finally {
+		await disposeRequestContainer(requestContainer);
+	}
+}
 
 export { container };
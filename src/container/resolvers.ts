@@ -1,10 +1,20 @@
 import type { Context } from 'hono';
 import { TYPES } from './types';
 import type { IUserService } from '../interfaces/user.interface';
+import type { IAuthService } from '../interfaces/auth.interface';
+import type {
+	IAuthorizationService,
+	IPrincipalResolver
+} from '../interfaces/authorization.interface';
 import type { ILogger } from '../interfaces/logger.interface';
 import type { IConfigService } from '../interfaces/config.interface';
+import type { IHealthService } from '../interfaces/health.interface';
+import type { IMetricsRegistry } from '../interfaces/metrics.interface';
+import type { IIdempotencyStore } from '../interfaces/idempotency.interface';
+import type { IRateLimitStore } from '../interfaces/rate-limit.interface';
+import type { IRequestContext } from '../interfaces/request.interface';
 
-// Helper function to resolve services from Hono context
+// Helper function to resolve services from the request container in Hono context
 export const getService = <T>(c: Context, serviceType: symbol): T => {
 	const diContainer = c.get('container');
 	return diContainer.get<T>(serviceType);
@@ -15,6 +25,19 @@ export const getUserService = (c: Context) => {
 	return getService<IUserService>(c, TYPES.UserService);
 };
 
+export const getAuthService = (c: Context) => {
+	return getService<IAuthService>(c, TYPES.AuthService);
+};
+
+export const getAuthorizationService = (c: Context) => {
+	return getService<IAuthorizationService>(c, TYPES.AuthorizationService);
+};
+
+export const getPrincipalResolver = (c: Context) => {
+	return getService<IPrincipalResolver>(c, TYPES.PrincipalResolver);
+};
+
+// Within a request this is the request logger, stamped with the request and trace IDs
 export const getLogger = (c: Context) => {
 	return getService<ILogger>(c, TYPES.Logger);
 };
@@ -22,3 +45,23 @@ export const getLogger = (c: Context) => {
 export const getConfigService = (c: Context) => {
 	return getService<IConfigService>(c, TYPES.ConfigService);
 };
+
+export const getRequestContext = (c: Context) => {
+	return getService<IRequestContext>(c, TYPES.RequestContext);
+};
+
+export const getMetricsRegistry = (c: Context) => {
+	return getService<IMetricsRegistry>(c, TYPES.MetricsRegistry);
+};
+
+export const getHealthService = (c: Context) => {
+	return getService<IHealthService>(c, TYPES.HealthService);
+};
+
+export const getRateLimitStore = (c: Context) => {
+	return getService<IRateLimitStore>(c, TYPES.RateLimitStore);
+};
+
+export const getIdempotencyStore = (c: Context) => {
+	return getService<IIdempotencyStore>(c, TYPES.IdempotencyStore);
+};
@@ -4,15 +4,41 @@ export const TYPES = {
 	UserService: Symbol.for('UserService'),
 	UserRepository: Symbol.for('UserRepository'),
 
+	// Authentication
+	AuthService: Symbol.for('AuthService'),
+	AuthRepository: Symbol.for('AuthRepository'),
+	PasswordHasher: Symbol.for('PasswordHasher'),
+	TokenService: Symbol.for('TokenService'),
+
+	// Authorization
+	AuthorizationService: Symbol.for('AuthorizationService'),
+	PrincipalResolver: Symbol.for('PrincipalResolver'),
+
+	// Per-request state, bound in the request container
+	RequestContext: Symbol.for('RequestContext'),
+
+	// Persistence
+	Database: Symbol.for('Database'),
+
 	// Infrastructure services
 	Logger: Symbol.for('Logger'),
 	LoggerFactory: Symbol.for('LoggerFactory'),
+	LogSink: Symbol.for('LogSink'),
 	ConfigService: Symbol.for('ConfigService'),
+	MetricsRegistry: Symbol.for('MetricsRegistry'),
+	HealthService: Symbol.for('HealthService'),
+	HealthCheck: Symbol.for('HealthCheck'),
+	RateLimitStore: Symbol.for('RateLimitStore'),
+	IdempotencyStore: Symbol.for('IdempotencyStore'),
 
 	// Client-side services (for Svelte components)
 	HttpClient: Symbol.for('HttpClient'),
+	HttpInterceptor: Symbol.for('HttpInterceptor'),
 	UserApiService: Symbol.for('UserApiService'),
 	HealthApiService: Symbol.for('HealthApiService'),
 	HelloApiService: Symbol.for('HelloApiService'),
+	AuthApiService: Symbol.for('AuthApiService'),
+	SessionStore: Symbol.for('SessionStore'),
+	QueryCache: Symbol.for('QueryCache'),
 	ApiService: Symbol.for('ApiService')
 } as const;
@@ -0,0 +1,8 @@
+import type { ServerInit } from '@sveltejs/kit';
+import { loadProcessConfig } from './container/inversify.server';
+
+// Fail fast on an invalid `process.env`. Secrets and bindings may live in the platform
+// env, which only exists per request, so each request's configuration checks those
+export const init: ServerInit = () => {
+	loadProcessConfig();
+};
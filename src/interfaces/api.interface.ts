@@ -1,40 +1,83 @@
-import type { User } from '../models/user.model';
+import type { InferResponseType } from 'hono/client';
+import type { JsonPatchOperation } from '../lib/json-patch';
+import type { SignInRequest, SignUpRequest } from '../models/auth.model';
+import type {
+	CreateUserRequest,
+	ReplaceUserRequest,
+	UpdateUserRequest,
+	UserListQuery
+} from '../models/user.model';
+import type { RpcClient } from '../services/client/rpc-client';
+import type { IMutation } from './resource.interface';
+import type { UserWriteOptions } from './user.interface';
 import type { HealthStatus } from '../types/health';
+import type { PaginatedResult } from '../types/pagination';
 
-// API Response types
-export interface ApiResponse<T> {
-	data?: T;
-	message?: string;
-	error?: string;
-}
+// API response types, inferred from the server routes so they cannot drift
+export type UserResource = InferResponseType<RpcClient['users'][':id']['$get'], 200>['data'];
+export type HelloResponse = InferResponseType<RpcClient['hello']['$get']>;
+export type AuthSessionResource = InferResponseType<
+	RpcClient['auth']['sign-in']['$post'],
+	200
+>['data'];
+export type SessionInfoResource = InferResponseType<
+	RpcClient['auth']['session']['$get'],
+	200
+>['data'];
+
+// Query cache keys for user reads; writes through IUserApiService invalidate them
+export const userQueryKeys = {
+	all: ['users'] as const,
+	lists: () => [...userQueryKeys.all, 'list'] as const,
+	list: (query: UserListQuery = {}) => [...userQueryKeys.lists(), query] as const,
+	detail: (id: number) => [...userQueryKeys.all, 'detail', id] as const
+};
 
-export interface HelloResponse {
-	message: string;
-	timestamp?: string;
-	environment?: string;
+// Per-call options for reads; aborting the signal cancels the request
+export interface ReadOptions {
+	signal?: AbortSignal;
 }
 
+// Filters and sort for loading every user; the pages are fetched in turn
+export type UserListFilter = Omit<UserListQuery, 'cursor' | 'limit' | 'page' | 'pageSize'>;
+
 // User API Service Interface
 export interface IUserApiService {
 	/**
-	 * Fetch all users from the API
+	 * Fetch every user matching the filter, following the cursor through all pages
 	 */
-	getAllUsers(): Promise<User[]>;
+	getAllUsers(filter?: UserListFilter, options?: ReadOptions): Promise<UserResource[]>;
+
+	/**
+	 * Fetch a page of users together with its pagination metadata
+	 */
+	listUsers(query?: UserListQuery, options?: ReadOptions): Promise<PaginatedResult<UserResource>>;
 
 	/**
 	 * Fetch a single user by ID
 	 */
-	getUserById(id: number): Promise<User>;
+	getUserById(id: number): Promise<UserResource>;
 
 	/**
 	 * Create a new user
 	 */
-	createUser(userData: { name: string; email: string }): Promise<User>;
+	createUser(userData: CreateUserRequest): Promise<UserResource>;
+
+	/**
+	 * Replace an existing user (PUT) - every field is required
+	 */
+	updateUser(id: number, userData: ReplaceUserRequest): Promise<UserResource>;
 
 	/**
-	 * Update an existing user
+	 * Partially update a user. Objects are sent as a JSON Merge Patch,
+	 * arrays of operations as a JSON Patch document. With `expectedVersion` the patch is
+	 * sent with that If-Match, so it fails with 412 if someone else changed the user since
 	 */
-	updateUser(id: number, userData: { name?: string; email?: string }): Promise<User>;
+	patchUser(
+		id: number,
+		patch: UpdateUserRequest | JsonPatchOperation[],
+		options?: UserWriteOptions
+	): Promise<UserResource>;
 
 	/**
 	 * Delete a user by ID
@@ -42,12 +85,32 @@ export interface IUserApiService {
 	deleteUser(id: number): Promise<void>;
 }
 
+/**
+ * User writes for components. Each shows its outcome in every cached user list at
+ * once and undoes it if the API rejects the write; writes to one user are sent in order.
+ */
+export interface IUserMutations {
+	create: IMutation<[userData: CreateUserRequest], UserResource>;
+	// Sent as a JSON Merge Patch, guarded by expectedVersion when given (see patchUser)
+	update: IMutation<
+		[id: number, changes: UpdateUserRequest, expectedVersion?: number],
+		UserResource
+	>;
+	remove: IMutation<[id: number], void>;
+}
+
 // Health API Service Interface
 export interface IHealthApiService {
 	/**
-	 * Check the health status of the API
+	 * Check whether the API is ready to serve, with the result of each dependency check.
+	 * Resolves with `status: 'fail'` rather than throwing when a critical check fails
 	 */
 	checkHealth(): Promise<HealthStatus>;
+
+	/**
+	 * Check that the API process is up, without probing its dependencies
+	 */
+	checkLiveness(): Promise<HealthStatus>;
 }
 
 // Hello API Service Interface
@@ -58,9 +121,43 @@ export interface IHelloApiService {
 	getHello(): Promise<HelloResponse>;
 }
 
+// Auth API Service Interface
+export interface IAuthApiService {
+	/**
+	 * Create an account and keep its tokens on the HttpClient
+	 */
+	signUp(request: SignUpRequest): Promise<AuthSessionResource>;
+
+	/**
+	 * Sign in and keep the tokens on the HttpClient
+	 */
+	signIn(request: SignInRequest): Promise<AuthSessionResource>;
+
+	/**
+	 * Revoke the session on the server and forget the tokens
+	 */
+	signOut(): Promise<void>;
+
+	/**
+	 * Fetch the signed-in user
+	 */
+	getCurrentUser(): Promise<UserResource>;
+
+	/**
+	 * Fetch the caller's role and permissions (anonymous callers get none)
+	 */
+	getSession(): Promise<SessionInfoResource>;
+
+	/**
+	 * Whether session tokens are currently held
+	 */
+	isAuthenticated(): boolean;
+}
+
 // Combined API Service Interface (optional - if you want a facade)
 export interface IApiService {
 	users: IUserApiService;
 	health: IHealthApiService;
 	hello: IHelloApiService;
+	auth: IAuthApiService;
 }
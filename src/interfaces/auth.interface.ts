@@ -0,0 +1,78 @@
+import type { SignInRequest, SignUpRequest } from '../models/auth.model';
+import type { User } from './user.interface';
+
+// The authenticated caller, resolved from a verified access token
+export interface Principal {
+	userId: number;
+	email: string;
+}
+
+export interface AuthTokens {
+	accessToken: string;
+	refreshToken: string;
+	tokenType: 'Bearer';
+	// Access token lifetime in seconds
+	expiresIn: number;
+}
+
+export interface AuthSession {
+	user: User;
+	tokens: AuthTokens;
+}
+
+export interface UserCredential {
+	userId: number;
+	passwordHash: string;
+}
+
+// Refresh tokens are stored as SHA-256 hashes, never in plain text.
+// Every token issued by rotating a sign-in shares its familyId.
+export interface RefreshTokenRecord {
+	tokenHash: string;
+	userId: number;
+	familyId: string;
+	expiresAt: Date;
+	// Set once the token has been exchanged; presenting it again means it leaked
+	rotatedAt: Date | null;
+	revokedAt: Date | null;
+}
+
+export interface IPasswordHasher {
+	hash(password: string): Promise<string>;
+	verify(password: string, passwordHash: string): Promise<boolean>;
+}
+
+export interface ITokenService {
+	issueAccessToken(principal: Principal): Promise<string>;
+	/**
+	 * Verify signature, issuer and expiry. Throws UnauthorizedError when invalid.
+	 */
+	verifyAccessToken(token: string): Promise<Principal>;
+	generateRefreshToken(): string;
+	hashRefreshToken(token: string): Promise<string>;
+}
+
+export interface IAuthRepository {
+	findCredential(userId: number): Promise<UserCredential | null>;
+	saveCredential(credential: UserCredential): Promise<void>;
+	createRefreshToken(record: RefreshTokenRecord): Promise<void>;
+	findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null>;
+	/**
+	 * Mark a token as exchanged. Returns false if it was already rotated or revoked,
+	 * so two concurrent refreshes with the same token cannot both succeed.
+	 */
+	markRefreshTokenRotated(tokenHash: string, rotatedAt: Date): Promise<boolean>;
+	revokeRefreshTokenFamily(familyId: string, revokedAt: Date): Promise<void>;
+}
+
+export interface IAuthService {
+	signUp(request: SignUpRequest): Promise<AuthSession>;
+	signIn(request: SignInRequest): Promise<AuthSession>;
+	/**
+	 * Exchange a refresh token for a new token pair. The old refresh token is
+	 * invalidated; reusing it revokes every token of the session.
+	 */
+	refresh(refreshToken: string): Promise<AuthTokens>;
+	signOut(refreshToken: string): Promise<void>;
+	authenticate(accessToken: string): Promise<Principal>;
+}
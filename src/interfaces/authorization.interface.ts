@@ -0,0 +1,21 @@
+import type { Permission, UserRole } from '../models/role.model';
+import type { Principal } from './auth.interface';
+
+/**
+ * Works out who is calling from the raw request.
+ * Returns null for anonymous requests and throws UnauthorizedError when
+ * credentials are present but invalid, so clients can tell the two apart.
+ */
+export interface IPrincipalResolver {
+	resolve(request: Request): Promise<Principal | null>;
+}
+
+// Interface Segregation - authorization decisions only, authentication lives in IAuthService
+export interface IAuthorizationService {
+	// The caller's current role, or null for anonymous callers and deleted users
+	getRole(principal: Principal | null): Promise<UserRole | null>;
+	getPermissions(principal: Principal | null): Promise<Permission[]>;
+	can(principal: Principal | null, permission: Permission): Promise<boolean>;
+	// Throws UnauthorizedError for anonymous callers and ForbiddenError without the permission
+	authorize(principal: Principal | null, permission: Permission): Promise<void>;
+}
@@ -1,8 +1,17 @@
+import type {
+	IdempotencyStoreKind,
+	LogFormat,
+	LogLevel,
+	RateLimitStoreKind
+} from '../models/env.model';
+
 // Configuration interface following Interface Segregation
 export interface IAppConfig {
 	port: number;
 	environment: string;
 	apiVersion: string;
+	// Git commit of the deployed build, when the deploy sets COMMIT_SHA
+	commit?: string;
 }
 
 export interface IDatabaseConfig {
@@ -11,7 +20,49 @@ export interface IDatabaseConfig {
 	timeout: number;
 }
 
+export interface IAuthConfig {
+	jwtSecret: string;
+	issuer: string;
+	// Lifetimes in seconds
+	accessTokenTtl: number;
+	refreshTokenTtl: number;
+	// Enables the signed X-Principal header for local testing; never set in production
+	principalHeaderSecret?: string;
+}
+
+export interface ILogConfig {
+	// Entries below this level are dropped
+	level: LogLevel;
+	// json: one JSON object per line; pretty: readable lines for local development
+	format: LogFormat;
+	redactKeys: string[];
+	// Requests taking at least this long (ms) are logged as warnings by the access log
+	slowRequestMs: number;
+}
+
+export interface IMetricsConfig {
+	// Bearer token required by GET /api/metrics; the endpoint is disabled without one
+	token?: string;
+}
+
+export interface IRateLimitConfig {
+	// memory: per process; kv: the CACHE namespace; durable-object: the RATE_LIMITER namespace
+	store: RateLimitStoreKind;
+}
+
+export interface IIdempotencyConfig {
+	// memory: per process; kv: the CACHE namespace
+	store: IdempotencyStoreKind;
+	// How long a response is replayed for its Idempotency-Key, in seconds
+	ttl: number;
+}
+
 export interface IConfigService {
 	getAppConfig(): IAppConfig;
 	getDatabaseConfig(): IDatabaseConfig;
+	getAuthConfig(): IAuthConfig;
+	getLogConfig(): ILogConfig;
+	getMetricsConfig(): IMetricsConfig;
+	getRateLimitConfig(): IRateLimitConfig;
+	getIdempotencyConfig(): IIdempotencyConfig;
 }
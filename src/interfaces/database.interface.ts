@@ -0,0 +1,30 @@
+// Minimal subset of the Cloudflare D1 client API used by the repositories.
+// Declared locally so the domain layer does not depend on @cloudflare/workers-types
+// and so tests can provide a SQLite-backed stand-in.
+export interface D1Result<T = Record<string, unknown>> {
+	results: T[];
+	success: boolean;
+	meta: {
+		changes?: number;
+		last_row_id?: number;
+		duration?: number;
+	};
+}
+
+export interface D1PreparedStatement {
+	bind(...values: unknown[]): D1PreparedStatement;
+	first<T = Record<string, unknown>>(): Promise<T | null>;
+	all<T = Record<string, unknown>>(): Promise<D1Result<T>>;
+	run<T = Record<string, unknown>>(): Promise<D1Result<T>>;
+}
+
+export interface D1Database {
+	prepare(query: string): D1PreparedStatement;
+	batch<T = Record<string, unknown>>(statements: D1PreparedStatement[]): Promise<D1Result<T>[]>;
+	exec(query: string): Promise<{ count: number; duration: number }>;
+}
+
+export interface Migration {
+	name: string;
+	sql: string;
+}
@@ -0,0 +1,25 @@
+import type { HealthCheckStatus, HealthStatus } from '../types/health';
+
+export interface HealthCheckOutcome {
+	status: HealthCheckStatus;
+	output?: string;
+}
+
+/**
+ * A dependency probe contributing to the readiness report. Implementations are
+ * bound to TYPES.HealthCheck (one binding each) and resolved per request, so they
+ * can use the request's platform bindings. A thrown error counts as `fail`.
+ */
+export interface IHealthCheck {
+	readonly name: string;
+	// Failures of non-critical checks are reported as `warn`: the app can serve without them
+	readonly critical: boolean;
+	check(): Promise<HealthCheckOutcome>;
+}
+
+export interface IHealthService {
+	// Liveness: the process is up and can answer; runs no checks
+	live(): HealthStatus;
+	// Readiness: runs every registered check and reports the worst status
+	ready(): Promise<HealthStatus>;
+}
@@ -1,50 +1,274 @@
+import type { z } from 'zod';
+import type { FieldError, ProblemDetails } from '../models/api.model';
+
 // HTTP Client Interface for making API requests
 export interface IHttpClient {
 	/**
 	 * Make a GET request
 	 */
-	get<T>(url: string, config?: RequestConfig): Promise<T>;
+	get<T>(url: string, config?: RequestConfig<T>): Promise<T>;
 
 	/**
 	 * Make a POST request
 	 */
-	post<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T>;
+	post<T>(url: string, data?: unknown, config?: RequestConfig<T>): Promise<T>;
 
 	/**
 	 * Make a PUT request
 	 */
-	put<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T>;
+	put<T>(url: string, data?: unknown, config?: RequestConfig<T>): Promise<T>;
 
 	/**
 	 * Make a PATCH request
 	 */
-	patch<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T>;
+	patch<T>(url: string, data?: unknown, config?: RequestConfig<T>): Promise<T>;
 
 	/**
 	 * Make a DELETE request
 	 */
-	delete<T>(url: string, config?: RequestConfig): Promise<T>;
+	delete<T>(url: string, config?: RequestConfig<T>): Promise<T>;
+
+	/**
+	 * Send a raw request and return the Response. Applies the base URL, default headers,
+	 * ETag handling, a `traceparent` header and error mapping (non-2xx responses throw
+	 * HttpError), and has the same signature as `fetch`, so it can back typed clients
+	 * such as Hono's `hc` (whose `init` option can carry the timeout and retry overrides).
+	 */
+	fetch(input: RequestInfo | URL, init?: RequestInit & FetchOptions): Promise<Response>;
+
+	/**
+	 * Check a response body against the schema the caller expects, as `config.schema`
+	 * does for the methods above; for bodies read from fetch() responses. Throws
+	 * ResponseValidationError on a mismatch, or only logs it in `'warn'` mode.
+	 */
+	validate<T>(schema: z.ZodType<T>, data: unknown, url: string): T;
+
+	/**
+	 * Last ETag received for a resource URL. PUT, PATCH and DELETE requests to
+	 * that URL send it back as If-Match unless the caller sets If-Match itself.
+	 */
+	getETag(url: string): string | undefined;
+
+	/**
+	 * Forget every remembered ETag
+	 */
+	clearETags(): void;
+
+	/**
+	 * Tokens of the current session, or null when signed out
+	 */
+	getTokens(): TokenPair | null;
+
+	/**
+	 * Store (or clear, with null) the session tokens. While set, requests carry
+	 * `Authorization: Bearer <accessToken>` unless the caller sets Authorization itself,
+	 * and a 401 response triggers one refresh and retry.
+	 */
+	setTokens(tokens: TokenPair | null): void;
+}
+
+// Access and refresh tokens issued by the auth endpoints
+export interface TokenPair {
+	accessToken: string;
+	refreshToken: string;
+}
+
+// Where the HttpClient keeps session tokens (memory, localStorage, ...)
+export interface ITokenStore {
+	get(): TokenPair | null;
+	set(tokens: TokenPair | null): void;
+}
+
+// The part of the Web Locks API (navigator.locks) used to refresh tokens one tab at a time
+export interface ILockManager {
+	request<T>(name: string, callback: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * When a failed request is sent again. Network errors, timeouts and the retryable
+ * statuses are retried for the retryable methods, and for any request carrying an
+ * Idempotency-Key, with exponential backoff and full jitter between attempts.
+ * A Retry-After header replaces the backoff delay; one longer than maxDelayMs
+ * ends the retries.
+ */
+export interface RetryPolicy {
+	// Attempts in total, including the first; 1 disables retries
+	maxAttempts: number;
+	// Backoff ceiling before the first retry, doubled for each following one
+	baseDelayMs: number;
+	maxDelayMs: number;
+	retryableStatuses: number[];
+	retryableMethods: string[];
+}
+
+// A request on its way through the interceptors, with headers as a plain record
+export interface HttpRequest extends Omit<RequestInit, 'method' | 'headers'> {
+	method: string;
+	url: string;
+	headers: Record<string, string>;
+}
+
+// Sends a request through the rest of the interceptor chain and the network
+export type HttpHandler = (request: HttpRequest) => Promise<Response>;
+
+/**
+ * Hooks around every request the HttpClient sends. `onRequest` hooks run in
+ * registration order and `onResponse`/`onError` hooks in reverse, so the first
+ * interceptor sees the request first and the response last. Each attempt of a
+ * retried request passes through the chain again.
+ */
+export interface IHttpInterceptor {
+	// Return the request to send, changed or not
+	onRequest?(request: HttpRequest): HttpRequest | Promise<HttpRequest>;
+	// Every response, error statuses included (they become HttpError after the chain).
+	// `next` sends a request again through the interceptors after this one
+	onResponse?(
+		response: Response,
+		request: HttpRequest,
+		next: HttpHandler
+	): Response | Promise<Response>;
+	// Failures without a response (NetworkError, TimeoutError, aborts): rethrow, or
+	// return a response to recover
+	onError?(error: unknown, request: HttpRequest, next: HttpHandler): Response | Promise<Response>;
+}
+
+export interface HttpClientOptions {
+	tokenStore?: ITokenStore;
+	// Endpoint that exchanges a refresh token for a new pair, relative to the base URL
+	refreshPath?: string;
+	// Serializes refreshes between tabs sharing the token store; defaults to navigator.locks
+	// where the browser has it. Without one, refreshes are only shared within this client
+	locks?: ILockManager;
+	// Per attempt, in milliseconds; 0 disables the timeout
+	timeout?: number;
+	retry?: Partial<RetryPolicy>;
+	// Run on every request, before any per-call interceptors
+	interceptors?: IHttpInterceptor[];
+	// What a response that fails its schema does: throw (default) or log a warning
+	responseValidation?: ResponseValidationMode;
+	// Receives the warnings of responseValidation 'warn'; defaults to the console
+	logger?: Pick<Console, 'warn'>;
+	// POST paths, relative to the base URL, whose routes honour Idempotency-Key. Only
+	// these get a key per call, which also makes them retryable
+	idempotentPosts?: string[];
 }
 
+export type ResponseValidationMode = 'error' | 'warn';
+
 // Request configuration options
-export interface RequestConfig {
+export interface RequestConfig<T = unknown> {
 	headers?: Record<string, string>;
 	params?: Record<string, string | number | boolean>;
+	// Overrides the client's timeout for this request
 	timeout?: number;
+	// Overrides parts of the client's retry policy; false disables retries
+	retry?: Partial<RetryPolicy> | false;
+	// Extra interceptors for this request only, run after the client's own
+	interceptors?: IHttpInterceptor[];
+	// Checks the response body and types the result; see IHttpClient.validate()
+	schema?: z.ZodType<T>;
 	signal?: AbortSignal;
 }
 
-// HTTP Error with additional context
+// The per-request overrides IHttpClient.fetch() accepts next to the RequestInit
+export type FetchOptions = Pick<RequestConfig, 'timeout' | 'retry' | 'interceptors'>;
+
+// HTTP Error with additional context. When the API answers with problem details
+// (RFC 9457), their code and per-field errors are exposed as structured fields.
 export class HttpError extends Error {
+	public readonly code?: string;
+	public readonly fieldErrors: FieldError[];
+
 	constructor(
 		message: string,
 		public readonly status: number,
 		public readonly statusText: string,
 		public readonly url: string,
-		public readonly response?: unknown
+		public readonly response?: unknown,
+		public readonly problem?: ProblemDetails
 	) {
 		super(message);
 		this.name = 'HttpError';
+		this.code = problem?.code;
+		this.fieldErrors = problem?.errors ?? [];
 		Object.setPrototypeOf(this, HttpError.prototype);
 	}
+
+	/**
+	 * Message of the first server error reported for a field, e.g. `getFieldError('email')`
+	 */
+	getFieldError(field: string): string | undefined {
+		return this.fieldErrors.find((error) => error.field === field)?.message;
+	}
+}
+
+// 429 Too Many Requests. `retryAfterMs` comes from the Retry-After header, when sent
+export class RateLimitError extends HttpError {
+	constructor(
+		message: string,
+		statusText: string,
+		url: string,
+		public readonly retryAfterMs: number | null,
+		response?: unknown,
+		problem?: ProblemDetails
+	) {
+		super(message, 429, statusText, url, response, problem);
+		this.name = 'RateLimitError';
+		Object.setPrototypeOf(this, RateLimitError.prototype);
+	}
+}
+
+// The request never got a response: offline, DNS failure, connection reset, CORS...
+export class NetworkError extends Error {
+	constructor(
+		message: string,
+		public readonly url: string,
+		options?: { cause?: unknown }
+	) {
+		super(message, options);
+		this.name = 'NetworkError';
+		Object.setPrototypeOf(this, NetworkError.prototype);
+	}
+}
+
+// No response within the timeout; the request was aborted
+export class TimeoutError extends NetworkError {
+	constructor(
+		url: string,
+		public readonly timeoutMs: number
+	) {
+		super(`Request timed out after ${timeoutMs}ms`, url);
+		this.name = 'TimeoutError';
+		Object.setPrototypeOf(this, TimeoutError.prototype);
+	}
+}
+
+// The response body does not match the schema the client expected: the API contract drifted
+export class ResponseValidationError extends Error {
+	constructor(
+		message: string,
+		public readonly url: string,
+		// Dotted path of the first offending value, '' when it is the body itself
+		public readonly path: string,
+		public readonly errors: FieldError[]
+	) {
+		super(message);
+		this.name = 'ResponseValidationError';
+		Object.setPrototypeOf(this, ResponseValidationError.prototype);
+	}
+
+	static fromZodError(error: z.ZodError, url: string): ResponseValidationError {
+		const errors = error.issues.map((issue) => ({
+			field: issue.path.map(String).join('.'),
+			message: issue.message,
+			code: issue.code
+		}));
+		const [first] = errors;
+		return new ResponseValidationError(
+			`Unexpected response from ${url || 'the API'} at ${first.field || '(body)'}: ${first.message}`,
+			url,
+			first.field,
+			errors
+		);
+	}
 }
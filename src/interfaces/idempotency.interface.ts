@@ -0,0 +1,26 @@
+// A response as replayed for a repeated Idempotency-Key
+export interface StoredResponse {
+	status: number;
+	headers: Record<string, string>;
+	body: string;
+}
+
+export interface IdempotencyRecord {
+	// Hash of the method, path and body of the request that first used the key
+	fingerprint: string;
+	// Missing while that request is still being handled
+	response?: StoredResponse;
+}
+
+/**
+ * Where Idempotency-Key records are kept until they expire.
+ * Keys are already scoped to the caller by the middleware.
+ */
+export interface IIdempotencyStore {
+	// Claim `key` for a new request; returns the existing record instead when the key is taken
+	reserve(key: string, fingerprint: string, ttlSeconds: number): Promise<IdempotencyRecord | null>;
+	// Store the response to replay for the key
+	complete(key: string, record: IdempotencyRecord, ttlSeconds: number): Promise<void>;
+	// Free the key after a failure, so the client can retry with it
+	release(key: string): Promise<void>;
+}
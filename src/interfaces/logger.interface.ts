@@ -1,11 +1,41 @@
+import type { LogLevel } from '../models/env.model';
+
 // Single Responsibility Principle - Dedicated logging interface
 export interface ILogger {
 	info(message: string, meta?: Record<string, unknown>): void;
 	warn(message: string, meta?: Record<string, unknown>): void;
 	error(message: string, error?: Error, meta?: Record<string, unknown>): void;
 	debug(message: string, meta?: Record<string, unknown>): void;
+	// Logger with the same context that adds `bindings` (e.g. requestId) to every entry
+	child(bindings: Record<string, unknown>): ILogger;
 }
 
 export interface ILoggerFactory {
-	createLogger(context: string): ILogger;
+	// Logger for `context`, with optional fields bound to every entry
+	createLogger(context: string, bindings?: Record<string, unknown>): ILogger;
+}
+
+// A log line after level filtering and redaction, as handed to sinks
+export interface LogEntry {
+	timestamp: string;
+	level: LogLevel;
+	context: string;
+	message: string;
+	// Fields bound through child() / createLogger(), e.g. requestId
+	bindings: Record<string, unknown>;
+	meta?: Record<string, unknown>;
+}
+
+// Where log entries go (console, a test buffer, ...)
+export interface ILogSink {
+	write(entry: LogEntry): void;
+}
+
+export interface LoggerOptions {
+	// Entries below this level are dropped
+	level?: LogLevel;
+	// Keys whose values are replaced with [REDACTED] anywhere in bindings and meta
+	redactKeys?: readonly string[];
+	sink?: ILogSink;
+	bindings?: Record<string, unknown>;
 }
@@ -0,0 +1,42 @@
+// Label values by label name, e.g. { method: 'GET', status: '200' }
+export type MetricLabels = Record<string, string | number>;
+
+export interface ICounter {
+	inc(labels?: MetricLabels, value?: number): void;
+	get(labels?: MetricLabels): number;
+}
+
+export interface IGauge {
+	set(value: number, labels?: MetricLabels): void;
+	inc(labels?: MetricLabels, value?: number): void;
+	dec(labels?: MetricLabels, value?: number): void;
+	get(labels?: MetricLabels): number;
+}
+
+export interface IHistogram {
+	observe(value: number, labels?: MetricLabels): void;
+	// Number of observations, for tests and dashboards that do not need the buckets
+	count(labels?: MetricLabels): number;
+}
+
+export interface MetricOptions {
+	help: string;
+	labelNames?: readonly string[];
+}
+
+export interface HistogramOptions extends MetricOptions {
+	// Upper bounds, ascending; +Inf is implied
+	buckets?: readonly number[];
+}
+
+/**
+ * Process-wide metrics. Getters create the metric on first use and return the
+ * same instance afterwards, so call sites can ask for it on every request.
+ */
+export interface IMetricsRegistry {
+	counter(name: string, options: MetricOptions): ICounter;
+	gauge(name: string, options: MetricOptions): IGauge;
+	histogram(name: string, options: HistogramOptions): IHistogram;
+	// Every metric in the Prometheus text exposition format (version 0.0.4)
+	render(): string;
+}
@@ -0,0 +1,85 @@
+// Identifies a cached query, e.g. ['users', 'list', { sort: 'name' }]. Object key order does not matter
+export type QueryKey = readonly unknown[];
+
+// The signal is aborted when the last observer of the key stops before the fetch settles
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryOptions {
+	// How long, in milliseconds, fetched data is served without asking the API again
+	staleTime?: number;
+	// How long, in milliseconds, a key nobody observes is kept after its last use;
+	// Infinity keeps it for good
+	gcTime?: number;
+}
+
+/**
+ * Reactive view of one cached query: components reading these fields update when
+ * the query is fetched, set or invalidated anywhere in the app.
+ */
+export interface QueryState<T> {
+	// Last successful result, kept while a newer one is fetched
+	readonly data: T | undefined;
+	// Error of the last fetch, cleared by the next success
+	readonly error: unknown;
+	readonly isFetching: boolean;
+	// Fetching with nothing to show yet
+	readonly isLoading: boolean;
+	// When `data` was fetched or set, or null when there is none or it was invalidated
+	readonly updatedAt: number | null;
+}
+
+/**
+ * Client-side cache of API reads (stale-while-revalidate). Concurrent fetches of a
+ * key share one request, stale data is served while it is refreshed, and mutations
+ * invalidate the keys they affect so every component sees the same data.
+ */
+export interface IQueryCache {
+	/**
+	 * Reactive state for a key, created empty when the key has not been fetched yet.
+	 * Keys without observers are forgotten `gcTime` after their last use, so call this
+	 * again rather than keeping the state of an unobserved key
+	 */
+	get<T>(key: QueryKey): QueryState<T>;
+
+	/**
+	 * Cached data when fresh, otherwise the result of `fetcher` (or of the request
+	 * already in flight for the key). Rejects when the fetch fails
+	 */
+	fetch<T>(key: QueryKey, fetcher: QueryFetcher<T>, options?: QueryOptions): Promise<T>;
+
+	/**
+	 * Fetch the key if stale and keep it fresh (after invalidation, on window focus
+	 * and when the network comes back) until the returned function is called.
+	 * Failures are reported through `error` rather than thrown. When the last observer
+	 * stops, a fetch still in flight for the key is aborted
+	 */
+	observe<T>(key: QueryKey, fetcher: QueryFetcher<T>, options?: QueryOptions): () => void;
+
+	/**
+	 * Replace the cached data for a key, e.g. with the result of a mutation
+	 */
+	setData<T>(key: QueryKey, data: T | ((current: T | undefined) => T)): void;
+
+	/**
+	 * Update the data of every key starting with `prefix`, e.g. each cached page of a
+	 * list. Keys without data are left alone
+	 */
+	updateAll<T>(prefix: QueryKey, updater: (current: T, key: QueryKey) => T): void;
+
+	/**
+	 * Mark every key starting with `prefix` as stale and refetch the observed ones.
+	 * Resolves once those refetches have settled
+	 */
+	invalidate(prefix: QueryKey): Promise<void>;
+
+	/**
+	 * Forget a key, e.g. after the resource was deleted
+	 */
+	remove(key: QueryKey): void;
+
+	/**
+	 * Run `task` once every earlier task serialized on the same key has settled, so
+	 * concurrent writes to one resource reach the API in the order they were made
+	 */
+	serialize<T>(key: QueryKey, task: () => Promise<T>): Promise<T>;
+}
@@ -0,0 +1,10 @@
+import type { RateLimitPolicy, RateLimitResult } from '../lib/rate-limit';
+
+/**
+ * Where rate-limit counters are kept. Implementations persist the state and
+ * leave the arithmetic to consumeRateLimit(), so every store limits alike.
+ */
+export interface IRateLimitStore {
+	// Count one request for `key` and report whether it fits within `policy`
+	hit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+}
@@ -0,0 +1,16 @@
+import type { ServerEnv } from '../lib/env';
+import type { TraceContext } from '../lib/trace';
+import type { Principal } from './auth.interface';
+
+/**
+ * What is known about the API request being handled. Bound in the per-request
+ * child container, so services can depend on it like on any other service.
+ */
+export interface IRequestContext {
+	readonly requestId: string;
+	readonly trace: TraceContext;
+	// Platform bindings of this request (Cloudflare env); undefined outside Workers
+	readonly env: ServerEnv | undefined;
+	// The authenticated caller, set by authenticate(); null for anonymous requests
+	principal: Principal | null;
+}
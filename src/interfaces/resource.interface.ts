@@ -0,0 +1,60 @@
+import type { QueryKey } from './query-cache.interface';
+
+// idle: not run yet; loading: in flight; then the outcome of the latest run
+export type ResourceStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface ResourceOptions {
+	// Share the data through the query cache under this key (see IQueryCache)
+	key?: QueryKey;
+	// With `key`: how long cached data is served before it is refetched
+	staleTime?: number;
+	// Load when the component mounts (default true); otherwise wait for refetch()
+	immediate?: boolean;
+}
+
+/**
+ * Reactive result of a service read, for use in components. Fields update as the
+ * read settles; failures are reported through `error` and `status`, never thrown.
+ */
+export interface IResource<T> {
+	readonly data: T | undefined;
+	readonly error: unknown;
+	readonly status: ResourceStatus;
+	// Load again, ignoring the stale time
+	refetch(): Promise<void>;
+	// Replace the data locally (in the cache for keyed resources), e.g. after a write
+	mutate(data: T | ((current: T | undefined) => T)): void;
+}
+
+// A change shown before the server confirms it
+export interface OptimisticUpdate<TResult> {
+	// Replace the placeholder with what the server returned
+	commit?(result: TResult): void;
+	// Put things back after the server rejected the write
+	rollback(): void;
+}
+
+export interface MutationOptions<TArgs extends unknown[], TResult> {
+	// Apply the expected outcome at once; it is committed or rolled back when the write settles
+	optimistic?: (...args: TArgs) => OptimisticUpdate<TResult>;
+	// Writes in the same scope (e.g. to one user) are sent one after another, in call order
+	scope?: (...args: TArgs) => QueryKey;
+}
+
+/**
+ * Reactive state of a service write. `mutate` resolves with the result, or with
+ * undefined when the write failed; `error` and `status` tell the two apart.
+ * While any call is in flight the status is `loading`.
+ */
+export interface IMutation<TArgs extends unknown[], TResult> {
+	readonly data: TResult | undefined;
+	readonly error: unknown;
+	readonly status: ResourceStatus;
+	// Arguments of the latest call, or of the failed one while `error` is set
+	readonly variables: TArgs | undefined;
+	mutate(...args: TArgs): Promise<TResult | undefined>;
+	// Send the failed call again
+	retry(): Promise<TResult | undefined>;
+	// Back to idle, e.g. when the user dismisses the error
+	reset(): void;
+}
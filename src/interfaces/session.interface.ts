@@ -0,0 +1,26 @@
+import type { SignInRequest, SignUpRequest } from '../models/auth.model';
+import type { Permission, UserRole } from '../models/role.model';
+import type { UserResource } from './api.interface';
+
+/**
+ * Reactive view of the signed-in caller for the UI.
+ * Permissions only decide what is shown; the API enforces them regardless.
+ */
+export interface ISessionStore {
+	readonly user: UserResource | null;
+	readonly role: UserRole | null;
+	readonly permissions: readonly Permission[];
+	// False until the first load() completes, so the UI can avoid flashing hidden actions
+	readonly loaded: boolean;
+
+	can(permission: Permission): boolean;
+
+	/**
+	 * Fetch the caller's role and permissions from the API
+	 */
+	load(): Promise<void>;
+
+	signIn(request: SignInRequest): Promise<void>;
+	signUp(request: SignUpRequest): Promise<void>;
+	signOut(): Promise<void>;
+}
@@ -2,17 +2,25 @@
 export interface IUserRepository {
 	findById(id: number): Promise<User | null>;
 	findAll(): Promise<User[]>;
-	create(userData: Omit<User, 'id'>): Promise<User>;
-	update(id: number, userData: Partial<User>): Promise<User | null>;
-	delete(id: number): Promise<boolean>;
+	findMany(query: UserListQuery): Promise<PaginatedResult<User>>;
+	create(userData: NewUser): Promise<User>;
+	update(id: number, userData: Partial<User>, options?: UserWriteOptions): Promise<User | null>;
+	delete(id: number, options?: UserWriteOptions): Promise<boolean>;
 }
 
 export interface IUserService {
 	getUserById(id: number): Promise<User | null>;
 	getAllUsers(): Promise<User[]>;
+	listUsers(query: UserListQueryInput): Promise<PaginatedResult<User>>;
 	createUser(userData: CreateUserRequest): Promise<User>;
 	updateUser(id: number, userData: UpdateUserRequest): Promise<User | null>;
-	deleteUser(id: number): Promise<boolean>;
+	replaceUser(
+		id: number,
+		userData: ReplaceUserRequest,
+		options?: UserWriteOptions
+	): Promise<User | null>;
+	patchUser(id: number, patch: UserPatch, options?: UserWriteOptions): Promise<User | null>;
+	deleteUser(id: number, options?: UserWriteOptions): Promise<boolean>;
 }
 
 // Validation moved to Zod schemas; legacy interface removed
@@ -20,19 +28,41 @@ export interface IUserService {
 // DTOs for better type safety
 import type {
 	CreateUserRequest as CreateUserRequestModel,
-	UpdateUserRequest as UpdateUserRequestModel
+	UpdateUserRequest as UpdateUserRequestModel,
+	ReplaceUserRequest as ReplaceUserRequestModel,
+	UserListQuery,
+	UserListQueryInput
 } from '../models/user.model';
+import type { UserRole } from '../models/role.model';
+import type { PaginatedResult } from '../types/pagination';
 
 export interface User {
 	id: number;
 	name: string;
 	email: string;
 	createdAt: Date;
+	// Incremented on every write, exposed to clients as the ETag
+	version: number;
+	role: UserRole;
+}
+
+// Repositories assign the id and version, and DEFAULT_USER_ROLE when no role is given
+export type NewUser = Omit<User, 'id' | 'version' | 'role'> & { role?: UserRole };
+
+// Optimistic concurrency: writes fail with PreconditionFailedError on a version mismatch
+export interface UserWriteOptions {
+	expectedVersion?: number;
 }
 
 // Alias DTOs to schema-inferred types for consistency across layers
 export type CreateUserRequest = CreateUserRequestModel;
 export type UpdateUserRequest = UpdateUserRequestModel;
+export type ReplaceUserRequest = ReplaceUserRequestModel;
+
+// Partial update payloads, tagged by the media type they were sent with
+export type UserPatch =
+	| { type: 'merge-patch'; document: unknown }
+	| { type: 'json-patch'; operations: unknown };
 
 export interface ValidationResult {
 	isValid: boolean;
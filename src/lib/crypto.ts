@@ -0,0 +1,60 @@
+/**
+ * Small WebCrypto helpers shared by the authentication services.
+ * Only globals available on Cloudflare Workers, browsers and Node 20 are used.
+ */
+
+const encoder = new TextEncoder();
+
+export function toBase64(bytes: Uint8Array): string {
+	let binary = '';
+	bytes.forEach((byte) => {
+		binary += String.fromCharCode(byte);
+	});
+	return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+	const binary = atob(value);
+	return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+// URL-safe base64 without padding, suitable for tokens sent in JSON or headers
+export function toBase64Url(bytes: Uint8Array): string {
+	return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+	return crypto.getRandomValues(new Uint8Array(length));
+}
+
+// Opaque random token with `length` bytes of entropy
+export function randomToken(length = 32): string {
+	return toBase64Url(randomBytes(length));
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+	const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+	return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Compares every byte so the time taken does not reveal where the inputs differ
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.length !== b.length) return false;
+
+	let difference = 0;
+	for (let i = 0; i < a.length; i++) {
+		difference |= a[i] ^ b[i];
+	}
+	return difference === 0;
+}
+
+export async function hmacSha256(secret: string, value: string): Promise<Uint8Array> {
+	const key = await crypto.subtle.importKey(
+		'raw',
+		encoder.encode(secret),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign']
+	);
+	return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(value)));
+}
@@ -0,0 +1,9 @@
+/**
+ * Database URL helpers
+ * `d1://<BINDING>` selects the Cloudflare D1 database exposed under that binding name,
+ * anything else (e.g. the default `sqlite://memory`) keeps the in-memory repository.
+ */
+export function getD1BindingName(url: string): string | null {
+	const match = /^d1:\/\/([A-Za-z_][A-Za-z0-9_]*)$/.exec(url.trim());
+	return match ? match[1] : null;
+}
@@ -1,14 +1,32 @@
 import type { Container } from 'inversify';
-import { getContext, setContext } from 'svelte';
+import { getContext, onMount, setContext } from 'svelte';
 import { clientContainer } from '../../container/inversify.client';
 import { TYPES } from '../../container/types';
 import type {
 	IApiService,
+	IAuthApiService,
 	IHealthApiService,
 	IHelloApiService,
-	IUserApiService
+	IUserApiService,
+	IUserMutations
 } from '../../interfaces/api.interface';
+import { userQueryKeys } from '../../interfaces/api.interface';
 import type { IHttpClient } from '../../interfaces/http-client.interface';
+import type { IQueryCache, QueryFetcher, QueryState } from '../../interfaces/query-cache.interface';
+import type {
+	IMutation,
+	IResource,
+	MutationOptions,
+	ResourceOptions,
+	ResourceStatus
+} from '../../interfaces/resource.interface';
+import type { ISessionStore } from '../../interfaces/session.interface';
+import type { CreateUserRequest, UpdateUserRequest } from '../../models/user.model';
+import {
+	optimisticCreate,
+	optimisticDelete,
+	optimisticUpdate
+} from '../../services/client/optimistic-users';
 
 const DI_CONTAINER_KEY = Symbol('DI_CONTAINER');
 
@@ -44,7 +62,17 @@ export function getService<T>(serviceType: symbol): T {
 }
 
 /**
- * Hook to get the HTTP Client service
+ * Get a service if one is available, or null when there is no DI container in
+ * context or the service is not bound. Lets components degrade to their props.
+ */
+export function getOptionalService<T>(serviceType: symbol): T | null {
+	const container = getContext<Container | undefined>(DI_CONTAINER_KEY);
+	return container?.isBound(serviceType) ? container.get<T>(serviceType) : null;
+}
+
+/**
+ * Hook to get the HTTP Client service. Interceptors for a single call go in
+ * `config.interceptors` (or `init.interceptors` for fetch()), after the bound ones
  */
 export function useHttpClient(): IHttpClient {
 	return getService<IHttpClient>(TYPES.HttpClient);
@@ -71,6 +99,34 @@ export function useHelloApi(): IHelloApiService {
 	return getService<IHelloApiService>(TYPES.HelloApiService);
 }
 
+/**
+ * Hook to get the Auth API service
+ */
+export function useAuthApi(): IAuthApiService {
+	return getService<IAuthApiService>(TYPES.AuthApiService);
+}
+
+/**
+ * Hook to get the reactive session (current user, role and permissions)
+ */
+export function useSession(): ISessionStore {
+	return getService<ISessionStore>(TYPES.SessionStore);
+}
+
+/**
+ * Like useSession(), but null outside a DI context so components still render standalone
+ */
+export function useOptionalSession(): ISessionStore | null {
+	return getOptionalService<ISessionStore>(TYPES.SessionStore);
+}
+
+/**
+ * Hook to get the query cache shared by every component (cached API reads)
+ */
+export function useQueryCache(): IQueryCache {
+	return getService<IQueryCache>(TYPES.QueryCache);
+}
+
 /**
  * Hook to get the combined API service (facade pattern)
  */
@@ -87,3 +143,239 @@ export function useApi(): IApiService {
 export function createServiceHook<T>(serviceType: symbol): () => T {
 	return () => getService<T>(serviceType);
 }
+
+// Keyed resources read the shared cache entry, the others keep their own state
+class Resource<T> implements IResource<T> {
+	private localData = $state.raw<T | undefined>(undefined);
+	private localError = $state<unknown>(null);
+	private loading = $state(false);
+	private controller: AbortController | null = null;
+	// Reactive, so readers follow the entry when the cache replaces a forgotten one
+	private cached = $state.raw<QueryState<T> | null>(null);
+
+	constructor(
+		private readonly load: (signal: AbortSignal) => Promise<T>,
+		private readonly queryCache: IQueryCache | null,
+		private readonly options: ResourceOptions
+	) {
+		this.resolveCached();
+	}
+
+	get data(): T | undefined {
+		return this.cached ? this.cached.data : this.localData;
+	}
+
+	get error(): unknown {
+		return this.cached ? this.cached.error : this.localError;
+	}
+
+	get status(): ResourceStatus {
+		const loading = this.cached ? this.cached.isFetching : this.loading;
+		if (loading) return 'loading';
+		if (this.error) return 'error';
+		return this.data === undefined ? 'idle' : 'success';
+	}
+
+	// Returns the teardown to run when the component is destroyed
+	start(): () => void {
+		const stopObserving = this.options.immediate === false ? undefined : this.observe();
+		return () => {
+			stopObserving?.();
+			this.controller?.abort();
+		};
+	}
+
+	async refetch(): Promise<void> {
+		if (this.queryCache && this.options.key) {
+			this.resolveCached();
+			// Failures are already on the cache entry
+			await this.queryCache
+				.fetch(this.options.key, this.cacheLoader(), { staleTime: 0 })
+				.catch(() => undefined);
+			return;
+		}
+
+		this.controller?.abort();
+		const controller = new AbortController();
+		this.controller = controller;
+		this.loading = true;
+		try {
+			const data = await this.load(controller.signal);
+			if (!controller.signal.aborted) {
+				this.localData = data;
+				this.localError = null;
+			}
+		} catch (error) {
+			if (!controller.signal.aborted) {
+				this.localError = error;
+			}
+		} finally {
+			if (this.controller === controller) {
+				this.controller = null;
+				this.loading = false;
+			}
+		}
+	}
+
+	mutate(data: T | ((current: T | undefined) => T)): void {
+		if (this.queryCache && this.options.key) {
+			this.resolveCached();
+			this.queryCache.setData(this.options.key, data);
+			return;
+		}
+		this.localData =
+			typeof data === 'function' ? (data as (current: T | undefined) => T)(this.localData) : data;
+		this.localError = null;
+	}
+
+	// The cache forgets entries nobody observes (see QueryOptions.gcTime)
+	private resolveCached(): void {
+		this.cached =
+			this.queryCache && this.options.key ? this.queryCache.get<T>(this.options.key) : null;
+	}
+
+	private observe(): (() => void) | undefined {
+		if (this.queryCache && this.options.key) {
+			this.resolveCached();
+			return this.queryCache.observe(this.options.key, this.cacheLoader(), {
+				staleTime: this.options.staleTime
+			});
+		}
+		this.refetch();
+		return undefined;
+	}
+
+	// Cached requests are shared with other components, so the cache aborts them only
+	// once no component observes the key any more
+	private cacheLoader(): QueryFetcher<T> {
+		return (signal) => this.load(signal);
+	}
+}
+
+class Mutation<TArgs extends unknown[], TResult> implements IMutation<TArgs, TResult> {
+	data = $state.raw<TResult | undefined>(undefined);
+	error = $state<unknown>(null);
+	variables = $state.raw<TArgs | undefined>(undefined);
+	private outcome = $state<ResourceStatus>('idle');
+	private pending = $state(0);
+
+	constructor(
+		private readonly run: (...args: TArgs) => Promise<TResult>,
+		private readonly queryCache: IQueryCache | null,
+		private readonly options: MutationOptions<TArgs, TResult>
+	) {}
+
+	get status(): ResourceStatus {
+		return this.pending > 0 ? 'loading' : this.outcome;
+	}
+
+	async mutate(...args: TArgs): Promise<TResult | undefined> {
+		this.error = null;
+		this.variables = args;
+		this.pending++;
+		const update = this.options.optimistic?.(...args);
+		try {
+			const scope = this.options.scope?.(...args);
+			const data = await (scope && this.queryCache
+				? this.queryCache.serialize(scope, () => this.run(...args))
+				: this.run(...args));
+			update?.commit?.(data);
+			this.data = data;
+			this.outcome = 'success';
+			return data;
+		} catch (error) {
+			update?.rollback();
+			this.error = error;
+			this.variables = args;
+			this.outcome = 'error';
+			return undefined;
+		} finally {
+			this.pending--;
+		}
+	}
+
+	async retry(): Promise<TResult | undefined> {
+		return this.variables ? this.mutate(...this.variables) : undefined;
+	}
+
+	reset(): void {
+		this.data = undefined;
+		this.error = null;
+		this.variables = undefined;
+		this.outcome = 'idle';
+	}
+}
+
+/**
+ * Reactive read through a DI service. Call it while the component initialises: it loads
+ * on mount and, when the component is destroyed, aborts the signal passed to `load`. Keyed
+ * resources share the query cache entry, whose load is aborted once no component observes it.
+ *
+ * @example
+ * const users = createResource<IUserApiService, UserResource[]>(
+ * 	TYPES.UserApiService,
+ * 	(userApi) => userApi.getAllUsers(),
+ * 	{ key: userQueryKeys.list() }
+ * );
+ */
+export function createResource<S, T>(
+	serviceType: symbol,
+	load: (service: S, signal: AbortSignal) => Promise<T>,
+	options: ResourceOptions = {}
+): IResource<T> {
+	const service = getService<S>(serviceType);
+	const queryCache = options.key ? getService<IQueryCache>(TYPES.QueryCache) : null;
+	const resource = new Resource<T>((signal) => load(service, signal), queryCache, options);
+	onMount(() => resource.start());
+	return resource;
+}
+
+/**
+ * Reactive write through a DI service. Call it while the component initialises. With
+ * `optimistic`, the expected outcome is shown at once and undone if the write fails.
+ *
+ * @example
+ * const deleteUser = createMutation(TYPES.UserApiService, (userApi: IUserApiService, id: number) =>
+ * 	userApi.deleteUser(id)
+ * );
+ */
+export function createMutation<S, TArgs extends unknown[], TResult>(
+	serviceType: symbol,
+	run: (service: S, ...args: TArgs) => Promise<TResult>,
+	options: MutationOptions<TArgs, TResult> = {}
+): IMutation<TArgs, TResult> {
+	const service = getService<S>(serviceType);
+	const queryCache = options.scope ? getService<IQueryCache>(TYPES.QueryCache) : null;
+	return new Mutation<TArgs, TResult>((...args) => run(service, ...args), queryCache, options);
+}
+
+/**
+ * Optimistic user writes (see IUserMutations). Call it while the component initialises.
+ */
+export function useUserMutations(): IUserMutations {
+	const queryCache = getService<IQueryCache>(TYPES.QueryCache);
+	const scope = (id: number) => userQueryKeys.detail(id);
+
+	return {
+		create: createMutation(
+			TYPES.UserApiService,
+			(userApi: IUserApiService, userData: CreateUserRequest) => userApi.createUser(userData),
+			{ optimistic: (userData) => optimisticCreate(queryCache, userData) }
+		),
+		update: createMutation(
+			TYPES.UserApiService,
+			(
+				userApi: IUserApiService,
+				id: number,
+				changes: UpdateUserRequest,
+				expectedVersion?: number
+			) => userApi.patchUser(id, changes, { expectedVersion }),
+			{ scope, optimistic: (id, changes) => optimisticUpdate(queryCache, id, changes) }
+		),
+		remove: createMutation(
+			TYPES.UserApiService,
+			(userApi: IUserApiService, id: number) => userApi.deleteUser(id),
+			{ scope, optimistic: (id) => optimisticDelete(queryCache, id) }
+		)
+	};
+}
@@ -19,10 +19,14 @@ export function getServerEnv(platform: { env: { ENVIRONMENT: string } }) {
 	};
 }
 
-// Type definitions for environment variables
-export interface ServerEnv {
-	ENVIRONMENT: string;
-	// Add other server-side env var types here
+// Type definitions for environment variables. Server variables, secrets and
+// bindings are described by serverEnvSchema in src/models/env.model.ts
+export type { ServerEnv } from '../models/env.model';
+
+// Subset of the Workers ExecutionContext, exposed as `platform.context`
+export interface PlatformContext {
+	waitUntil(promise: Promise<unknown>): void;
+	passThroughOnException(): void;
 }
 
 export interface ClientEnv {
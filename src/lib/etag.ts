@@ -0,0 +1,33 @@
+/**
+ * ETag helpers for optimistic concurrency control.
+ * User resources carry a monotonically increasing `version`, exposed as a strong ETag.
+ */
+
+export function formatETag(version: number): string {
+	return `"v${version}"`;
+}
+
+// Split an If-Match / If-None-Match header into its entity tags
+function parseETagList(header: string): string[] {
+	return header
+		.split(',')
+		.map((tag) => tag.trim())
+		.filter((tag) => tag.length > 0);
+}
+
+/**
+ * If-Match uses the strong comparison function (RFC 9110 §13.1.1):
+ * weak tags never match.
+ */
+export function matchesIfMatch(header: string, etag: string): boolean {
+	return parseETagList(header).some((tag) => tag === '*' || tag === etag);
+}
+
+/**
+ * If-None-Match uses the weak comparison function (RFC 9110 §13.1.2):
+ * tags match when their opaque values match, regardless of the W/ prefix.
+ */
+export function matchesIfNoneMatch(header: string, etag: string): boolean {
+	const opaque = (tag: string) => tag.replace(/^W\//, '');
+	return parseETagList(header).some((tag) => tag === '*' || opaque(tag) === opaque(etag));
+}
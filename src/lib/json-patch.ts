@@ -0,0 +1,206 @@
+import { z } from 'zod';
+import { BadRequestError, ConflictError } from '../models/error.model';
+
+/**
+ * Minimal implementations of JSON Merge Patch (RFC 7396) and
+ * JSON Patch (RFC 6902) for plain JSON documents.
+ * Both functions are pure: the target document is never mutated.
+ */
+
+export const MERGE_PATCH_CONTENT_TYPE = 'application/merge-patch+json';
+export const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+
+type JsonObject = Record<string, unknown>;
+
+const pointerSchema = z.string().refine((value) => value === '' || value.startsWith('/'), {
+	message: 'JSON Pointer must be empty or start with "/"'
+});
+
+export const jsonPatchOperationSchema = z.discriminatedUnion('op', [
+	z.object({ op: z.literal('add'), path: pointerSchema, value: z.unknown() }),
+	z.object({ op: z.literal('remove'), path: pointerSchema }),
+	z.object({ op: z.literal('replace'), path: pointerSchema, value: z.unknown() }),
+	z.object({ op: z.literal('move'), from: pointerSchema, path: pointerSchema }),
+	z.object({ op: z.literal('copy'), from: pointerSchema, path: pointerSchema }),
+	z.object({ op: z.literal('test'), path: pointerSchema, value: z.unknown() })
+]);
+
+export const jsonPatchSchema = z.array(jsonPatchOperationSchema);
+
+export type JsonPatchOperation = z.infer<typeof jsonPatchOperationSchema>;
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+	return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Apply a JSON Merge Patch document (RFC 7396).
+ * `null` members remove keys, objects merge recursively, anything else replaces.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+	if (!isObject(patch)) {
+		return clone(patch);
+	}
+
+	const result: JsonObject = isObject(target) ? clone(target) : {};
+	for (const [key, value] of Object.entries(patch)) {
+		if (value === null) {
+			delete result[key];
+		} else {
+			result[key] = applyMergePatch(result[key], value);
+		}
+	}
+	return result;
+}
+
+function parsePointer(pointer: string): string[] {
+	if (pointer === '') return [];
+	return pointer
+		.slice(1)
+		.split('/')
+		.map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function arrayIndex(container: unknown[], token: string, allowEnd: boolean): number {
+	if (allowEnd && token === '-') return container.length;
+	if (!/^(0|[1-9]\d*)$/.test(token)) {
+		throw new BadRequestError(`Invalid array index "${token}"`);
+	}
+	const index = Number(token);
+	const max = allowEnd ? container.length : container.length - 1;
+	if (index > max) {
+		throw new BadRequestError(`Array index ${index} is out of bounds`);
+	}
+	return index;
+}
+
+// Resolve the parent container of a pointer and the final token within it
+function resolveParent(document: unknown, pointer: string): [JsonObject | unknown[], string] {
+	const tokens = parsePointer(pointer);
+	const last = tokens.pop() as string;
+	let current: unknown = document;
+
+	for (const token of tokens) {
+		if (Array.isArray(current)) {
+			current = current[arrayIndex(current, token, false)];
+		} else if (isObject(current) && token in current) {
+			current = current[token];
+		} else {
+			throw new BadRequestError(`Path "${pointer}" does not exist`);
+		}
+	}
+
+	if (!Array.isArray(current) && !isObject(current)) {
+		throw new BadRequestError(`Path "${pointer}" does not exist`);
+	}
+	return [current, last];
+}
+
+function getValue(document: unknown, pointer: string): unknown {
+	if (pointer === '') return document;
+	const [parent, token] = resolveParent(document, pointer);
+	if (Array.isArray(parent)) {
+		return parent[arrayIndex(parent, token, false)];
+	}
+	if (!(token in parent)) {
+		throw new BadRequestError(`Path "${pointer}" does not exist`);
+	}
+	return parent[token];
+}
+
+function addValue(document: unknown, pointer: string, value: unknown): unknown {
+	if (pointer === '') return clone(value);
+	const [parent, token] = resolveParent(document, pointer);
+	if (Array.isArray(parent)) {
+		parent.splice(arrayIndex(parent, token, true), 0, clone(value));
+	} else {
+		parent[token] = clone(value);
+	}
+	return document;
+}
+
+function removeValue(document: unknown, pointer: string): unknown {
+	if (pointer === '') {
+		throw new BadRequestError('Cannot remove the document root');
+	}
+	const [parent, token] = resolveParent(document, pointer);
+	if (Array.isArray(parent)) {
+		parent.splice(arrayIndex(parent, token, false), 1);
+	} else {
+		if (!(token in parent)) {
+			throw new BadRequestError(`Path "${pointer}" does not exist`);
+		}
+		delete parent[token];
+	}
+	return document;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+	}
+	if (isObject(a) && isObject(b)) {
+		const keys = Object.keys(a);
+		return (
+			keys.length === Object.keys(b).length &&
+			keys.every((key) => key in b && deepEqual(a[key], b[key]))
+		);
+	}
+	return false;
+}
+
+/**
+ * Apply a JSON Patch document (RFC 6902).
+ * Operations are applied atomically: if any operation fails nothing is returned.
+ * A failing `test` operation raises a ConflictError, malformed operations a BadRequestError.
+ */
+export function applyJsonPatch(target: unknown, operations: unknown): unknown {
+	const parsed = jsonPatchSchema.safeParse(operations);
+	if (!parsed.success) {
+		throw new BadRequestError('Invalid JSON Patch document');
+	}
+
+	let document = clone(target);
+	for (const operation of parsed.data) {
+		switch (operation.op) {
+			case 'add':
+				document = addValue(document, operation.path, operation.value);
+				break;
+			case 'remove':
+				document = removeValue(document, operation.path);
+				break;
+			case 'replace':
+				if (operation.path === '') {
+					document = clone(operation.value);
+					break;
+				}
+				getValue(document, operation.path);
+				document = addValue(removeValue(document, operation.path), operation.path, operation.value);
+				break;
+			case 'move': {
+				if (operation.path.startsWith(`${operation.from}/`)) {
+					throw new BadRequestError('Cannot move a value into one of its children');
+				}
+				const value = getValue(document, operation.from);
+				document = addValue(removeValue(document, operation.from), operation.path, value);
+				break;
+			}
+			case 'copy':
+				document = addValue(document, operation.path, getValue(document, operation.from));
+				break;
+			case 'test':
+				if (!deepEqual(getValue(document, operation.path), operation.value)) {
+					throw new ConflictError(`Test operation failed for path "${operation.path}"`, {
+						code: 'patch_test_failed'
+					});
+				}
+				break;
+		}
+	}
+	return document;
+}
@@ -0,0 +1,47 @@
+import type { Migration } from '../interfaces/database.interface';
+
+/**
+ * Versioned SQL migrations bundled at build time from /migrations.
+ * File names follow the wrangler convention (`0001_description.sql`) so the
+ * same files work with `wrangler d1 migrations apply` and the tests' MigrationRunner.
+ */
+const files = import.meta.glob<string>('/migrations/*.sql', {
+	query: '?raw',
+	import: 'default',
+	eager: true
+});
+
+const seedFiles = import.meta.glob<string>('/seeds/*.sql', {
+	query: '?raw',
+	import: 'default',
+	eager: true
+});
+
+function toMigrations(sources: Record<string, string>): Migration[] {
+	return Object.entries(sources)
+		.map(([path, sql]) => ({ name: path.split('/').pop() as string, sql }))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const migrations: Migration[] = toMigrations(files);
+
+/**
+ * Demo data from /seeds, for local development and tests only. Kept out of
+ * /migrations so `wrangler d1 migrations apply --remote` never inserts it.
+ */
+export const seeds: Migration[] = toMigrations(seedFiles);
+
+/**
+ * Split a migration file into individual statements.
+ * D1 only accepts one statement per prepared query, so files are split on
+ * semicolons that end a line. Line comments are stripped first.
+ */
+export function splitStatements(sql: string): string[] {
+	return sql
+		.split('\n')
+		.filter((line) => !line.trim().startsWith('--'))
+		.join('\n')
+		.split(/;\s*(?:\n|$)/)
+		.map((statement) => statement.trim())
+		.filter((statement) => statement.length > 0);
+}
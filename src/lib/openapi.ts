@@ -0,0 +1,280 @@
+import type { MiddlewareHandler } from 'hono';
+import { z } from 'zod';
+
+/**
+ * OpenAPI 3.1 generation for Hono routes.
+ * Routes are annotated in place with `describeRoute(...)`, which carries Zod schemas;
+ * `generateOpenAPIDocument` walks the app's route table and converts those schemas
+ * with Zod's native JSON Schema support (OpenAPI 3.1 uses JSON Schema 2020-12).
+ * Schemas tagged with `.meta({ id })` become shared `components.schemas` entries.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface RouteResponse {
+	description: string;
+	schema?: z.ZodType;
+	// Defaults to application/json when a schema is given
+	contentType?: string;
+	headers?: Record<string, string>;
+}
+
+export interface RouteDescription {
+	summary: string;
+	description?: string;
+	tags?: string[];
+	operationId?: string;
+	params?: z.ZodObject;
+	query?: z.ZodObject;
+	headers?: z.ZodObject;
+	// Names of the security schemes that protect the route
+	security?: string[];
+	body?: {
+		schema: z.ZodType;
+		description?: string;
+		contentTypes?: string[];
+	};
+	responses: Record<number, RouteResponse>;
+}
+
+export interface OpenAPIInfo {
+	title: string;
+	version: string;
+	description?: string;
+}
+
+export interface OpenAPISecurityScheme {
+	type: 'http' | 'apiKey';
+	scheme?: string;
+	bearerFormat?: string;
+	name?: string;
+	in?: 'header' | 'query' | 'cookie';
+	description?: string;
+}
+
+export interface OpenAPIParameter {
+	name: string;
+	in: 'path' | 'query' | 'header';
+	required: boolean;
+	description?: string;
+	schema: JsonSchema;
+}
+
+export interface OpenAPIMediaType {
+	schema: JsonSchema;
+}
+
+export interface OpenAPIResponse {
+	description: string;
+	headers?: Record<string, { description: string; schema: JsonSchema }>;
+	content?: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIOperation {
+	summary: string;
+	description?: string;
+	operationId?: string;
+	tags?: string[];
+	parameters?: OpenAPIParameter[];
+	security?: Record<string, string[]>[];
+	requestBody?: {
+		required: boolean;
+		description?: string;
+		content: Record<string, OpenAPIMediaType>;
+	};
+	responses: Record<string, OpenAPIResponse>;
+}
+
+export interface OpenAPIDocument {
+	openapi: '3.1.0';
+	info: OpenAPIInfo;
+	servers?: { url: string; description?: string }[];
+	paths: Record<string, Record<string, OpenAPIOperation>>;
+	components: {
+		schemas: Record<string, JsonSchema>;
+		securitySchemes?: Record<string, OpenAPISecurityScheme>;
+	};
+}
+
+export interface OpenAPIOptions {
+	servers?: OpenAPIDocument['servers'];
+	securitySchemes?: Record<string, OpenAPISecurityScheme>;
+}
+
+// Structural subset of a Hono app, so any Env/Schema generics are accepted
+interface RouteTable {
+	routes: { path: string; method: string; handler: unknown }[];
+}
+
+const ROUTE_DESCRIPTION = Symbol('openapi.route');
+
+type DescribedHandler = MiddlewareHandler & { [ROUTE_DESCRIPTION]?: RouteDescription };
+
+/**
+ * Middleware that attaches OpenAPI metadata to a route. It does nothing at request time.
+ *
+ * @example
+ * app.get('/users/:id', describeRoute({ summary: 'Get user', responses: {...} }), handler);
+ */
+export function describeRoute(description: RouteDescription): MiddlewareHandler {
+	const handler: DescribedHandler = async (_c, next) => {
+		await next();
+	};
+	handler[ROUTE_DESCRIPTION] = description;
+	return handler;
+}
+
+// Hono path params (`:id`) become OpenAPI templates (`{id}`)
+export function toOpenAPIPath(path: string): string {
+	return path.replace(/:([A-Za-z0-9_]+)(\{[^}]*\})?/g, '{$1}');
+}
+
+class SchemaConverter {
+	readonly components: Record<string, JsonSchema> = {};
+
+	convert(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+		const json = z.toJSONSchema(schema, {
+			target: 'draft-2020-12',
+			io,
+			unrepresentable: 'any'
+		}) as JsonSchema;
+		const definitions = (json.$defs ?? {}) as Record<string, JsonSchema>;
+		delete json.$schema;
+		delete json.$defs;
+
+		for (const [name, definition] of Object.entries(definitions)) {
+			this.register(name, definition);
+		}
+
+		// A schema that carries its own id is hoisted as a whole and referenced
+		if (typeof json.id === 'string') {
+			return this.register(json.id, json);
+		}
+		return this.rewriteRefs(json);
+	}
+
+	private register(name: string, definition: JsonSchema): JsonSchema {
+		const schema = { ...definition };
+		delete schema.id;
+		this.components[name] = this.rewriteRefs(schema);
+		return { $ref: `#/components/schemas/${name}` };
+	}
+
+	private rewriteRefs(schema: JsonSchema): JsonSchema {
+		return JSON.parse(
+			JSON.stringify(schema).replace(/"#\/\$defs\//g, '"#/components/schemas/')
+		) as JsonSchema;
+	}
+}
+
+function toParameters(
+	converter: SchemaConverter,
+	location: 'path' | 'query' | 'header',
+	schema: z.ZodObject | undefined
+): OpenAPIParameter[] {
+	if (!schema) return [];
+
+	const json = converter.convert(schema, 'input');
+	const properties = (json.properties ?? {}) as Record<string, JsonSchema>;
+	const required = new Set((json.required ?? []) as string[]);
+
+	return Object.entries(properties).map(([name, property]) => {
+		const { description, ...propertySchema } = property;
+		return {
+			name,
+			in: location,
+			required: location === 'path' || required.has(name),
+			...(typeof description === 'string' ? { description } : {}),
+			schema: propertySchema
+		};
+	});
+}
+
+function toOperation(converter: SchemaConverter, route: RouteDescription): OpenAPIOperation {
+	const parameters = [
+		...toParameters(converter, 'path', route.params),
+		...toParameters(converter, 'query', route.query),
+		...toParameters(converter, 'header', route.headers)
+	];
+
+	const responses: Record<string, OpenAPIResponse> = {};
+	for (const [status, response] of Object.entries(route.responses)) {
+		responses[status] = {
+			description: response.description,
+			...(response.headers
+				? {
+						headers: Object.fromEntries(
+							Object.entries(response.headers).map(([name, description]) => [
+								name,
+								{ description, schema: { type: 'string' } }
+							])
+						)
+					}
+				: {}),
+			...(response.schema
+				? {
+						content: {
+							[response.contentType ?? 'application/json']: {
+								schema: converter.convert(response.schema, 'output')
+							}
+						}
+					}
+				: {})
+		};
+	}
+
+	const operation: OpenAPIOperation = {
+		summary: route.summary,
+		...(route.description ? { description: route.description } : {}),
+		...(route.operationId ? { operationId: route.operationId } : {}),
+		...(route.tags ? { tags: route.tags } : {}),
+		...(parameters.length > 0 ? { parameters } : {}),
+		...(route.security ? { security: route.security.map((name) => ({ [name]: [] })) } : {}),
+		responses
+	};
+
+	if (route.body) {
+		const schema = converter.convert(route.body.schema, 'input');
+		operation.requestBody = {
+			required: true,
+			...(route.body.description ? { description: route.body.description } : {}),
+			content: Object.fromEntries(
+				(route.body.contentTypes ?? ['application/json']).map((type) => [type, { schema }])
+			)
+		};
+	}
+
+	return operation;
+}
+
+/**
+ * Build an OpenAPI 3.1 document from every route annotated with `describeRoute`.
+ */
+export function generateOpenAPIDocument(
+	app: RouteTable,
+	info: OpenAPIInfo,
+	{ servers, securitySchemes }: OpenAPIOptions = {}
+): OpenAPIDocument {
+	const converter = new SchemaConverter();
+	const paths: OpenAPIDocument['paths'] = {};
+
+	for (const route of app.routes) {
+		const description = (route.handler as DescribedHandler)[ROUTE_DESCRIPTION];
+		if (!description) continue;
+
+		const path = toOpenAPIPath(route.path);
+		paths[path] ??= {};
+		paths[path][route.method.toLowerCase()] = toOperation(converter, description);
+	}
+
+	return {
+		openapi: '3.1.0',
+		info,
+		...(servers ? { servers } : {}),
+		paths,
+		components: {
+			schemas: converter.components,
+			...(securitySchemes ? { securitySchemes } : {})
+		}
+	};
+}
@@ -0,0 +1,121 @@
+import { BadRequestError } from '../models/error.model';
+import type { PaginatedResult, SortOrder } from '../types/pagination';
+
+/**
+ * Pagination helpers shared by repositories and mocks.
+ * Cursors are opaque base64url tokens that encode the sort key of the last
+ * item of a page, so they stay stable while rows are inserted or removed.
+ */
+
+export type SortValue = string | number;
+
+export interface CursorPayload {
+	sort: string;
+	order: SortOrder;
+	value: SortValue;
+	id: number;
+}
+
+export interface PaginateOptions<T> {
+	sort: string;
+	order: SortOrder;
+	limit: number;
+	cursor?: string;
+	page?: number;
+	getSortValue: (item: T) => SortValue;
+	getId: (item: T) => number;
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+	const json = JSON.stringify([payload.sort, payload.order, payload.value, payload.id]);
+	return btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeCursor(cursor: string): CursorPayload {
+	try {
+		const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+		const [sort, order, value, id] = JSON.parse(atob(base64));
+
+		if (
+			typeof sort !== 'string' ||
+			(order !== 'asc' && order !== 'desc') ||
+			(typeof value !== 'string' && typeof value !== 'number') ||
+			typeof id !== 'number'
+		) {
+			throw new Error('Malformed cursor payload');
+		}
+
+		return { sort, order, value, id };
+	} catch {
+		throw new BadRequestError('Invalid cursor', { code: 'invalid_cursor' });
+	}
+}
+
+/**
+ * Decode a cursor and make sure it was issued for the same sort.
+ * Reusing a cursor across different sort orders would silently skip rows.
+ */
+export function decodeCursorFor(cursor: string, sort: string, order: SortOrder): CursorPayload {
+	const payload = decodeCursor(cursor);
+	if (payload.sort !== sort || payload.order !== order) {
+		throw new BadRequestError('Cursor does not match the requested sort order', {
+			code: 'invalid_cursor'
+		});
+	}
+	return payload;
+}
+
+// Compare by sort value first, then by id so ties have a deterministic order
+export function compareKeys(a: [SortValue, number], b: [SortValue, number]): number {
+	if (a[0] < b[0]) return -1;
+	if (a[0] > b[0]) return 1;
+	return a[1] - b[1];
+}
+
+/**
+ * Sort and paginate an in-memory collection.
+ * Uses offset pagination when `page` is given, cursor pagination otherwise.
+ */
+export function paginate<T>(items: T[], options: PaginateOptions<T>): PaginatedResult<T> {
+	const { sort, order, limit, getSortValue, getId } = options;
+	const direction = order === 'desc' ? -1 : 1;
+	const keyOf = (item: T): [SortValue, number] => [getSortValue(item), getId(item)];
+
+	const sorted = [...items].sort((a, b) => direction * compareKeys(keyOf(a), keyOf(b)));
+	const total = sorted.length;
+
+	if (options.page !== undefined) {
+		const start = (options.page - 1) * limit;
+		return {
+			items: sorted.slice(start, start + limit),
+			pagination: {
+				total,
+				limit,
+				nextCursor: null,
+				page: options.page,
+				pageSize: limit,
+				totalPages: Math.ceil(total / limit)
+			}
+		};
+	}
+
+	let remaining = sorted;
+	if (options.cursor) {
+		const after = decodeCursorFor(options.cursor, sort, order);
+		remaining = sorted.filter(
+			(item) => direction * compareKeys(keyOf(item), [after.value, after.id]) > 0
+		);
+	}
+
+	const pageItems = remaining.slice(0, limit);
+	const last = pageItems[pageItems.length - 1];
+	const nextCursor =
+		remaining.length > limit && last
+			? encodeCursor({ sort, order, value: getSortValue(last), id: getId(last) })
+			: null;
+
+	return {
+		items: pageItems,
+		pagination: { total, limit, nextCursor }
+	};
+}
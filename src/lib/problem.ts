@@ -0,0 +1,84 @@
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { HTTPException } from 'hono/http-exception';
+import type { FieldError, ProblemDetails } from '../models/api.model';
+import { ApiError, errorCodes, errorNames } from '../models/error.model';
+
+/**
+ * RFC 9457 problem details for API errors.
+ * `type` is a URN built from the stable `code`, so clients can switch on either.
+ */
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+const STATUS_TITLES: Record<number, string> = {
+	400: 'Bad Request',
+	401: 'Unauthorized',
+	403: 'Forbidden',
+	404: 'Not Found',
+	409: 'Conflict',
+	412: 'Precondition Failed',
+	413: 'Content Too Large',
+	415: 'Unsupported Media Type',
+	422: 'Unprocessable Content',
+	429: 'Too Many Requests',
+	500: 'Internal Server Error',
+	503: 'Service Unavailable'
+};
+
+export function problemType(code: string): string {
+	return `urn:problem-type:${code}`;
+}
+
+export function createProblem(
+	status: ContentfulStatusCode,
+	code: string,
+	detail: string,
+	instance: string,
+	errors?: FieldError[]
+): ProblemDetails {
+	return {
+		type: problemType(code),
+		title: STATUS_TITLES[status] ?? (status >= 500 ? 'Server Error' : 'Client Error'),
+		status,
+		detail,
+		instance,
+		code,
+		...(errors?.length ? { errors } : {})
+	};
+}
+
+/**
+ * Map anything thrown by a route to problem details.
+ * Known errors keep their message; anything else becomes an opaque 500 so
+ * internal details never reach the client.
+ */
+export function toProblem(error: unknown, instance: string): ProblemDetails {
+	if (error instanceof Error && errorNames[error.name]) {
+		const apiError = error instanceof ApiError ? error : undefined;
+		return createProblem(
+			errorNames[error.name],
+			apiError?.code ?? errorCodes[error.name],
+			error.message,
+			instance,
+			apiError?.errors
+		);
+	}
+
+	// Malformed request bodies rejected by Hono's validators
+	if (error instanceof HTTPException) {
+		const status = error.status as ContentfulStatusCode;
+		return createProblem(
+			status,
+			status >= 500 ? 'internal_error' : 'bad_request',
+			error.message,
+			instance
+		);
+	}
+
+	// Validation errors thrown as plain Errors (legacy support)
+	if (error instanceof Error && error.message.includes('Validation failed')) {
+		return createProblem(400, 'validation_failed', error.message, instance);
+	}
+
+	return createProblem(500, 'internal_error', 'Internal server error', instance);
+}
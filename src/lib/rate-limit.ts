@@ -0,0 +1,83 @@
+/**
+ * Sliding-window rate limiting. Each key keeps the request count of the current
+ * and the previous fixed window; the previous count is weighted by how much of
+ * it still overlaps the sliding window. Stores persist the state, this module
+ * only does the arithmetic, so every store limits the same way.
+ */
+
+export interface RateLimitPolicy {
+	// Requests allowed per window
+	limit: number;
+	windowMs: number;
+}
+
+export interface RateLimitState {
+	// Start of the current fixed window (ms since epoch)
+	windowStart: number;
+	current: number;
+	previous: number;
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	limit: number;
+	remaining: number;
+	// Until the current fixed window ends
+	resetMs: number;
+	// Until a request would be allowed again; 0 when allowed
+	retryAfterMs: number;
+}
+
+export function consumeRateLimit(
+	state: RateLimitState | null | undefined,
+	policy: RateLimitPolicy,
+	now: number
+): { state: RateLimitState; result: RateLimitResult } {
+	const { limit, windowMs } = policy;
+	const windowStart = Math.floor(now / windowMs) * windowMs;
+
+	let current = 0;
+	let previous = 0;
+	if (state?.windowStart === windowStart) {
+		current = state.current;
+		previous = state.previous;
+	} else if (state?.windowStart === windowStart - windowMs) {
+		previous = state.current;
+	}
+
+	const elapsed = now - windowStart;
+	const resetMs = windowMs - elapsed;
+	const estimated = previous * (resetMs / windowMs) + current;
+	const allowed = estimated + 1 <= limit;
+
+	if (allowed) {
+		current++;
+	}
+
+	return {
+		state: { windowStart, current, previous },
+		result: {
+			allowed,
+			limit,
+			remaining: Math.max(0, Math.floor(limit - estimated - (allowed ? 1 : 0))),
+			resetMs,
+			retryAfterMs: allowed ? 0 : retryAfter(previous, current, policy, elapsed)
+		}
+	};
+}
+
+// Time until the weighted counts have decayed enough for one more request
+function retryAfter(
+	previous: number,
+	current: number,
+	{ limit, windowMs }: RateLimitPolicy,
+	elapsed: number
+): number {
+	// The previous window is still too heavy: wait until enough of it slides out
+	if (current + 1 <= limit) {
+		return Math.max(1, Math.ceil(windowMs * (1 - (limit - current - 1) / previous) - elapsed));
+	}
+	// This window is full: in the next one, its count becomes the weighted previous count
+	const nextWindowMs = Math.ceil(windowMs * (1 - (limit - 1) / current));
+	return windowMs - elapsed + Math.max(0, nextWindowMs);
+}
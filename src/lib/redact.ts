@@ -0,0 +1,43 @@
+/**
+ * Redaction for structured log data.
+ * Values under a redacted key are replaced at any depth of plain objects and
+ * arrays; other objects (dates, class instances) are kept as they are.
+ */
+
+export const REDACTED = '[REDACTED]';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== 'object' || value === null) return false;
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+// Returns a copy of `value` with every `keys` entry (matched case-insensitively) redacted
+export function redact<T>(value: T, keys: readonly string[]): T {
+	if (keys.length === 0) return value;
+
+	const redactedKeys = new Set(keys.map((key) => key.toLowerCase()));
+	const seen = new WeakSet<object>();
+
+	const visit = (current: unknown): unknown => {
+		if (Array.isArray(current) || isPlainObject(current)) {
+			if (seen.has(current)) return '[Circular]';
+			seen.add(current);
+		}
+
+		if (Array.isArray(current)) {
+			return current.map(visit);
+		}
+		if (isPlainObject(current)) {
+			return Object.fromEntries(
+				Object.entries(current).map(([key, nested]) => [
+					key,
+					redactedKeys.has(key.toLowerCase()) ? REDACTED : visit(nested)
+				])
+			);
+		}
+		return current;
+	};
+
+	return visit(value) as T;
+}
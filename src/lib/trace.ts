@@ -0,0 +1,63 @@
+import { randomBytes } from './crypto';
+
+/**
+ * W3C Trace Context (https://www.w3.org/TR/trace-context/) helpers.
+ * A `traceparent` header reads `<version>-<trace-id>-<parent-id>-<flags>`, e.g.
+ * `00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01`.
+ */
+
+export const TRACEPARENT_HEADER = 'traceparent';
+
+export interface TraceContext {
+	// 16 bytes as 32 lowercase hex characters, shared by every span of the trace
+	traceId: string;
+	// 8 bytes as 16 lowercase hex characters, identifying the current span
+	spanId: string;
+	// Trace flags as 2 hex characters; `01` means sampled
+	flags: string;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const SAMPLED = '01';
+
+function randomHex(length: number): string {
+	return Array.from(randomBytes(length), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isZero(hex: string): boolean {
+	return /^0+$/.test(hex);
+}
+
+/**
+ * Parse a `traceparent` header. Returns null when it is missing or invalid,
+ * in which case the receiver starts a new trace.
+ */
+export function parseTraceparent(header: string | null | undefined): TraceContext | null {
+	const match = header?.trim().match(TRACEPARENT_PATTERN);
+	if (!match) return null;
+
+	const [, version, traceId, spanId, flags, rest] = match;
+	// Version ff is forbidden and version 00 has no trailing fields
+	if (version === 'ff' || (version === '00' && rest)) return null;
+	if (isZero(traceId) || isZero(spanId)) return null;
+
+	return { traceId, spanId, flags };
+}
+
+export function formatTraceparent(context: TraceContext): string {
+	return `00-${context.traceId}-${context.spanId}-${context.flags}`;
+}
+
+/**
+ * Start a new span: inside the parent's trace when there is one, otherwise as
+ * the root of a new sampled trace.
+ */
+export function createTraceContext(parent?: TraceContext | null): TraceContext {
+	let traceId = parent?.traceId ?? randomHex(16);
+	let spanId = randomHex(8);
+	// All-zero IDs are invalid, however unlikely
+	while (isZero(traceId)) traceId = randomHex(16);
+	while (isZero(spanId)) spanId = randomHex(8);
+
+	return { traceId, spanId, flags: parent?.flags ?? SAMPLED };
+}
@@ -0,0 +1,51 @@
+import type { MiddlewareHandler } from 'hono';
+import { routePath } from 'hono/route';
+import { getConfigService, getLogger, getRequestContext } from '../container/resolvers';
+
+/**
+ * One structured record per request through the request logger (which already
+ * carries `requestId`, `traceId` and `spanId`), logged as a warning when the
+ * request took longer than `LOG_SLOW_REQUEST_MS`.
+ * Must run after the DI middleware; errors are turned into responses by
+ * `onError` before they get here, so their status is recorded as well.
+ */
+export function accessLog(): MiddlewareHandler {
+	return async (c, next) => {
+		const start = performance.now();
+		const logger = getLogger(c);
+		const requestContext = getRequestContext(c);
+		const { slowRequestMs } = getConfigService(c).getLogConfig();
+
+		await next();
+
+		const durationMs = Math.round(performance.now() - start);
+		const record = {
+			method: c.req.method,
+			// The route pattern of the handler that responded (routeIndex is left on it)
+			route: routePath(c),
+			path: c.req.path,
+			status: c.res.status,
+			durationMs,
+			bytes: await responseSize(c.res),
+			userAgent: c.req.header('User-Agent') ?? null,
+			principalId: requestContext.principal?.userId ?? null
+		};
+		const message = `${record.method} ${record.route} ${record.status} ${durationMs}ms`;
+
+		if (durationMs >= slowRequestMs) {
+			logger.warn(`Slow request: ${message}`, { ...record, slow: true });
+		} else {
+			logger.info(message, record);
+		}
+	};
+}
+
+// Content-Length when set; otherwise the body is measured on a clone, except for
+// event streams, which never end
+async function responseSize(response: Response): Promise<number | null> {
+	const contentLength = response.headers.get('Content-Length');
+	if (contentLength !== null) return Number(contentLength);
+	if (!response.body) return 0;
+	if (response.headers.get('Content-Type')?.startsWith('text/event-stream')) return null;
+	return (await response.clone().arrayBuffer()).byteLength;
+}
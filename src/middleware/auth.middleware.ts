@@ -0,0 +1,61 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import {
+	getAuthorizationService,
+	getPrincipalResolver,
+	getRequestContext
+} from '../container/resolvers';
+import type { Principal } from '../interfaces/auth.interface';
+import { UnauthorizedError } from '../models/error.model';
+import type { Permission } from '../models/role.model';
+
+/**
+ * Resolve the caller through the DI-bound principal resolver (a Bearer access
+ * token, or the signed X-Principal header when enabled) and record it on the
+ * request context.
+ * Requests without credentials continue anonymously; invalid credentials are
+ * rejected with 401 so clients know to refresh their token.
+ */
+export function authenticate(): MiddlewareHandler {
+	return async (c, next) => {
+		getRequestContext(c).principal = await getPrincipalResolver(c).resolve(c.req.raw);
+		await next();
+	};
+}
+
+/**
+ * The authenticated caller. Throws UnauthorizedError for anonymous requests.
+ */
+export function getPrincipal(c: Context): Principal {
+	const { principal } = getRequestContext(c);
+	if (!principal) {
+		throw new UnauthorizedError('Authentication required', { code: 'authentication_required' });
+	}
+	return principal;
+}
+
+/**
+ * Reject anonymous requests with 401. Must run after `authenticate()`.
+ *
+ * @example
+ * app.get('/auth/me', requireAuth(), (c) => c.json(getPrincipal(c)));
+ */
+export function requireAuth(): MiddlewareHandler {
+	return async (c, next) => {
+		getPrincipal(c);
+		await next();
+	};
+}
+
+/**
+ * Reject callers whose role lacks `permission`: 401 when anonymous, 403 otherwise.
+ * Must run after `authenticate()`.
+ *
+ * @example
+ * app.delete('/users/:id', requirePermission('users:delete'), handler);
+ */
+export function requirePermission(permission: Permission): MiddlewareHandler {
+	return async (c, next) => {
+		await getAuthorizationService(c).authorize(getRequestContext(c).principal, permission);
+		await next();
+	};
+}
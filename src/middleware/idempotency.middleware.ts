@@ -0,0 +1,111 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import {
+	getConfigService,
+	getIdempotencyStore,
+	getLogger,
+	getRequestContext
+} from '../container/resolvers';
+import type { StoredResponse } from '../interfaces/idempotency.interface';
+import { sha256Hex } from '../lib/crypto';
+import { BadRequestError, ConflictError, UnprocessableEntityError } from '../models/error.model';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+// Set on responses replayed from the store
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const UNSAFE_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+// Response headers worth replaying; per-request ones (request ID, rate limits) are not
+const REPLAYED_HEADERS = ['Content-Type', 'ETag', 'Location', 'Accept-Patch'];
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+// Keys are per caller, so one client cannot replay another client's response
+function scopedKey(c: Context, key: string): string {
+	const { principal } = getRequestContext(c);
+	return `${principal ? `user:${principal.userId}` : 'anonymous'}:${key}`;
+}
+
+async function fingerprint(c: Context): Promise<string> {
+	return sha256Hex(`${c.req.method} ${c.req.path}\n${await c.req.text()}`);
+}
+
+async function toStoredResponse(response: Response): Promise<StoredResponse> {
+	const headers: Record<string, string> = {};
+	for (const name of REPLAYED_HEADERS) {
+		const value = response.headers.get(name);
+		if (value !== null) headers[name] = value;
+	}
+	return { status: response.status, headers, body: await response.clone().text() };
+}
+
+/**
+ * Make unsafe requests safe to retry: the first response to an `Idempotency-Key`
+ * is stored for IDEMPOTENCY_TTL seconds and replayed for repeats of the same request.
+ * Reusing a key for a different request is rejected with 422, and a repeat that
+ * arrives while the first is still running with 409. Server errors are not stored,
+ * so the client can retry them with the same key. Requests without the header are
+ * not affected. Must run after `authenticate()`.
+ *
+ * @example
+ * app.post('/users', requirePermission('users:create'), idempotency(), handler);
+ */
+export function idempotency(): MiddlewareHandler {
+	return async (c, next) => {
+		const header = c.req.header(IDEMPOTENCY_KEY_HEADER);
+		if (header === undefined || !UNSAFE_METHODS.has(c.req.method)) {
+			return next();
+		}
+		if (!KEY_PATTERN.test(header)) {
+			throw new BadRequestError(
+				`${IDEMPOTENCY_KEY_HEADER} must be 1 to 255 visible ASCII characters`,
+				{ code: 'idempotency_key_invalid' }
+			);
+		}
+
+		const store = getIdempotencyStore(c);
+		const { ttl } = getConfigService(c).getIdempotencyConfig();
+		const key = scopedKey(c, header);
+		const requestFingerprint = await fingerprint(c);
+
+		const existing = await store.reserve(key, requestFingerprint, ttl);
+		if (existing) {
+			if (existing.fingerprint !== requestFingerprint) {
+				throw new UnprocessableEntityError(
+					`${IDEMPOTENCY_KEY_HEADER} was already used for a different request`,
+					{ code: 'idempotency_key_reused' }
+				);
+			}
+			if (!existing.response) {
+				throw new ConflictError(
+					`A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+					{ code: 'idempotency_key_in_use' }
+				);
+			}
+
+			getLogger(c).info('Replaying idempotent response', { status: existing.response.status });
+			const { status, headers, body } = existing.response;
+			return c.body(body, status as ContentfulStatusCode, {
+				...headers,
+				[IDEMPOTENT_REPLAYED_HEADER]: 'true'
+			});
+		}
+
+		try {
+			await next();
+		} catch (error) {
+			await store.release(key);
+			throw error;
+		}
+
+		// Errors thrown by the handler have already been turned into a response by onError
+		if (c.res.status >= 500) {
+			await store.release(key);
+		} else {
+			await store.complete(
+				key,
+				{ fingerprint: requestFingerprint, response: await toStoredResponse(c.res) },
+				ttl
+			);
+		}
+	};
+}
@@ -0,0 +1,63 @@
+import type { MiddlewareHandler } from 'hono';
+import { routePath } from 'hono/route';
+import { getConfigService, getMetricsRegistry } from '../container/resolvers';
+import { timingSafeEqual } from '../lib/crypto';
+import { NotFoundError, UnauthorizedError } from '../models/error.model';
+
+/**
+ * Count requests and observe their latency per method, route pattern and status.
+ * Must run after the DI middleware; like the access log it sees error responses
+ * too, since `onError` has already turned them into responses.
+ */
+export function httpMetrics(): MiddlewareHandler {
+	return async (c, next) => {
+		const registry = getMetricsRegistry(c);
+		const inFlight = registry.gauge('http_requests_in_flight', {
+			help: 'HTTP requests currently being served'
+		});
+		const start = performance.now();
+
+		inFlight.inc();
+		try {
+			await next();
+		} finally {
+			inFlight.dec();
+		}
+
+		// The route pattern of the handler that responded, so IDs do not explode the series
+		const labels = { method: c.req.method, route: routePath(c), status: c.res.status };
+		registry
+			.counter('http_requests_total', {
+				help: 'HTTP requests served',
+				labelNames: ['method', 'route', 'status']
+			})
+			.inc(labels);
+		registry
+			.histogram('http_request_duration_seconds', {
+				help: 'HTTP request latency in seconds',
+				labelNames: ['method', 'route', 'status']
+			})
+			.observe((performance.now() - start) / 1000, labels);
+	};
+}
+
+/**
+ * Only let scrapers holding METRICS_TOKEN through (`Authorization: Bearer <token>`).
+ * Without a configured token the endpoint does not exist.
+ */
+export function requireMetricsToken(): MiddlewareHandler {
+	return async (c, next) => {
+		const { token } = getConfigService(c).getMetricsConfig();
+		if (!token) {
+			throw new NotFoundError('Not found', { code: 'metrics_disabled' });
+		}
+
+		const provided = c.req.header('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? '';
+		const encoder = new TextEncoder();
+		if (!timingSafeEqual(encoder.encode(provided), encoder.encode(token))) {
+			throw new UnauthorizedError('Invalid metrics token', { code: 'metrics_token_invalid' });
+		}
+
+		await next();
+	};
+}
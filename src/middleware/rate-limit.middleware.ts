@@ -0,0 +1,77 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import {
+	getLogger,
+	getMetricsRegistry,
+	getRateLimitStore,
+	getRequestContext
+} from '../container/resolvers';
+import type { RateLimitPolicy } from '../lib/rate-limit';
+import { TooManyRequestsError } from '../models/error.model';
+
+// Response headers, following the IETF RateLimit header fields draft
+export const RATE_LIMIT_HEADERS = [
+	'RateLimit-Limit',
+	'RateLimit-Remaining',
+	'RateLimit-Reset',
+	'RateLimit-Policy',
+	'Retry-After'
+];
+
+export interface RateLimitOptions extends RateLimitPolicy {
+	// Budget name, so each limited route counts separately (e.g. 'auth', 'users:create')
+	name: string;
+	// Who is limited; defaults to the signed-in user, or the client IP for anonymous callers
+	key?: (c: Context) => string;
+}
+
+// Only CF-Connecting-IP: Cloudflare overwrites it, while callers can put any address
+// in X-Forwarded-For and get a fresh budget with each one
+export function clientIp(c: Context): string {
+	return c.req.header('CF-Connecting-IP') ?? 'unknown';
+}
+
+function defaultKey(c: Context): string {
+	const { principal } = getRequestContext(c);
+	return principal ? `user:${principal.userId}` : `ip:${clientIp(c)}`;
+}
+
+/**
+ * Limit how often a caller may hit a route, with a sliding window kept in the
+ * DI-bound IRateLimitStore. Every response carries the RateLimit-* headers;
+ * requests over the limit get 429 with Retry-After. Must run after `authenticate()`
+ * for per-user limits.
+ *
+ * @example
+ * app.post('/auth/sign-in', rateLimit({ name: 'auth', limit: 10, windowMs: 60_000 }), handler);
+ */
+export function rateLimit(options: RateLimitOptions): MiddlewareHandler {
+	const { name, limit, windowMs, key = defaultKey } = options;
+
+	return async (c, next) => {
+		const result = await getRateLimitStore(c).hit(`${name}:${key(c)}`, { limit, windowMs });
+
+		c.header('RateLimit-Limit', String(result.limit));
+		c.header('RateLimit-Remaining', String(result.remaining));
+		c.header('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)));
+		c.header('RateLimit-Policy', `${limit};w=${Math.ceil(windowMs / 1000)}`);
+
+		if (!result.allowed) {
+			// Sent as Retry-After by the error handler
+			const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+			getLogger(c).warn('Rate limit exceeded', { limit: name, retryAfter });
+			getMetricsRegistry(c)
+				.counter('http_rate_limited_total', {
+					help: 'Requests rejected by rate limits',
+					labelNames: ['limit']
+				})
+				.inc({ limit: name });
+			throw new TooManyRequestsError(
+				`Too many requests, retry in ${retryAfter} seconds`,
+				retryAfter,
+				{ code: 'rate_limited' }
+			);
+		}
+
+		await next();
+	};
+}
@@ -0,0 +1,29 @@
+import type { MiddlewareHandler } from 'hono';
+import {
+	createTraceContext,
+	formatTraceparent,
+	parseTraceparent,
+	TRACEPARENT_HEADER,
+	type TraceContext
+} from '../lib/trace';
+
+// Extend Hono's context with the request ID (set by hono/request-id) and the trace
+declare module 'hono' {
+	interface ContextVariableMap {
+		requestId: string;
+		trace: TraceContext;
+	}
+}
+
+/**
+ * Join the caller's trace, or start one. The server span is echoed in the
+ * `traceparent` response header, next to `X-Request-Id`.
+ */
+export function traceContext(): MiddlewareHandler {
+	return async (c, next) => {
+		const trace = createTraceContext(parseTraceparent(c.req.header(TRACEPARENT_HEADER)));
+		c.set('trace', trace);
+		c.header(TRACEPARENT_HEADER, formatTraceparent(trace));
+		await next();
+	};
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas for the JSON envelopes returned by the API.
+ * Used to describe responses in the generated OpenAPI document.
+ */
+
+// ISO 8601 timestamp, documented by format rather than the full validation pattern
+const timestampSchema = z.string().meta({ format: 'date-time' });
+
+export const paginationMetaSchema = z
+	.object({
+		total: z.number().int(),
+		limit: z.number().int(),
+		nextCursor: z.string().nullable(),
+		page: z.number().int().optional(),
+		pageSize: z.number().int().optional(),
+		totalPages: z.number().int().optional()
+	})
+	.meta({ id: 'PaginationMeta' });
+
+export const fieldErrorSchema = z
+	.object({
+		field: z.string().meta({ description: 'Dotted path of the field, e.g. "email"' }),
+		message: z.string(),
+		code: z.string().meta({ description: 'Zod issue code, e.g. "too_small"' })
+	})
+	.meta({ id: 'FieldError' });
+
+// Error responses are RFC 9457 problem details, served as application/problem+json
+export const problemDetailsSchema = z
+	.object({
+		type: z.string().meta({ description: 'URI identifying the problem type' }),
+		title: z.string().meta({ description: 'Short summary of the status code' }),
+		status: z.number().int(),
+		detail: z.string().meta({ description: 'Explanation specific to this occurrence' }),
+		instance: z.string().meta({ description: 'Path of the request that failed' }),
+		code: z.string().meta({ description: 'Stable machine-readable error code' }),
+		errors: z.array(fieldErrorSchema).optional(),
+		requestId: z
+			.string()
+			.optional()
+			.meta({ description: 'X-Request-Id of the failed request, for support' }),
+		traceId: z.string().optional().meta({ description: 'W3C trace ID of the failed request' })
+	})
+	.meta({ id: 'ProblemDetails' });
+
+export const apiMessageSchema = z.object({
+	success: z.literal(true),
+	message: z.string(),
+	timestamp: timestampSchema
+});
+
+export function apiSuccessSchema<T extends z.ZodType>(data: T) {
+	return z.object({
+		success: z.literal(true),
+		data,
+		message: z.string().optional(),
+		timestamp: timestampSchema
+	});
+}
+
+export function apiPaginatedSchema<T extends z.ZodType>(item: T) {
+	return z.object({
+		success: z.literal(true),
+		data: z.array(item),
+		pagination: paginationMetaSchema,
+		timestamp: timestampSchema
+	});
+}
+
+export type FieldError = z.infer<typeof fieldErrorSchema>;
+export type ProblemDetails = z.infer<typeof problemDetailsSchema>;
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { permissionSchema, userRoleSchema } from './role.model';
+import { createUserSchema, userResourceSchema } from './user.model';
+
+export const PASSWORD_MIN_LENGTH = 8;
+// PBKDF2 cost grows with the input, so very long passwords are rejected
+export const PASSWORD_MAX_LENGTH = 128;
+
+const passwordSchema = z
+	.string()
+	.min(PASSWORD_MIN_LENGTH, {
+		message: `Password must be at least ${PASSWORD_MIN_LENGTH} characters long`
+	})
+	.max(PASSWORD_MAX_LENGTH, {
+		message: `Password must be at most ${PASSWORD_MAX_LENGTH} characters long`
+	});
+
+// Request schemas
+export const signUpSchema = createUserSchema.extend({ password: passwordSchema });
+
+export const signInSchema = z.object({
+	email: z.string().trim().min(1, { message: 'Email is required' }),
+	password: z.string().min(1, { message: 'Password is required' })
+});
+
+export const refreshTokenSchema = z.object({
+	refreshToken: z
+		.string({ message: 'Refresh token is required' })
+		.min(1, { message: 'Refresh token is required' })
+});
+
+// Response schemas
+export const authTokensSchema = z
+	.object({
+		accessToken: z.string().meta({ description: 'Signed JWT, sent as a Bearer token' }),
+		refreshToken: z.string().meta({ description: 'Single-use token for POST /auth/refresh' }),
+		tokenType: z.literal('Bearer'),
+		expiresIn: z.number().int().meta({ description: 'Access token lifetime in seconds' })
+	})
+	.meta({ id: 'AuthTokens' });
+
+export const authSessionSchema = z
+	.object({
+		user: userResourceSchema,
+		tokens: authTokensSchema
+	})
+	.meta({ id: 'AuthSession' });
+
+export const sessionInfoSchema = z
+	.object({
+		user: userResourceSchema.nullable(),
+		role: userRoleSchema.nullable(),
+		permissions: z.array(permissionSchema)
+	})
+	.meta({ id: 'SessionInfo' });
+
+// Inferred DTO types from schemas
+export type SignUpRequest = z.infer<typeof signUpSchema>;
+export type SignInRequest = z.infer<typeof signInSchema>;
+export type RefreshTokenRequest = z.infer<typeof refreshTokenSchema>;
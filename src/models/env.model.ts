@@ -0,0 +1,233 @@
+import { dev } from '$app/environment';
+import { z } from 'zod';
+import type { D1Database } from '../interfaces/database.interface';
+import { getD1BindingName } from '../lib/database';
+
+/**
+ * Every variable, secret and binding the server reads from its environment:
+ * `process.env` under Node, and the Cloudflare platform env (`[vars]`, secrets and
+ * bindings from wrangler.toml) on Workers. Values arrive as strings; this schema
+ * applies the defaults and checks types and cross-field rules in one place.
+ */
+
+export const logLevels = ['debug', 'info', 'warn', 'error'] as const;
+export const logFormats = ['json', 'pretty'] as const;
+export const rateLimitStores = ['memory', 'kv', 'durable-object'] as const;
+export const idempotencyStores = ['memory', 'kv'] as const;
+export type LogLevel = (typeof logLevels)[number];
+export type LogFormat = (typeof logFormats)[number];
+export type RateLimitStoreKind = (typeof rateLimitStores)[number];
+export type IdempotencyStoreKind = (typeof idempotencyStores)[number];
+
+// Logged values under these keys (at any depth) are replaced with [REDACTED]
+export const DEFAULT_REDACT_KEYS = ['email', 'password', 'authorization'];
+
+// Minimal subsets of the Cloudflare binding APIs, declared locally like D1Database
+export interface Fetcher {
+	fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
+}
+
+export interface KVNamespace {
+	get(key: string): Promise<string | null>;
+	put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+export interface DurableObjectId {
+	toString(): string;
+}
+
+export interface DurableObjectNamespace {
+	idFromName(name: string): DurableObjectId;
+	get(id: DurableObjectId): Fetcher;
+}
+
+export interface R2Bucket {
+	get(key: string): Promise<{ body: ReadableStream } | null>;
+	put(key: string, value: ReadableStream | ArrayBuffer | string): Promise<unknown>;
+	delete(key: string): Promise<void>;
+}
+
+// Bindings are runtime objects, so they are recognised by the methods they expose
+function binding<T>(kind: string, methods: string[]) {
+	return z.custom<T>(
+		(value) =>
+			typeof value === 'object' &&
+			value !== null &&
+			methods.every((method) => typeof (value as Record<string, unknown>)[method] === 'function'),
+		{ message: `Expected a ${kind} binding` }
+	);
+}
+
+export const d1Binding = binding<D1Database>('D1 database', ['prepare', 'batch', 'exec']);
+export const kvBinding = binding<KVNamespace>('KV namespace', ['get', 'put', 'delete']);
+export const r2Binding = binding<R2Bucket>('R2 bucket', ['get', 'put', 'delete']);
+export const fetcherBinding = binding<Fetcher>('service', ['fetch']);
+export const durableObjectBinding = binding<DurableObjectNamespace>('Durable Object namespace', [
+	'idFromName',
+	'get'
+]);
+
+// Unset and empty variables both fall back to the default
+function variable<T extends z.ZodType<unknown, string>>(schema: T) {
+	return z
+		.string()
+		.optional()
+		.transform((value) => (value === '' ? undefined : value))
+		.pipe(schema.optional());
+}
+
+function positiveInt(defaultValue: number) {
+	return variable(
+		z
+			.string()
+			.regex(/^\d+$/, { message: 'Must be a positive integer' })
+			.transform(Number)
+			.refine((value) => value > 0, { message: 'Must be a positive integer' })
+	).transform((value) => value ?? defaultValue);
+}
+
+function text(defaultValue: string) {
+	return variable(z.string()).transform((value) => value ?? defaultValue);
+}
+
+const serverEnvObject = z.looseObject({
+	// Variables
+	ENVIRONMENT: variable(z.string()),
+	NODE_ENV: variable(z.string()),
+	PORT: positiveInt(3000),
+	API_VERSION: text('1.0.0'),
+	COMMIT_SHA: variable(z.string()),
+	DATABASE_URL: variable(
+		z.string().refine((url) => url === 'sqlite://memory' || getD1BindingName(url) !== null, {
+			message: 'Must be sqlite://memory or d1://<BINDING>'
+		})
+	).transform((url) => url ?? 'sqlite://memory'),
+	DB_MAX_CONNECTIONS: positiveInt(10),
+	DB_TIMEOUT: positiveInt(30000),
+	JWT_ISSUER: text('sveltekit-hono'),
+	ACCESS_TOKEN_TTL: positiveInt(900),
+	REFRESH_TOKEN_TTL: positiveInt(2592000),
+	// Defaults depend on the environment, see ConfigService.getLogConfig()
+	LOG_LEVEL: variable(z.enum(logLevels, { message: `Must be one of ${logLevels.join(', ')}` })),
+	LOG_FORMAT: variable(z.enum(logFormats, { message: `Must be one of ${logFormats.join(', ')}` })),
+	// Comma-separated keys, matched case-insensitively
+	LOG_REDACT_KEYS: variable(z.string()).transform((keys) =>
+		keys
+			? keys
+					.split(',')
+					.map((key) => key.trim())
+					.filter(Boolean)
+			: DEFAULT_REDACT_KEYS
+	),
+	// Requests taking at least this many milliseconds are logged as warnings
+	LOG_SLOW_REQUEST_MS: positiveInt(1000),
+	// Where rate-limit counters live: this process, the CACHE KV namespace or RATE_LIMITER
+	RATE_LIMIT_STORE: variable(
+		z.enum(rateLimitStores, { message: `Must be one of ${rateLimitStores.join(', ')}` })
+	).transform((store) => store ?? 'memory'),
+	// Where responses to Idempotency-Key requests are kept, and for how many seconds
+	IDEMPOTENCY_STORE: variable(
+		z.enum(idempotencyStores, { message: `Must be one of ${idempotencyStores.join(', ')}` })
+	).transform((store) => store ?? 'memory'),
+	IDEMPOTENCY_TTL: positiveInt(86400),
+
+	// Secrets (`wrangler secret put <NAME>`)
+	JWT_SECRET: variable(z.string()),
+	PRINCIPAL_HEADER_SECRET: variable(z.string()),
+	METRICS_TOKEN: variable(z.string()),
+
+	// Bindings
+	DB: d1Binding.optional(),
+	// Optional KV namespace, probed by the readiness check
+	CACHE: kvBinding.optional(),
+	// Durable Object namespace for RATE_LIMIT_STORE=durable-object (RateLimiterDurableObject)
+	RATE_LIMITER: durableObjectBinding.optional(),
+	ASSETS: fetcherBinding.optional()
+});
+
+// Cross-field rules run even when single values are invalid, so the report is complete.
+// Platform secrets and bindings are only checked with checkPlatform: on Workers they
+// arrive with each request's env, not in `process.env`
+function withRules(checkPlatform: boolean) {
+	return serverEnvObject
+		.refine(
+			// The public development key is only accepted by the local Vite dev server (and
+			// tests). A built app, deployed with any ENVIRONMENT or run with `wrangler dev`,
+			// needs a real secret
+			(env) =>
+				!checkPlatform ||
+				Boolean(env.JWT_SECRET) ||
+				(dev && resolveEnvironment(env) !== 'production'),
+			{
+				path: ['JWT_SECRET'],
+				error: (issue) =>
+					resolveEnvironment(issue.input as Record<string, string | undefined>) === 'production'
+						? 'Must be set in production'
+						: 'Must be set outside the local dev server',
+				when: () => true
+			}
+		)
+		.refine(
+			(env) => {
+				const bindingName = d1BindingName(env);
+				return !checkPlatform || !bindingName || d1Binding.safeParse(env[bindingName]).success;
+			},
+			{
+				path: ['DATABASE_URL'],
+				error: (issue) =>
+					`D1 binding "${d1BindingName(issue.input as Record<string, unknown>)}" is not available in this environment`,
+				when: () => true
+			}
+		)
+		.refine((env) => !checkPlatform || storeBindingAvailable(env.RATE_LIMIT_STORE, env), {
+			path: ['RATE_LIMIT_STORE'],
+			error: (issue) =>
+				storeBindingError((issue.input as Record<string, unknown>).RATE_LIMIT_STORE),
+			when: () => true
+		})
+		.refine((env) => !checkPlatform || storeBindingAvailable(env.IDEMPOTENCY_STORE, env), {
+			path: ['IDEMPOTENCY_STORE'],
+			error: (issue) =>
+				storeBindingError((issue.input as Record<string, unknown>).IDEMPOTENCY_STORE),
+			when: () => true
+		})
+		.transform((env) => ({ ...env, environment: resolveEnvironment(env) }));
+}
+
+/** A request's env (the platform env merged over `process.env`), checked in full */
+export const serverEnvSchema = withRules(true);
+
+/** `process.env` outside any request; tolerates missing platform secrets and bindings */
+export const processEnvSchema = withRules(false);
+
+function d1BindingName(env: Record<string, unknown>): string | null {
+	return typeof env.DATABASE_URL === 'string' ? getD1BindingName(env.DATABASE_URL) : null;
+}
+
+// The kv and durable-object stores keep their state in a platform binding
+function storeBindingAvailable(store: unknown, env: Record<string, unknown>): boolean {
+	switch (store) {
+		case 'kv':
+			return kvBinding.safeParse(env.CACHE).success;
+		case 'durable-object':
+			return durableObjectBinding.safeParse(env.RATE_LIMITER).success;
+		default:
+			return true;
+	}
+}
+
+function storeBindingError(store: unknown): string {
+	return store === 'kv'
+		? 'The kv store needs the CACHE binding'
+		: 'The durable-object store needs the RATE_LIMITER binding';
+}
+
+// ENVIRONMENT is set by wrangler.toml, NODE_ENV by Node tooling
+function resolveEnvironment(env: { ENVIRONMENT?: string; NODE_ENV?: string }): string {
+	return env.ENVIRONMENT ?? env.NODE_ENV ?? 'development';
+}
+
+// Raw environment as provided by the platform, and the validated result
+export type ServerEnv = z.input<typeof serverEnvSchema>;
+export type ServerConfig = z.output<typeof serverEnvSchema>;
@@ -3,56 +3,132 @@
  */
 
 import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import type { z } from 'zod';
+import type { FieldError } from './api.model';
 
-export class ValidationError extends Error {
-	constructor(message: string) {
+export interface ErrorDetails {
+	// Stable machine-readable code; defaults to the class code in errorCodes
+	code?: string;
+	// Per-field problems, shown next to the matching form inputs
+	errors?: FieldError[];
+}
+
+// Base class carrying the extra members of a problem+json response (RFC 9457)
+export class ApiError extends Error {
+	readonly code?: string;
+	readonly errors?: FieldError[];
+
+	constructor(message: string, details: ErrorDetails = {}) {
 		super(message);
+		this.name = 'ApiError';
+		this.code = details.code;
+		this.errors = details.errors;
+	}
+}
+
+export class ValidationError extends ApiError {
+	constructor(message: string, details?: ErrorDetails) {
+		super(message, details);
 		this.name = 'ValidationError';
 	}
+
+	// One field error per Zod issue; the message keeps every issue for plain-text consumers
+	static fromZodError(error: z.ZodError): ValidationError {
+		const errors = error.issues.map((issue) => ({
+			field: issue.path.map(String).join('.'),
+			message: issue.message,
+			code: issue.code
+		}));
+		return new ValidationError(`Validation failed: ${errors.map((e) => e.message).join(', ')}`, {
+			errors
+		});
+	}
 }
 
-export class NotFoundError extends Error {
-	constructor(message: string) {
-		super(message);
+export class NotFoundError extends ApiError {
+	constructor(message: string, details?: ErrorDetails) {
+		super(message, details);
 		this.name = 'NotFoundError';
 	}
 }
 
-export class BadRequestError extends Error {
-	constructor(message: string) {
-		super(message);
+export class BadRequestError extends ApiError {
+	constructor(message: string, details?: ErrorDetails) {
+		super(message, details);
 		this.name = 'BadRequestError';
 	}
 }
 
-export class UnauthorizedError extends Error {
-	constructor(message: string) {
-		super(message);
+export class UnauthorizedError extends ApiError {
+	constructor(message: string, details?: ErrorDetails) {
+		super(message, details);
 		this.name = 'UnauthorizedError';
 	}
 }
 
-export class ForbiddenError extends Error {
-	constructor(message: string) {
-		super(message);
+export class ForbiddenError extends ApiError {
+	constructor(message: string, details?: ErrorDetails) {
+		super(message, details);
 		this.name = 'ForbiddenError';
 	}
 }
 
-export class ConflictError extends Error {
-	constructor(message: string) {
-		super(message);
+export class ConflictError extends ApiError {
+	constructor(message: string, details?: ErrorDetails) {
+		super(message, details);
 		this.name = 'ConflictError';
 	}
 }
 
-export class InternalServerError extends Error {
-	constructor(message: string) {
-		super(message);
+export class PreconditionFailedError extends ApiError {
+	constructor(message: string, details?: ErrorDetails) {
+		super(message, details);
+		this.name = 'PreconditionFailedError';
+	}
+}
+
+export class UnsupportedMediaTypeError extends ApiError {
+	constructor(message: string, details?: ErrorDetails) {
+		super(message, details);
+		this.name = 'UnsupportedMediaTypeError';
+	}
+}
+
+export class UnprocessableEntityError extends ApiError {
+	constructor(message: string, details?: ErrorDetails) {
+		super(message, details);
+		this.name = 'UnprocessableEntityError';
+	}
+}
+
+export class TooManyRequestsError extends ApiError {
+	constructor(
+		message: string,
+		// Seconds until the client may retry, sent as Retry-After
+		readonly retryAfter: number,
+		details?: ErrorDetails
+	) {
+		super(message, details);
+		this.name = 'TooManyRequestsError';
+	}
+}
+
+export class InternalServerError extends ApiError {
+	constructor(message: string, details?: ErrorDetails) {
+		super(message, details);
 		this.name = 'InternalServerError';
 	}
 }
 
+// Invalid or missing configuration, listing every problem at once. Not an API
+// error: clients only ever see an opaque 500, the report goes to the logs
+export class ConfigError extends Error {
+	constructor(public readonly issues: string[]) {
+		super(`Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+		this.name = 'ConfigError';
+	}
+}
+
 export const errorNames: Record<string, ContentfulStatusCode> = {
 	[ValidationError.name]: 400,
 	[NotFoundError.name]: 404,
@@ -60,5 +136,24 @@ export const errorNames: Record<string, ContentfulStatusCode> = {
 	[UnauthorizedError.name]: 401,
 	[ForbiddenError.name]: 403,
 	[ConflictError.name]: 409,
+	[PreconditionFailedError.name]: 412,
+	[UnsupportedMediaTypeError.name]: 415,
+	[UnprocessableEntityError.name]: 422,
+	[TooManyRequestsError.name]: 429,
 	[InternalServerError.name]: 500
 };
+
+// Default machine-readable code per error class, used when a throw site sets none
+export const errorCodes: Record<string, string> = {
+	[ValidationError.name]: 'validation_failed',
+	[NotFoundError.name]: 'not_found',
+	[BadRequestError.name]: 'bad_request',
+	[UnauthorizedError.name]: 'unauthorized',
+	[ForbiddenError.name]: 'forbidden',
+	[ConflictError.name]: 'conflict',
+	[PreconditionFailedError.name]: 'precondition_failed',
+	[UnsupportedMediaTypeError.name]: 'unsupported_media_type',
+	[UnprocessableEntityError.name]: 'unprocessable_entity',
+	[TooManyRequestsError.name]: 'rate_limited',
+	[InternalServerError.name]: 'internal_error'
+};
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+/**
+ * Roles and permissions for the user management API.
+ * Reading users is public; every write needs a permission granted by the caller's role.
+ */
+
+export const userRoles = ['admin', 'member', 'viewer'] as const;
+export const permissions = ['users:create', 'users:update', 'users:delete'] as const;
+
+export type UserRole = (typeof userRoles)[number];
+export type Permission = (typeof permissions)[number];
+
+// Role given to new users, including self sign-ups
+export const DEFAULT_USER_ROLE: UserRole = 'member';
+
+export const rolePermissions: Readonly<Record<UserRole, readonly Permission[]>> = {
+	admin: ['users:create', 'users:update', 'users:delete'],
+	member: ['users:create'],
+	viewer: []
+};
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+	return role ? rolePermissions[role].includes(permission) : false;
+}
+
+export const userRoleSchema = z.enum(userRoles).meta({ id: 'UserRole' });
+export const permissionSchema = z.enum(permissions).meta({ id: 'Permission' });
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { ConflictError } from './error.model';
+import { userRoleSchema } from './role.model';
 
 // Domain model schema (UI/tests use this lightweight shape)
 export const userSchema = z.object({
@@ -9,10 +11,20 @@ export const userSchema = z.object({
 
 export type User = z.infer<typeof userSchema>;
 
+// Full user resource as returned by the API (dates serialised as ISO strings)
+export const userResourceSchema = userSchema
+	.extend({
+		createdAt: z.string().meta({ format: 'date-time' }),
+		version: z.number().int().positive(),
+		role: userRoleSchema
+	})
+	.meta({ id: 'User' });
+
 // Validation schemas for create/update operations
 const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
-export const createUserSchema = z.object({
+// Strict: the role and id are never taken from the client (unknown keys are rejected)
+export const createUserSchema = z.strictObject({
 	name: z
 		.string()
 		.trim()
@@ -46,6 +58,63 @@ export const updateUserSchema = z.object({
 		.optional()
 });
 
+// PUT replaces the whole resource, so every field is required
+export const replaceUserSchema = createUserSchema;
+
+// A patched user must still be complete and may only touch known fields
+export const patchedUserSchema = updateUserSchema.required().strict();
+
 // Inferred DTO types from schemas
 export type CreateUserRequest = z.infer<typeof createUserSchema>;
 export type UpdateUserRequest = z.infer<typeof updateUserSchema>;
+export type ReplaceUserRequest = z.infer<typeof replaceUserSchema>;
+
+// Query schema for listing users (GET /users)
+export const userSortFields = ['name', 'email', 'createdAt'] as const;
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const pageSizeSchema = z.coerce
+	.number()
+	.int({ message: 'Page size must be an integer' })
+	.min(1, { message: 'Page size must be at least 1' })
+	.max(MAX_PAGE_SIZE, { message: `Page size must be at most ${MAX_PAGE_SIZE}` });
+
+export const userListQuerySchema = z
+	.object({
+		limit: pageSizeSchema.optional(),
+		cursor: z.string().trim().min(1).optional(),
+		page: z.coerce
+			.number()
+			.int({ message: 'Page must be an integer' })
+			.min(1, { message: 'Page must be at least 1' })
+			.optional(),
+		pageSize: pageSizeSchema.optional(),
+		sort: z
+			.enum(userSortFields, { message: `Sort must be one of: ${userSortFields.join(', ')}` })
+			.optional(),
+		order: z.enum(['asc', 'desc'], { message: 'Order must be either asc or desc' }).optional(),
+		q: z.string().trim().min(1).optional(),
+		email: z.string().trim().min(1).optional()
+	})
+	.refine((query) => !(query.cursor && (query.page || query.pageSize)), {
+		message: 'Cursor pagination cannot be combined with page or pageSize'
+	});
+
+// Emails identify users at sign-in, so repositories keep them unique regardless of case
+export function emailTakenError(): ConflictError {
+	return new ConflictError('Email already exists', {
+		code: 'email_taken',
+		errors: [{ field: 'email', message: 'Email already exists', code: 'email_taken' }]
+	});
+}
+
+// Path parameters for /users/:id
+export const userIdParamsSchema = z.object({
+	id: z.coerce.number().int().positive().meta({ description: 'User ID' })
+});
+
+export type UserSortField = (typeof userSortFields)[number];
+export type UserListQuery = z.infer<typeof userListQuerySchema>;
+export type UserListQueryInput = z.input<typeof userListQuerySchema>;
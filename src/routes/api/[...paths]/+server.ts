@@ -1,34 +1,246 @@
 import type { ServerEnv } from '$lib/env';
+import { formatETag, matchesIfMatch, matchesIfNoneMatch } from '$lib/etag';
+import {
+	JSON_PATCH_CONTENT_TYPE,
+	jsonPatchSchema,
+	MERGE_PATCH_CONTENT_TYPE,
+	type JsonPatchOperation
+} from '$lib/json-patch';
+import { describeRoute, generateOpenAPIDocument, type OpenAPIDocument } from '$lib/openapi';
+import { PROBLEM_CONTENT_TYPE, toProblem } from '$lib/problem';
+import { TRACEPARENT_HEADER } from '$lib/trace';
 import type { RequestHandler } from '@sveltejs/kit';
 import type { Next } from 'hono';
 import { Hono, type Context } from 'hono';
 import { cors } from 'hono/cors';
-import { logger } from 'hono/logger';
+import { requestId } from 'hono/request-id';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { validator } from 'hono/validator';
 import 'reflect-metadata';
-import { container } from '../../../container/inversify.server';
-import { getLogger, getUserService } from '../../../container/resolvers';
+import { z } from 'zod';
+import {
+	container,
+	createRequestContainer,
+	disposeRequestContainer
+} from '../../../container/inversify.server';
+import {
+	getAuthorizationService,
+	getAuthService,
+	getHealthService,
+	getLogger,
+	getMetricsRegistry,
+	getRequestContext,
+	getUserService
+} from '../../../container/resolvers';
+import type {
+	CreateUserRequest,
+	IUserService,
+	ReplaceUserRequest,
+	UpdateUserRequest,
+	UserPatch,
+	UserWriteOptions
+} from '../../../interfaces/user.interface';
+import {
+	authenticate,
+	getPrincipal,
+	requireAuth,
+	requirePermission
+} from '../../../middleware/auth.middleware';
+import { accessLog } from '../../../middleware/access-log.middleware';
+import {
+	IDEMPOTENCY_KEY_HEADER,
+	IDEMPOTENT_REPLAYED_HEADER,
+	idempotency
+} from '../../../middleware/idempotency.middleware';
+import { httpMetrics, requireMetricsToken } from '../../../middleware/metrics.middleware';
+import {
+	clientIp,
+	RATE_LIMIT_HEADERS,
+	rateLimit,
+	type RateLimitOptions
+} from '../../../middleware/rate-limit.middleware';
+import { traceContext } from '../../../middleware/trace.middleware';
+import {
+	authSessionSchema,
+	authTokensSchema,
+	refreshTokenSchema,
+	sessionInfoSchema,
+	signInSchema,
+	signUpSchema,
+	type RefreshTokenRequest,
+	type SignInRequest,
+	type SignUpRequest
+} from '../../../models/auth.model';
 import {
 	BadRequestError,
-	errorNames,
 	NotFoundError,
+	PreconditionFailedError,
+	TooManyRequestsError,
+	UnauthorizedError,
+	UnsupportedMediaTypeError,
 	ValidationError
 } from '../../../models/error.model';
-import type { HealthStatus } from '../../../types/health';
-
-interface ApiResponse<T = unknown> {
-	success: boolean;
-	data?: T;
-	message?: string;
-	error?: string;
-	timestamp: string;
+import {
+	apiMessageSchema,
+	apiPaginatedSchema,
+	apiSuccessSchema,
+	problemDetailsSchema
+} from '../../../models/api.model';
+import {
+	createUserSchema,
+	replaceUserSchema,
+	updateUserSchema,
+	userIdParamsSchema,
+	userListQuerySchema,
+	userResourceSchema,
+	type UserListQueryInput
+} from '../../../models/user.model';
+import { METRICS_CONTENT_TYPE } from '../../../services/metrics.registry';
+import { healthStatusSchema, type HealthStatus } from '../../../types/health';
+
+const ACCEPT_PATCH = `${MERGE_PATCH_CONTENT_TYPE}, ${JSON_PATCH_CONTENT_TYPE}`;
+
+// Plain application/json is treated as a merge patch for convenience
+function toUserPatch(contentType: string | undefined, body: unknown): UserPatch {
+	const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+
+	if (mediaType === JSON_PATCH_CONTENT_TYPE) {
+		return { type: 'json-patch', operations: body };
+	}
+	if (mediaType === MERGE_PATCH_CONTENT_TYPE || mediaType === 'application/json') {
+		return { type: 'merge-patch', document: body };
+	}
+
+	throw new UnsupportedMediaTypeError(
+		`Unsupported Content-Type for PATCH, expected one of: ${ACCEPT_PATCH}`
+	);
 }
 
-function createErrorResponse(error: string): ApiResponse {
-	return {
-		success: false,
-		error,
-		timestamp: new Date().toISOString()
-	};
+/**
+ * Evaluate If-Match / If-None-Match against the current user (RFC 9110 §13).
+ * When If-Match passes, the expected version is handed to the write as well,
+ * so a concurrent update between this check and the write still fails with 412.
+ */
+async function resolveWriteOptions(
+	c: Context,
+	userService: IUserService,
+	id: number
+): Promise<UserWriteOptions> {
+	const ifMatch = c.req.header('If-Match');
+	const ifNoneMatch = c.req.header('If-None-Match');
+
+	if (ifMatch === undefined && ifNoneMatch === undefined) {
+		return {};
+	}
+
+	const current = await userService.getUserById(id);
+	if (!current) {
+		throw new NotFoundError('User not found');
+	}
+
+	const etag = formatETag(current.version);
+	if (ifMatch !== undefined && !matchesIfMatch(ifMatch, etag)) {
+		throw new PreconditionFailedError('User has been modified since it was last fetched');
+	}
+	if (ifNoneMatch !== undefined && matchesIfNoneMatch(ifNoneMatch, etag)) {
+		throw new PreconditionFailedError('User matches If-None-Match');
+	}
+
+	return ifMatch !== undefined ? { expectedVersion: current.version } : {};
+}
+
+// Reusable OpenAPI fragments for the user routes
+const errorResponse = (description: string) => ({
+	description,
+	schema: problemDetailsSchema,
+	contentType: PROBLEM_CONTENT_TYPE
+});
+
+const conditionalHeadersSchema = z.object({
+	'If-Match': z
+		.string()
+		.optional()
+		.meta({ description: 'Only write if the user still has this ETag' }),
+	'If-None-Match': z
+		.string()
+		.optional()
+		.meta({ description: 'Fail with 412 if the user matches this ETag' })
+});
+
+const idempotencyHeadersSchema = z.object({
+	[IDEMPOTENCY_KEY_HEADER]: z.string().optional().meta({
+		description:
+			'Unique key per logical request; retries with the same key replay the first response'
+	})
+});
+
+// Headers accepted by the user writes guarded by ETags
+const writeHeadersSchema = conditionalHeadersSchema.extend(idempotencyHeadersSchema.shape);
+
+const ETAG_HEADER = { ETag: 'Current version of the user' };
+
+const IDEMPOTENCY_RESPONSES = {
+	422: errorResponse('Idempotency-Key already used for a different request')
+};
+
+// Responses shared by every route guarded with requirePermission()
+const PERMISSION_RESPONSES = {
+	401: errorResponse('Missing, invalid or expired credentials'),
+	403: errorResponse('The caller lacks the required permission')
+};
+
+// Per-route budgets. Auth routes are limited per IP: their callers are not signed in yet
+const AUTH_RATE_LIMIT: RateLimitOptions = {
+	name: 'auth',
+	limit: 20,
+	windowMs: 60_000,
+	key: (c) => `ip:${clientIp(c)}`
+};
+const CREATE_USER_RATE_LIMIT: RateLimitOptions = {
+	name: 'users:create',
+	limit: 30,
+	windowMs: 60_000
+};
+
+const RATE_LIMIT_RESPONSES = {
+	429: errorResponse('Too many requests, retry after the Retry-After delay')
+};
+
+const API_INFO = {
+	title: 'SvelteKit + Hono API',
+	version: '0.0.1',
+	description: 'REST API served by Hono inside SvelteKit'
+};
+
+const SECURITY_SCHEMES = {
+	bearerAuth: { type: 'http' as const, scheme: 'bearer', bearerFormat: 'JWT' }
+};
+
+// Bodies are parsed as JSON whatever the Content-Type, since clients often omit it
+async function parseJsonBody(c: Context): Promise<unknown> {
+	try {
+		return await c.req.json();
+	} catch {
+		throw new BadRequestError('Malformed JSON in request body', { code: 'malformed_json' });
+	}
+}
+
+async function parseRefreshTokenBody(c: Context): Promise<RefreshTokenRequest> {
+	const parsed = refreshTokenSchema.safeParse(await parseJsonBody(c));
+	if (!parsed.success) {
+		throw ValidationError.fromZodError(parsed.error);
+	}
+	return parsed.data;
+}
+
+const READINESS_RESPONSES = {
+	200: { description: 'Ready (pass, or warn when degraded)', schema: healthStatusSchema },
+	503: { description: 'A critical check failed', schema: healthStatusSchema }
+};
+
+// Load balancers only look at the status code: 503 takes the instance out of rotation
+function readinessResponse(c: Context, health: HealthStatus) {
+	return health.status === 'fail' ? c.json(health, 503) : c.json(health, 200);
 }
 
 function parseIntParam(param: string): number | null {
@@ -39,194 +251,679 @@ function parseIntParam(param: string): number | null {
 const app = new Hono<{ Bindings: ServerEnv }>().basePath('/api');
 
 // Middleware
-app.use('*', logger());
+app.use('*', requestId());
 app.use(
 	'*',
 	cors({
 		origin: '*',
 		allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-		allowHeaders: ['Content-Type', 'Authorization']
+		allowHeaders: [
+			'Content-Type',
+			'Authorization',
+			'If-Match',
+			'If-None-Match',
+			IDEMPOTENCY_KEY_HEADER,
+			'X-Principal',
+			'X-Request-Id',
+			TRACEPARENT_HEADER
+		],
+		exposeHeaders: [
+			'ETag',
+			'X-Request-Id',
+			TRACEPARENT_HEADER,
+			IDEMPOTENT_REPLAYED_HEADER,
+			...RATE_LIMIT_HEADERS
+		]
 	})
 );
 
-// Add DI middleware
+// Join the caller's trace, or start one
+app.use('*', traceContext());
+
+// Add DI middleware: a child container per request holds the request context,
+// principal, request logger and env bindings, and is disposed once handled
 app.use('*', async (c: Context, next: Next) => {
+	// The root container serves the error handler if the configuration is invalid
 	c.set('container', container);
-	await next();
-});
-
-// Global error handler middleware
-app.onError(async (error, c) => {
-	const logger = getLogger(c);
-	const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-	// Handle known custom errors - check instanceof first, then fallback to name
-	if (error instanceof NotFoundError) {
-		logger.warn(`NotFoundError: ${errorMessage}`, { errorMessage });
-		return c.json(createErrorResponse(errorMessage), 404);
-	}
-
-	if (error instanceof BadRequestError) {
-		logger.warn(`BadRequestError: ${errorMessage}`, { errorMessage });
-		return c.json(createErrorResponse(errorMessage), 400);
-	}
-
-	if (error instanceof ValidationError) {
-		logger.warn(`ValidationError: ${errorMessage}`, { errorMessage });
-		return c.json(createErrorResponse(errorMessage), 400);
-	}
-
-	// Fallback to errorNames mapping
-	if (error instanceof Error && error.name && errorNames[error.name]) {
-		const statusCode = errorNames[error.name];
-		logger.info(`Handling custom error via errorNames: ${error.name} with status ${statusCode}`, {
-			errorMessage
-		});
-
-		if (statusCode >= 500) {
-			logger.error(`${error.name}: ${errorMessage}`, error);
-		} else {
-			logger.warn(`${error.name}: ${errorMessage}`, { errorMessage });
-		}
-
-		return c.json(createErrorResponse(errorMessage), statusCode);
-	}
-
-	// Handle validation errors from services (legacy support)
-	if (errorMessage.includes('Validation failed')) {
-		logger.warn('Service validation error (legacy)', { errorMessage });
-		return c.json(createErrorResponse(errorMessage), 400);
+	const requestContainer = createRequestContainer({
+		requestId: c.get('requestId'),
+		trace: c.get('trace'),
+		env: c.env,
+		principal: null
+	});
+	c.set('container', requestContainer);
+	try {
+		await next();
+	} finally {
+		await disposeRequestContainer(requestContainer);
 	}
-
-	// Handle general errors
-	logger.error('Unhandled error', error instanceof Error ? error : new Error(String(error)));
-	return c.json(createErrorResponse('Internal server error'), 500);
 });
 
-// Health check endpoint
-app.get('/health', (c): Response => {
-	const response: HealthStatus = {
-		status: 'ok',
-		timestamp: new Date().toISOString(),
-		environment: c.env?.ENVIRONMENT || 'development'
-	};
-	return c.json(response);
-});
+// One structured access-log record per request, through the request logger
+app.use('*', accessLog());
 
-// Hello endpoint
-app.get('/hello', (c): Response => {
-	const response = {
-		message: 'Hello from Hono!',
-		method: c.req.method,
-		path: c.req.path,
-		timestamp: new Date().toISOString()
-	};
-	return c.json(response);
-});
+// Request counts and latencies per route, exposed below
+app.use('*', httpMetrics());
 
-// User CRUD endpoints with Dependency Injection
-app.get('/users', async (c): Promise<Response> => {
-	const userService = getUserService(c);
-	const logger = getLogger(c);
+// Prometheus scrape endpoint. Registered before authenticate(), which would reject
+// the metrics token as an invalid access token
+app.get('/metrics', requireMetricsToken(), (c) =>
+	c.body(getMetricsRegistry(c).render(), 200, { 'Content-Type': METRICS_CONTENT_TYPE })
+);
 
-	logger.info('GET /users endpoint called');
-	const users = await userService.getAllUsers();
+// Resolve the caller (Bearer access token or signed X-Principal header), if any
+app.use('*', authenticate());
 
-	return c.json({
-		success: true,
-		data: users,
-		timestamp: new Date().toISOString()
-	});
-});
-
-app.get('/users/:id', async (c): Promise<Response> => {
-	const id = parseIntParam(c.req.param('id'));
-	const userService = getUserService(c);
+// Global error handler: every error becomes an RFC 9457 problem+json response
+app.onError(async (error, c) => {
 	const logger = getLogger(c);
+	const problem = {
+		...toProblem(error, c.req.path),
+		requestId: c.get('requestId'),
+		traceId: c.get('trace')?.traceId
+	};
 
-	if (id === null) {
-		throw new BadRequestError('Invalid user ID');
+	if (problem.status >= 500) {
+		logger.error(
+			`${problem.code}: ${error.message}`,
+			error instanceof Error ? error : new Error(String(error))
+		);
+	} else {
+		logger.warn(`${error.name}: ${problem.detail}`, { code: problem.code, status: problem.status });
 	}
 
-	logger.info('GET /users/:id endpoint called', { userId: id });
-	const user = await userService.getUserById(id);
-
-	if (!user) {
-		throw new NotFoundError('User not found');
+	if (problem.status === 401) {
+		c.header('WWW-Authenticate', 'Bearer');
 	}
-
-	return c.json({
-		success: true,
-		data: user,
-		timestamp: new Date().toISOString()
-	});
-});
-
-app.post('/users', async (c): Promise<Response> => {
-	const body = await c.req.json();
-	const userService = getUserService(c);
-	const logger = getLogger(c);
-
-	logger.info('POST /users endpoint called', { userData: body });
-	const newUser = await userService.createUser(body);
-
-	return c.json(
-		{
-			success: true,
-			data: newUser,
-			message: 'User created successfully',
-			timestamp: new Date().toISOString()
-		},
-		201
-	);
-});
-
-app.put('/users/:id', async (c): Promise<Response> => {
-	const id = parseIntParam(c.req.param('id'));
-	const body = await c.req.json();
-	const userService = getUserService(c);
-	const logger = getLogger(c);
-
-	if (id === null) {
-		throw new BadRequestError('Invalid user ID');
+	if (error instanceof TooManyRequestsError) {
+		c.header('Retry-After', String(error.retryAfter));
 	}
 
-	logger.info('PUT /users/:id endpoint called', { userId: id, updateData: body });
-	const updatedUser = await userService.updateUser(id, body);
-
-	if (!updatedUser) {
-		throw new NotFoundError('User not found');
-	}
-
-	return c.json({
-		success: true,
-		data: updatedUser,
-		message: `User ${id} updated successfully`,
-		timestamp: new Date().toISOString()
+	return c.json(problem, problem.status as ContentfulStatusCode, {
+		'Content-Type': PROBLEM_CONTENT_TYPE
 	});
 });
 
-app.delete('/users/:id', async (c): Promise<Response> => {
-	const id = parseIntParam(c.req.param('id'));
-	const userService = getUserService(c);
-	const logger = getLogger(c);
-
-	if (id === null) {
-		throw new BadRequestError('Invalid user ID');
-	}
+// API routes. Declared as one chain so that AppType carries every path, input and
+// response type for the typed RPC client (see services/client/rpc-client.ts)
+const routes = new Hono<{ Bindings: ServerEnv }>()
+	// Health checks. /health is kept for existing clients and reports readiness
+	.get(
+		'/health',
+		describeRoute({
+			summary: 'System health check (readiness)',
+			tags: ['System'],
+			responses: READINESS_RESPONSES
+		}),
+		async (c) => readinessResponse(c, await getHealthService(c).ready())
+	)
+	.get(
+		'/health/live',
+		describeRoute({
+			summary: 'Liveness probe',
+			description: 'Answers while the process can serve requests; runs no dependency checks.',
+			tags: ['System'],
+			responses: { 200: { description: 'Process is up', schema: healthStatusSchema } }
+		}),
+		(c) => c.json(getHealthService(c).live())
+	)
+	.get(
+		'/health/ready',
+		describeRoute({
+			summary: 'Readiness probe',
+			description: 'Runs every registered health check (database, config, KV).',
+			tags: ['System'],
+			responses: READINESS_RESPONSES
+		}),
+		async (c) => readinessResponse(c, await getHealthService(c).ready())
+	)
+
+	// Hello endpoint
+	.get(
+		'/hello',
+		describeRoute({
+			summary: 'API info and request details',
+			tags: ['System'],
+			responses: {
+				200: {
+					description: 'Greeting with request details',
+					schema: z.object({
+						message: z.string(),
+						method: z.string(),
+						path: z.string(),
+						timestamp: z.string()
+					})
+				}
+			}
+		}),
+		(c) => {
+			const response = {
+				message: 'Hello from Hono!',
+				method: c.req.method,
+				path: c.req.path,
+				timestamp: new Date().toISOString()
+			};
+			return c.json(response);
+		}
+	)
+
+	// User CRUD endpoints with Dependency Injection
+	.get(
+		'/users',
+		describeRoute({
+			summary: 'List users',
+			description: 'Filter, sort and paginate users with either a cursor or page/pageSize.',
+			tags: ['Users'],
+			operationId: 'listUsers',
+			query: userListQuerySchema,
+			responses: {
+				200: { description: 'A page of users', schema: apiPaginatedSchema(userResourceSchema) },
+				400: errorResponse('Invalid query parameters')
+			}
+		}),
+		validator('query', (query) => query as UserListQueryInput),
+		async (c) => {
+			const userService = getUserService(c);
+			const logger = getLogger(c);
+			const query = c.req.valid('query');
+
+			// Parameter names only: `q` and `cursor` can carry e-mail addresses
+			logger.info('GET /users endpoint called', { params: Object.keys(query) });
+			const result = await userService.listUsers(query);
+
+			return c.json({
+				success: true,
+				data: result.items,
+				pagination: result.pagination,
+				timestamp: new Date().toISOString()
+			});
+		}
+	)
+
+	.get(
+		'/users/:id',
+		describeRoute({
+			summary: 'Get user by ID',
+			tags: ['Users'],
+			operationId: 'getUser',
+			params: userIdParamsSchema,
+			headers: z.object({
+				'If-None-Match': z
+					.string()
+					.optional()
+					.meta({ description: 'Respond with 304 if the user still has this ETag' })
+			}),
+			responses: {
+				200: {
+					description: 'The user',
+					schema: apiSuccessSchema(userResourceSchema),
+					headers: ETAG_HEADER
+				},
+				304: { description: 'The user matches If-None-Match', headers: ETAG_HEADER },
+				400: errorResponse('Invalid user ID'),
+				404: errorResponse('User not found')
+			}
+		}),
+		async (c) => {
+			const id = parseIntParam(c.req.param('id'));
+			const userService = getUserService(c);
+			const logger = getLogger(c);
+
+			if (id === null) {
+				throw new BadRequestError('Invalid user ID');
+			}
+
+			logger.info('GET /users/:id endpoint called', { userId: id });
+			const user = await userService.getUserById(id);
+
+			if (!user) {
+				throw new NotFoundError('User not found');
+			}
+
+			const etag = formatETag(user.version);
+			c.header('ETag', etag);
+
+			const ifNoneMatch = c.req.header('If-None-Match');
+			if (ifNoneMatch !== undefined && matchesIfNoneMatch(ifNoneMatch, etag)) {
+				return c.body(null, 304);
+			}
+
+			return c.json({
+				success: true,
+				data: user,
+				timestamp: new Date().toISOString()
+			});
+		}
+	)
+
+	.post(
+		'/users',
+		describeRoute({
+			summary: 'Create a user',
+			description: 'Requires the `users:create` permission.',
+			tags: ['Users'],
+			operationId: 'createUser',
+			security: ['bearerAuth'],
+			headers: idempotencyHeadersSchema,
+			body: { schema: createUserSchema },
+			responses: {
+				201: {
+					description: 'User created',
+					schema: apiSuccessSchema(userResourceSchema),
+					headers: ETAG_HEADER
+				},
+				400: errorResponse('Validation failed'),
+				...PERMISSION_RESPONSES,
+				409: errorResponse('Email already exists'),
+				...IDEMPOTENCY_RESPONSES,
+				...RATE_LIMIT_RESPONSES
+			}
+		}),
+		requirePermission('users:create'),
+		rateLimit(CREATE_USER_RATE_LIMIT),
+		idempotency(),
+		validator('json', async (_body, c) => (await parseJsonBody(c)) as CreateUserRequest),
+		async (c) => {
+			const body = c.req.valid('json');
+			const userService = getUserService(c);
+			const logger = getLogger(c);
+
+			logger.info('POST /users endpoint called');
+			const newUser = await userService.createUser(body);
+
+			c.header('ETag', formatETag(newUser.version));
+
+			return c.json(
+				{
+					success: true,
+					data: newUser,
+					message: 'User created successfully',
+					timestamp: new Date().toISOString()
+				},
+				201
+			);
+		}
+	)
+
+	.put(
+		'/users/:id',
+		describeRoute({
+			summary: 'Replace a user',
+			description:
+				'Full replacement: every field is required. Requires the `users:update` permission.',
+			tags: ['Users'],
+			operationId: 'replaceUser',
+			security: ['bearerAuth'],
+			params: userIdParamsSchema,
+			headers: writeHeadersSchema,
+			body: { schema: replaceUserSchema },
+			responses: {
+				200: {
+					description: 'User replaced',
+					schema: apiSuccessSchema(userResourceSchema),
+					headers: ETAG_HEADER
+				},
+				400: errorResponse('Validation failed'),
+				...PERMISSION_RESPONSES,
+				404: errorResponse('User not found'),
+				409: errorResponse('Email already exists'),
+				412: errorResponse('Precondition failed'),
+				...IDEMPOTENCY_RESPONSES
+			}
+		}),
+		requirePermission('users:update'),
+		idempotency(),
+		validator('json', async (_body, c) => (await parseJsonBody(c)) as ReplaceUserRequest),
+		async (c) => {
+			const id = parseIntParam(c.req.param('id'));
+			const body = c.req.valid('json');
+			const userService = getUserService(c);
+			const logger = getLogger(c);
+
+			if (id === null) {
+				throw new BadRequestError('Invalid user ID');
+			}
+
+			logger.info('PUT /users/:id endpoint called', { userId: id });
+			const options = await resolveWriteOptions(c, userService, id);
+			const updatedUser = await userService.replaceUser(id, body, options);
+
+			if (!updatedUser) {
+				throw new NotFoundError('User not found');
+			}
+
+			c.header('ETag', formatETag(updatedUser.version));
+
+			return c.json({
+				success: true,
+				data: updatedUser,
+				message: `User ${id} updated successfully`,
+				timestamp: new Date().toISOString()
+			});
+		}
+	)
+
+	.patch(
+		'/users/:id',
+		describeRoute({
+			summary: 'Partially update a user',
+			description:
+				'Accepts a JSON Merge Patch (RFC 7396) or a JSON Patch (RFC 6902). Plain application/json is treated as a merge patch. Requires the `users:update` permission.',
+			tags: ['Users'],
+			operationId: 'patchUser',
+			security: ['bearerAuth'],
+			params: userIdParamsSchema,
+			headers: writeHeadersSchema,
+			body: {
+				schema: z.union([updateUserSchema, jsonPatchSchema]),
+				contentTypes: [MERGE_PATCH_CONTENT_TYPE, JSON_PATCH_CONTENT_TYPE, 'application/json']
+			},
+			responses: {
+				200: {
+					description: 'User updated',
+					schema: apiSuccessSchema(userResourceSchema),
+					headers: ETAG_HEADER
+				},
+				400: errorResponse('Invalid patch document or validation failed'),
+				...PERMISSION_RESPONSES,
+				404: errorResponse('User not found'),
+				409: errorResponse('A JSON Patch test operation failed or the email already exists'),
+				412: errorResponse('Precondition failed'),
+				415: errorResponse('Unsupported Content-Type'),
+				...IDEMPOTENCY_RESPONSES
+			}
+		}),
+		requirePermission('users:update'),
+		idempotency(),
+		// Non-JSON content types leave the body unparsed and are rejected by toUserPatch
+		validator('json', (body) => body as UpdateUserRequest | JsonPatchOperation[]),
+		async (c) => {
+			const id = parseIntParam(c.req.param('id'));
+			const userService = getUserService(c);
+			const logger = getLogger(c);
+
+			c.header('Accept-Patch', ACCEPT_PATCH);
+
+			if (id === null) {
+				throw new BadRequestError('Invalid user ID');
+			}
+
+			const patch = toUserPatch(c.req.header('Content-Type'), c.req.valid('json'));
+
+			logger.info('PATCH /users/:id endpoint called', { userId: id, patchType: patch.type });
+			const options = await resolveWriteOptions(c, userService, id);
+			const patchedUser = await userService.patchUser(id, patch, options);
+
+			if (!patchedUser) {
+				throw new NotFoundError('User not found');
+			}
+
+			c.header('ETag', formatETag(patchedUser.version));
+
+			return c.json({
+				success: true,
+				data: patchedUser,
+				message: `User ${id} updated successfully`,
+				timestamp: new Date().toISOString()
+			});
+		}
+	)
+
+	.delete(
+		'/users/:id',
+		describeRoute({
+			summary: 'Delete a user',
+			description: 'Requires the `users:delete` permission.',
+			tags: ['Users'],
+			operationId: 'deleteUser',
+			security: ['bearerAuth'],
+			params: userIdParamsSchema,
+			headers: writeHeadersSchema,
+			responses: {
+				200: { description: 'User deleted', schema: apiMessageSchema },
+				400: errorResponse('Invalid user ID'),
+				...PERMISSION_RESPONSES,
+				404: errorResponse('User not found'),
+				412: errorResponse('Precondition failed'),
+				...IDEMPOTENCY_RESPONSES
+			}
+		}),
+		requirePermission('users:delete'),
+		idempotency(),
+		async (c) => {
+			const id = parseIntParam(c.req.param('id'));
+			const userService = getUserService(c);
+			const logger = getLogger(c);
+
+			if (id === null) {
+				throw new BadRequestError('Invalid user ID');
+			}
+
+			logger.info('DELETE /users/:id endpoint called', { userId: id });
+			const options = await resolveWriteOptions(c, userService, id);
+			const deleted = await userService.deleteUser(id, options);
+
+			if (!deleted) {
+				throw new NotFoundError('User not found');
+			}
+
+			return c.json({
+				success: true,
+				message: `User ${id} deleted successfully`,
+				timestamp: new Date().toISOString()
+			});
+		}
+	)
+
+	// Authentication endpoints: JWT access tokens plus rotating refresh tokens
+	.post(
+		'/auth/sign-up',
+		describeRoute({
+			summary: 'Create an account',
+			description: 'Registers a user with a password and signs them in.',
+			tags: ['Auth'],
+			operationId: 'signUp',
+			body: { schema: signUpSchema },
+			responses: {
+				201: {
+					description: 'Account created',
+					schema: apiSuccessSchema(authSessionSchema)
+				},
+				400: errorResponse('Validation failed'),
+				409: errorResponse('Email is already registered'),
+				...RATE_LIMIT_RESPONSES
+			}
+		}),
+		rateLimit(AUTH_RATE_LIMIT),
+		validator('json', async (_body, c) => (await parseJsonBody(c)) as SignUpRequest),
+		async (c) => {
+			const body = c.req.valid('json');
+			const authService = getAuthService(c);
+			const logger = getLogger(c);
+
+			logger.info('POST /auth/sign-up endpoint called', { email: body?.email });
+			const session = await authService.signUp(body);
+
+			return c.json(
+				{
+					success: true,
+					data: session,
+					message: 'Signed up successfully',
+					timestamp: new Date().toISOString()
+				},
+				201
+			);
+		}
+	)
+
+	.post(
+		'/auth/sign-in',
+		describeRoute({
+			summary: 'Sign in',
+			description: 'Exchanges email and password for an access token and a refresh token.',
+			tags: ['Auth'],
+			operationId: 'signIn',
+			body: { schema: signInSchema },
+			responses: {
+				200: { description: 'Signed in', schema: apiSuccessSchema(authSessionSchema) },
+				400: errorResponse('Validation failed'),
+				401: errorResponse('Invalid email or password'),
+				...RATE_LIMIT_RESPONSES
+			}
+		}),
+		rateLimit(AUTH_RATE_LIMIT),
+		validator('json', async (_body, c) => (await parseJsonBody(c)) as SignInRequest),
+		async (c) => {
+			const body = c.req.valid('json');
+			const authService = getAuthService(c);
+			const logger = getLogger(c);
+
+			logger.info('POST /auth/sign-in endpoint called', { email: body?.email });
+			const session = await authService.signIn(body);
+
+			return c.json({
+				success: true,
+				data: session,
+				message: 'Signed in successfully',
+				timestamp: new Date().toISOString()
+			});
+		}
+	)
+
+	.post(
+		'/auth/refresh',
+		describeRoute({
+			summary: 'Refresh tokens',
+			description:
+				'Rotates the refresh token: the one sent is invalidated, and reusing it signs the session out.',
+			tags: ['Auth'],
+			operationId: 'refreshTokens',
+			body: { schema: refreshTokenSchema },
+			responses: {
+				200: { description: 'New token pair', schema: apiSuccessSchema(authTokensSchema) },
+				400: errorResponse('Validation failed'),
+				401: errorResponse('Invalid, expired or reused refresh token'),
+				...RATE_LIMIT_RESPONSES
+			}
+		}),
+		rateLimit(AUTH_RATE_LIMIT),
+		validator('json', (_body, c) => parseRefreshTokenBody(c)),
+		async (c) => {
+			const { refreshToken } = c.req.valid('json');
+			const authService = getAuthService(c);
+			const logger = getLogger(c);
+
+			logger.info('POST /auth/refresh endpoint called');
+			const tokens = await authService.refresh(refreshToken);
+
+			return c.json({
+				success: true,
+				data: tokens,
+				timestamp: new Date().toISOString()
+			});
+		}
+	)
+
+	.post(
+		'/auth/sign-out',
+		describeRoute({
+			summary: 'Sign out',
+			description: 'Revokes the refresh token and every token rotated from the same sign-in.',
+			tags: ['Auth'],
+			operationId: 'signOut',
+			body: { schema: refreshTokenSchema },
+			responses: {
+				200: { description: 'Signed out', schema: apiMessageSchema },
+				400: errorResponse('Validation failed')
+			}
+		}),
+		validator('json', (_body, c) => parseRefreshTokenBody(c)),
+		async (c) => {
+			const { refreshToken } = c.req.valid('json');
+			const authService = getAuthService(c);
+			const logger = getLogger(c);
+
+			logger.info('POST /auth/sign-out endpoint called');
+			await authService.signOut(refreshToken);
+
+			return c.json({
+				success: true,
+				message: 'Signed out successfully',
+				timestamp: new Date().toISOString()
+			});
+		}
+	)
+
+	.get(
+		'/auth/me',
+		describeRoute({
+			summary: 'Current user',
+			tags: ['Auth'],
+			operationId: 'getCurrentUser',
+			security: ['bearerAuth'],
+			responses: {
+				200: { description: 'The signed-in user', schema: apiSuccessSchema(userResourceSchema) },
+				401: errorResponse('Missing, invalid or expired access token')
+			}
+		}),
+		requireAuth(),
+		async (c) => {
+			const principal = getPrincipal(c);
+			const userService = getUserService(c);
+
+			const user = await userService.getUserById(principal.userId);
+			if (!user) {
+				throw new UnauthorizedError('User no longer exists');
+			}
+
+			return c.json({
+				success: true,
+				data: user,
+				timestamp: new Date().toISOString()
+			});
+		}
+	)
+
+	.get(
+		'/auth/session',
+		describeRoute({
+			summary: 'Current session and permissions',
+			description:
+				'Who the caller is and what they may do. Anonymous callers get a null user and no permissions.',
+			tags: ['Auth'],
+			operationId: 'getSession',
+			security: ['bearerAuth'],
+			responses: {
+				200: { description: 'The session', schema: apiSuccessSchema(sessionInfoSchema) },
+				401: errorResponse('Invalid or expired credentials')
+			}
+		}),
+		async (c) => {
+			const { principal } = getRequestContext(c);
+			const userService = getUserService(c);
+			const authorizationService = getAuthorizationService(c);
+
+			const user = principal ? await userService.getUserById(principal.userId) : null;
+			const permissions = await authorizationService.getPermissions(principal);
+
+			return c.json({
+				success: true,
+				data: { user, role: user?.role ?? null, permissions },
+				timestamp: new Date().toISOString()
+			});
+		}
+	);
 
-	logger.info('DELETE /users/:id endpoint called', { userId: id });
-	const deleted = await userService.deleteUser(id);
+app.route('/', routes);
 
-	if (!deleted) {
-		throw new NotFoundError('User not found');
-	}
+// OpenAPI document generated from the routes above (built once, on first request)
+let openAPIDocument: OpenAPIDocument | undefined;
 
-	return c.json({
-		success: true,
-		message: `User ${id} deleted successfully`,
-		timestamp: new Date().toISOString()
+app.get('/openapi.json', (c): Response => {
+	openAPIDocument ??= generateOpenAPIDocument(app, API_INFO, {
+		securitySchemes: SECURITY_SCHEMES
 	});
+	return c.json(openAPIDocument);
 });
 
 // Catch-all for testing dynamic routes
@@ -241,10 +938,13 @@ app.get('/*', (c): Response => {
 	});
 });
 
-// Export all HTTP methods
-export const GET: RequestHandler = ({ request }) => app.fetch(request);
-export const POST: RequestHandler = ({ request }) => app.fetch(request);
-export const PUT: RequestHandler = ({ request }) => app.fetch(request);
-export const PATCH: RequestHandler = ({ request }) => app.fetch(request);
-export const DELETE: RequestHandler = ({ request }) => app.fetch(request);
-export const OPTIONS: RequestHandler = ({ request }) => app.fetch(request);
+// Type of the API routes, consumed by the typed RPC client
+export type AppType = typeof routes;
+
+// Export all HTTP methods (platform.env carries the Cloudflare bindings)
+export const GET: RequestHandler = ({ request, platform }) => app.fetch(request, platform?.env);
+export const POST: RequestHandler = ({ request, platform }) => app.fetch(request, platform?.env);
+export const PUT: RequestHandler = ({ request, platform }) => app.fetch(request, platform?.env);
+export const PATCH: RequestHandler = ({ request, platform }) => app.fetch(request, platform?.env);
+export const DELETE: RequestHandler = ({ request, platform }) => app.fetch(request, platform?.env);
+export const OPTIONS: RequestHandler = ({ request, platform }) => app.fetch(request, platform?.env);
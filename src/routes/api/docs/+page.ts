@@ -0,0 +1,12 @@
+import type { OpenAPIDocument } from '$lib/openapi';
+import { error } from '@sveltejs/kit';
+import type { PageLoad } from './$types';
+
+export const load: PageLoad = async ({ fetch }) => {
+	const response = await fetch('/api/openapi.json');
+	if (!response.ok) {
+		error(response.status, 'Failed to load the OpenAPI document');
+	}
+
+	return { document: (await response.json()) as OpenAPIDocument };
+};
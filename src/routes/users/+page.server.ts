@@ -0,0 +1,36 @@
+import { toProblem } from '$lib/problem';
+import { error } from '@sveltejs/kit';
+import { withRequestContainer } from '../../container/inversify.server';
+import { TYPES } from '../../container/types';
+import type { UserResource } from '../../interfaces/api.interface';
+import type { IUserService } from '../../interfaces/user.interface';
+import { ApiError } from '../../models/error.model';
+import type { PageServerLoad } from './$types';
+
+// Rendered on the server from the user service, like GET /api/users; the query
+// string takes the same filters, sorting and pagination
+export const load: PageServerLoad = (event) =>
+	withRequestContainer(event, async (requestContainer) => {
+		const userService = requestContainer.get<IUserService>(TYPES.UserService);
+
+		try {
+			const { items, pagination } = await userService.listUsers(
+				Object.fromEntries(event.url.searchParams)
+			);
+			const users: UserResource[] = items.map((user) => ({
+				...user,
+				createdAt: user.createdAt.toISOString()
+			}));
+			return { users, pagination };
+		} catch (err) {
+			// Client mistakes (invalid filters, a malformed or foreign cursor) get the same
+			// status as from the API; anything else is a server error
+			if (err instanceof ApiError) {
+				const problem = toProblem(err, event.url.pathname);
+				if (problem.status < 500) {
+					error(problem.status, problem.detail);
+				}
+			}
+			throw err;
+		}
+	});
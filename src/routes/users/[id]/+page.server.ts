@@ -0,0 +1,26 @@
+import { error } from '@sveltejs/kit';
+import { withRequestContainer } from '../../../container/inversify.server';
+import { TYPES } from '../../../container/types';
+import type { UserResource } from '../../../interfaces/api.interface';
+import type { IUserService } from '../../../interfaces/user.interface';
+import { userIdParamsSchema } from '../../../models/user.model';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = (event) =>
+	withRequestContainer(event, async (requestContainer) => {
+		// Malformed IDs name no user either, so they are a 404 rather than a 400
+		const params = userIdParamsSchema.safeParse(event.params);
+		if (!params.success) {
+			error(404, 'User not found');
+		}
+
+		const userService = requestContainer.get<IUserService>(TYPES.UserService);
+		const user = await userService.getUserById(params.data.id);
+		if (!user) {
+			error(404, 'User not found');
+		}
+
+		return {
+			user: { ...user, createdAt: user.createdAt.toISOString() } satisfies UserResource
+		};
+	});
@@ -0,0 +1,47 @@
+import { injectable } from 'inversify';
+import type {
+	IAuthRepository,
+	RefreshTokenRecord,
+	UserCredential
+} from '../interfaces/auth.interface';
+
+// Single Responsibility Principle - Only handles credential and session storage
+@injectable()
+export class AuthRepository implements IAuthRepository {
+	private readonly credentials = new Map<number, UserCredential>();
+	private readonly refreshTokens = new Map<string, RefreshTokenRecord>();
+
+	async findCredential(userId: number): Promise<UserCredential | null> {
+		const credential = this.credentials.get(userId);
+		return credential ? { ...credential } : null;
+	}
+
+	async saveCredential(credential: UserCredential): Promise<void> {
+		this.credentials.set(credential.userId, { ...credential });
+	}
+
+	async createRefreshToken(record: RefreshTokenRecord): Promise<void> {
+		this.refreshTokens.set(record.tokenHash, { ...record });
+	}
+
+	async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null> {
+		const record = this.refreshTokens.get(tokenHash);
+		return record ? { ...record } : null;
+	}
+
+	async markRefreshTokenRotated(tokenHash: string, rotatedAt: Date): Promise<boolean> {
+		const record = this.refreshTokens.get(tokenHash);
+		if (!record || record.rotatedAt || record.revokedAt) return false;
+
+		record.rotatedAt = rotatedAt;
+		return true;
+	}
+
+	async revokeRefreshTokenFamily(familyId: string, revokedAt: Date): Promise<void> {
+		this.refreshTokens.forEach((record) => {
+			if (record.familyId === familyId && !record.revokedAt) {
+				record.revokedAt = revokedAt;
+			}
+		});
+	}
+}
@@ -0,0 +1,181 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '../container/types';
+import type {
+	AuthSession,
+	AuthTokens,
+	IAuthRepository,
+	IAuthService,
+	IPasswordHasher,
+	ITokenService,
+	Principal
+} from '../interfaces/auth.interface';
+import type { IConfigService } from '../interfaces/config.interface';
+import type { ILogger } from '../interfaces/logger.interface';
+import type { IUserRepository, IUserService, User } from '../interfaces/user.interface';
+import {
+	signInSchema,
+	signUpSchema,
+	type SignInRequest,
+	type SignUpRequest
+} from '../models/auth.model';
+import { ConflictError, UnauthorizedError, ValidationError } from '../models/error.model';
+import { PBKDF2_ITERATIONS } from './password.hasher';
+
+// Checked when the email has no password, so a miss costs as much as a wrong password
+// and response times do not reveal which accounts exist. Matches no password.
+const DUMMY_PASSWORD_HASH = `pbkdf2-sha256$${PBKDF2_ITERATIONS}$VjhZDvVeMJBWCwKyqNNoUQ==$5eptobNk5OFVYcz45xu77iB4RoZKMQgwR0O2xx8SQTs=`;
+
+// Single Responsibility Principle - Only handles sign-up, sign-in and token sessions
+@injectable()
+export class AuthService implements IAuthService {
+	constructor(
+		@inject(TYPES.UserService) private readonly userService: IUserService,
+		@inject(TYPES.UserRepository) private readonly userRepository: IUserRepository,
+		@inject(TYPES.AuthRepository) private readonly authRepository: IAuthRepository,
+		@inject(TYPES.PasswordHasher) private readonly passwordHasher: IPasswordHasher,
+		@inject(TYPES.TokenService) private readonly tokenService: ITokenService,
+		@inject(TYPES.ConfigService) private readonly configService: IConfigService,
+		@inject(TYPES.Logger) private readonly logger: ILogger
+	) {}
+
+	async signUp(request: SignUpRequest): Promise<AuthSession> {
+		this.logger.info('Signing up user', { email: request?.email });
+
+		// Validation (Zod)
+		const parsed = signUpSchema.safeParse(request);
+		if (!parsed.success) {
+			const error = ValidationError.fromZodError(parsed.error);
+			this.logger.warn('Sign-up failed - validation error', { errors: error.errors });
+			throw error;
+		}
+
+		const { name, email, password } = parsed.data;
+		if (await this.findUserByEmail(email)) {
+			this.logger.warn('Sign-up failed - email already registered', { email });
+			throw new ConflictError('Email is already registered', {
+				code: 'email_taken',
+				errors: [{ field: 'email', message: 'Email is already registered', code: 'email_taken' }]
+			});
+		}
+
+		const passwordHash = await this.passwordHasher.hash(password);
+		const user = await this.userService.createUser({ name, email });
+		try {
+			await this.authRepository.saveCredential({ userId: user.id, passwordHash });
+		} catch (error) {
+			// Users and credentials live in separate repositories, so undo the user by hand;
+			// otherwise the email stays taken by an account nobody can sign in to
+			this.logger.error(
+				'Sign-up failed - could not save credential',
+				error instanceof Error ? error : undefined,
+				{ userId: user.id }
+			);
+			await this.userRepository.delete(user.id);
+			throw error;
+		}
+
+		this.logger.info('User signed up successfully', { userId: user.id });
+		return { user, tokens: await this.issueTokens(user, crypto.randomUUID()) };
+	}
+
+	async signIn(request: SignInRequest): Promise<AuthSession> {
+		const parsed = signInSchema.safeParse(request);
+		if (!parsed.success) {
+			const error = ValidationError.fromZodError(parsed.error);
+			this.logger.warn('Sign-in failed - validation error', { errors: error.errors });
+			throw error;
+		}
+
+		const { email, password } = parsed.data;
+		const user = await this.findUserByEmail(email);
+		const credential = user ? await this.authRepository.findCredential(user.id) : null;
+		const valid = await this.passwordHasher.verify(
+			password,
+			credential?.passwordHash ?? DUMMY_PASSWORD_HASH
+		);
+
+		// Same error whether the email or the password is wrong, so accounts cannot be enumerated
+		if (!user || !credential || !valid) {
+			this.logger.warn('Sign-in failed - invalid credentials', { email });
+			throw new UnauthorizedError('Invalid email or password', { code: 'invalid_credentials' });
+		}
+
+		this.logger.info('User signed in', { userId: user.id });
+		return { user, tokens: await this.issueTokens(user, crypto.randomUUID()) };
+	}
+
+	async refresh(refreshToken: string): Promise<AuthTokens> {
+		const tokenHash = await this.tokenService.hashRefreshToken(refreshToken);
+		const record = await this.authRepository.findRefreshToken(tokenHash);
+		const now = new Date();
+
+		if (!record || record.revokedAt) {
+			throw new UnauthorizedError('Invalid refresh token', { code: 'refresh_token_invalid' });
+		}
+
+		if (record.expiresAt <= now) {
+			throw new UnauthorizedError('Refresh token has expired', { code: 'refresh_token_expired' });
+		}
+
+		// A rotated token presented again has been stolen or replayed: end the whole session
+		if (record.rotatedAt || !(await this.authRepository.markRefreshTokenRotated(tokenHash, now))) {
+			this.logger.warn('Refresh token reuse detected - revoking session', {
+				userId: record.userId
+			});
+			await this.authRepository.revokeRefreshTokenFamily(record.familyId, now);
+			throw new UnauthorizedError('Refresh token has already been used', {
+				code: 'refresh_token_reused'
+			});
+		}
+
+		const user = await this.userRepository.findById(record.userId);
+		if (!user) {
+			await this.authRepository.revokeRefreshTokenFamily(record.familyId, now);
+			throw new UnauthorizedError('Invalid refresh token', { code: 'refresh_token_invalid' });
+		}
+
+		this.logger.info('Refresh token rotated', { userId: user.id });
+		return await this.issueTokens(user, record.familyId);
+	}
+
+	// Signing out is idempotent: unknown or already revoked tokens are ignored
+	async signOut(refreshToken: string): Promise<void> {
+		const tokenHash = await this.tokenService.hashRefreshToken(refreshToken);
+		const record = await this.authRepository.findRefreshToken(tokenHash);
+
+		if (record) {
+			await this.authRepository.revokeRefreshTokenFamily(record.familyId, new Date());
+			this.logger.info('User signed out', { userId: record.userId });
+		}
+	}
+
+	async authenticate(accessToken: string): Promise<Principal> {
+		return await this.tokenService.verifyAccessToken(accessToken);
+	}
+
+	private async findUserByEmail(email: string): Promise<User | null> {
+		const { items } = await this.userRepository.findMany({ email, limit: 1 });
+		return items[0] ?? null;
+	}
+
+	private async issueTokens(user: User, familyId: string): Promise<AuthTokens> {
+		const { accessTokenTtl, refreshTokenTtl } = this.configService.getAuthConfig();
+		const refreshToken = this.tokenService.generateRefreshToken();
+
+		await this.authRepository.createRefreshToken({
+			tokenHash: await this.tokenService.hashRefreshToken(refreshToken),
+			userId: user.id,
+			familyId,
+			expiresAt: new Date(Date.now() + refreshTokenTtl * 1000),
+			rotatedAt: null,
+			revokedAt: null
+		});
+
+		return {
+			accessToken: await this.tokenService.issueAccessToken({ userId: user.id, email: user.email }),
+			refreshToken,
+			tokenType: 'Bearer',
+			expiresIn: accessTokenTtl
+		};
+	}
+}
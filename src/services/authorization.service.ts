@@ -0,0 +1,50 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '../container/types';
+import type { Principal } from '../interfaces/auth.interface';
+import type { IAuthorizationService } from '../interfaces/authorization.interface';
+import type { ILogger } from '../interfaces/logger.interface';
+import type { IUserRepository } from '../interfaces/user.interface';
+import { ForbiddenError, UnauthorizedError } from '../models/error.model';
+import {
+	hasPermission,
+	rolePermissions,
+	type Permission,
+	type UserRole
+} from '../models/role.model';
+
+// Roles are looked up on every check rather than carried in the access token,
+// so a role change or a deleted user takes effect immediately
+@injectable()
+export class AuthorizationService implements IAuthorizationService {
+	constructor(
+		@inject(TYPES.UserRepository) private readonly userRepository: IUserRepository,
+		@inject(TYPES.Logger) private readonly logger: ILogger
+	) {}
+
+	async getRole(principal: Principal | null): Promise<UserRole | null> {
+		if (!principal) return null;
+
+		const user = await this.userRepository.findById(principal.userId);
+		return user?.role ?? null;
+	}
+
+	async getPermissions(principal: Principal | null): Promise<Permission[]> {
+		const role = await this.getRole(principal);
+		return role ? [...rolePermissions[role]] : [];
+	}
+
+	async can(principal: Principal | null, permission: Permission): Promise<boolean> {
+		return hasPermission(await this.getRole(principal), permission);
+	}
+
+	async authorize(principal: Principal | null, permission: Permission): Promise<void> {
+		if (!principal) {
+			throw new UnauthorizedError('Authentication required', { code: 'authentication_required' });
+		}
+
+		if (!(await this.can(principal, permission))) {
+			this.logger.warn('Permission denied', { userId: principal.userId, permission });
+			throw new ForbiddenError(`Missing permission: ${permission}`, { code: 'permission_denied' });
+		}
+	}
+}
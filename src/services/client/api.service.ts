@@ -1,70 +1,268 @@
-import { inject, injectable } from 'inversify';
+import { inject, injectable, optional } from 'inversify';
 import { TYPES } from '../../container/types';
 import type {
-	ApiResponse,
+	AuthSessionResource,
 	HelloResponse,
 	IApiService,
+	IAuthApiService,
 	IHealthApiService,
 	IHelloApiService,
-	IUserApiService
+	IUserApiService,
+	ReadOptions,
+	SessionInfoResource,
+	UserListFilter,
+	UserResource
 } from '../../interfaces/api.interface';
-import type { IHttpClient } from '../../interfaces/http-client.interface';
-import type { User } from '../../models/user.model';
-import type { HealthStatus } from '../../types/health';
+import { userQueryKeys } from '../../interfaces/api.interface';
+import {
+	HttpError,
+	type FetchOptions,
+	type IHttpClient
+} from '../../interfaces/http-client.interface';
+import type { IQueryCache } from '../../interfaces/query-cache.interface';
+import type { UserWriteOptions } from '../../interfaces/user.interface';
+import { formatETag } from '../../lib/etag';
+import {
+	JSON_PATCH_CONTENT_TYPE,
+	MERGE_PATCH_CONTENT_TYPE,
+	type JsonPatchOperation
+} from '../../lib/json-patch';
+import { apiPaginatedSchema, apiSuccessSchema } from '../../models/api.model';
+import type { SignInRequest, SignUpRequest } from '../../models/auth.model';
+import {
+	MAX_PAGE_SIZE,
+	userResourceSchema,
+	type CreateUserRequest,
+	type ReplaceUserRequest,
+	type UpdateUserRequest,
+	type UserListQuery
+} from '../../models/user.model';
+import { healthStatusSchema, type HealthStatus } from '../../types/health';
+import type { PaginatedResult } from '../../types/pagination';
+import { createRpcClient, type RpcClient } from './rpc-client';
 
+const NO_RETRY: RequestInit & FetchOptions = { retry: false };
+
+// What the user routes answer with; checked at runtime so a drifting API fails loudly
+const userResponseSchema = apiSuccessSchema(userResourceSchema);
+const userPageResponseSchema = apiPaginatedSchema(userResourceSchema);
+
+// Drop unset query fields so they are not sent as "undefined"
+function toQueryParams(query?: UserListQuery): Record<string, string> {
+	const params: Record<string, string> = {};
+	Object.entries(query ?? {}).forEach(([key, value]) => {
+		if (value !== undefined) {
+			params[key] = String(value);
+		}
+	});
+	return params;
+}
+
+// Writes keep the query cache (when bound) in step, so cached lists and details refresh
 @injectable()
 export class UserApiService implements IUserApiService {
-	constructor(@inject(TYPES.HttpClient) private readonly httpClient: IHttpClient) {}
+	private readonly client: RpcClient;
+
+	constructor(
+		@inject(TYPES.HttpClient) private readonly httpClient: IHttpClient,
+		@inject(TYPES.QueryCache) @optional() private readonly queryCache?: IQueryCache
+	) {
+		this.client = createRpcClient(httpClient);
+	}
+
+	async getAllUsers(
+		filter: UserListFilter = {},
+		options: ReadOptions = {}
+	): Promise<UserResource[]> {
+		const users: UserResource[] = [];
+		let cursor: string | undefined;
+		do {
+			const { items, pagination } = await this.listUsers(
+				{ ...filter, limit: MAX_PAGE_SIZE, cursor },
+				options
+			);
+			users.push(...items);
+			cursor = pagination.nextCursor ?? undefined;
+		} while (cursor);
+		return users;
+	}
 
-	async getAllUsers(): Promise<User[]> {
-		const response = await this.httpClient.get<ApiResponse<User[]>>('/users');
-		return response.data || [];
+	async listUsers(
+		query?: UserListQuery,
+		options: ReadOptions = {}
+	): Promise<PaginatedResult<UserResource>> {
+		const response = await this.client.users.$get(
+			{ query: toQueryParams(query) },
+			{ init: { signal: options.signal } }
+		);
+		const { data, pagination } = this.httpClient.validate(
+			userPageResponseSchema,
+			await response.json(),
+			response.url
+		);
+		return { items: data, pagination };
 	}
 
-	async getUserById(id: number): Promise<User> {
-		const response = await this.httpClient.get<ApiResponse<User>>(`/users/${id}`);
-		if (!response.data) {
+	async getUserById(id: number): Promise<UserResource> {
+		const response = await this.client.users[':id'].$get({ param: { id: String(id) } });
+		if (response.status !== 200) {
 			throw new Error(`User with ID ${id} not found`);
 		}
-		return response.data;
+		return this.readUser(response);
 	}
 
-	async createUser(userData: { name: string; email: string }): Promise<User> {
-		const response = await this.httpClient.post<ApiResponse<User>>('/users', userData);
-		if (!response.data) {
-			throw new Error('Failed to create user');
-		}
-		return response.data;
+	async createUser(userData: CreateUserRequest): Promise<UserResource> {
+		const response = await this.client.users.$post({ json: userData });
+		return this.saved(await this.readUser(response));
+	}
+
+	async updateUser(id: number, userData: ReplaceUserRequest): Promise<UserResource> {
+		const response = await this.client.users[':id'].$put({
+			param: { id: String(id) },
+			json: userData
+		});
+		return this.saved(await this.readUser(response));
 	}
 
-	async updateUser(id: number, userData: { name?: string; email?: string }): Promise<User> {
-		const response = await this.httpClient.put<ApiResponse<User>>(`/users/${id}`, userData);
-		if (!response.data) {
-			throw new Error(`Failed to update user with ID ${id}`);
+	async patchUser(
+		id: number,
+		patch: UpdateUserRequest | JsonPatchOperation[],
+		options: UserWriteOptions = {}
+	): Promise<UserResource> {
+		// hc always sends JSON bodies as application/json, so set the patch media type on init
+		const headers: Record<string, string> = {
+			'Content-Type': Array.isArray(patch) ? JSON_PATCH_CONTENT_TYPE : MERGE_PATCH_CONTENT_TYPE
+		};
+		// Takes precedence over the ETag HttpClient remembers, e.g. for server-rendered data
+		if (options.expectedVersion !== undefined) {
+			headers['If-Match'] = formatETag(options.expectedVersion);
 		}
-		return response.data;
+		const response = await this.client.users[':id'].$patch(
+			{ param: { id: String(id) }, json: patch },
+			{ init: { headers } }
+		);
+		return this.saved(await this.readUser(response));
 	}
 
 	async deleteUser(id: number): Promise<void> {
-		await this.httpClient.delete(`/users/${id}`);
+		await this.client.users[':id'].$delete({ param: { id: String(id) } });
+		this.queryCache?.remove(userQueryKeys.detail(id));
+		await this.queryCache?.invalidate(userQueryKeys.lists());
+	}
+
+	// Cache the written user and refresh the lists it may now appear in (or move within)
+	private async saved(user: UserResource): Promise<UserResource> {
+		this.queryCache?.setData(userQueryKeys.detail(user.id), user);
+		await this.queryCache?.invalidate(userQueryKeys.lists());
+		return user;
+	}
+
+	private async readUser(response: Response): Promise<UserResource> {
+		const { data } = this.httpClient.validate(
+			userResponseSchema,
+			await response.json(),
+			response.url
+		);
+		return data;
 	}
 }
 
 @injectable()
 export class HealthApiService implements IHealthApiService {
-	constructor(@inject(TYPES.HttpClient) private readonly httpClient: IHttpClient) {}
+	private readonly client: RpcClient;
+
+	constructor(@inject(TYPES.HttpClient) private readonly httpClient: IHttpClient) {
+		this.client = createRpcClient(httpClient);
+	}
 
 	async checkHealth(): Promise<HealthStatus> {
-		return await this.httpClient.get<HealthStatus>('/health');
+		try {
+			// 503 is the readiness answer here, not a transient failure to retry
+			const response = await this.client.health.ready.$get(undefined, { init: NO_RETRY });
+			return this.httpClient.validate(healthStatusSchema, await response.json(), response.url);
+		} catch (error) {
+			// A failing readiness check answers 503 with the full report
+			const report =
+				error instanceof HttpError && error.status === 503
+					? healthStatusSchema.safeParse(error.response)
+					: undefined;
+			if (report?.success) {
+				return report.data;
+			}
+			throw error;
+		}
+	}
+
+	async checkLiveness(): Promise<HealthStatus> {
+		const response = await this.client.health.live.$get();
+		return this.httpClient.validate(healthStatusSchema, await response.json(), response.url);
 	}
 }
 
 @injectable()
 export class HelloApiService implements IHelloApiService {
-	constructor(@inject(TYPES.HttpClient) private readonly httpClient: IHttpClient) {}
+	private readonly client: RpcClient;
+
+	constructor(@inject(TYPES.HttpClient) httpClient: IHttpClient) {
+		this.client = createRpcClient(httpClient);
+	}
 
 	async getHello(): Promise<HelloResponse> {
-		return await this.httpClient.get<HelloResponse>('/hello');
+		const response = await this.client.hello.$get();
+		return await response.json();
+	}
+}
+
+@injectable()
+export class AuthApiService implements IAuthApiService {
+	private readonly client: RpcClient;
+
+	constructor(@inject(TYPES.HttpClient) private readonly httpClient: IHttpClient) {
+		this.client = createRpcClient(httpClient);
+	}
+
+	async signUp(request: SignUpRequest): Promise<AuthSessionResource> {
+		// Stale tokens would be rejected before the credentials are even checked
+		this.httpClient.setTokens(null);
+		const response = await this.client.auth['sign-up'].$post({ json: request });
+		const { data } = await response.json();
+		this.httpClient.setTokens(data.tokens);
+		return data;
+	}
+
+	async signIn(request: SignInRequest): Promise<AuthSessionResource> {
+		this.httpClient.setTokens(null);
+		const response = await this.client.auth['sign-in'].$post({ json: request });
+		const { data } = await response.json();
+		this.httpClient.setTokens(data.tokens);
+		return data;
+	}
+
+	async signOut(): Promise<void> {
+		const tokens = this.httpClient.getTokens();
+		if (!tokens) return;
+
+		try {
+			await this.client.auth['sign-out'].$post({ json: { refreshToken: tokens.refreshToken } });
+		} finally {
+			this.httpClient.setTokens(null);
+		}
+	}
+
+	async getCurrentUser(): Promise<UserResource> {
+		const response = await this.client.auth.me.$get();
+		const { data } = await response.json();
+		return data;
+	}
+
+	async getSession(): Promise<SessionInfoResource> {
+		const response = await this.client.auth.session.$get();
+		const { data } = await response.json();
+		return data;
+	}
+
+	isAuthenticated(): boolean {
+		return this.httpClient.getTokens() !== null;
 	}
 }
 
@@ -73,14 +271,17 @@ export class ApiService implements IApiService {
 	public readonly users: IUserApiService;
 	public readonly health: IHealthApiService;
 	public readonly hello: IHelloApiService;
+	public readonly auth: IAuthApiService;
 
 	constructor(
 		@inject(TYPES.UserApiService) userApiService: IUserApiService,
 		@inject(TYPES.HealthApiService) healthApiService: IHealthApiService,
-		@inject(TYPES.HelloApiService) helloApiService: IHelloApiService
+		@inject(TYPES.HelloApiService) helloApiService: IHelloApiService,
+		@inject(TYPES.AuthApiService) authApiService: IAuthApiService
 	) {
 		this.users = userApiService;
 		this.health = healthApiService;
 		this.hello = helloApiService;
+		this.auth = authApiService;
 	}
 }
@@ -1,56 +1,161 @@
 import { injectable } from 'inversify';
-import type { IHttpClient, RequestConfig } from '../../interfaces/http-client.interface';
-import { HttpError } from '../../interfaces/http-client.interface';
+import type { z } from 'zod';
+import type {
+	FetchOptions,
+	HttpClientOptions,
+	HttpHandler,
+	IHttpClient,
+	IHttpInterceptor,
+	ITokenStore,
+	RequestConfig,
+	ResponseValidationMode,
+	RetryPolicy,
+	TokenPair
+} from '../../interfaces/http-client.interface';
+import {
+	HttpError,
+	NetworkError,
+	RateLimitError,
+	ResponseValidationError,
+	TimeoutError
+} from '../../interfaces/http-client.interface';
+import { createTraceContext, formatTraceparent, TRACEPARENT_HEADER } from '../../lib/trace';
+import type { ProblemDetails } from '../../models/api.model';
+import { AuthTokenInterceptor, chainInterceptors, hasHeader } from './interceptors';
+import { MemoryTokenStore } from './token-store';
+
+// Methods that modify a resource and should be guarded by its last known ETag
+const CONDITIONAL_METHODS = new Set(['PUT', 'PATCH', 'DELETE']);
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// The API stores responses per key on POST /users only; sign-in and token refresh
+// must not be repeated, a replayed refresh token revokes the whole session
+export const DEFAULT_IDEMPOTENT_POSTS = ['/users'];
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+// Only idempotent methods by default; POSTs and PATCHes are retried when they carry an Idempotency-Key
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 3,
+	baseDelayMs: 250,
+	maxDelayMs: 5_000,
+	retryableStatuses: [408, 429, 502, 503, 504],
+	retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+};
 
 @injectable()
 export class HttpClient implements IHttpClient {
 	private readonly baseURL: string;
 	private readonly defaultHeaders: Record<string, string>;
+	// Last ETag seen per resource URL (without query string)
+	private readonly etags = new Map<string, string>();
+	private readonly tokenStore: ITokenStore;
+	private readonly timeout: number;
+	private readonly retryPolicy: RetryPolicy;
+	private readonly interceptors: IHttpInterceptor[];
+	private readonly responseValidation: ResponseValidationMode;
+	private readonly logger: Pick<Console, 'warn'>;
+	// Resource keys of the POST routes that get an automatic Idempotency-Key
+	private readonly idempotentPosts: Set<string>;
+	// Always last in the chain, so a refreshed token is not seen by other interceptors' retries
+	private readonly auth: AuthTokenInterceptor;
 
-	constructor(baseURL: string = '', defaultHeaders: Record<string, string> = {}) {
+	constructor(
+		baseURL: string = '',
+		defaultHeaders: Record<string, string> = {},
+		options: HttpClientOptions = {}
+	) {
 		this.baseURL = baseURL;
 		this.defaultHeaders = {
 			'Content-Type': 'application/json',
 			...defaultHeaders
 		};
+		this.tokenStore = options.tokenStore ?? new MemoryTokenStore();
+		this.timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+		this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+		this.interceptors = options.interceptors ?? [];
+		this.responseValidation = options.responseValidation ?? 'error';
+		this.logger = options.logger ?? console;
+		this.idempotentPosts = new Set(
+			(options.idempotentPosts ?? DEFAULT_IDEMPOTENT_POSTS).map((path) => this.resourceKey(path))
+		);
+		this.auth = new AuthTokenInterceptor(
+			this.tokenStore,
+			this.buildUrl(options.refreshPath ?? '/auth/refresh'),
+			options.locks
+		);
 	}
 
-	async get<T>(url: string, config?: RequestConfig): Promise<T> {
+	async get<T>(url: string, config?: RequestConfig<T>): Promise<T> {
 		return this.request<T>('GET', url, undefined, config);
 	}
 
-	async post<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T> {
+	async post<T>(url: string, data?: unknown, config?: RequestConfig<T>): Promise<T> {
 		return this.request<T>('POST', url, data, config);
 	}
 
-	async put<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T> {
+	async put<T>(url: string, data?: unknown, config?: RequestConfig<T>): Promise<T> {
 		return this.request<T>('PUT', url, data, config);
 	}
 
-	async patch<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T> {
+	async patch<T>(url: string, data?: unknown, config?: RequestConfig<T>): Promise<T> {
 		return this.request<T>('PATCH', url, data, config);
 	}
 
-	async delete<T>(url: string, config?: RequestConfig): Promise<T> {
+	async delete<T>(url: string, config?: RequestConfig<T>): Promise<T> {
 		return this.request<T>('DELETE', url, undefined, config);
 	}
 
+	async fetch(input: RequestInfo | URL, init: RequestInit & FetchOptions = {}): Promise<Response> {
+		const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+		const method = (init.method ?? 'GET').toUpperCase();
+
+		// Caller headers win over the defaults, whatever their casing
+		const headers = { ...this.defaultHeaders };
+		new Headers(init.headers).forEach((value, name) => {
+			this.deleteHeader(headers, name);
+			headers[name] = value;
+		});
+
+		const { timeout, retry, interceptors, ...requestInit } = init;
+		return this.send(
+			method,
+			this.buildUrl(url),
+			this.resourceKey(url),
+			{ ...requestInit, method, headers },
+			{ timeout, retry, interceptors }
+		);
+	}
+
+	getETag(url: string): string | undefined {
+		return this.etags.get(this.resourceKey(url));
+	}
+
+	clearETags(): void {
+		this.etags.clear();
+	}
+
+	getTokens(): TokenPair | null {
+		return this.tokenStore.get();
+	}
+
+	setTokens(tokens: TokenPair | null): void {
+		this.tokenStore.set(tokens);
+	}
+
 	private async request<T>(
 		method: string,
 		url: string,
 		data?: unknown,
-		config?: RequestConfig
+		config?: RequestConfig<T>
 	): Promise<T> {
-		const fullUrl = this.buildUrl(url, config?.params);
-
-		const headers = {
-			...this.defaultHeaders,
-			...config?.headers
-		};
-
-		const requestInit: RequestInit = {
+		const requestInit: RequestInit & { headers: Record<string, string> } = {
 			method,
-			headers,
+			headers: {
+				...this.defaultHeaders,
+				...config?.headers
+			},
 			signal: config?.signal
 		};
 
@@ -58,38 +163,215 @@ export class HttpClient implements IHttpClient {
 			requestInit.body = JSON.stringify(data);
 		}
 
-		try {
-			const response = await fetch(fullUrl, requestInit);
+		const fullUrl = this.buildUrl(url, config?.params);
+		const response = await this.send(method, fullUrl, this.resourceKey(url), requestInit, {
+			timeout: config?.timeout,
+			retry: config?.retry,
+			interceptors: config?.interceptors
+		});
+
+		const body = await this.readBody(response);
+		return config?.schema ? this.validate(config.schema, body, fullUrl) : (body as T);
+	}
+
+	validate<T>(schema: z.ZodType<T>, data: unknown, url: string): T {
+		const result = schema.safeParse(data);
+		if (result.success) {
+			return result.data;
+		}
+
+		const error = ResponseValidationError.fromZodError(result.error, url);
+		if (this.responseValidation === 'warn') {
+			this.logger.warn(`[http] ${error.message}`, error.errors);
+			return data as T;
+		}
+		throw error;
+	}
+
+	private async readBody(response: Response): Promise<unknown> {
+		// Handle empty responses (like 204 No Content)
+		if (response.status === 204 || response.headers.get('content-length') === '0') {
+			return {};
+		}
+
+		const contentType = response.headers.get('content-type');
+		if (contentType && contentType.includes('application/json')) {
+			return await response.json();
+		}
+
+		// If not JSON, return text as fallback
+		return await response.text();
+	}
+
+	// Shared by request() and fetch(): conditional headers, interceptors (auth included),
+	// retries, error mapping and ETag tracking
+	private async send(
+		method: string,
+		fullUrl: string,
+		resourceKey: string,
+		requestInit: RequestInit & { headers: Record<string, string> },
+		options: FetchOptions = {}
+	): Promise<Response> {
+		// Send the remembered ETag back so concurrent edits fail with 412 instead of overwriting
+		const knownETag = this.etags.get(resourceKey);
+		if (
+			CONDITIONAL_METHODS.has(method) &&
+			knownETag &&
+			!hasHeader(requestInit.headers, 'If-Match')
+		) {
+			requestInit.headers['If-Match'] = knownETag;
+		}
+
+		// POSTs are not idempotent by nature: a key per call lets routes that store responses
+		// recognise retries of it (after a token refresh, say) and replay the first response
+		if (
+			method === 'POST' &&
+			this.idempotentPosts.has(resourceKey) &&
+			!hasHeader(requestInit.headers, IDEMPOTENCY_KEY_HEADER)
+		) {
+			requestInit.headers[IDEMPOTENCY_KEY_HEADER] = crypto.randomUUID();
+		}
+
+		// Start a trace per call so the server's logs for it share one trace ID
+		if (!hasHeader(requestInit.headers, TRACEPARENT_HEADER)) {
+			requestInit.headers[TRACEPARENT_HEADER] = formatTraceparent(createTraceContext());
+		}
+
+		const timeout = options.timeout ?? this.timeout;
+		const policy = options.retry === false ? null : { ...this.retryPolicy, ...options.retry };
+		const retry = policy && this.isRetryable(method, requestInit, policy) ? policy : null;
+		const interceptors = [...this.interceptors, ...(options.interceptors ?? []), this.auth];
+
+		for (let attempt = 1; ; attempt++) {
+			const canRetry = retry !== null && attempt < retry.maxAttempts;
+
+			let response: Response;
+			try {
+				response = await this.attempt(method, fullUrl, requestInit, timeout, interceptors);
+			} catch (error) {
+				if (!canRetry || !(error instanceof NetworkError)) {
+					throw error;
+				}
+				await sleep(backoffDelay(retry, attempt), requestInit.signal);
+				continue;
+			}
 
 			if (!response.ok) {
+				const delay =
+					canRetry && retry.retryableStatuses.includes(response.status)
+						? retryDelay(response, retry, attempt)
+						: null;
+				if (delay !== null) {
+					// Nobody reads the body of a response that is retried; release its connection
+					await response.body?.cancel().catch(() => undefined);
+					await sleep(delay, requestInit.signal);
+					continue;
+				}
 				await this.handleErrorResponse(response, fullUrl);
 			}
 
-			// Handle empty responses (like 204 No Content)
-			if (response.status === 204 || response.headers.get('content-length') === '0') {
-				return {} as T;
-			}
+			this.rememberETag(method, resourceKey, response);
+			return response;
+		}
+	}
 
-			const contentType = response.headers.get('content-type');
-			if (contentType && contentType.includes('application/json')) {
-				return await response.json();
-			}
+	// Retrying needs a body that can be sent again, and a method that is safe to repeat
+	private isRetryable(
+		method: string,
+		requestInit: RequestInit & { headers: Record<string, string> },
+		policy: RetryPolicy
+	): boolean {
+		const replayableBody = requestInit.body == null || typeof requestInit.body === 'string';
+		return (
+			replayableBody &&
+			(policy.retryableMethods.includes(method) ||
+				hasHeader(requestInit.headers, IDEMPOTENCY_KEY_HEADER))
+		);
+	}
+
+	// One try through the interceptors, aborted by the caller's signal or after `timeout` ms
+	// (until the response headers arrive). Failures without a response become NetworkError
+	// or TimeoutError before the interceptors see them
+	private async attempt(
+		method: string,
+		fullUrl: string,
+		requestInit: RequestInit & { headers: Record<string, string> },
+		timeout: number,
+		interceptors: IHttpInterceptor[]
+	): Promise<Response> {
+		const callerSignal = requestInit.signal ?? undefined;
+		const controller = new AbortController();
+		const abort = () => controller.abort(callerSignal?.reason);
+		if (callerSignal?.aborted) {
+			abort();
+		}
+		callerSignal?.addEventListener('abort', abort);
+
+		let timedOut = false;
+		const timer =
+			timeout > 0
+				? setTimeout(() => {
+						timedOut = true;
+						controller.abort();
+					}, timeout)
+				: undefined;
 
-			// If not JSON, return text as fallback
-			const text = await response.text();
-			return text as unknown as T;
-		} catch (error) {
-			if (error instanceof HttpError) {
-				throw error;
+		const send: HttpHandler = async ({ url, ...init }) => {
+			try {
+				// Interceptors may have awaited long enough for the request to be cancelled
+				init.signal?.throwIfAborted();
+				return await fetch(url, init);
+			} catch (error) {
+				if (timedOut) {
+					throw new TimeoutError(url, timeout);
+				}
+				// The caller's own abort is passed through unchanged
+				if (callerSignal?.aborted) {
+					throw error;
+				}
+				throw new NetworkError(
+					`Network request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+					url,
+					{ cause: error }
+				);
 			}
+		};
 
-			// Handle network errors, timeouts, etc.
-			throw new Error(
-				`Network request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-			);
+		try {
+			return await chainInterceptors(
+				interceptors,
+				send
+			)({ ...requestInit, method, url: fullUrl, signal: controller.signal });
+		} finally {
+			clearTimeout(timer);
+			callerSignal?.removeEventListener('abort', abort);
+		}
+	}
+
+	private rememberETag(method: string, resourceKey: string, response: Response): void {
+		if (method === 'DELETE') {
+			this.etags.delete(resourceKey);
+			return;
+		}
+
+		const etag = response.headers.get('ETag');
+		if (etag) {
+			this.etags.set(resourceKey, etag);
 		}
 	}
 
+	private resourceKey(url: string): string {
+		const fullUrl = url.startsWith('http') ? url : `${this.baseURL}${url}`;
+		return fullUrl.split('?')[0];
+	}
+
+	private deleteHeader(headers: Record<string, string>, name: string): void {
+		const lower = name.toLowerCase();
+		Object.keys(headers)
+			.filter((key) => key.toLowerCase() === lower)
+			.forEach((key) => delete headers[key]);
+	}
+
 	private buildUrl(url: string, params?: Record<string, string | number | boolean>): string {
 		const fullUrl = url.startsWith('http') ? url : `${this.baseURL}${url}`;
 
@@ -108,18 +390,22 @@ export class HttpClient implements IHttpClient {
 	private async handleErrorResponse(response: Response, url: string): Promise<never> {
 		let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
 		let responseData: unknown;
+		let problem: ProblemDetails | undefined;
 
 		try {
 			const contentType = response.headers.get('content-type');
-			if (contentType && contentType.includes('application/json')) {
+			// Matches application/json as well as application/problem+json
+			if (contentType && /[/+]json\b/.test(contentType)) {
 				responseData = await response.json();
+				problem = toProblemDetails(responseData);
 				// Try to extract error message from common API response formats
 				if (responseData && typeof responseData === 'object') {
 					const data = responseData as Record<string, unknown>;
 					errorMessage =
+						(data.detail as string) ||
 						(data.error as string) ||
 						(data.message as string) ||
-						(data.detail as string) ||
+						(data.title as string) ||
 						errorMessage;
 				}
 			} else {
@@ -132,6 +418,94 @@ export class HttpClient implements IHttpClient {
 			// If we can't parse the error response, use the default message
 		}
 
-		throw new HttpError(errorMessage, response.status, response.statusText, url, responseData);
+		if (response.status === 429) {
+			throw new RateLimitError(
+				errorMessage,
+				response.statusText,
+				url,
+				parseRetryAfter(response.headers.get('Retry-After')),
+				responseData,
+				problem
+			);
+		}
+
+		throw new HttpError(
+			errorMessage,
+			response.status,
+			response.statusText,
+			url,
+			responseData,
+			problem
+		);
 	}
 }
+
+// Full jitter: anywhere between 0 and the exponential ceiling, so clients spread out
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+	return Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+}
+
+// The server's Retry-After wins over the backoff; null when it asks for too long a wait
+function retryDelay(response: Response, policy: RetryPolicy, attempt: number): number | null {
+	const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+	if (retryAfter === null) {
+		return backoffDelay(policy, attempt);
+	}
+	return retryAfter <= policy.maxDelayMs ? retryAfter : null;
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+	if (!value) return null;
+	if (/^\d+$/.test(value.trim())) {
+		return Number(value.trim()) * 1000;
+	}
+	const date = Date.parse(value);
+	return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// Problem details need at least a status and a code; field errors are kept only if well-formed
+function toProblemDetails(data: unknown): ProblemDetails | undefined {
+	if (!data || typeof data !== 'object') return undefined;
+
+	const candidate = data as Partial<ProblemDetails>;
+	if (typeof candidate.status !== 'number' || typeof candidate.code !== 'string') {
+		return undefined;
+	}
+
+	const errors = Array.isArray(candidate.errors)
+		? candidate.errors.filter(
+				(error) => typeof error?.field === 'string' && typeof error.message === 'string'
+			)
+		: undefined;
+
+	return {
+		type: candidate.type ?? 'about:blank',
+		title: candidate.title ?? '',
+		status: candidate.status,
+		detail: candidate.detail ?? '',
+		instance: candidate.instance ?? '',
+		code: candidate.code,
+		...(errors ? { errors } : {}),
+		...(typeof candidate.requestId === 'string' ? { requestId: candidate.requestId } : {}),
+		...(typeof candidate.traceId === 'string' ? { traceId: candidate.traceId } : {})
+	};
+}
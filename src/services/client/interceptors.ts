@@ -0,0 +1,246 @@
+import type {
+	HttpHandler,
+	HttpRequest,
+	IHttpInterceptor,
+	ILockManager,
+	ITokenStore,
+	TokenPair
+} from '../../interfaces/http-client.interface';
+import { createTraceContext, formatTraceparent, TRACEPARENT_HEADER } from '../../lib/trace';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Web Lock held while a tab refreshes the session tokens
+export const REFRESH_LOCK_NAME = 'auth.refresh';
+
+export function hasHeader(headers: Record<string, string>, name: string): boolean {
+	const lower = name.toLowerCase();
+	return Object.keys(headers).some((key) => key.toLowerCase() === lower);
+}
+
+/**
+ * Compose interceptors around `send`: each one's onRequest runs before the ones after
+ * it, and its onResponse/onError after them.
+ */
+export function chainInterceptors(
+	interceptors: IHttpInterceptor[],
+	send: HttpHandler
+): HttpHandler {
+	return interceptors.reduceRight<HttpHandler>(
+		(next, interceptor) => async (request) => {
+			const intercepted = interceptor.onRequest ? await interceptor.onRequest(request) : request;
+
+			let response: Response;
+			try {
+				response = await next(intercepted);
+			} catch (error) {
+				if (!interceptor.onError) throw error;
+				return await interceptor.onError(error, intercepted, next);
+			}
+
+			return interceptor.onResponse
+				? await interceptor.onResponse(response, intercepted, next)
+				: response;
+		},
+		send
+	);
+}
+
+/**
+ * Attaches the session's access token unless the caller set Authorization, and on a
+ * 401 refreshes the tokens once and sends the request again. Installed by HttpClient
+ * itself, after every other interceptor.
+ *
+ * Tabs sharing a token store (localStorage) also share the refresh token, which the
+ * API accepts only once. The refresh therefore runs under a Web Lock, and a tab that
+ * got the lock after another one re-reads the store and uses the tokens it finds.
+ */
+export class AuthTokenInterceptor implements IHttpInterceptor {
+	// Access token attached to each request, so a 401 can be matched to it
+	private readonly attached = new WeakMap<HttpRequest, string>();
+	// In-flight token refresh, shared by every request that got a 401 meanwhile
+	private pendingRefresh: Promise<TokenPair | null> | null = null;
+
+	constructor(
+		private readonly tokenStore: ITokenStore,
+		// Endpoint that exchanges a refresh token for a new pair
+		private readonly refreshUrl: string,
+		private readonly locks: ILockManager | undefined = globalThis.navigator?.locks
+	) {}
+
+	onRequest(request: HttpRequest): HttpRequest {
+		const tokens = hasHeader(request.headers, 'Authorization') ? null : this.tokenStore.get();
+		return tokens ? this.withAccessToken(request, tokens.accessToken) : request;
+	}
+
+	async onResponse(response: Response, request: HttpRequest, next: HttpHandler): Promise<Response> {
+		const accessToken = this.attached.get(request);
+		if (response.status !== 401 || accessToken === undefined) {
+			return response;
+		}
+
+		// Another request may have refreshed the tokens while this one was in flight
+		const current = this.tokenStore.get();
+		const refreshed =
+			current && current.accessToken !== accessToken
+				? current
+				: await this.refreshTokens(accessToken);
+
+		return refreshed ? await next(this.withAccessToken(request, refreshed.accessToken)) : response;
+	}
+
+	private withAccessToken(request: HttpRequest, accessToken: string): HttpRequest {
+		const authorized = {
+			...request,
+			headers: { ...request.headers, Authorization: `Bearer ${accessToken}` }
+		};
+		this.attached.set(authorized, accessToken);
+		return authorized;
+	}
+
+	// Refresh tokens are single-use, so concurrent 401s must share one refresh
+	private refreshTokens(rejectedAccessToken: string): Promise<TokenPair | null> {
+		this.pendingRefresh ??= this.exclusively(async () => {
+			// Another tab may have refreshed while this one waited for the lock
+			const current = this.tokenStore.get();
+			return current && current.accessToken !== rejectedAccessToken
+				? current
+				: await this.requestNewTokens();
+		}).finally(() => {
+			this.pendingRefresh = null;
+		});
+		return this.pendingRefresh;
+	}
+
+	private exclusively<T>(task: () => Promise<T>): Promise<T> {
+		return this.locks ? this.locks.request(REFRESH_LOCK_NAME, task) : task();
+	}
+
+	private async requestNewTokens(): Promise<TokenPair | null> {
+		const refreshToken = this.tokenStore.get()?.refreshToken;
+		if (!refreshToken) {
+			return null;
+		}
+
+		try {
+			const response = await fetch(this.refreshUrl, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					[TRACEPARENT_HEADER]: formatTraceparent(createTraceContext())
+				},
+				body: JSON.stringify({ refreshToken })
+			});
+
+			// The session is over (expired, revoked or reused token)
+			if (!response.ok) {
+				this.tokenStore.set(null);
+				return null;
+			}
+
+			const { data } = (await response.json()) as { data: TokenPair };
+			const tokens = { accessToken: data.accessToken, refreshToken: data.refreshToken };
+			this.tokenStore.set(tokens);
+			return tokens;
+		} catch {
+			// Network failure: keep the tokens and let the original 401 surface
+			return null;
+		}
+	}
+}
+
+// Gives every request an X-Request-Id, which the API keeps and echoes in its logs and errors
+export class RequestIdInterceptor implements IHttpInterceptor {
+	constructor(private readonly generate: () => string = () => crypto.randomUUID()) {}
+
+	onRequest(request: HttpRequest): HttpRequest {
+		if (hasHeader(request.headers, REQUEST_ID_HEADER)) {
+			return request;
+		}
+		return { ...request, headers: { ...request.headers, [REQUEST_ID_HEADER]: this.generate() } };
+	}
+}
+
+// One line per request: debug for successes, warn for error statuses and failures
+export class LoggingInterceptor implements IHttpInterceptor {
+	private readonly started = new WeakMap<HttpRequest, number>();
+
+	constructor(private readonly logger: Pick<Console, 'debug' | 'warn'> = console) {}
+
+	onRequest(request: HttpRequest): HttpRequest {
+		this.started.set(request, performance.now());
+		return request;
+	}
+
+	onResponse(response: Response, request: HttpRequest): Response {
+		const message = `${this.describe(request)} ${response.status} ${this.elapsed(request)}ms`;
+		if (response.ok || response.status === 304) {
+			this.logger.debug(message);
+		} else {
+			this.logger.warn(message);
+		}
+		return response;
+	}
+
+	onError(error: unknown, request: HttpRequest): never {
+		const reason = error instanceof Error ? error.message : String(error);
+		this.logger.warn(
+			`${this.describe(request)} failed after ${this.elapsed(request)}ms: ${reason}`
+		);
+		throw error;
+	}
+
+	private describe(request: HttpRequest): string {
+		const requestId = Object.entries(request.headers).find(
+			([name]) => name.toLowerCase() === REQUEST_ID_HEADER.toLowerCase()
+		)?.[1];
+		return `[http] ${request.method} ${request.url}${requestId ? ` (${requestId})` : ''}`;
+	}
+
+	private elapsed(request: HttpRequest): number {
+		return Math.round(performance.now() - (this.started.get(request) ?? performance.now()));
+	}
+}
+
+// ISO 8601 timestamps as produced by Date.prototype.toJSON (and with an offset)
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Turn ISO timestamp strings into Date objects, at any depth
+export function reviveDates(value: unknown): unknown {
+	if (typeof value === 'string') {
+		return ISO_DATE_PATTERN.test(value) ? new Date(value) : value;
+	}
+	if (Array.isArray(value)) {
+		return value.map(reviveDates);
+	}
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, reviveDates(entry)])
+		);
+	}
+	return value;
+}
+
+class DateRevivingResponse extends Response {
+	async json(): Promise<unknown> {
+		return reviveDates(await super.json());
+	}
+}
+
+/**
+ * Makes `response.json()` return Date objects for ISO timestamps. Not installed by
+ * default: the typed API clients declare timestamps as strings, so add it per call
+ * where Dates are expected.
+ */
+export class JsonDateReviver implements IHttpInterceptor {
+	onResponse(response: Response): Response {
+		if (!/[/+]json\b/.test(response.headers.get('Content-Type') ?? '')) {
+			return response;
+		}
+		return new DateRevivingResponse(response.body, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers
+		});
+	}
+}
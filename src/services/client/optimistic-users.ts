@@ -0,0 +1,109 @@
+import { userQueryKeys, type UserResource } from '../../interfaces/api.interface';
+import type { IQueryCache, QueryKey } from '../../interfaces/query-cache.interface';
+import type { OptimisticUpdate } from '../../interfaces/resource.interface';
+import { DEFAULT_USER_ROLE } from '../../models/role.model';
+import type { CreateUserRequest, UpdateUserRequest } from '../../models/user.model';
+
+/**
+ * Optimistic changes to every cached user list. A rollback only reverts its own change,
+ * so concurrent edits of other users survive, and then refetches the lists to settle
+ * anything it could not know about (the user was deleted elsewhere, say).
+ */
+
+// Placeholder IDs for users the server has not created yet; real IDs are positive
+let nextPlaceholderId = -1;
+
+export function isPendingUser(user: { id: number }): boolean {
+	return user.id < 0;
+}
+
+function updateLists(
+	queryCache: IQueryCache,
+	updater: (users: UserResource[], key: QueryKey) => UserResource[]
+): void {
+	queryCache.updateAll<UserResource[]>(userQueryKeys.lists(), updater);
+}
+
+function reconcile(queryCache: IQueryCache): void {
+	void queryCache.invalidate(userQueryKeys.lists());
+}
+
+export function optimisticCreate(
+	queryCache: IQueryCache,
+	request: CreateUserRequest
+): OptimisticUpdate<UserResource> {
+	const placeholder: UserResource = {
+		id: nextPlaceholderId--,
+		name: request.name.trim(),
+		email: request.email.trim(),
+		role: DEFAULT_USER_ROLE,
+		version: 1,
+		createdAt: new Date().toISOString()
+	};
+	updateLists(queryCache, (users) => [...users, placeholder]);
+
+	return {
+		// The lists may already have been refetched with the new user in them
+		commit: (created) =>
+			updateLists(queryCache, (users) =>
+				users.some((user) => user.id === created.id)
+					? users.filter((user) => user !== placeholder)
+					: users.map((user) => (user === placeholder ? created : user))
+			),
+		rollback: () => {
+			updateLists(queryCache, (users) => users.filter((user) => user !== placeholder));
+			reconcile(queryCache);
+		}
+	};
+}
+
+export function optimisticUpdate(
+	queryCache: IQueryCache,
+	id: number,
+	changes: UpdateUserRequest
+): OptimisticUpdate<UserResource> {
+	const defined = Object.fromEntries(
+		Object.entries(changes).filter(([, value]) => value !== undefined)
+	);
+	// Each optimistic copy and the user it replaced
+	const replaced = new Map<UserResource, UserResource>();
+	updateLists(queryCache, (users) =>
+		users.map((user) => {
+			if (user.id !== id) return user;
+			const updated = { ...user, ...defined };
+			replaced.set(updated, user);
+			return updated;
+		})
+	);
+
+	return {
+		commit: (saved) =>
+			updateLists(queryCache, (users) => users.map((user) => (user.id === id ? saved : user))),
+		rollback: () => {
+			updateLists(queryCache, (users) => users.map((user) => replaced.get(user) ?? user));
+			reconcile(queryCache);
+		}
+	};
+}
+
+export function optimisticDelete(queryCache: IQueryCache, id: number): OptimisticUpdate<void> {
+	// Where the user was in each list, to put it back in the same place
+	const removed = new Map<QueryKey, { user: UserResource; index: number }>();
+	updateLists(queryCache, (users, key) => {
+		const index = users.findIndex((user) => user.id === id);
+		if (index === -1) return users;
+		removed.set(key, { user: users[index], index });
+		return users.filter((user) => user.id !== id);
+	});
+
+	return {
+		rollback: () => {
+			updateLists(queryCache, (users, key) => {
+				const entry = removed.get(key);
+				if (!entry || users.some((user) => user.id === id)) return users;
+				return [...users.slice(0, entry.index), entry.user, ...users.slice(entry.index)];
+			});
+			reconcile(queryCache);
+		}
+	};
+}
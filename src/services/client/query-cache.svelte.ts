@@ -0,0 +1,230 @@
+import type {
+	IQueryCache,
+	QueryFetcher,
+	QueryKey,
+	QueryOptions,
+	QueryState
+} from '../../interfaces/query-cache.interface';
+import { QueryRegistry, WriteQueue } from './query-registry';
+
+export const DEFAULT_STALE_TIME_MS = 30_000;
+export const DEFAULT_GC_TIME_MS = 5 * 60_000;
+
+// Runes keep every component reading an entry in sync with the cache
+class QueryEntry<T> implements QueryState<T> {
+	data = $state.raw<T | undefined>(undefined);
+	error = $state<unknown>(null);
+	isFetching = $state(false);
+	updatedAt = $state<number | null>(null);
+
+	// Bookkeeping, not rendered
+	fetcher: QueryFetcher<T> | null = null;
+	staleTime = DEFAULT_STALE_TIME_MS;
+	gcTime = DEFAULT_GC_TIME_MS;
+	gcTimer: ReturnType<typeof setTimeout> | null = null;
+	observers = 0;
+	request: Promise<T> | null = null;
+	controller: AbortController | null = null;
+	// Bumped per fetch, so only the latest one writes its result
+	generation = 0;
+
+	constructor(readonly key: QueryKey) {}
+
+	get isLoading(): boolean {
+		return this.isFetching && this.data === undefined;
+	}
+}
+
+export class QueryCache implements IQueryCache {
+	private readonly queue = new WriteQueue();
+	private readonly entries = new QueryRegistry<QueryEntry<unknown>>((key) => new QueryEntry(key));
+
+	constructor(private readonly now: () => number = Date.now) {}
+
+	get<T>(key: QueryKey): QueryState<T> {
+		const entry = this.entry<T>(key);
+		this.scheduleGc(entry);
+		return entry;
+	}
+
+	async fetch<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: QueryOptions = {}): Promise<T> {
+		const entry = this.entry<T>(key);
+		entry.fetcher = fetcher;
+		entry.gcTime = options.gcTime ?? entry.gcTime;
+		this.scheduleGc(entry);
+
+		if (entry.request) {
+			return entry.request;
+		}
+		if (!this.isStale(entry, options.staleTime)) {
+			return entry.data as T;
+		}
+		return this.start(entry, fetcher);
+	}
+
+	observe<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: QueryOptions = {}): () => void {
+		const entry = this.entry<T>(key);
+		entry.fetcher = fetcher;
+		entry.staleTime = options.staleTime ?? DEFAULT_STALE_TIME_MS;
+		entry.gcTime = options.gcTime ?? DEFAULT_GC_TIME_MS;
+		entry.observers += 1;
+		this.clearGc(entry);
+		this.revalidate(entry);
+
+		let observing = true;
+		return () => {
+			if (observing) {
+				observing = false;
+				entry.observers -= 1;
+				if (entry.observers === 0) {
+					this.cancel(entry);
+					this.scheduleGc(entry);
+				}
+			}
+		};
+	}
+
+	setData<T>(key: QueryKey, data: T | ((current: T | undefined) => T)): void {
+		const entry = this.entry<T>(key);
+		entry.data =
+			typeof data === 'function' ? (data as (current: T | undefined) => T)(entry.data) : data;
+		entry.error = null;
+		entry.updatedAt = this.now();
+		this.scheduleGc(entry);
+	}
+
+	updateAll<T>(prefix: QueryKey, updater: (current: T, key: QueryKey) => T): void {
+		this.entries.matching(prefix).forEach((entry) => {
+			if (entry.data !== undefined) {
+				this.setData<T>(entry.key, (current) => updater(current as T, entry.key));
+			}
+		});
+	}
+
+	async invalidate(prefix: QueryKey): Promise<void> {
+		const refetches = this.entries.matching(prefix).map((entry) => {
+			entry.updatedAt = null;
+			// A refetch started before the mutation may return the old data, so start afresh
+			return entry.observers > 0 && entry.fetcher
+				? this.start(entry, entry.fetcher).catch(() => undefined)
+				: undefined;
+		});
+		await Promise.all(refetches);
+	}
+
+	remove(key: QueryKey): void {
+		this.clearGc(this.entry(key));
+		this.entries.delete(key);
+	}
+
+	serialize<T>(key: QueryKey, task: () => Promise<T>): Promise<T> {
+		return this.queue.run(key, task);
+	}
+
+	/**
+	 * Refetch stale observed queries when the window regains focus or the network comes
+	 * back. Returns a function that stops listening
+	 */
+	listen(target: EventTarget): () => void {
+		const revalidateObserved = () => {
+			this.entries.matching().forEach((entry) => {
+				if (entry.observers > 0) {
+					this.revalidate(entry);
+				}
+			});
+		};
+		target.addEventListener('focus', revalidateObserved);
+		target.addEventListener('online', revalidateObserved);
+		return () => {
+			target.removeEventListener('focus', revalidateObserved);
+			target.removeEventListener('online', revalidateObserved);
+		};
+	}
+
+	private entry<T>(key: QueryKey): QueryEntry<T> {
+		return this.entries.get(key) as QueryEntry<T>;
+	}
+
+	// Forget an entry nobody observes once gcTime has passed since it was last used, so the
+	// cache does not keep every key ever read. A fetch in flight postpones it
+	private scheduleGc(entry: QueryEntry<unknown>): void {
+		this.clearGc(entry);
+		if (entry.observers > 0 || !Number.isFinite(entry.gcTime)) {
+			return;
+		}
+		entry.gcTimer = setTimeout(() => {
+			entry.gcTimer = null;
+			if (entry.request) {
+				this.scheduleGc(entry);
+			} else {
+				this.entries.delete(entry.key);
+			}
+		}, entry.gcTime);
+	}
+
+	private clearGc(entry: QueryEntry<unknown>): void {
+		if (entry.gcTimer !== null) {
+			clearTimeout(entry.gcTimer);
+			entry.gcTimer = null;
+		}
+	}
+
+	private isStale(entry: QueryEntry<unknown>, staleTime = entry.staleTime): boolean {
+		return entry.updatedAt === null || this.now() - entry.updatedAt >= staleTime;
+	}
+
+	// Background refetch; a failure is kept on entry.error for the observers to show
+	private revalidate(entry: QueryEntry<unknown>): void {
+		if (entry.fetcher && !entry.request && this.isStale(entry)) {
+			this.start(entry, entry.fetcher).catch(() => undefined);
+		}
+	}
+
+	private start<T>(entry: QueryEntry<T>, fetcher: QueryFetcher<T>): Promise<T> {
+		const controller = new AbortController();
+		const request = this.run(entry, () => fetcher(controller.signal), ++entry.generation);
+		entry.request = request;
+		entry.controller = controller;
+		return request;
+	}
+
+	// Nobody is left to show the result, so stop the fetch; the data it had is kept
+	private cancel(entry: QueryEntry<unknown>): void {
+		if (entry.request) {
+			// A new generation keeps the aborted fetch from writing its outcome
+			entry.generation += 1;
+			entry.controller?.abort();
+			entry.isFetching = false;
+			entry.request = null;
+			entry.controller = null;
+		}
+	}
+
+	private async run<T>(
+		entry: QueryEntry<T>,
+		fetcher: () => Promise<T>,
+		generation: number
+	): Promise<T> {
+		entry.isFetching = true;
+		try {
+			const data = await fetcher();
+			if (generation === entry.generation) {
+				entry.data = data;
+				entry.error = null;
+				entry.updatedAt = this.now();
+			}
+			return data;
+		} catch (error) {
+			if (generation === entry.generation) {
+				entry.error = error;
+			}
+			throw error;
+		} finally {
+			if (generation === entry.generation) {
+				entry.isFetching = false;
+				entry.request = null;
+				entry.controller = null;
+			}
+		}
+	}
+}
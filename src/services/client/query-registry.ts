@@ -0,0 +1,67 @@
+import type { QueryKey } from '../../interfaces/query-cache.interface';
+
+// Stable across object key order, so { a, b } and { b, a } name the same query
+function hashKey(key: QueryKey): string {
+	return JSON.stringify(key, (_name, value: unknown) =>
+		value && typeof value === 'object' && !Array.isArray(value)
+			? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+			: value
+	);
+}
+
+function startsWith(key: QueryKey, prefix: QueryKey): boolean {
+	return key.length >= prefix.length && hashKey(key.slice(0, prefix.length)) === hashKey(prefix);
+}
+
+/**
+ * Query cache entries by key. Deliberately not reactive: the entries are, and the cache
+ * may add one while a derived or template is being evaluated, where writing reactive
+ * state is not allowed
+ */
+export class QueryRegistry<E extends { readonly key: QueryKey }> {
+	private readonly entries = new Map<string, E>();
+
+	constructor(private readonly create: (key: QueryKey) => E) {}
+
+	/** The entry for a key, created on first use */
+	get(key: QueryKey): E {
+		const hash = hashKey(key);
+		let entry = this.entries.get(hash);
+		if (!entry) {
+			entry = this.create(key);
+			this.entries.set(hash, entry);
+		}
+		return entry;
+	}
+
+	/** Entries whose key starts with the prefix; an empty prefix matches all */
+	matching(prefix: QueryKey = []): E[] {
+		return [...this.entries.values()].filter((entry) => startsWith(entry.key, prefix));
+	}
+
+	delete(key: QueryKey): void {
+		this.entries.delete(hashKey(key));
+	}
+}
+
+/** Runs the tasks given for one key one at a time, in call order */
+export class WriteQueue {
+	// Tail of the queue per key
+	private readonly tails = new Map<string, Promise<unknown>>();
+
+	/** A failed task does not stop the ones queued after it */
+	run<T>(key: QueryKey, task: () => Promise<T>): Promise<T> {
+		const hash = hashKey(key);
+		const previous = this.tails.get(hash) ?? Promise.resolve();
+		const result = previous.catch(() => undefined).then(task);
+		const tail = result.catch(() => undefined);
+		this.tails.set(hash, tail);
+		// Drop the queue once it drains, unless more work was queued meanwhile
+		tail.then(() => {
+			if (this.tails.get(hash) === tail) {
+				this.tails.delete(hash);
+			}
+		});
+		return result;
+	}
+}
@@ -0,0 +1,17 @@
+import { hc } from 'hono/client';
+import type { FetchOptions, IHttpClient } from '../../interfaces/http-client.interface';
+import type { AppType } from '../../routes/api/[...paths]/+server';
+
+export type RpcClient = ReturnType<typeof hc<AppType>>;
+
+/**
+ * Typed Hono RPC client for the API routes. Paths, params, bodies and responses are
+ * inferred from AppType; requests go through the IHttpClient, which resolves them
+ * against its base URL and throws HttpError for non-2xx responses.
+ */
+export function createRpcClient(httpClient: IHttpClient): RpcClient {
+	return hc<AppType>('', {
+		fetch: (input: RequestInfo | URL, init?: RequestInit & FetchOptions) =>
+			httpClient.fetch(input, init)
+	});
+}
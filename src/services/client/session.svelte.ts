@@ -0,0 +1,57 @@
+import type { IAuthApiService, UserResource } from '../../interfaces/api.interface';
+import type { ISessionStore } from '../../interfaces/session.interface';
+import type { SignInRequest, SignUpRequest } from '../../models/auth.model';
+import type { Permission, UserRole } from '../../models/role.model';
+
+// Runes keep components that read the session in sync after sign-in and sign-out
+export class SessionStore implements ISessionStore {
+	user = $state<UserResource | null>(null);
+	role = $state<UserRole | null>(null);
+	permissions = $state<Permission[]>([]);
+	loaded = $state(false);
+
+	constructor(private readonly authApi: IAuthApiService) {}
+
+	can(permission: Permission): boolean {
+		return this.permissions.includes(permission);
+	}
+
+	async load(): Promise<void> {
+		try {
+			const session = await this.authApi.getSession();
+			this.user = session.user;
+			this.role = session.role;
+			this.permissions = session.permissions;
+		} catch (error) {
+			// Treat an unreadable session as anonymous rather than breaking the page
+			console.error('Failed to load session:', error);
+			this.clear();
+		} finally {
+			this.loaded = true;
+		}
+	}
+
+	async signIn(request: SignInRequest): Promise<void> {
+		await this.authApi.signIn(request);
+		await this.load();
+	}
+
+	async signUp(request: SignUpRequest): Promise<void> {
+		await this.authApi.signUp(request);
+		await this.load();
+	}
+
+	async signOut(): Promise<void> {
+		try {
+			await this.authApi.signOut();
+		} finally {
+			await this.load();
+		}
+	}
+
+	private clear(): void {
+		this.user = null;
+		this.role = null;
+		this.permissions = [];
+	}
+}
@@ -0,0 +1,39 @@
+import type { ITokenStore, TokenPair } from '../../interfaces/http-client.interface';
+
+// Tokens live as long as the page (default, and used during SSR)
+export class MemoryTokenStore implements ITokenStore {
+	private tokens: TokenPair | null = null;
+
+	get(): TokenPair | null {
+		return this.tokens;
+	}
+
+	set(tokens: TokenPair | null): void {
+		this.tokens = tokens;
+	}
+}
+
+// Keeps the session across reloads and tabs
+export class LocalStorageTokenStore implements ITokenStore {
+	constructor(private readonly key: string = 'auth.tokens') {}
+
+	get(): TokenPair | null {
+		try {
+			const stored = localStorage.getItem(this.key);
+			const tokens = stored ? (JSON.parse(stored) as Partial<TokenPair>) : null;
+			return typeof tokens?.accessToken === 'string' && typeof tokens.refreshToken === 'string'
+				? { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken }
+				: null;
+		} catch {
+			return null;
+		}
+	}
+
+	set(tokens: TokenPair | null): void {
+		if (tokens) {
+			localStorage.setItem(this.key, JSON.stringify(tokens));
+		} else {
+			localStorage.removeItem(this.key);
+		}
+	}
+}
@@ -1,36 +1,116 @@
+import { dev } from '$app/environment';
 import { injectable } from 'inversify';
-import type { IAppConfig, IConfigService, IDatabaseConfig } from '../interfaces/config.interface';
+import type {
+	IAppConfig,
+	IAuthConfig,
+	IConfigService,
+	IDatabaseConfig,
+	IIdempotencyConfig,
+	ILogConfig,
+	IMetricsConfig,
+	IRateLimitConfig
+} from '../interfaces/config.interface';
+import { ConfigError } from '../models/error.model';
+import { processEnvSchema, serverEnvSchema, type ServerConfig } from '../models/env.model';
+
+// Only used by the local Vite dev server, so the app runs without setup (see serverEnvSchema)
+export const DEV_JWT_SECRET = 'dev-only-insecure-jwt-secret';
+
+/**
+ * Variables from `process.env`, or an empty object on runtimes without it
+ * (Workers provide their variables through the platform env instead).
+ */
+export function readProcessEnv(): Record<string, string | undefined> {
+	// Safe way to access environment variables across different runtimes
+	if (typeof globalThis !== 'undefined' && 'process' in globalThis) {
+		const processObj = (globalThis as Record<string, unknown>).process;
+		if (processObj && typeof processObj === 'object' && 'env' in processObj) {
+			return (processObj.env as Record<string, string | undefined>) || {};
+		}
+	}
+	return {};
+}
 
 // Single Responsibility Principle - Only handles configuration
 @injectable()
 export class ConfigService implements IConfigService {
+	private readonly config: ServerConfig;
+
+	/**
+	 * Validates `env` against serverEnvSchema up front, so a misconfigured
+	 * deployment fails with a ConfigError listing every invalid or missing value
+	 * instead of running on defaults.
+	 *
+	 * @param env Variables, secrets and bindings, e.g. the platform env merged over `process.env`
+	 * @param schema processEnvSchema for `process.env` outside a request, which leaves the
+	 *   platform secrets and bindings to each request's configuration
+	 */
+	constructor(
+		env: Record<string, unknown> = readProcessEnv(),
+		schema: typeof serverEnvSchema | typeof processEnvSchema = serverEnvSchema
+	) {
+		const result = schema.safeParse(env);
+		if (!result.success) {
+			throw new ConfigError(
+				result.error.issues.map((issue) => `${issue.path.join('.') || 'env'}: ${issue.message}`)
+			);
+		}
+		this.config = result.data;
+	}
+
 	getAppConfig(): IAppConfig {
-		// Safe environment variable access for edge runtimes
-		const env = this.getEnvironmentVariables();
 		return {
-			port: parseInt(env.PORT || '3000'),
-			environment: env.NODE_ENV || 'development',
-			apiVersion: env.API_VERSION || '1.0.0'
+			port: this.config.PORT,
+			environment: this.config.environment,
+			apiVersion: this.config.API_VERSION,
+			commit: this.config.COMMIT_SHA
 		};
 	}
 
 	getDatabaseConfig(): IDatabaseConfig {
-		const env = this.getEnvironmentVariables();
 		return {
-			url: env.DATABASE_URL || 'sqlite://memory',
-			maxConnections: parseInt(env.DB_MAX_CONNECTIONS || '10'),
-			timeout: parseInt(env.DB_TIMEOUT || '30000')
+			url: this.config.DATABASE_URL,
+			maxConnections: this.config.DB_MAX_CONNECTIONS,
+			timeout: this.config.DB_TIMEOUT
 		};
 	}
 
-	private getEnvironmentVariables(): Record<string, string | undefined> {
-		// Safe way to access environment variables across different runtimes
-		if (typeof globalThis !== 'undefined' && 'process' in globalThis) {
-			const processObj = (globalThis as Record<string, unknown>).process;
-			if (processObj && typeof processObj === 'object' && 'env' in processObj) {
-				return (processObj.env as Record<string, string | undefined>) || {};
-			}
+	getAuthConfig(): IAuthConfig {
+		const localDev = dev && this.config.environment !== 'production';
+		// Only a configuration read without the platform env can get here without a secret
+		if (!this.config.JWT_SECRET && !localDev) {
+			throw new ConfigError(['JWT_SECRET: Must be set outside the local dev server']);
 		}
-		return {};
+		return {
+			jwtSecret: this.config.JWT_SECRET ?? DEV_JWT_SECRET,
+			issuer: this.config.JWT_ISSUER,
+			accessTokenTtl: this.config.ACCESS_TOKEN_TTL,
+			refreshTokenTtl: this.config.REFRESH_TOKEN_TTL,
+			// The signed header is a testing stand-in for real sign-in, so only the local dev
+			// server honours it, never a deployed app
+			principalHeaderSecret: localDev ? this.config.PRINCIPAL_HEADER_SECRET : undefined
+		};
+	}
+
+	getLogConfig(): ILogConfig {
+		const { environment } = this.config;
+		return {
+			level: this.config.LOG_LEVEL ?? (environment === 'production' ? 'info' : 'debug'),
+			format: this.config.LOG_FORMAT ?? (environment === 'development' ? 'pretty' : 'json'),
+			redactKeys: this.config.LOG_REDACT_KEYS,
+			slowRequestMs: this.config.LOG_SLOW_REQUEST_MS
+		};
+	}
+
+	getMetricsConfig(): IMetricsConfig {
+		return { token: this.config.METRICS_TOKEN };
+	}
+
+	getRateLimitConfig(): IRateLimitConfig {
+		return { store: this.config.RATE_LIMIT_STORE };
+	}
+
+	getIdempotencyConfig(): IIdempotencyConfig {
+		return { store: this.config.IDEMPOTENCY_STORE, ttl: this.config.IDEMPOTENCY_TTL };
 	}
 }
@@ -0,0 +1,101 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '../container/types';
+import type {
+	IAuthRepository,
+	RefreshTokenRecord,
+	UserCredential
+} from '../interfaces/auth.interface';
+import type { D1Database } from '../interfaces/database.interface';
+
+interface RefreshTokenRow {
+	token_hash: string;
+	user_id: number;
+	family_id: string;
+	expires_at: number;
+	rotated_at: number | null;
+	revoked_at: number | null;
+}
+
+const REFRESH_TOKEN_COLUMNS = 'token_hash, user_id, family_id, expires_at, rotated_at, revoked_at';
+
+function toDate(value: number | null): Date | null {
+	return value === null ? null : new Date(value);
+}
+
+function toRefreshToken(row: RefreshTokenRow): RefreshTokenRecord {
+	return {
+		tokenHash: row.token_hash,
+		userId: row.user_id,
+		familyId: row.family_id,
+		expiresAt: new Date(row.expires_at),
+		rotatedAt: toDate(row.rotated_at),
+		revokedAt: toDate(row.revoked_at)
+	};
+}
+
+// Single Responsibility Principle - Only handles credential and session storage (Cloudflare D1)
+@injectable()
+export class D1AuthRepository implements IAuthRepository {
+	constructor(@inject(TYPES.Database) private readonly db: D1Database) {}
+
+	async findCredential(userId: number): Promise<UserCredential | null> {
+		const row = await this.db
+			.prepare('SELECT user_id, password_hash FROM user_credentials WHERE user_id = ?')
+			.bind(userId)
+			.first<{ user_id: number; password_hash: string }>();
+		return row ? { userId: row.user_id, passwordHash: row.password_hash } : null;
+	}
+
+	async saveCredential(credential: UserCredential): Promise<void> {
+		await this.db
+			.prepare(
+				`INSERT INTO user_credentials (user_id, password_hash) VALUES (?, ?)
+				ON CONFLICT (user_id) DO UPDATE SET password_hash = excluded.password_hash`
+			)
+			.bind(credential.userId, credential.passwordHash)
+			.run();
+	}
+
+	async createRefreshToken(record: RefreshTokenRecord): Promise<void> {
+		await this.db
+			.prepare(`INSERT INTO refresh_tokens (${REFRESH_TOKEN_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?)`)
+			.bind(
+				record.tokenHash,
+				record.userId,
+				record.familyId,
+				record.expiresAt.getTime(),
+				record.rotatedAt?.getTime() ?? null,
+				record.revokedAt?.getTime() ?? null
+			)
+			.run();
+	}
+
+	async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null> {
+		const row = await this.db
+			.prepare(`SELECT ${REFRESH_TOKEN_COLUMNS} FROM refresh_tokens WHERE token_hash = ?`)
+			.bind(tokenHash)
+			.first<RefreshTokenRow>();
+		return row ? toRefreshToken(row) : null;
+	}
+
+	// The state check is part of the UPDATE, so only one concurrent refresh can win
+	async markRefreshTokenRotated(tokenHash: string, rotatedAt: Date): Promise<boolean> {
+		const result = await this.db
+			.prepare(
+				`UPDATE refresh_tokens SET rotated_at = ?
+				WHERE token_hash = ? AND rotated_at IS NULL AND revoked_at IS NULL`
+			)
+			.bind(rotatedAt.getTime(), tokenHash)
+			.run();
+		return (result.meta.changes ?? 0) > 0;
+	}
+
+	async revokeRefreshTokenFamily(familyId: string, revokedAt: Date): Promise<void> {
+		await this.db
+			.prepare(
+				'UPDATE refresh_tokens SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL'
+			)
+			.bind(revokedAt.getTime(), familyId)
+			.run();
+	}
+}
@@ -0,0 +1,243 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '../container/types';
+import type { D1Database } from '../interfaces/database.interface';
+import type {
+	IUserRepository,
+	NewUser,
+	User,
+	UserWriteOptions
+} from '../interfaces/user.interface';
+import { decodeCursorFor, encodeCursor } from '../lib/pagination';
+import { PreconditionFailedError } from '../models/error.model';
+import { DEFAULT_USER_ROLE, type UserRole } from '../models/role.model';
+import {
+	DEFAULT_PAGE_SIZE,
+	emailTakenError,
+	type UserListQuery,
+	type UserSortField
+} from '../models/user.model';
+import type { PaginatedResult } from '../types/pagination';
+
+interface UserRow {
+	id: number;
+	name: string;
+	email: string;
+	created_at: number;
+	version: number;
+	role: UserRole;
+}
+
+const COLUMNS = 'id, name, email, created_at, version, role';
+
+// Sort expressions mirror the in-memory repository: case-insensitive text, epoch ms dates
+const SORT_EXPRESSIONS: Record<UserSortField, string> = {
+	name: 'LOWER(name)',
+	email: 'LOWER(email)',
+	createdAt: 'created_at'
+};
+
+function toUser(row: UserRow): User {
+	return {
+		id: row.id,
+		name: row.name,
+		email: row.email,
+		createdAt: new Date(row.created_at),
+		version: row.version,
+		role: row.role
+	};
+}
+
+// idx_users_email is the only unique index on users besides the primary key
+function rethrowConflict(error: unknown): never {
+	if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+		throw emailTakenError();
+	}
+	throw error;
+}
+
+function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Single Responsibility Principle - Only handles data access (Cloudflare D1)
+@injectable()
+export class D1UserRepository implements IUserRepository {
+	constructor(@inject(TYPES.Database) private readonly db: D1Database) {}
+
+	async findById(id: number): Promise<User | null> {
+		const row = await this.db
+			.prepare(`SELECT ${COLUMNS} FROM users WHERE id = ?`)
+			.bind(id)
+			.first<UserRow>();
+		return row ? toUser(row) : null;
+	}
+
+	async findAll(): Promise<User[]> {
+		const { results } = await this.db
+			.prepare(`SELECT ${COLUMNS} FROM users ORDER BY id`)
+			.all<UserRow>();
+		return results.map(toUser);
+	}
+
+	async findMany(query: UserListQuery): Promise<PaginatedResult<User>> {
+		const conditions: string[] = [];
+		const params: unknown[] = [];
+
+		if (query.email) {
+			conditions.push('LOWER(email) = ?');
+			params.push(query.email.toLowerCase());
+		}
+		if (query.q) {
+			conditions.push(`LOWER(name || ' ' || email) LIKE ? ESCAPE '\\'`);
+			params.push(`%${escapeLike(query.q.toLowerCase())}%`);
+		}
+
+		const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+		const countRow = await this.db
+			.prepare(`SELECT COUNT(*) AS total FROM users ${where}`)
+			.bind(...params)
+			.first<{ total: number }>();
+		const total = countRow?.total ?? 0;
+
+		const sort: UserSortField = query.sort ?? 'createdAt';
+		const order = query.order ?? 'asc';
+		const sortExpression = SORT_EXPRESSIONS[sort];
+		const direction = order === 'desc' ? 'DESC' : 'ASC';
+		const orderBy = `ORDER BY ${sortExpression} ${direction}, id ${direction}`;
+		const limit = query.pageSize ?? query.limit ?? DEFAULT_PAGE_SIZE;
+		const page = query.page ?? (query.pageSize !== undefined ? 1 : undefined);
+
+		if (page !== undefined) {
+			const { results } = await this.db
+				.prepare(`SELECT ${COLUMNS} FROM users ${where} ${orderBy} LIMIT ? OFFSET ?`)
+				.bind(...params, limit, (page - 1) * limit)
+				.all<UserRow>();
+
+			return {
+				items: results.map(toUser),
+				pagination: {
+					total,
+					limit,
+					nextCursor: null,
+					page,
+					pageSize: limit,
+					totalPages: Math.ceil(total / limit)
+				}
+			};
+		}
+
+		const keyset = [...conditions];
+		const keysetParams = [...params];
+		if (query.cursor) {
+			const after = decodeCursorFor(query.cursor, sort, order);
+			const op = order === 'desc' ? '<' : '>';
+			keyset.push(`(${sortExpression} ${op} ? OR (${sortExpression} = ? AND id ${op} ?))`);
+			keysetParams.push(after.value, after.value, after.id);
+		}
+
+		// Fetch one extra row to know whether another page exists
+		const keysetWhere = keyset.length > 0 ? `WHERE ${keyset.join(' AND ')}` : '';
+		const { results } = await this.db
+			.prepare(`SELECT ${COLUMNS} FROM users ${keysetWhere} ${orderBy} LIMIT ?`)
+			.bind(...keysetParams, limit + 1)
+			.all<UserRow>();
+
+		const items = results.slice(0, limit).map(toUser);
+		const last = items[items.length - 1];
+		const nextCursor =
+			results.length > limit && last
+				? encodeCursor({ sort, order, value: this.getSortValue(last, sort), id: last.id })
+				: null;
+
+		return {
+			items,
+			pagination: { total, limit, nextCursor }
+		};
+	}
+
+	async create(userData: NewUser): Promise<User> {
+		const row = await this.db
+			.prepare(
+				`INSERT INTO users (name, email, created_at, role) VALUES (?, ?, ?, ?) RETURNING ${COLUMNS}`
+			)
+			.bind(
+				userData.name,
+				userData.email,
+				(userData.createdAt ?? new Date()).getTime(),
+				userData.role ?? DEFAULT_USER_ROLE
+			)
+			.first<UserRow>()
+			.catch(rethrowConflict);
+
+		if (!row) {
+			throw new Error('Failed to insert user');
+		}
+		return toUser(row);
+	}
+
+	async update(
+		id: number,
+		userData: Partial<User>,
+		options?: UserWriteOptions
+	): Promise<User | null> {
+		const assignments: string[] = ['version = version + 1'];
+		const params: unknown[] = [];
+
+		if (userData.name !== undefined) {
+			assignments.push('name = ?');
+			params.push(userData.name);
+		}
+		if (userData.email !== undefined) {
+			assignments.push('email = ?');
+			params.push(userData.email);
+		}
+
+		// The version check is part of the UPDATE itself, so concurrent writers cannot interleave
+		const [versionClause, versionParams] = this.versionCondition(options);
+		const row = await this.db
+			.prepare(
+				`UPDATE users SET ${assignments.join(', ')} WHERE id = ?${versionClause} RETURNING ${COLUMNS}`
+			)
+			.bind(...params, id, ...versionParams)
+			.first<UserRow>()
+			.catch(rethrowConflict);
+
+		if (!row) {
+			await this.assertStale(id, options);
+			return null;
+		}
+		return toUser(row);
+	}
+
+	async delete(id: number, options?: UserWriteOptions): Promise<boolean> {
+		const [versionClause, versionParams] = this.versionCondition(options);
+		const result = await this.db
+			.prepare(`DELETE FROM users WHERE id = ?${versionClause}`)
+			.bind(id, ...versionParams)
+			.run();
+
+		if ((result.meta.changes ?? 0) === 0) {
+			await this.assertStale(id, options);
+			return false;
+		}
+		return true;
+	}
+
+	private versionCondition(options?: UserWriteOptions): [string, unknown[]] {
+		return options?.expectedVersion !== undefined
+			? [' AND version = ?', [options.expectedVersion]]
+			: ['', []];
+	}
+
+	// A conditional write that touched no rows either lost a race or targeted a missing user
+	private async assertStale(id: number, options?: UserWriteOptions): Promise<void> {
+		if (options?.expectedVersion !== undefined && (await this.findById(id))) {
+			throw new PreconditionFailedError('User has been modified since it was last fetched');
+		}
+	}
+
+	private getSortValue(user: User, sort: UserSortField): string | number {
+		if (sort === 'createdAt') return user.createdAt.getTime();
+		return user[sort].toLowerCase();
+	}
+}
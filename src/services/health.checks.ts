@@ -0,0 +1,61 @@
+import { dev } from '$app/environment';
+import { inject, injectable } from 'inversify';
+import { TYPES } from '../container/types';
+import type { IConfigService } from '../interfaces/config.interface';
+import type { HealthCheckOutcome, IHealthCheck } from '../interfaces/health.interface';
+import type { IRequestContext } from '../interfaces/request.interface';
+import type { IUserRepository } from '../interfaces/user.interface';
+import { DEV_JWT_SECRET } from './config.service';
+
+// The user repository answers a one-row query (in memory or D1)
+@injectable()
+export class RepositoryHealthCheck implements IHealthCheck {
+	readonly name = 'database';
+	readonly critical = true;
+
+	constructor(@inject(TYPES.UserRepository) private readonly userRepository: IUserRepository) {}
+
+	async check(): Promise<HealthCheckOutcome> {
+		await this.userRepository.findMany({ limit: 1 });
+		return { status: 'pass' };
+	}
+}
+
+// Invalid configuration fails the request before any check runs, and the development
+// auth settings are refused outside the local dev server. This fails the instance should
+// they ever be active in a built app. The report is public, so it names no setting
+@injectable()
+export class ConfigHealthCheck implements IHealthCheck {
+	readonly name = 'config';
+	readonly critical = true;
+
+	constructor(@inject(TYPES.ConfigService) private readonly configService: IConfigService) {}
+
+	async check(): Promise<HealthCheckOutcome> {
+		const { jwtSecret, principalHeaderSecret } = this.configService.getAuthConfig();
+		const insecure = jwtSecret === DEV_JWT_SECRET || Boolean(principalHeaderSecret);
+
+		return insecure && !dev
+			? { status: 'fail', output: 'Configuration is not fit for deployment' }
+			: { status: 'pass' };
+	}
+}
+
+// The optional CACHE KV namespace can be read
+@injectable()
+export class KvHealthCheck implements IHealthCheck {
+	readonly name = 'kv';
+	readonly critical = false;
+
+	constructor(@inject(TYPES.RequestContext) private readonly requestContext: IRequestContext) {}
+
+	async check(): Promise<HealthCheckOutcome> {
+		const kv = this.requestContext.env?.CACHE;
+		if (!kv) {
+			return { status: 'pass', output: 'CACHE binding not configured' };
+		}
+
+		await kv.get('health:probe');
+		return { status: 'pass' };
+	}
+}
@@ -0,0 +1,69 @@
+import { inject, injectable, multiInject } from 'inversify';
+import { TYPES } from '../container/types';
+import type { IConfigService } from '../interfaces/config.interface';
+import type {
+	HealthCheckOutcome,
+	IHealthCheck,
+	IHealthService
+} from '../interfaces/health.interface';
+import { worstStatus, type HealthCheckResult, type HealthStatus } from '../types/health';
+
+// A probe that hangs must not hang the readiness endpoint with it
+export const HEALTH_CHECK_TIMEOUT_MS = 2000;
+
+@injectable()
+export class HealthService implements IHealthService {
+	constructor(
+		@multiInject(TYPES.HealthCheck) private readonly checks: IHealthCheck[],
+		@inject(TYPES.ConfigService) private readonly configService: IConfigService
+	) {}
+
+	live(): HealthStatus {
+		return this.report([]);
+	}
+
+	async ready(): Promise<HealthStatus> {
+		return this.report(await Promise.all(this.checks.map((check) => this.run(check))));
+	}
+
+	private report(checks: HealthCheckResult[]): HealthStatus {
+		const { environment, apiVersion, commit } = this.configService.getAppConfig();
+		return {
+			status: worstStatus(checks.map((check) => check.status)),
+			environment,
+			timestamp: new Date().toISOString(),
+			version: apiVersion,
+			...(commit ? { commit } : {}),
+			checks
+		};
+	}
+
+	private async run(check: IHealthCheck): Promise<HealthCheckResult> {
+		const start = performance.now();
+		let outcome: HealthCheckOutcome;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+
+		try {
+			outcome = await Promise.race([
+				check.check(),
+				new Promise<never>((_, reject) => {
+					timer = setTimeout(
+						() => reject(new Error(`Timed out after ${HEALTH_CHECK_TIMEOUT_MS}ms`)),
+						HEALTH_CHECK_TIMEOUT_MS
+					);
+				})
+			]);
+		} catch (error) {
+			outcome = { status: 'fail', output: error instanceof Error ? error.message : String(error) };
+		} finally {
+			clearTimeout(timer);
+		}
+
+		return {
+			name: check.name,
+			status: outcome.status === 'fail' && !check.critical ? 'warn' : outcome.status,
+			durationMs: Math.round(performance.now() - start),
+			...(outcome.output ? { output: outcome.output } : {})
+		};
+	}
+}
@@ -0,0 +1,84 @@
+import type { IdempotencyRecord, IIdempotencyStore } from '../interfaces/idempotency.interface';
+import type { KVNamespace } from '../models/env.model';
+
+// Records for this process only: a retry reaching another Worker isolate is not recognised
+export class MemoryIdempotencyStore implements IIdempotencyStore {
+	private readonly entries = new Map<string, { record: IdempotencyRecord; expiresAt: number }>();
+
+	constructor(private readonly now: () => number = Date.now) {}
+
+	async reserve(
+		key: string,
+		fingerprint: string,
+		ttlSeconds: number
+	): Promise<IdempotencyRecord | null> {
+		const existing = this.entries.get(key);
+		if (existing && existing.expiresAt > this.now()) {
+			return existing.record;
+		}
+
+		this.sweep();
+		this.entries.set(key, { record: { fingerprint }, expiresAt: this.expiresAt(ttlSeconds) });
+		return null;
+	}
+
+	async complete(key: string, record: IdempotencyRecord, ttlSeconds: number): Promise<void> {
+		this.entries.set(key, { record, expiresAt: this.expiresAt(ttlSeconds) });
+	}
+
+	async release(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+
+	private expiresAt(ttlSeconds: number): number {
+		return this.now() + ttlSeconds * 1000;
+	}
+
+	private sweep(): void {
+		const now = this.now();
+		for (const [key, { expiresAt }] of this.entries) {
+			if (expiresAt <= now) {
+				this.entries.delete(key);
+			}
+		}
+	}
+}
+
+// KV has no compare-and-set, so two requests racing with the same new key may both
+// run; the stored response still makes every later retry a replay
+export class KvIdempotencyStore implements IIdempotencyStore {
+	constructor(private readonly kv: KVNamespace) {}
+
+	async reserve(
+		key: string,
+		fingerprint: string,
+		ttlSeconds: number
+	): Promise<IdempotencyRecord | null> {
+		const stored = await this.kv.get(this.storageKey(key));
+		if (stored) {
+			return JSON.parse(stored) as IdempotencyRecord;
+		}
+
+		await this.put(key, { fingerprint }, ttlSeconds);
+		return null;
+	}
+
+	async complete(key: string, record: IdempotencyRecord, ttlSeconds: number): Promise<void> {
+		await this.put(key, record, ttlSeconds);
+	}
+
+	async release(key: string): Promise<void> {
+		await this.kv.delete(this.storageKey(key));
+	}
+
+	private async put(key: string, record: IdempotencyRecord, ttlSeconds: number): Promise<void> {
+		// KV's minimum TTL is 60 seconds
+		await this.kv.put(this.storageKey(key), JSON.stringify(record), {
+			expirationTtl: Math.max(60, ttlSeconds)
+		});
+	}
+
+	private storageKey(key: string): string {
+		return `idempotency:${key}`;
+	}
+}
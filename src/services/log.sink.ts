@@ -0,0 +1,58 @@
+import type { ILogSink, LogEntry } from '../interfaces/logger.interface';
+import type { LogLevel } from '../models/env.model';
+
+const CONSOLE_METHODS: Record<LogLevel, 'debug' | 'log' | 'warn' | 'error'> = {
+	debug: 'debug',
+	info: 'log',
+	warn: 'warn',
+	error: 'error'
+};
+
+// One JSON object per line, for log collectors (Workers Logs, Logpush, ...)
+export class ConsoleJsonSink implements ILogSink {
+	write(entry: LogEntry): void {
+		const line = JSON.stringify({
+			timestamp: entry.timestamp,
+			level: entry.level.toUpperCase(),
+			context: entry.context,
+			...entry.bindings,
+			message: entry.message,
+			...(entry.meta ? { meta: entry.meta } : {})
+		});
+		console[CONSOLE_METHODS[entry.level]](line);
+	}
+}
+
+// Readable single lines for local development, e.g.
+// `12:00:00.000 INFO  [API] User created {"userId":3} requestId=…`
+export class PrettyConsoleSink implements ILogSink {
+	write(entry: LogEntry): void {
+		const time = entry.timestamp.slice(11, 23);
+		const level = entry.level.toUpperCase().padEnd(5);
+		const meta = entry.meta ? ` ${JSON.stringify(entry.meta)}` : '';
+		const bindings = Object.entries(entry.bindings)
+			.map(([key, value]) => ` ${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+			.join('');
+		console[CONSOLE_METHODS[entry.level]](
+			`${time} ${level} [${entry.context}] ${entry.message}${meta}${bindings}`
+		);
+	}
+}
+
+// Keeps entries in memory so tests can assert on logs without spying on console
+export class MemoryLogSink implements ILogSink {
+	readonly entries: LogEntry[] = [];
+
+	write(entry: LogEntry): void {
+		this.entries.push(entry);
+	}
+
+	// Entries whose message contains `text`
+	find(text: string): LogEntry[] {
+		return this.entries.filter((entry) => entry.message.includes(text));
+	}
+
+	clear(): void {
+		this.entries.length = 0;
+	}
+}
@@ -1,53 +1,91 @@
-import { injectable } from 'inversify';
-import type { ILogger, ILoggerFactory } from '../interfaces/logger.interface';
+import { inject, injectable } from 'inversify';
+import { TYPES } from '../container/types';
+import type { IConfigService } from '../interfaces/config.interface';
+import type {
+	ILogger,
+	ILoggerFactory,
+	ILogSink,
+	LogEntry,
+	LoggerOptions
+} from '../interfaces/logger.interface';
+import { redact } from '../lib/redact';
+import { DEFAULT_REDACT_KEYS, type LogLevel } from '../models/env.model';
+import { ConsoleJsonSink } from './log.sink';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
 
 // Single Responsibility Principle - Only handles logging
 @injectable()
 export class Logger implements ILogger {
-	constructor(private readonly context: string = 'App') {}
+	private readonly level: LogLevel;
+	private readonly redactKeys: readonly string[];
+	private readonly sink: ILogSink;
+	private readonly bindings: Record<string, unknown>;
+
+	constructor(
+		private readonly context: string = 'App',
+		options: LoggerOptions = {}
+	) {
+		this.level = options.level ?? 'debug';
+		this.redactKeys = options.redactKeys ?? DEFAULT_REDACT_KEYS;
+		this.sink = options.sink ?? new ConsoleJsonSink();
+		this.bindings = redact(options.bindings ?? {}, this.redactKeys);
+	}
 
 	info(message: string, meta?: Record<string, unknown>): void {
-		const logEntry = this.formatLog('INFO', message, meta);
-		console.log(logEntry);
+		this.log('info', message, meta);
 	}
 
 	warn(message: string, meta?: Record<string, unknown>): void {
-		const logEntry = this.formatLog('WARN', message, meta);
-		console.warn(logEntry);
+		this.log('warn', message, meta);
 	}
 
 	error(message: string, error?: Error, meta?: Record<string, unknown>): void {
-		const logEntry = this.formatLog('ERROR', message, {
+		this.log('error', message, {
 			...meta,
 			error: error?.message,
 			stack: error?.stack
 		});
-		console.error(logEntry);
 	}
 
 	debug(message: string, meta?: Record<string, unknown>): void {
-		// Only show debug logs in development mode
-		// For edge runtimes, we skip the environment check and just log
-		const logEntry = this.formatLog('DEBUG', message, meta);
-		console.debug(logEntry);
+		this.log('debug', message, meta);
+	}
+
+	child(bindings: Record<string, unknown>): ILogger {
+		return new Logger(this.context, {
+			level: this.level,
+			redactKeys: this.redactKeys,
+			sink: this.sink,
+			bindings: { ...this.bindings, ...bindings }
+		});
 	}
 
-	private formatLog(level: string, message: string, meta?: Record<string, unknown>): string {
-		const timestamp = new Date().toISOString();
-		const logObject = {
-			timestamp,
+	private log(level: LogLevel, message: string, meta?: Record<string, unknown>): void {
+		if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) return;
+
+		const entry: LogEntry = {
+			timestamp: new Date().toISOString(),
 			level,
 			context: this.context,
 			message,
-			...(meta && Object.keys(meta).length > 0 ? { meta } : {})
+			bindings: this.bindings,
+			...(meta && Object.keys(meta).length > 0 ? { meta: redact(meta, this.redactKeys) } : {})
 		};
-		return JSON.stringify(logObject);
+		this.sink.write(entry);
 	}
 }
 
+// Creates loggers with the configured level, redaction and sink
 @injectable()
 export class LoggerFactory implements ILoggerFactory {
-	createLogger(context: string): ILogger {
-		return new Logger(context);
+	constructor(
+		@inject(TYPES.ConfigService) private readonly configService: IConfigService,
+		@inject(TYPES.LogSink) private readonly sink: ILogSink
+	) {}
+
+	createLogger(context: string, bindings?: Record<string, unknown>): ILogger {
+		const { level, redactKeys } = this.configService.getLogConfig();
+		return new Logger(context, { level, redactKeys, sink: this.sink, bindings });
 	}
 }
@@ -0,0 +1,243 @@
+import { injectable } from 'inversify';
+import type {
+	HistogramOptions,
+	ICounter,
+	IGauge,
+	IHistogram,
+	IMetricsRegistry,
+	MetricLabels,
+	MetricOptions
+} from '../interfaces/metrics.interface';
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Request latencies in seconds, from 5ms to 10s (the Prometheus client defaults)
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+function escapeLabelValue(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+	if (value === Infinity) return '+Inf';
+	if (value === -Infinity) return '-Inf';
+	return String(value);
+}
+
+// Series are keyed by their label values in `labelNames` order
+abstract class Metric<TSeries> {
+	abstract readonly type: MetricType;
+	protected readonly series = new Map<string, { labels: MetricLabels; value: TSeries }>();
+
+	constructor(
+		readonly name: string,
+		readonly help: string,
+		readonly labelNames: readonly string[]
+	) {}
+
+	protected key(labels: MetricLabels = {}): string {
+		for (const name of Object.keys(labels)) {
+			if (!this.labelNames.includes(name)) {
+				throw new Error(`Unknown label "${name}" for metric ${this.name}`);
+			}
+		}
+		return this.labelNames.map((name) => String(labels[name] ?? '')).join('\u0000');
+	}
+
+	protected entry(labels: MetricLabels | undefined, initial: () => TSeries) {
+		const key = this.key(labels);
+		let entry = this.series.get(key);
+		if (!entry) {
+			entry = { labels: { ...labels }, value: initial() };
+			this.series.set(key, entry);
+		}
+		return entry;
+	}
+
+	protected formatLabels(labels: MetricLabels, extra: MetricLabels = {}): string {
+		const pairs = [
+			...this.labelNames
+				.filter((name) => labels[name] !== undefined)
+				.map((name) => [name, labels[name]] as const),
+			...Object.entries(extra)
+		];
+		if (pairs.length === 0) return '';
+		return `{${pairs.map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`).join(',')}}`;
+	}
+
+	render(): string {
+		return [
+			`# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+			`# TYPE ${this.name} ${this.type}`,
+			...this.samples()
+		].join('\n');
+	}
+
+	protected abstract samples(): string[];
+}
+
+class Counter extends Metric<number> implements ICounter {
+	readonly type = 'counter';
+
+	inc(labels?: MetricLabels, value = 1): void {
+		if (value < 0) {
+			throw new Error(`Counter ${this.name} can only increase`);
+		}
+		this.entry(labels, () => 0).value += value;
+	}
+
+	get(labels?: MetricLabels): number {
+		return this.series.get(this.key(labels))?.value ?? 0;
+	}
+
+	protected samples(): string[] {
+		return [...this.series.values()].map(
+			({ labels, value }) => `${this.name}${this.formatLabels(labels)} ${formatValue(value)}`
+		);
+	}
+}
+
+class Gauge extends Metric<number> implements IGauge {
+	readonly type = 'gauge';
+
+	set(value: number, labels?: MetricLabels): void {
+		this.entry(labels, () => 0).value = value;
+	}
+
+	inc(labels?: MetricLabels, value = 1): void {
+		this.entry(labels, () => 0).value += value;
+	}
+
+	dec(labels?: MetricLabels, value = 1): void {
+		this.entry(labels, () => 0).value -= value;
+	}
+
+	get(labels?: MetricLabels): number {
+		return this.series.get(this.key(labels))?.value ?? 0;
+	}
+
+	protected samples(): string[] {
+		return [...this.series.values()].map(
+			({ labels, value }) => `${this.name}${this.formatLabels(labels)} ${formatValue(value)}`
+		);
+	}
+}
+
+interface HistogramSeries {
+	// Observations per bucket (not cumulative); cumulated when rendered
+	buckets: number[];
+	sum: number;
+	count: number;
+}
+
+class Histogram extends Metric<HistogramSeries> implements IHistogram {
+	readonly type = 'histogram';
+
+	constructor(
+		name: string,
+		help: string,
+		labelNames: readonly string[],
+		private readonly buckets: readonly number[]
+	) {
+		super(name, help, labelNames);
+	}
+
+	observe(value: number, labels?: MetricLabels): void {
+		const series = this.entry(labels, () => ({
+			buckets: this.buckets.map(() => 0),
+			sum: 0,
+			count: 0
+		})).value;
+		const index = this.buckets.findIndex((bound) => value <= bound);
+		if (index !== -1) series.buckets[index]++;
+		series.sum += value;
+		series.count++;
+	}
+
+	count(labels?: MetricLabels): number {
+		return this.series.get(this.key(labels))?.value.count ?? 0;
+	}
+
+	protected samples(): string[] {
+		return [...this.series.values()].flatMap(({ labels, value }) => {
+			let cumulative = 0;
+			return [
+				...this.buckets.map((bound, i) => {
+					cumulative += value.buckets[i];
+					return `${this.name}_bucket${this.formatLabels(labels, { le: formatValue(bound) })} ${cumulative}`;
+				}),
+				`${this.name}_bucket${this.formatLabels(labels, { le: '+Inf' })} ${value.count}`,
+				`${this.name}_sum${this.formatLabels(labels)} ${formatValue(value.sum)}`,
+				`${this.name}_count${this.formatLabels(labels)} ${value.count}`
+			];
+		});
+	}
+}
+
+/**
+ * In-memory metrics for this process. On Workers each isolate has its own
+ * registry, so a scrape only sees the requests served by the isolate that answers it.
+ */
+@injectable()
+export class MetricsRegistry implements IMetricsRegistry {
+	private readonly metrics = new Map<string, Counter | Gauge | Histogram>();
+
+	counter(name: string, options: MetricOptions): ICounter {
+		return this.getOrCreate(
+			name,
+			'counter',
+			() => new Counter(name, options.help, options.labelNames ?? [])
+		);
+	}
+
+	gauge(name: string, options: MetricOptions): IGauge {
+		return this.getOrCreate(
+			name,
+			'gauge',
+			() => new Gauge(name, options.help, options.labelNames ?? [])
+		);
+	}
+
+	histogram(name: string, options: HistogramOptions): IHistogram {
+		return this.getOrCreate(
+			name,
+			'histogram',
+			() =>
+				new Histogram(
+					name,
+					options.help,
+					options.labelNames ?? [],
+					[...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b)
+				)
+		);
+	}
+
+	render(): string {
+		const metrics = [...this.metrics.values()].map((metric) => metric.render());
+		return metrics.length > 0 ? `${metrics.join('\n')}\n` : '';
+	}
+
+	private getOrCreate<T extends Counter | Gauge | Histogram>(
+		name: string,
+		type: MetricType,
+		create: () => T
+	): T {
+		if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) {
+			throw new Error(`Invalid metric name "${name}"`);
+		}
+
+		const existing = this.metrics.get(name);
+		if (existing) {
+			if (existing.type !== type) {
+				throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+			}
+			return existing as T;
+		}
+
+		const metric = create();
+		this.metrics.set(name, metric);
+		return metric;
+	}
+}
@@ -0,0 +1,58 @@
+import { injectable } from 'inversify';
+import type { IPasswordHasher } from '../interfaces/auth.interface';
+import { fromBase64, randomBytes, timingSafeEqual, toBase64 } from '../lib/crypto';
+
+// Cloudflare Workers cap PBKDF2 at 100k iterations
+export const PBKDF2_ITERATIONS = 100_000;
+
+const ALGORITHM = 'pbkdf2-sha256';
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+async function deriveKey(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+	const key = await crypto.subtle.importKey(
+		'raw',
+		new TextEncoder().encode(password),
+		'PBKDF2',
+		false,
+		['deriveBits']
+	);
+	const bits = await crypto.subtle.deriveBits(
+		{ name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+		key,
+		KEY_BITS
+	);
+	return new Uint8Array(bits);
+}
+
+/**
+ * PBKDF2 password hashing with WebCrypto.
+ * Hashes are stored as `pbkdf2-sha256$<iterations>$<salt>$<hash>` (base64), so the
+ * iteration count can be raised later without invalidating existing passwords.
+ */
+@injectable()
+export class PasswordHasher implements IPasswordHasher {
+	constructor(private readonly iterations: number = PBKDF2_ITERATIONS) {}
+
+	async hash(password: string): Promise<string> {
+		const salt = randomBytes(SALT_BYTES);
+		const derived = await deriveKey(password, salt, this.iterations);
+		return [ALGORITHM, this.iterations, toBase64(salt), toBase64(derived)].join('$');
+	}
+
+	async verify(password: string, passwordHash: string): Promise<boolean> {
+		const [algorithm, iterations, salt, expected] = passwordHash.split('$');
+		const rounds = parseInt(iterations);
+
+		if (algorithm !== ALGORITHM || isNaN(rounds) || !salt || !expected) {
+			return false;
+		}
+
+		try {
+			const derived = await deriveKey(password, fromBase64(salt), rounds);
+			return timingSafeEqual(derived, fromBase64(expected));
+		} catch {
+			return false;
+		}
+	}
+}
@@ -0,0 +1,71 @@
+import type { Principal, ITokenService } from '../interfaces/auth.interface';
+import type { IPrincipalResolver } from '../interfaces/authorization.interface';
+import type { IUserRepository } from '../interfaces/user.interface';
+import { hmacSha256, timingSafeEqual, toBase64Url } from '../lib/crypto';
+import { UnauthorizedError } from '../models/error.model';
+
+export const PRINCIPAL_HEADER = 'X-Principal';
+
+const INVALID_HEADER = `Invalid ${PRINCIPAL_HEADER} header`;
+
+// `Authorization: Bearer <access token>` issued by POST /auth/sign-in
+export class BearerTokenPrincipalResolver implements IPrincipalResolver {
+	constructor(private readonly tokenService: ITokenService) {}
+
+	async resolve(request: Request): Promise<Principal | null> {
+		const match = request.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i);
+		return match ? await this.tokenService.verifyAccessToken(match[1]) : null;
+	}
+}
+
+/**
+ * Value for the `X-Principal` header: `<userId>.<signature>`, where the signature
+ * is the base64url HMAC-SHA256 of the user ID with PRINCIPAL_HEADER_SECRET.
+ */
+export async function signPrincipalHeader(userId: number, secret: string): Promise<string> {
+	return `${userId}.${toBase64Url(await hmacSha256(secret, String(userId)))}`;
+}
+
+/**
+ * Stand-in for a real identity provider when testing locally: any caller holding
+ * the shared secret can act as any user, so it is only enabled when configured.
+ */
+export class SignedHeaderPrincipalResolver implements IPrincipalResolver {
+	constructor(
+		private readonly secret: string,
+		private readonly userRepository: IUserRepository
+	) {}
+
+	async resolve(request: Request): Promise<Principal | null> {
+		const header = request.headers.get(PRINCIPAL_HEADER);
+		if (!header) return null;
+
+		const userId = Number(header.split('.')[0]);
+		const encoder = new TextEncoder();
+		const expected = Number.isInteger(userId) ? await signPrincipalHeader(userId, this.secret) : '';
+
+		if (!expected || !timingSafeEqual(encoder.encode(header), encoder.encode(expected))) {
+			throw new UnauthorizedError(INVALID_HEADER, { code: 'principal_header_invalid' });
+		}
+
+		const user = await this.userRepository.findById(userId);
+		if (!user) {
+			throw new UnauthorizedError(INVALID_HEADER, { code: 'principal_header_invalid' });
+		}
+
+		return { userId: user.id, email: user.email };
+	}
+}
+
+// Asks each resolver in turn and returns the first principal found
+export class ChainedPrincipalResolver implements IPrincipalResolver {
+	constructor(private readonly resolvers: IPrincipalResolver[]) {}
+
+	async resolve(request: Request): Promise<Principal | null> {
+		for (const resolver of this.resolvers) {
+			const principal = await resolver.resolve(request);
+			if (principal) return principal;
+		}
+		return null;
+	}
+}
@@ -0,0 +1,112 @@
+import type { IRateLimitStore } from '../interfaces/rate-limit.interface';
+import {
+	consumeRateLimit,
+	type RateLimitPolicy,
+	type RateLimitResult,
+	type RateLimitState
+} from '../lib/rate-limit';
+import type { DurableObjectNamespace, KVNamespace } from '../models/env.model';
+
+// Counters for this process only: exact, but every Worker isolate counts on its own
+export class MemoryRateLimitStore implements IRateLimitStore {
+	// Beyond this many keys, expired counters are swept before adding another
+	private static readonly MAX_KEYS = 10_000;
+	private readonly entries = new Map<string, { state: RateLimitState; windowMs: number }>();
+
+	constructor(private readonly now: () => number = Date.now) {}
+
+	async hit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+		const now = this.now();
+		if (!this.entries.has(key) && this.entries.size >= MemoryRateLimitStore.MAX_KEYS) {
+			this.sweep(now);
+		}
+
+		const { state, result } = consumeRateLimit(this.entries.get(key)?.state, policy, now);
+		this.entries.set(key, { state, windowMs: policy.windowMs });
+		return result;
+	}
+
+	// Counters older than two windows no longer affect any decision
+	private sweep(now: number): void {
+		for (const [key, { state, windowMs }] of this.entries) {
+			if (state.windowStart <= now - 2 * windowMs) {
+				this.entries.delete(key);
+			}
+		}
+	}
+}
+
+// KV allows one write per key per second and is eventually consistent across
+// locations, so limits are approximate: fine for abuse protection, not for quotas
+export class KvRateLimitStore implements IRateLimitStore {
+	constructor(
+		private readonly kv: KVNamespace,
+		private readonly now: () => number = Date.now
+	) {}
+
+	async hit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+		const storageKey = `ratelimit:${key}`;
+		const stored = await this.kv.get(storageKey);
+		const { state, result } = consumeRateLimit(
+			stored ? (JSON.parse(stored) as RateLimitState) : null,
+			policy,
+			this.now()
+		);
+
+		if (result.allowed) {
+			// KV's minimum TTL is 60 seconds
+			const expirationTtl = Math.max(60, Math.ceil((2 * policy.windowMs) / 1000));
+			await this.kv.put(storageKey, JSON.stringify(state), { expirationTtl });
+		}
+		return result;
+	}
+}
+
+// One Durable Object per key serializes its requests, so limits are exact everywhere
+export class DurableObjectRateLimitStore implements IRateLimitStore {
+	constructor(private readonly namespace: DurableObjectNamespace) {}
+
+	async hit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+		const stub = this.namespace.get(this.namespace.idFromName(key));
+		const response = await stub.fetch('https://rate-limiter/hit', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(policy)
+		});
+		if (!response.ok) {
+			throw new Error(`Rate limiter responded with ${response.status}`);
+		}
+		return (await response.json()) as RateLimitResult;
+	}
+}
+
+// Subset of the Durable Object state API used by RateLimiterDurableObject
+export interface DurableObjectState {
+	storage: {
+		get<T>(key: string): Promise<T | undefined>;
+		put<T>(key: string, value: T): Promise<void>;
+	};
+}
+
+/**
+ * The Durable Object behind DurableObjectRateLimitStore. SvelteKit's worker cannot
+ * export it, so deploy it from a separate Worker and bind it as RATE_LIMITER with
+ * `script_name` (see wrangler.toml).
+ */
+export class RateLimiterDurableObject {
+	constructor(
+		private readonly state: DurableObjectState,
+		private readonly now: () => number = Date.now
+	) {}
+
+	async fetch(request: Request): Promise<Response> {
+		const policy = (await request.json()) as RateLimitPolicy;
+		const { state, result } = consumeRateLimit(
+			await this.state.storage.get<RateLimitState>('state'),
+			policy,
+			this.now()
+		);
+		await this.state.storage.put('state', state);
+		return Response.json(result);
+	}
+}
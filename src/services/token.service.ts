@@ -0,0 +1,61 @@
+import { sign, verify } from 'hono/jwt';
+import { inject, injectable } from 'inversify';
+import { TYPES } from '../container/types';
+import type { ITokenService, Principal } from '../interfaces/auth.interface';
+import type { IConfigService } from '../interfaces/config.interface';
+import { randomToken, sha256Hex } from '../lib/crypto';
+import { UnauthorizedError } from '../models/error.model';
+
+const INVALID_TOKEN = 'Invalid or expired access token';
+
+const ALGORITHM = 'HS256';
+
+// Single Responsibility Principle - Only issues and verifies tokens
+@injectable()
+export class TokenService implements ITokenService {
+	constructor(@inject(TYPES.ConfigService) private readonly configService: IConfigService) {}
+
+	async issueAccessToken(principal: Principal): Promise<string> {
+		const { jwtSecret, issuer, accessTokenTtl } = this.configService.getAuthConfig();
+		const now = Math.floor(Date.now() / 1000);
+
+		return await sign(
+			{
+				sub: String(principal.userId),
+				email: principal.email,
+				iss: issuer,
+				iat: now,
+				exp: now + accessTokenTtl
+			},
+			jwtSecret,
+			ALGORITHM
+		);
+	}
+
+	async verifyAccessToken(token: string): Promise<Principal> {
+		const { jwtSecret, issuer } = this.configService.getAuthConfig();
+
+		let payload: Record<string, unknown>;
+		try {
+			payload = await verify(token, jwtSecret, { alg: ALGORITHM, iss: issuer });
+		} catch {
+			throw new UnauthorizedError(INVALID_TOKEN, { code: 'access_token_invalid' });
+		}
+
+		const userId = Number(payload.sub);
+		if (!Number.isInteger(userId) || typeof payload.email !== 'string') {
+			throw new UnauthorizedError(INVALID_TOKEN, { code: 'access_token_invalid' });
+		}
+
+		return { userId, email: payload.email };
+	}
+
+	generateRefreshToken(): string {
+		return randomToken();
+	}
+
+	// Refresh tokens carry 256 bits of entropy, so a fast unsalted hash is enough
+	async hashRefreshToken(token: string): Promise<string> {
+		return await sha256Hex(token);
+	}
+}
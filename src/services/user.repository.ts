@@ -1,5 +1,20 @@
 import { injectable } from 'inversify';
-import type { IUserRepository, User } from '../interfaces/user.interface';
+import type {
+	IUserRepository,
+	NewUser,
+	User,
+	UserWriteOptions
+} from '../interfaces/user.interface';
+import { paginate, type SortValue } from '../lib/pagination';
+import { PreconditionFailedError } from '../models/error.model';
+import { DEFAULT_USER_ROLE } from '../models/role.model';
+import {
+	DEFAULT_PAGE_SIZE,
+	emailTakenError,
+	type UserListQuery,
+	type UserSortField
+} from '../models/user.model';
+import type { PaginatedResult } from '../types/pagination';
 
 // Single Responsibility Principle - Only handles data access
 @injectable()
@@ -9,13 +24,17 @@ export class UserRepository implements IUserRepository {
 			id: 1,
 			name: 'John Doe',
 			email: 'john@example.com',
-			createdAt: new Date('2024-01-01')
+			createdAt: new Date('2024-01-01'),
+			version: 1,
+			role: 'admin'
 		},
 		{
 			id: 2,
 			name: 'Jane Smith',
 			email: 'jane@example.com',
-			createdAt: new Date('2024-01-02')
+			createdAt: new Date('2024-01-02'),
+			version: 1,
+			role: 'member'
 		}
 	];
 
@@ -28,32 +47,96 @@ export class UserRepository implements IUserRepository {
 		return [...this.users];
 	}
 
-	async create(userData: Omit<User, 'id'>): Promise<User> {
+	async findMany(query: UserListQuery): Promise<PaginatedResult<User>> {
+		const q = query.q?.toLowerCase();
+		const email = query.email?.toLowerCase();
+
+		const filtered = this.users.filter((user) => {
+			if (email && user.email.toLowerCase() !== email) return false;
+			if (q && !`${user.name} ${user.email}`.toLowerCase().includes(q)) return false;
+			return true;
+		});
+
+		const sort: UserSortField = query.sort ?? 'createdAt';
+		const limit = query.pageSize ?? query.limit ?? DEFAULT_PAGE_SIZE;
+		const page = query.page ?? (query.pageSize !== undefined ? 1 : undefined);
+
+		return paginate(filtered, {
+			sort,
+			order: query.order ?? 'asc',
+			limit,
+			cursor: query.cursor,
+			page,
+			getSortValue: (user) => this.getSortValue(user, sort),
+			getId: (user) => user.id
+		});
+	}
+
+	async create(userData: NewUser): Promise<User> {
+		this.assertEmailAvailable(userData.email);
 		const newUser: User = {
-			id: Math.max(...this.users.map((u) => u.id), 0) + 1,
 			...userData,
-			createdAt: new Date()
+			// Assigned after the spread, so an id in the input can never override it
+			id: Math.max(...this.users.map((u) => u.id), 0) + 1,
+			createdAt: new Date(),
+			version: 1,
+			role: userData.role ?? DEFAULT_USER_ROLE
 		};
 		this.users.push(newUser);
 		return newUser;
 	}
 
-	async update(id: number, userData: Partial<User>): Promise<User | null> {
+	async update(
+		id: number,
+		userData: Partial<User>,
+		options?: UserWriteOptions
+	): Promise<User | null> {
 		const userIndex = this.users.findIndex((u) => u.id === id);
 		if (userIndex === -1) return null;
 
+		const existing = this.users[userIndex];
+		this.assertVersion(existing, options);
+		if (userData.email !== undefined) {
+			this.assertEmailAvailable(userData.email, id);
+		}
+
 		this.users[userIndex] = {
-			...this.users[userIndex],
-			...userData
+			...existing,
+			...userData,
+			id: existing.id,
+			version: existing.version + 1
 		};
 		return this.users[userIndex];
 	}
 
-	async delete(id: number): Promise<boolean> {
+	async delete(id: number, options?: UserWriteOptions): Promise<boolean> {
 		const userIndex = this.users.findIndex((u) => u.id === id);
 		if (userIndex === -1) return false;
 
+		this.assertVersion(this.users[userIndex], options);
+
 		this.users.splice(userIndex, 1);
 		return true;
 	}
+
+	private assertVersion(user: User, options?: UserWriteOptions): void {
+		if (options?.expectedVersion !== undefined && options.expectedVersion !== user.version) {
+			throw new PreconditionFailedError('User has been modified since it was last fetched');
+		}
+	}
+
+	// Mirrors the unique index on LOWER(email) in D1
+	private assertEmailAvailable(email: string, exceptId?: number): void {
+		const taken = this.users.some(
+			(user) => user.id !== exceptId && user.email.toLowerCase() === email.toLowerCase()
+		);
+		if (taken) {
+			throw emailTakenError();
+		}
+	}
+
+	private getSortValue(user: User, sort: UserSortField): SortValue {
+		if (sort === 'createdAt') return user.createdAt.getTime();
+		return user[sort].toLowerCase();
+	}
 }
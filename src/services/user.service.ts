@@ -1,22 +1,36 @@
 import { inject, injectable } from 'inversify';
 import { TYPES } from '../container/types';
 import type { ILogger } from '../interfaces/logger.interface';
+import type { IMetricsRegistry } from '../interfaces/metrics.interface';
 import type {
 	CreateUserRequest,
 	IUserRepository,
 	IUserService,
+	ReplaceUserRequest,
 	UpdateUserRequest,
-	User
+	User,
+	UserPatch,
+	UserWriteOptions
 } from '../interfaces/user.interface';
+import { applyJsonPatch, applyMergePatch } from '../lib/json-patch';
 import { ValidationError } from '../models/error.model';
-import { createUserSchema, updateUserSchema } from '../models/user.model';
+import {
+	createUserSchema,
+	patchedUserSchema,
+	replaceUserSchema,
+	updateUserSchema,
+	userListQuerySchema,
+	type UserListQueryInput
+} from '../models/user.model';
+import type { PaginatedResult } from '../types/pagination';
 
 // Dependency Inversion Principle - Depends on abstractions, not concretions
 @injectable()
 export class UserService implements IUserService {
 	constructor(
 		@inject(TYPES.UserRepository) private readonly userRepository: IUserRepository,
-		@inject(TYPES.Logger) private readonly logger: ILogger
+		@inject(TYPES.Logger) private readonly logger: ILogger,
+		@inject(TYPES.MetricsRegistry) private readonly metrics: IMetricsRegistry
 	) {}
 
 	async getUserById(id: number): Promise<User | null> {
@@ -36,30 +50,44 @@ export class UserService implements IUserService {
 		return await this.userRepository.findAll();
 	}
 
+	async listUsers(query: UserListQueryInput): Promise<PaginatedResult<User>> {
+		// Validation (Zod)
+		const queryParsed = userListQuerySchema.safeParse(query);
+		if (!queryParsed.success) {
+			const error = ValidationError.fromZodError(queryParsed.error);
+			this.logger.warn('User listing failed - invalid query', { errors: error.errors });
+			throw error;
+		}
+
+		// Search terms and cursors can hold e-mail addresses, so their values stay out
+		this.logger.info('Listing users', { params: Object.keys(queryParsed.data) });
+		return await this.userRepository.findMany(queryParsed.data);
+	}
+
 	async createUser(userData: CreateUserRequest): Promise<User> {
 		this.logger.info('Creating new user', { email: userData.email });
 
 		// Validation (Zod)
 		const createParsed = createUserSchema.safeParse(userData);
 		if (!createParsed.success) {
-			const errors = createParsed.error.issues.map((i) => i.message);
-			const error = new ValidationError(`Validation failed: ${errors.join(', ')}`);
+			const error = ValidationError.fromZodError(createParsed.error);
 			this.logger.error('User creation failed - validation error', error);
 			throw error;
 		}
 
-		// Create user
+		// Create user from the validated (trimmed) fields only; new users get the default role
 		const newUser = await this.userRepository.create({
-			...userData,
+			...createParsed.data,
 			createdAt: new Date()
 		});
 
 		this.logger.info('User created successfully', { userId: newUser.id });
+		this.metrics.counter('users_created_total', { help: 'Users created' }).inc();
 		return newUser;
 	}
 
 	async updateUser(id: number, userData: UpdateUserRequest): Promise<User | null> {
-		this.logger.info('Updating user', { userId: id, updateData: userData });
+		this.logger.info('Updating user', { userId: id });
 
 		// Check if user exists
 		const existingUser = await this.userRepository.findById(id);
@@ -71,23 +99,90 @@ export class UserService implements IUserService {
 		// Validation (Zod)
 		const updateParsed = updateUserSchema.safeParse(userData);
 		if (!updateParsed.success) {
-			const errors = updateParsed.error.issues.map((i) => i.message);
-			const error = new ValidationError(`Validation failed: ${errors.join(', ')}`);
+			const error = ValidationError.fromZodError(updateParsed.error);
 			this.logger.error('User update failed - validation error', error);
 			throw error;
 		}
 
 		// Update user
-		const updatedUser = await this.userRepository.update(id, userData);
+		const updatedUser = await this.userRepository.update(id, updateParsed.data);
 
 		if (updatedUser) {
 			this.logger.info('User updated successfully', { userId: id });
+			this.countUpdate('update');
 		}
 
 		return updatedUser;
 	}
 
-	async deleteUser(id: number): Promise<boolean> {
+	async replaceUser(
+		id: number,
+		userData: ReplaceUserRequest,
+		options?: UserWriteOptions
+	): Promise<User | null> {
+		this.logger.info('Replacing user', { userId: id });
+
+		// Check if user exists
+		const existingUser = await this.userRepository.findById(id);
+		if (!existingUser) {
+			this.logger.warn('Replace failed - user not found', { userId: id });
+			return null;
+		}
+
+		// Validation (Zod) - a replacement must provide every field
+		const replaceParsed = replaceUserSchema.safeParse(userData);
+		if (!replaceParsed.success) {
+			const error = ValidationError.fromZodError(replaceParsed.error);
+			this.logger.error('User replace failed - validation error', error);
+			throw error;
+		}
+
+		const replacedUser = await this.userRepository.update(id, replaceParsed.data, options);
+
+		if (replacedUser) {
+			this.logger.info('User replaced successfully', { userId: id });
+			this.countUpdate('replace');
+		}
+
+		return replacedUser;
+	}
+
+	async patchUser(id: number, patch: UserPatch, options?: UserWriteOptions): Promise<User | null> {
+		this.logger.info('Patching user', { userId: id, patchType: patch.type });
+
+		// Check if user exists
+		const existingUser = await this.userRepository.findById(id);
+		if (!existingUser) {
+			this.logger.warn('Patch failed - user not found', { userId: id });
+			return null;
+		}
+
+		// Only the writable fields are exposed to the patch document
+		const current = { name: existingUser.name, email: existingUser.email };
+		const patched =
+			patch.type === 'json-patch'
+				? applyJsonPatch(current, patch.operations)
+				: applyMergePatch(current, patch.document);
+
+		// Validation (Zod)
+		const patchParsed = patchedUserSchema.safeParse(patched);
+		if (!patchParsed.success) {
+			const error = ValidationError.fromZodError(patchParsed.error);
+			this.logger.error('User patch failed - validation error', error);
+			throw error;
+		}
+
+		const patchedUser = await this.userRepository.update(id, patchParsed.data, options);
+
+		if (patchedUser) {
+			this.logger.info('User patched successfully', { userId: id });
+			this.countUpdate('patch');
+		}
+
+		return patchedUser;
+	}
+
+	async deleteUser(id: number, options?: UserWriteOptions): Promise<boolean> {
 		this.logger.info('Deleting user', { userId: id });
 
 		// Check if user exists
@@ -97,12 +192,22 @@ export class UserService implements IUserService {
 			return false;
 		}
 
-		const deleted = await this.userRepository.delete(id);
+		const deleted = await this.userRepository.delete(id, options);
 
 		if (deleted) {
 			this.logger.info('User deleted successfully', { userId: id });
+			this.metrics.counter('users_deleted_total', { help: 'Users deleted' }).inc();
 		}
 
 		return deleted;
 	}
+
+	private countUpdate(operation: 'update' | 'replace' | 'patch'): void {
+		this.metrics
+			.counter('users_updated_total', {
+				help: 'Users updated, by operation',
+				labelNames: ['operation']
+			})
+			.inc({ operation });
+	}
 }
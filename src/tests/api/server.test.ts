@@ -1,8 +1,33 @@
 import type { RequestEvent } from '@sveltejs/kit';
-import { describe, expect, it } from 'vitest';
-import { DELETE, GET, POST, PUT } from '../../routes/api/[...paths]/+server';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { container } from '../../container/inversify.server';
+import { TYPES } from '../../container/types';
+import { DELETE, GET, PATCH, POST, PUT } from '../../routes/api/[...paths]/+server';
+import { MemoryLogSink } from '../../services/log.sink';
+import { MemoryRateLimitStore } from '../../services/rate-limit.store';
+import { signPrincipalHeader } from '../../services/principal.resolver';
+import { authHeaders, memberPrincipal } from '../helpers/auth';
 
 describe('Hono API Routes', () => {
+	// User writes need a permission, so they are sent as the seeded admin
+	let auth: Record<string, string>;
+	// Keeps the JSON logs off stdout; tests that check logging assert on it
+	const logs = new MemoryLogSink();
+
+	beforeAll(async () => {
+		container.snapshot();
+		container.rebindSync(TYPES.LogSink).toConstantValue(logs);
+		auth = await authHeaders();
+	});
+
+	afterEach(() => {
+		logs.clear();
+	});
+
+	afterAll(() => {
+		container.restore();
+	});
+
 	describe('GET /api/health', () => {
 		it('should return health status', async () => {
 			const request = new Request('http://localhost/api/health');
@@ -11,9 +36,123 @@ describe('Hono API Routes', () => {
 			expect(response.status).toBe(200);
 
 			const data = await response.json();
-			expect(data).toHaveProperty('status', 'ok');
+			expect(data.status).toMatch(/^(pass|warn)$/);
 			expect(data).toHaveProperty('timestamp');
 			expect(data).toHaveProperty('environment');
+			expect(data).toHaveProperty('version', '1.0.0');
+		});
+
+		it('should answer the liveness probe without running checks', async () => {
+			const request = new Request('http://localhost/api/health/live');
+			const response = await GET({ request } as RequestEvent);
+
+			expect(response.status).toBe(200);
+			expect(await response.json()).toMatchObject({ status: 'pass', checks: [] });
+		});
+
+		it('should report every dependency check on the readiness probe', async () => {
+			const request = new Request('http://localhost/api/health/ready');
+			const platform = { env: { ENVIRONMENT: 'development', COMMIT_SHA: 'abc1234' } };
+			const response = await GET({ request, platform } as unknown as RequestEvent);
+
+			expect(response.status).toBe(200);
+			const data = await response.json();
+			expect(data).toMatchObject({ status: 'pass', environment: 'development', commit: 'abc1234' });
+			expect(data.checks.map((check: { name: string }) => check.name)).toEqual([
+				'database',
+				'config',
+				'kv'
+			]);
+			expect(data.checks[0]).toEqual({
+				name: 'database',
+				status: 'pass',
+				durationMs: expect.any(Number)
+			});
+		});
+
+		it('should not decide on the ENVIRONMENT name or publish configuration details', async () => {
+			const request = new Request('http://localhost/api/health/ready');
+			const platform = { env: { ENVIRONMENT: 'staging' } };
+			const response = await GET({ request, platform } as unknown as RequestEvent);
+
+			// The tests run like the local dev server, where the development key is expected
+			expect(response.status).toBe(200);
+			const data = await response.json();
+			expect(data.checks[1]).toEqual({
+				name: 'config',
+				status: 'pass',
+				durationMs: expect.any(Number)
+			});
+			expect(JSON.stringify(data)).not.toContain('JWT_SECRET');
+		});
+
+		it('should answer 503 when a critical check fails', async () => {
+			const failingDb = {
+				prepare: () => {
+					throw new Error('D1 unavailable');
+				},
+				batch: async () => [],
+				exec: async () => ({})
+			};
+			const request = new Request('http://localhost/api/health/ready');
+			const platform = {
+				env: { ENVIRONMENT: 'development', DATABASE_URL: 'd1://DB', DB: failingDb }
+			};
+			const response = await GET({ request, platform } as unknown as RequestEvent);
+
+			expect(response.status).toBe(503);
+			const data = await response.json();
+			expect(data.status).toBe('fail');
+			expect(data.checks[0]).toMatchObject({
+				name: 'database',
+				status: 'fail',
+				output: 'D1 unavailable'
+			});
+		});
+	});
+
+	describe('GET /api/openapi.json', () => {
+		it('should describe every documented route', async () => {
+			const request = new Request('http://localhost/api/openapi.json');
+			const response = await GET({ request } as RequestEvent);
+
+			expect(response.status).toBe(200);
+
+			const spec = await response.json();
+			expect(spec.openapi).toBe('3.1.0');
+			expect(Object.keys(spec.paths)).toEqual([
+				'/api/health',
+				'/api/health/live',
+				'/api/health/ready',
+				'/api/hello',
+				'/api/users',
+				'/api/users/{id}',
+				'/api/auth/sign-up',
+				'/api/auth/sign-in',
+				'/api/auth/refresh',
+				'/api/auth/sign-out',
+				'/api/auth/me',
+				'/api/auth/session'
+			]);
+			expect(Object.keys(spec.paths['/api/users/{id}'])).toEqual(['get', 'put', 'patch', 'delete']);
+			expect(Object.keys(spec.components.schemas)).toEqual(
+				expect.arrayContaining(['HealthStatus', 'User', 'ProblemDetails', 'PaginationMeta'])
+			);
+
+			const create = spec.paths['/api/users'].post;
+			expect(create.requestBody.content['application/json'].schema.required).toEqual([
+				'name',
+				'email'
+			]);
+			expect(create.responses['201'].content['application/json'].schema.properties.data).toEqual({
+				$ref: '#/components/schemas/User'
+			});
+
+			expect(spec.paths['/api/auth/me'].get.security).toEqual([{ bearerAuth: [] }]);
+			expect(spec.paths['/api/users/{id}'].delete.security).toEqual([{ bearerAuth: [] }]);
+			expect(spec.paths['/api/users/{id}'].delete.responses).toHaveProperty('403');
+			expect(spec.paths['/api/users'].get.security).toBeUndefined();
+			expect(spec.components.securitySchemes.bearerAuth).toMatchObject({ scheme: 'bearer' });
 		});
 	});
 
@@ -46,6 +185,41 @@ describe('Hono API Routes', () => {
 			expect(data.data).toHaveLength(2);
 			expect(data.data[0]).toHaveProperty('id', 1);
 			expect(data.data[0]).toHaveProperty('name', 'John Doe');
+			expect(data.pagination).toEqual({ total: 2, limit: 20, nextCursor: null });
+		});
+
+		it('should filter, sort and paginate users', async () => {
+			const request = new Request(
+				'http://localhost/api/users?q=example.com&sort=name&order=desc&limit=1'
+			);
+			const response = await GET({ request } as RequestEvent);
+
+			expect(response.status).toBe(200);
+
+			const data = await response.json();
+			expect(data.data).toHaveLength(1);
+			expect(data.data[0]).toHaveProperty('name', 'John Doe');
+			expect(data.pagination.total).toBe(2);
+			expect(typeof data.pagination.nextCursor).toBe('string');
+		});
+
+		it('should reject invalid query params', async () => {
+			const request = new Request('http://localhost/api/users?pageSize=500');
+			const response = await GET({ request } as RequestEvent);
+
+			expect(response.status).toBe(400);
+
+			const data = await response.json();
+			expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+			expect(data).toMatchObject({
+				type: 'urn:problem-type:validation_failed',
+				title: 'Bad Request',
+				status: 400,
+				instance: '/api/users',
+				code: 'validation_failed',
+				errors: [expect.objectContaining({ field: 'pageSize', code: 'too_big' })]
+			});
+			expect(data.detail).toContain('Page size must be at most 100');
 		});
 	});
 
@@ -59,7 +233,8 @@ describe('Hono API Routes', () => {
 			const request = new Request('http://localhost/api/users', {
 				method: 'POST',
 				headers: {
-					'Content-Type': 'application/json'
+					'Content-Type': 'application/json',
+					...auth
 				},
 				body: JSON.stringify(userData)
 			});
@@ -76,6 +251,22 @@ describe('Hono API Routes', () => {
 			expect(data.data).toHaveProperty('email', userData.email);
 			expect(data.data).toHaveProperty('id');
 		});
+
+		it('should return 409 when the email is already taken', async () => {
+			const request = new Request('http://localhost/api/users', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', ...auth },
+				body: JSON.stringify({ name: 'Another John', email: 'JOHN@example.com' })
+			});
+
+			const response = await POST({ request } as RequestEvent);
+
+			expect(response.status).toBe(409);
+			expect(await response.json()).toMatchObject({
+				code: 'email_taken',
+				errors: [{ field: 'email', message: 'Email already exists', code: 'email_taken' }]
+			});
+		});
 	});
 
 	describe('PUT /api/users/:id', () => {
@@ -89,7 +280,8 @@ describe('Hono API Routes', () => {
 			const request = new Request(`http://localhost/api/users/${userId}`, {
 				method: 'PUT',
 				headers: {
-					'Content-Type': 'application/json'
+					'Content-Type': 'application/json',
+					...auth
 				},
 				body: JSON.stringify(updateData)
 			});
@@ -99,8 +291,140 @@ describe('Hono API Routes', () => {
 			expect(response.status).toBe(404);
 
 			const data = await response.json();
-			expect(data).toHaveProperty('success', false);
-			expect(data).toHaveProperty('error', 'User not found');
+			expect(data).toMatchObject({ status: 404, code: 'not_found', detail: 'User not found' });
+		});
+	});
+
+	describe('PUT /api/users/:id (full replacement)', () => {
+		it('should reject a partial body', async () => {
+			const request = new Request('http://localhost/api/users/1', {
+				method: 'PUT',
+				headers: { 'Content-Type': 'application/json', ...auth },
+				body: JSON.stringify({ name: 'Only Name' })
+			});
+
+			const response = await PUT({ request } as RequestEvent);
+
+			expect(response.status).toBe(400);
+			const data = await response.json();
+			expect(data.detail).toContain('Validation failed');
+			expect(data.errors).toEqual([
+				expect.objectContaining({ field: 'email', message: expect.any(String) })
+			]);
+		});
+	});
+
+	describe('PATCH /api/users/:id', () => {
+		it('should apply a JSON Merge Patch', async () => {
+			const request = new Request('http://localhost/api/users/2', {
+				method: 'PATCH',
+				headers: { 'Content-Type': 'application/merge-patch+json', ...auth },
+				body: JSON.stringify({ name: 'Jane Merged' })
+			});
+
+			const response = await PATCH({ request } as RequestEvent);
+
+			expect(response.status).toBe(200);
+			const data = await response.json();
+			expect(data.data).toMatchObject({ id: 2, name: 'Jane Merged', email: 'jane@example.com' });
+		});
+
+		it('should apply a JSON Patch', async () => {
+			const request = new Request('http://localhost/api/users/2', {
+				method: 'PATCH',
+				headers: { 'Content-Type': 'application/json-patch+json', ...auth },
+				body: JSON.stringify([
+					{ op: 'test', path: '/name', value: 'Jane Merged' },
+					{ op: 'replace', path: '/email', value: 'jane.patched@example.com' }
+				])
+			});
+
+			const response = await PATCH({ request } as RequestEvent);
+
+			expect(response.status).toBe(200);
+			const data = await response.json();
+			expect(data.data).toHaveProperty('email', 'jane.patched@example.com');
+		});
+
+		it('should return 409 when a JSON Patch test operation fails', async () => {
+			const request = new Request('http://localhost/api/users/2', {
+				method: 'PATCH',
+				headers: { 'Content-Type': 'application/json-patch+json', ...auth },
+				body: JSON.stringify([{ op: 'test', path: '/name', value: 'Someone Else' }])
+			});
+
+			const response = await PATCH({ request } as RequestEvent);
+
+			expect(response.status).toBe(409);
+		});
+
+		it('should return 415 for unsupported media types', async () => {
+			const request = new Request('http://localhost/api/users/2', {
+				method: 'PATCH',
+				headers: { 'Content-Type': 'text/plain', ...auth },
+				body: JSON.stringify({ name: 'Nope' })
+			});
+
+			const response = await PATCH({ request } as RequestEvent);
+
+			expect(response.status).toBe(415);
+			expect(response.headers.get('Accept-Patch')).toContain('application/merge-patch+json');
+		});
+
+		it('should return 404 for a missing user', async () => {
+			const request = new Request('http://localhost/api/users/999', {
+				method: 'PATCH',
+				headers: { 'Content-Type': 'application/merge-patch+json', ...auth },
+				body: JSON.stringify({ name: 'Ghost' })
+			});
+
+			const response = await PATCH({ request } as RequestEvent);
+
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe('Conditional requests (ETag)', () => {
+		const get = (headers: Record<string, string> = {}) =>
+			GET({ request: new Request('http://localhost/api/users/1', { headers }) } as RequestEvent);
+
+		const patch = (headers: Record<string, string>, body: unknown) =>
+			PATCH({
+				request: new Request('http://localhost/api/users/1', {
+					method: 'PATCH',
+					headers: { 'Content-Type': 'application/merge-patch+json', ...auth, ...headers },
+					body: JSON.stringify(body)
+				})
+			} as RequestEvent);
+
+		it('should emit an ETag and honour If-None-Match on GET', async () => {
+			const response = await get();
+			const etag = response.headers.get('ETag');
+			expect(etag).toMatch(/^"v\d+"$/);
+
+			const notModified = await get({ 'If-None-Match': etag! });
+			expect(notModified.status).toBe(304);
+			expect(notModified.headers.get('ETag')).toBe(etag);
+		});
+
+		it('should update when If-Match is current and return 412 when stale', async () => {
+			const etag = (await get()).headers.get('ETag')!;
+
+			const updated = await patch({ 'If-Match': etag }, { name: 'John Conditional' });
+			expect(updated.status).toBe(200);
+			const newETag = updated.headers.get('ETag');
+			expect(newETag).not.toBe(etag);
+
+			const stale = await patch({ 'If-Match': etag }, { name: 'Lost Update' });
+			expect(stale.status).toBe(412);
+
+			const data = await (await get()).json();
+			expect(data.data).toHaveProperty('name', 'John Conditional');
+		});
+
+		it('should reject writes when If-None-Match matches', async () => {
+			const response = await patch({ 'If-None-Match': '*' }, { name: 'Nope' });
+			expect(response.status).toBe(412);
 		});
 	});
 
@@ -108,7 +432,8 @@ describe('Hono API Routes', () => {
 		it('should delete user by id', async () => {
 			const userId = '123';
 			const request = new Request(`http://localhost/api/users/${userId}`, {
-				method: 'DELETE'
+				method: 'DELETE',
+				headers: auth
 			});
 
 			const response = await DELETE({ request } as RequestEvent);
@@ -116,8 +441,550 @@ describe('Hono API Routes', () => {
 			expect(response.status).toBe(404);
 
 			const data = await response.json();
-			expect(data).toHaveProperty('success', false);
-			expect(data).toHaveProperty('error', 'User not found');
+			expect(data).toMatchObject({ status: 404, code: 'not_found', detail: 'User not found' });
+		});
+	});
+
+	describe('Authentication', () => {
+		const post = (path: string, body: unknown) =>
+			POST({
+				request: new Request(`http://localhost/api/auth/${path}`, {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify(body)
+				})
+			} as RequestEvent);
+
+		const getMe = (accessToken?: string) =>
+			GET({
+				request: new Request('http://localhost/api/auth/me', {
+					headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {}
+				})
+			} as RequestEvent);
+
+		it('should sign up, sign in and return the current user', async () => {
+			const credentials = { email: 'ada@example.com', password: 'correct horse' };
+			const signUp = await post('sign-up', { name: 'Ada Lovelace', ...credentials });
+
+			expect(signUp.status).toBe(201);
+			const { data: session } = await signUp.json();
+			expect(session.user).toMatchObject({ name: 'Ada Lovelace', email: 'ada@example.com' });
+			expect(session.user).not.toHaveProperty('password');
+			expect(session.tokens).toMatchObject({ tokenType: 'Bearer', expiresIn: 900 });
+
+			const signIn = await post('sign-in', credentials);
+			expect(signIn.status).toBe(200);
+			const { data } = await signIn.json();
+
+			const me = await getMe(data.tokens.accessToken);
+			expect(me.status).toBe(200);
+			expect((await me.json()).data).toMatchObject({ id: session.user.id });
+		});
+
+		it('should reject duplicate emails and weak passwords', async () => {
+			const duplicate = await post('sign-up', {
+				name: 'John Again',
+				email: 'john@example.com',
+				password: 'long enough'
+			});
+			expect(duplicate.status).toBe(409);
+			expect(await duplicate.json()).toMatchObject({
+				code: 'email_taken',
+				errors: [{ field: 'email', message: 'Email is already registered', code: 'email_taken' }]
+			});
+
+			const weak = await post('sign-up', {
+				name: 'Weak',
+				email: 'weak@example.com',
+				password: 'x'
+			});
+			expect(weak.status).toBe(400);
+			expect((await weak.json()).errors).toEqual([
+				{
+					field: 'password',
+					message: 'Password must be at least 8 characters long',
+					code: 'too_small'
+				}
+			]);
+		});
+
+		it('should reject wrong credentials with 401', async () => {
+			const response = await post('sign-in', { email: 'ada@example.com', password: 'wrong' });
+
+			expect(response.status).toBe(401);
+			expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
+			expect(await response.json()).toMatchObject({
+				code: 'invalid_credentials',
+				detail: 'Invalid email or password'
+			});
+		});
+
+		it('should protect /auth/me', async () => {
+			expect((await getMe()).status).toBe(401);
+
+			const invalid = await getMe('not-a-jwt');
+			expect(invalid.status).toBe(401);
+			expect((await invalid.json()).detail).toBe('Invalid or expired access token');
+		});
+
+		it('should rotate refresh tokens and revoke the session on reuse', async () => {
+			const signIn = await post('sign-in', { email: 'ada@example.com', password: 'correct horse' });
+			const { refreshToken } = (await signIn.json()).data.tokens;
+
+			const refreshed = await post('refresh', { refreshToken });
+			expect(refreshed.status).toBe(200);
+			const rotated = (await refreshed.json()).data;
+			expect(rotated.refreshToken).not.toBe(refreshToken);
+
+			// Replaying the old token ends the session, including the rotated token
+			expect((await post('refresh', { refreshToken })).status).toBe(401);
+			expect((await post('refresh', { refreshToken: rotated.refreshToken })).status).toBe(401);
+		});
+
+		it('should revoke the refresh token on sign-out', async () => {
+			const signIn = await post('sign-in', { email: 'ada@example.com', password: 'correct horse' });
+			const { refreshToken } = (await signIn.json()).data.tokens;
+
+			const signOut = await post('sign-out', { refreshToken });
+			expect(signOut.status).toBe(200);
+			expect((await post('refresh', { refreshToken })).status).toBe(401);
+			expect((await post('sign-out', {})).status).toBe(400);
+		});
+	});
+
+	describe('Authorization', () => {
+		const createUser = (email: string, headers: Record<string, string>) =>
+			POST({
+				request: new Request('http://localhost/api/users', {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json', ...headers },
+					body: JSON.stringify({ name: 'Rbac User', email })
+				})
+			} as RequestEvent);
+
+		const deleteUser = (id: number, headers: Record<string, string>) =>
+			DELETE({
+				request: new Request(`http://localhost/api/users/${id}`, { method: 'DELETE', headers })
+			} as RequestEvent);
+
+		const getSession = (headers: Record<string, string> = {}) =>
+			GET({
+				request: new Request('http://localhost/api/auth/session', { headers })
+			} as RequestEvent);
+
+		it('should require authentication for user writes', async () => {
+			const response = await createUser('anonymous@example.com', {});
+
+			expect(response.status).toBe(401);
+			expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
+		});
+
+		it('should let members create users but not delete them', async () => {
+			const member = await authHeaders(memberPrincipal);
+
+			const created = await createUser('member-created@example.com', member);
+			expect(created.status).toBe(201);
+			const { data: user } = await created.json();
+			expect(user.role).toBe('member');
+
+			const forbidden = await deleteUser(user.id, member);
+			expect(forbidden.status).toBe(403);
+			expect(await forbidden.json()).toMatchObject({
+				code: 'permission_denied',
+				detail: 'Missing permission: users:delete'
+			});
+
+			expect((await deleteUser(user.id, auth)).status).toBe(200);
+		});
+
+		it('should not let members edit other users', async () => {
+			const member = await authHeaders(memberPrincipal);
+
+			const response = await PATCH({
+				request: new Request('http://localhost/api/users/1', {
+					method: 'PATCH',
+					headers: { 'Content-Type': 'application/merge-patch+json', ...member },
+					body: JSON.stringify({ email: 'taken-over@example.com' })
+				})
+			} as RequestEvent);
+
+			expect(response.status).toBe(403);
+			expect(await response.json()).toMatchObject({
+				code: 'permission_denied',
+				detail: 'Missing permission: users:update'
+			});
+			const admin = await GET({
+				request: new Request('http://localhost/api/users/1')
+			} as RequestEvent);
+			expect((await admin.json()).data.email).toBe('john@example.com');
+		});
+
+		it('should refuse a role or id chosen by the client when creating users', async () => {
+			const member = await authHeaders(memberPrincipal);
+			const post = (body: Record<string, unknown>) =>
+				POST({
+					request: new Request('http://localhost/api/users', {
+						method: 'POST',
+						headers: { 'Content-Type': 'application/json', ...member },
+						body: JSON.stringify({ name: 'Sneaky', email: 'sneaky@example.com', ...body })
+					})
+				} as RequestEvent);
+
+			for (const extra of [{ role: 'admin' }, { id: 1 }]) {
+				const response = await post(extra);
+				expect(response.status).toBe(400);
+				expect(await response.json()).toMatchObject({ code: 'validation_failed' });
+			}
+
+			const list = await GET({
+				request: new Request('http://localhost/api/users?email=sneaky@example.com')
+			} as RequestEvent);
+			expect((await list.json()).data).toEqual([]);
+		});
+
+		it('should describe the caller and their permissions', async () => {
+			const anonymous = (await (await getSession()).json()).data;
+			expect(anonymous).toEqual({ user: null, role: null, permissions: [] });
+
+			const admin = (await (await getSession(auth)).json()).data;
+			expect(admin).toMatchObject({ user: { id: 1 }, role: 'admin' });
+			expect(admin.permissions).toEqual(['users:create', 'users:update', 'users:delete']);
+		});
+
+		it('should accept the signed X-Principal header only when enabled', async () => {
+			const header = { 'X-Principal': await signPrincipalHeader(2, 'header-secret') };
+
+			expect((await getSession(header)).status).toBe(200);
+			expect((await (await getSession(header)).json()).data.user).toBeNull();
+
+			process.env.PRINCIPAL_HEADER_SECRET = 'header-secret';
+			try {
+				const session = (await (await getSession(header)).json()).data;
+				expect(session).toMatchObject({ user: { id: 2 }, role: 'member' });
+
+				const forged = await getSession({ 'X-Principal': '1.forged-signature' });
+				expect(forged.status).toBe(401);
+			} finally {
+				delete process.env.PRINCIPAL_HEADER_SECRET;
+			}
+		});
+	});
+
+	describe('Request ID and trace context', () => {
+		const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+		it('should echo the caller request ID and continue its trace', async () => {
+			const request = new Request('http://localhost/api/hello', {
+				headers: {
+					'X-Request-Id': 'req-123',
+					traceparent: `00-${traceId}-00f067aa0ba902b7-01`
+				}
+			});
+			const response = await GET({ request } as RequestEvent);
+
+			expect(response.headers.get('X-Request-Id')).toBe('req-123');
+			const traceparent = response.headers.get('traceparent');
+			expect(traceparent).toMatch(new RegExp(`^00-${traceId}-[0-9a-f]{16}-01$`));
+			expect(traceparent).not.toContain('00f067aa0ba902b7');
+		});
+
+		it('should generate IDs when the caller sends none or invalid ones', async () => {
+			const request = new Request('http://localhost/api/hello', {
+				headers: { 'X-Request-Id': 'not valid!', traceparent: 'garbage' }
+			});
+			const response = await GET({ request } as RequestEvent);
+
+			expect(response.headers.get('X-Request-Id')).toMatch(/^[0-9a-f-]{36}$/);
+			expect(response.headers.get('traceparent')).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+		});
+
+		it('should include the IDs in error bodies', async () => {
+			const request = new Request('http://localhost/api/users/999', {
+				headers: { 'X-Request-Id': 'req-404', traceparent: `00-${traceId}-00f067aa0ba902b7-01` }
+			});
+			const response = await GET({ request } as RequestEvent);
+
+			expect(response.status).toBe(404);
+			expect(await response.json()).toMatchObject({ requestId: 'req-404', traceId });
+			expect(response.headers.get('X-Request-Id')).toBe('req-404');
+		});
+	});
+
+	describe('Access log', () => {
+		const sink = new MemoryLogSink();
+
+		beforeAll(() => {
+			container.snapshot();
+			container.rebindSync(TYPES.LogSink).toConstantValue(sink);
+		});
+
+		afterEach(() => {
+			sink.clear();
+			vi.restoreAllMocks();
+		});
+
+		afterAll(() => {
+			container.restore();
+		});
+
+		it('should write one structured record per request', async () => {
+			const request = new Request('http://localhost/api/users/1', {
+				headers: { ...auth, 'X-Request-Id': 'req-access', 'User-Agent': 'vitest' }
+			});
+			const response = await GET({ request } as RequestEvent);
+			const body = await response.text();
+
+			const records = sink.entries.filter((entry) => entry.meta?.route !== undefined);
+			expect(records).toHaveLength(1);
+			expect(records[0]).toMatchObject({
+				level: 'info',
+				message: expect.stringMatching(/^GET \/api\/users\/:id 200 \d+ms$/),
+				bindings: { requestId: 'req-access' },
+				meta: {
+					method: 'GET',
+					route: '/api/users/:id',
+					path: '/api/users/1',
+					status: 200,
+					bytes: new TextEncoder().encode(body).byteLength,
+					userAgent: 'vitest',
+					principalId: 1
+				}
+			});
+		});
+
+		it('should record error responses and anonymous callers', async () => {
+			const request = new Request('http://localhost/api/users/999');
+			await GET({ request } as RequestEvent);
+
+			const record = sink.entries.find((entry) => entry.meta?.route !== undefined);
+			expect(record?.meta).toMatchObject({ status: 404, principalId: null, userAgent: null });
+		});
+
+		it('should keep query values out of the logs', async () => {
+			const request = new Request(
+				'http://localhost/api/users?q=ada.lovelace%40example.com&limit=1',
+				{ headers: auth }
+			);
+			await GET({ request } as RequestEvent);
+
+			const record = sink.entries.find((entry) => entry.meta?.route !== undefined);
+			expect(record?.meta).toMatchObject({ path: '/api/users' });
+			expect(sink.find('GET /users endpoint called')[0]?.meta).toEqual({
+				params: ['q', 'limit']
+			});
+			expect(JSON.stringify(sink.entries)).not.toContain('ada.lovelace');
+		});
+
+		it('should warn about requests slower than the threshold', async () => {
+			let now = 0;
+			vi.spyOn(performance, 'now').mockImplementation(() => (now += 1500));
+
+			const request = new Request('http://localhost/api/hello');
+			await GET({ request } as RequestEvent);
+
+			const record = sink.entries.find((entry) => entry.meta?.route !== undefined);
+			expect(record).toMatchObject({
+				level: 'warn',
+				message: expect.stringMatching(/^Slow request: GET \/api\/hello 200 \d+ms$/),
+				meta: { slow: true }
+			});
+		});
+	});
+
+	describe('Idempotency-Key', () => {
+		const createUser = (key: string, body: unknown, headers: Record<string, string> = auth) =>
+			POST({
+				request: new Request('http://localhost/api/users', {
+					method: 'POST',
+					headers: { ...headers, 'Content-Type': 'application/json', 'Idempotency-Key': key },
+					body: JSON.stringify(body)
+				})
+			} as RequestEvent);
+
+		it('should replay the first response for a repeated key', async () => {
+			const body = { name: 'Idempotent User', email: 'idempotent@example.com' };
+			const first = await createUser('create-once', body);
+			expect(first.status).toBe(201);
+			const created = await first.json();
+
+			const repeat = await createUser('create-once', body);
+			expect(repeat.status).toBe(201);
+			expect(repeat.headers.get('Idempotent-Replayed')).toBe('true');
+			expect(repeat.headers.get('ETag')).toBe(first.headers.get('ETag'));
+			expect(await repeat.json()).toEqual(created);
+
+			const list = await GET({
+				request: new Request('http://localhost/api/users?email=idempotent@example.com')
+			} as RequestEvent);
+			expect((await list.json()).data).toHaveLength(1);
+		});
+
+		it('should reject a key reused for a different request', async () => {
+			await createUser('create-reused', { name: 'First', email: 'first-key@example.com' });
+			const response = await createUser('create-reused', {
+				name: 'Second',
+				email: 'second-key@example.com'
+			});
+
+			expect(response.status).toBe(422);
+			expect(await response.json()).toMatchObject({ code: 'idempotency_key_reused' });
+		});
+
+		it('should scope keys to the caller', async () => {
+			const body = { name: 'Scoped User', email: 'scoped@example.com' };
+			await createUser('create-scoped', body);
+
+			// Another caller's request with the same key is handled, not replayed
+			const other = await createUser(
+				'create-scoped',
+				{ ...body, email: 'scoped-member@example.com' },
+				await authHeaders(memberPrincipal)
+			);
+			expect(other.status).toBe(201);
+			expect(other.headers.get('Idempotent-Replayed')).toBeNull();
+		});
+
+		it('should reject malformed keys', async () => {
+			const response = await createUser('', { name: 'Nobody', email: 'nobody@example.com' });
+
+			expect(response.status).toBe(400);
+			expect(await response.json()).toMatchObject({ code: 'idempotency_key_invalid' });
+		});
+	});
+
+	describe('Rate limiting', () => {
+		beforeAll(() => {
+			container.snapshot();
+			container.rebindSync(TYPES.RateLimitStore).toConstantValue(new MemoryRateLimitStore());
+		});
+
+		afterAll(() => {
+			container.restore();
+		});
+
+		const signIn = (ip: string) =>
+			POST({
+				request: new Request('http://localhost/api/auth/sign-in', {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json', 'CF-Connecting-IP': ip },
+					body: JSON.stringify({ email: 'nobody@example.com', password: 'wrong password' })
+				})
+			} as RequestEvent);
+
+		it('should send the RateLimit headers on limited routes', async () => {
+			const response = await signIn('203.0.113.1');
+
+			expect(response.status).toBe(401);
+			expect(response.headers.get('RateLimit-Limit')).toBe('20');
+			expect(response.headers.get('RateLimit-Remaining')).toBe('19');
+			expect(response.headers.get('RateLimit-Policy')).toBe('20;w=60');
+			expect(Number(response.headers.get('RateLimit-Reset'))).toBeGreaterThan(0);
+		});
+
+		it('should reject callers over the limit with 429 and Retry-After', async () => {
+			for (let i = 0; i < 20; i++) {
+				expect((await signIn('203.0.113.2')).status).toBe(401);
+			}
+
+			const response = await signIn('203.0.113.2');
+			expect(response.status).toBe(429);
+			expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+			expect(response.headers.get('RateLimit-Remaining')).toBe('0');
+			expect(await response.json()).toMatchObject({ status: 429, code: 'rate_limited' });
+
+			// Other clients keep their own budget
+			expect((await signIn('203.0.113.3')).status).toBe(401);
+		});
+
+		it('should not let callers dodge the limit by rotating X-Forwarded-For', async () => {
+			const signInVia = (forwardedFor: string) =>
+				POST({
+					request: new Request('http://localhost/api/auth/sign-in', {
+						method: 'POST',
+						headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': forwardedFor },
+						body: JSON.stringify({ email: 'nobody@example.com', password: 'wrong password' })
+					})
+				} as RequestEvent);
+
+			for (let i = 0; i < 20; i++) {
+				expect((await signInVia(`198.51.100.${i}`)).status).toBe(401);
+			}
+
+			expect((await signInVia('198.51.100.200')).status).toBe(429);
+		});
+	});
+
+	describe('GET /api/metrics', () => {
+		const platform = { env: { METRICS_TOKEN: 'scrape-token' } };
+		const scrape = (headers: Record<string, string> = {}) =>
+			GET({
+				request: new Request('http://localhost/api/metrics', { headers }),
+				platform
+			} as unknown as RequestEvent);
+
+		it('should expose request and domain metrics to holders of the token', async () => {
+			const create = new Request('http://localhost/api/users', {
+				method: 'POST',
+				headers: { ...auth, 'Content-Type': 'application/json' },
+				body: JSON.stringify({ name: 'Metrics User', email: 'metrics@example.com' })
+			});
+			expect((await POST({ request: create } as RequestEvent)).status).toBe(201);
+			await GET({ request: new Request('http://localhost/api/users/1') } as RequestEvent);
+
+			const response = await scrape({ Authorization: 'Bearer scrape-token' });
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Content-Type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+			const text = await response.text();
+			expect(text).toContain('# TYPE http_requests_total counter');
+			expect(text).toMatch(
+				/http_requests_total\{method="POST",route="\/api\/users",status="201"\} \d+/
+			);
+			expect(text).toMatch(
+				/http_request_duration_seconds_bucket\{method="GET",route="\/api\/users\/:id",status="200",le="\+Inf"\} \d+/
+			);
+			expect(text).toMatch(/users_created_total \d+/);
+		});
+
+		it('should reject scrapes without the token', async () => {
+			const missing = await scrape();
+			expect(missing.status).toBe(401);
+			expect(await missing.json()).toMatchObject({ code: 'metrics_token_invalid' });
+
+			const wrong = await scrape({ Authorization: 'Bearer wrong' });
+			expect(wrong.status).toBe(401);
+		});
+
+		it('should not exist when no token is configured', async () => {
+			const response = await GET({
+				request: new Request('http://localhost/api/metrics')
+			} as RequestEvent);
+			expect(response.status).toBe(404);
+			expect(await response.json()).toMatchObject({ code: 'metrics_disabled' });
+		});
+	});
+
+	describe('Platform configuration', () => {
+		it('should reject requests with an opaque 500 when the platform env is invalid', async () => {
+			const request = new Request('http://localhost/api/users');
+			const platform = { env: { ENVIRONMENT: 'production', ACCESS_TOKEN_TTL: 'soon' } };
+			const response = await GET({ request, platform } as unknown as RequestEvent);
+
+			expect(response.status).toBe(500);
+			expect(await response.json()).toMatchObject({
+				code: 'internal_error',
+				detail: 'Internal server error'
+			});
+			const log = logs.entries.find((entry) => entry.level === 'error');
+			expect(log?.meta?.error).toContain('ACCESS_TOKEN_TTL: Must be a positive integer');
+			expect(log?.meta?.error).toContain('JWT_SECRET: Must be set in production');
+		});
+
+		it('should serve requests with a valid platform env', async () => {
+			const request = new Request('http://localhost/api/users');
+			const platform = { env: { ENVIRONMENT: 'production', JWT_SECRET: 'platform-secret' } };
+			const response = await GET({ request, platform } as unknown as RequestEvent);
+
+			expect(response.status).toBe(200);
 		});
 	});
 
@@ -0,0 +1,62 @@
+import { fireEvent } from '@testing-library/dom';
+import { render } from '@testing-library/svelte';
+import { describe, expect, it, type MockedFunction } from 'vitest';
+import type { OpenAPIDocument } from '$lib/openapi';
+import ApiDocs from '../../ui/components/ApiDocs.svelte';
+
+const document: OpenAPIDocument = {
+	openapi: '3.1.0',
+	info: { title: 'Test API', version: '1.2.3' },
+	paths: {
+		'/api/users/{id}': {
+			get: {
+				summary: 'Get user by ID',
+				tags: ['Users'],
+				parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+				responses: { '200': { description: 'The user' }, '404': { description: 'Not found' } }
+			}
+		},
+		'/api/health': {
+			get: { summary: 'Health check', tags: ['System'], responses: {} }
+		}
+	},
+	components: { schemas: { User: { type: 'object' } } }
+};
+
+describe('ApiDocs', () => {
+	it('should render operations grouped by tag', () => {
+		const { getByText, getAllByTestId } = render(ApiDocs, { document });
+
+		expect(getByText('Test API')).toBeInTheDocument();
+		expect(getByText('Users')).toBeInTheDocument();
+		expect(getByText('System')).toBeInTheDocument();
+		expect(getAllByTestId('api-operation')).toHaveLength(2);
+		expect(getByText('User')).toBeInTheDocument();
+	});
+
+	it('should send a request from the try-it-out form', async () => {
+		const fetchMock = global.fetch as MockedFunction<typeof fetch>;
+		fetchMock.mockResolvedValueOnce(
+			new Response(JSON.stringify({ id: 7 }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' }
+			})
+		);
+
+		const { getByText, getByPlaceholderText, findByTestId } = render(ApiDocs, { document });
+
+		await fireEvent.click(getByText('Get user by ID'));
+		expect(getByText('Not found')).toBeInTheDocument();
+
+		await fireEvent.input(getByPlaceholderText('integer'), { target: { value: '7' } });
+		await fireEvent.click(getByText('Try it out'));
+
+		const result = await findByTestId('api-response');
+		expect(fetchMock).toHaveBeenCalledWith(
+			'/api/users/7',
+			expect.objectContaining({ method: 'GET' })
+		);
+		expect(result).toHaveTextContent('Status: 200');
+		expect(result).toHaveTextContent('"id": 7');
+	});
+});
@@ -1,7 +1,11 @@
 import { fireEvent, render, screen } from '@testing-library/svelte';
 import { describe, expect, it, vi } from 'vitest';
+import { TYPES } from '../../container/types';
 import type { User } from '../../models/user.model';
 import UserCard from '../../ui/components/UserCard.svelte';
+import UserList from '../../ui/components/UserList.svelte';
+import TestWrapper from '../helpers/TestWrapper.svelte';
+import { createMockContainerSync, MockSessionStore, mockUsers } from '../mocks/api.mock';
 
 describe('UserCard Component', () => {
 	const mockUser: User = {
@@ -164,3 +168,50 @@ describe('UserCard Component - Error Scenarios', () => {
 		consoleErrorSpy.mockRestore();
 	});
 });
+
+describe('UserCard Component - Permissions', () => {
+	const mockUser: User = { id: 3, name: 'Bob Johnson', email: 'bob@example.com' };
+
+	// mockUsers[0] is an admin, mockUsers[1] a member and null an anonymous visitor
+	const renderWithSession = (
+		component: typeof UserCard | typeof UserList,
+		session: MockSessionStore,
+		props: Record<string, unknown>
+	) => {
+		const container = createMockContainerSync();
+		container.rebindSync(TYPES.SessionStore).toConstantValue(session);
+		return render(TestWrapper, { props: { container, component, props } });
+	};
+
+	it('should show delete to callers with users:delete', () => {
+		renderWithSession(UserCard, new MockSessionStore(mockUsers[0]), {
+			user: mockUser,
+			onDelete: vi.fn()
+		});
+
+		expect(screen.getByTestId('delete-button')).toBeInTheDocument();
+	});
+
+	it('should hide delete from members and anonymous visitors', () => {
+		const { unmount } = renderWithSession(UserCard, new MockSessionStore(mockUsers[1]), {
+			user: mockUser,
+			onDelete: vi.fn()
+		});
+		expect(screen.queryByTestId('delete-button')).not.toBeInTheDocument();
+		unmount();
+
+		renderWithSession(UserCard, new MockSessionStore(null), { user: mockUser, onDelete: vi.fn() });
+		expect(screen.queryByTestId('delete-button')).not.toBeInTheDocument();
+	});
+
+	it('should hide "Add User" in UserList without users:create', () => {
+		const props = { showAddButton: true, onAddClick: vi.fn(), autoLoad: false };
+
+		const { unmount } = renderWithSession(UserList, new MockSessionStore(mockUsers[1]), props);
+		expect(screen.getByTestId('add-user-button')).toBeInTheDocument();
+		unmount();
+
+		renderWithSession(UserList, new MockSessionStore(mockUsers[2]), props);
+		expect(screen.queryByTestId('add-user-button')).not.toBeInTheDocument();
+	});
+});
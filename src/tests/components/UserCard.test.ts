@@ -18,6 +18,18 @@ describe('UserCard', () => {
 		expect(getByTestId('user-card')).toHaveAttribute('data-user-id', '1');
 	});
 
+	it('should link to the user page unless the user is still being created', async () => {
+		const { getByTestId, queryByTestId, rerender } = render(UserCard, {
+			user: { id: 7, name: 'John Doe', email: 'john@example.com' }
+		});
+
+		expect(getByTestId('user-link')).toHaveAttribute('href', '/users/7');
+
+		await rerender({ user: { id: -1, name: 'John Doe', email: 'john@example.com' } });
+		expect(queryByTestId('user-link')).not.toBeInTheDocument();
+		expect(getByTestId('user-name')).toHaveTextContent('John Doe');
+	});
+
 	it('should show delete button when onDelete is provided and not readonly', () => {
 		const onDelete = vi.fn();
 
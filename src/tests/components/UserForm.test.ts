@@ -2,6 +2,7 @@ import { fireEvent } from '@testing-library/dom';
 import { render } from '@testing-library/svelte';
 import { tick } from 'svelte';
 import { describe, expect, it, vi } from 'vitest';
+import { HttpError } from '../../interfaces/http-client.interface';
 import UserForm from '../../ui/components/UserForm.svelte';
 
 // Helper function for async operations
@@ -137,6 +138,32 @@ describe('UserForm', () => {
 		expect(emailInput.value).toBe('');
 	});
 
+	it('should edit existing values with a custom submit label and cancel', async () => {
+		const onSubmit = vi.fn().mockResolvedValue(undefined);
+		const onCancel = vi.fn();
+		const { getByTestId } = render(UserForm, {
+			onSubmit,
+			onCancel,
+			initialName: 'John Doe',
+			initialEmail: 'john@example.com',
+			submitLabel: 'Save changes'
+		});
+
+		const nameInput = getByTestId('name-input') as HTMLInputElement;
+		expect(getByTestId('submit-button')).toHaveTextContent('Save changes');
+
+		await fireEvent.input(nameInput, { target: { value: 'Johnny Doe' } });
+		await fireEvent.submit(getByTestId('user-form'));
+		await waitForAsync();
+
+		expect(onSubmit).toHaveBeenCalledWith({ name: 'Johnny Doe', email: 'john@example.com' });
+		// Back to the initial values rather than empty
+		expect(nameInput.value).toBe('John Doe');
+
+		await fireEvent.click(getByTestId('cancel-button'));
+		expect(onCancel).toHaveBeenCalledOnce();
+	});
+
 	it('should handle submission errors gracefully', async () => {
 		const onSubmit = vi.fn().mockRejectedValue(new Error('Submission failed'));
 		const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
@@ -154,6 +181,38 @@ describe('UserForm', () => {
 
 		expect(onSubmit).toHaveBeenCalled();
 		expect(consoleSpy).toHaveBeenCalledWith('Form submission error:', expect.any(Error));
+		expect(getByTestId('form-error')).toHaveTextContent('Submission failed');
+
+		consoleSpy.mockRestore();
+	});
+
+	it('should show server field errors next to the matching input', async () => {
+		const problem = {
+			type: 'urn:problem-type:email_taken',
+			title: 'Conflict',
+			status: 409,
+			detail: 'Email is already registered',
+			instance: '/api/users',
+			code: 'email_taken',
+			errors: [{ field: 'email', message: 'Email is already registered', code: 'email_taken' }]
+		};
+		const onSubmit = vi
+			.fn()
+			.mockRejectedValue(
+				new HttpError(problem.detail, 409, 'Conflict', '/api/users', problem, problem)
+			);
+		const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const { getByTestId, queryByTestId } = render(UserForm, { onSubmit });
+
+		await fireEvent.input(getByTestId('name-input'), { target: { value: 'John Doe' } });
+		await fireEvent.input(getByTestId('email-input'), { target: { value: 'john@example.com' } });
+		await fireEvent.submit(getByTestId('user-form'));
+		await waitForAsync();
+
+		expect(getByTestId('email-error')).toHaveTextContent('Email is already registered');
+		expect(queryByTestId('name-error')).not.toBeInTheDocument();
+		expect(queryByTestId('form-error')).not.toBeInTheDocument();
 
 		consoleSpy.mockRestore();
 	});
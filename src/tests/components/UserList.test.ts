@@ -0,0 +1,125 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/svelte';
+import { describe, expect, it, vi } from 'vitest';
+import { TYPES } from '../../container/types';
+import { userQueryKeys, type IUserApiService } from '../../interfaces/api.interface';
+import type { IQueryCache } from '../../interfaces/query-cache.interface';
+import UserList from '../../ui/components/UserList.svelte';
+import TestWrapper from '../helpers/TestWrapper.svelte';
+import { createMockContainerSync, MockUserApiService, mockUsers } from '../mocks/api.mock';
+
+describe('UserList Component', () => {
+	const renderList = (userApi = new MockUserApiService(), props: Record<string, unknown> = {}) => {
+		const container = createMockContainerSync();
+		container.rebindSync(TYPES.UserApiService).toConstantValue(userApi);
+		const queryCache = container.get<IQueryCache>(TYPES.QueryCache);
+		return {
+			queryCache,
+			...render(TestWrapper, { props: { container, component: UserList, props } })
+		};
+	};
+
+	it('should load users on mount into the shared query cache', async () => {
+		const { queryCache } = renderList();
+
+		await waitFor(() => expect(screen.getAllByTestId('user-card')).toHaveLength(mockUsers.length));
+		expect(queryCache.get(userQueryKeys.list()).data).toHaveLength(mockUsers.length);
+	});
+
+	it('should abort the pending load when unmounted', async () => {
+		const userApi = new MockUserApiService();
+		let signal: AbortSignal | undefined;
+		// Typed as the interface, whose reads take the abort signal the mock ignores
+		vi.spyOn(userApi as IUserApiService, 'getAllUsers').mockImplementation((_filter, options) => {
+			signal = options?.signal;
+			return new Promise(() => {});
+		});
+		const { queryCache, unmount } = renderList(userApi);
+		await waitFor(() => expect(signal).toBeDefined());
+		expect(queryCache.get(userQueryKeys.list()).isFetching).toBe(true);
+
+		unmount();
+
+		expect(signal?.aborted).toBe(true);
+		expect(queryCache.get(userQueryKeys.list()).isFetching).toBe(false);
+	});
+
+	it('should wait for refresh when autoLoad is off', async () => {
+		const userApi = new MockUserApiService();
+		const getAllUsers = vi.spyOn(userApi, 'getAllUsers');
+		renderList(userApi, { autoLoad: false });
+
+		expect(screen.getByTestId('empty-state')).toBeInTheDocument();
+		expect(getAllUsers).not.toHaveBeenCalled();
+
+		await fireEvent.click(screen.getByTestId('refresh-button'));
+		await waitFor(() => expect(screen.getAllByTestId('user-card')).toHaveLength(mockUsers.length));
+	});
+
+	it('should show load errors and clear them once a refresh succeeds', async () => {
+		const userApi = new MockUserApiService();
+		vi.spyOn(userApi, 'getAllUsers').mockRejectedValueOnce(new Error('API is down'));
+		renderList(userApi);
+
+		await waitFor(() =>
+			expect(screen.getByTestId('error-message')).toHaveTextContent('API is down')
+		);
+
+		await fireEvent.click(screen.getByTestId('refresh-button'));
+		await waitFor(() => expect(screen.queryByTestId('error-message')).not.toBeInTheDocument());
+		expect(screen.getAllByTestId('user-card')).toHaveLength(mockUsers.length);
+	});
+
+	it('should report failed deletes and notify the parent of successful ones', async () => {
+		const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const userApi = new MockUserApiService();
+		const deleteUser = vi
+			.spyOn(userApi, 'deleteUser')
+			.mockRejectedValueOnce(new Error('Delete failed'));
+		const onUserDeleted = vi.fn();
+		renderList(userApi, { onUserDeleted });
+		await waitFor(() => expect(screen.getAllByTestId('user-card')).toHaveLength(mockUsers.length));
+
+		await fireEvent.click(screen.getAllByTestId('delete-button')[0]);
+		await waitFor(() =>
+			expect(screen.getByTestId('error-message')).toHaveTextContent('Delete failed')
+		);
+		expect(onUserDeleted).not.toHaveBeenCalled();
+
+		await fireEvent.click(screen.getAllByTestId('delete-button')[0]);
+		await waitFor(() => expect(onUserDeleted).toHaveBeenCalledWith(mockUsers[0].id));
+		expect(deleteUser).toHaveBeenCalledTimes(2);
+		expect(screen.queryByTestId('error-message')).not.toBeInTheDocument();
+
+		consoleErrorSpy.mockRestore();
+	});
+
+	it('should hide a deleted user at once, put it back on failure and retry', async () => {
+		const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const userApi = new MockUserApiService();
+		let rejectDelete!: (error: Error) => void;
+		vi.spyOn(userApi, 'deleteUser').mockImplementationOnce(
+			() => new Promise((_resolve, reject) => (rejectDelete = reject))
+		);
+		const onUserDeleted = vi.fn();
+		renderList(userApi, { onUserDeleted });
+		await waitFor(() => expect(screen.getAllByTestId('user-card')).toHaveLength(mockUsers.length));
+
+		await fireEvent.click(screen.getAllByTestId('delete-button')[0]);
+		await waitFor(() =>
+			expect(screen.getAllByTestId('user-card')).toHaveLength(mockUsers.length - 1)
+		);
+
+		rejectDelete(new Error('Delete failed'));
+		await waitFor(() =>
+			expect(screen.getByTestId('error-message')).toHaveTextContent('The user was put back')
+		);
+		expect(screen.getAllByTestId('user-card')).toHaveLength(mockUsers.length);
+
+		await fireEvent.click(screen.getByTestId('retry-delete-button'));
+		await waitFor(() => expect(onUserDeleted).toHaveBeenCalledWith(mockUsers[0].id));
+		expect(screen.getAllByTestId('user-card')).toHaveLength(mockUsers.length - 1);
+		expect(screen.queryByTestId('error-message')).not.toBeInTheDocument();
+
+		consoleErrorSpy.mockRestore();
+	});
+});
@@ -0,0 +1,151 @@
+import type { Container } from 'inversify';
+import 'reflect-metadata';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+	container,
+	createRequestContainer,
+	disposeRequestContainer,
+	withRequestContainer
+} from '../../container/inversify.server';
+import { TYPES } from '../../container/types';
+import type { IAuthorizationService } from '../../interfaces/authorization.interface';
+import type { D1Database } from '../../interfaces/database.interface';
+import type { ILogger } from '../../interfaces/logger.interface';
+import type { IRequestContext } from '../../interfaces/request.interface';
+import type { IUserRepository } from '../../interfaces/user.interface';
+import { createTraceContext } from '../../lib/trace';
+import { ConfigError, InternalServerError } from '../../models/error.model';
+import { D1UserRepository } from '../../services/d1-user.repository';
+
+function requestContext(overrides: Partial<IRequestContext> = {}): IRequestContext {
+	return {
+		requestId: 'req-1',
+		trace: createTraceContext(),
+		env: undefined,
+		principal: null,
+		...overrides
+	};
+}
+
+describe('createRequestContainer', () => {
+	afterEach(() => {
+		delete process.env.DATABASE_URL;
+		vi.restoreAllMocks();
+	});
+
+	it('should bind the request context and a request logger', () => {
+		const context = requestContext();
+		const requestContainer = createRequestContainer(context);
+
+		expect(requestContainer.get(TYPES.RequestContext)).toBe(context);
+		expect(requestContainer.get(TYPES.Logger)).not.toBe(container.get(TYPES.Logger));
+		expect(container.isBound(TYPES.RequestContext)).toBe(false);
+
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		requestContainer.get<ILogger>(TYPES.Logger).warn('hello');
+		expect(JSON.parse(vi.mocked(console.warn).mock.calls[0][0] as string)).toMatchObject({
+			requestId: 'req-1',
+			traceId: context.trace.traceId,
+			spanId: context.trace.spanId
+		});
+	});
+
+	it('should inject the request logger into transient services', async () => {
+		const requestContainer = createRequestContainer(requestContext({ requestId: 'req-2' }));
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		const authorization = requestContainer.get<IAuthorizationService>(TYPES.AuthorizationService);
+		await expect(
+			authorization.authorize({ userId: 2, email: 'jane@example.com' }, 'users:delete')
+		).rejects.toThrow('Missing permission');
+		expect(JSON.parse(warn.mock.calls[0][0] as string)).toMatchObject({ requestId: 'req-2' });
+	});
+
+	it('should share in-memory repositories between requests', () => {
+		const first = createRequestContainer(requestContext());
+		const second = createRequestContainer(requestContext());
+
+		expect(first.get(TYPES.UserRepository)).toBe(second.get(TYPES.UserRepository));
+	});
+
+	it("should build D1 repositories from each request's env binding", () => {
+		process.env.DATABASE_URL = 'd1://DB';
+		const db = { prepare: vi.fn(), batch: vi.fn(), exec: vi.fn() } as unknown as D1Database;
+		const requestContainer = createRequestContainer(
+			requestContext({ env: { ENVIRONMENT: 'test', DB: db } })
+		);
+
+		expect(requestContainer.get(TYPES.Database)).toBe(db);
+		expect(requestContainer.get<IUserRepository>(TYPES.UserRepository)).toBeInstanceOf(
+			D1UserRepository
+		);
+		expect(() => createRequestContainer(requestContext({ env: { ENVIRONMENT: 'test' } }))).toThrow(
+			ConfigError
+		);
+	});
+
+	it('should log a missing D1 binding without naming it in the error', () => {
+		// The root config does not check platform bindings, so only resolving finds it missing
+		process.env.DATABASE_URL = 'd1://USERS_DB';
+		const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const error = (() => {
+			try {
+				container.get(TYPES.UserRepository);
+			} catch (e) {
+				return e;
+			}
+		})();
+
+		expect(error).toBeInstanceOf(InternalServerError);
+		expect(error).toMatchObject({
+			message: 'Database is not available',
+			code: 'database_unavailable'
+		});
+		expect(JSON.parse(logError.mock.calls[0][0] as string)).toMatchObject({
+			message: 'D1 binding is not available in this environment',
+			meta: { binding: 'USERS_DB' }
+		});
+	});
+
+	it('should release the request bindings on disposal', async () => {
+		const requestContainer = createRequestContainer(requestContext());
+		await disposeRequestContainer(requestContainer);
+
+		expect(requestContainer.isBound(TYPES.RequestContext)).toBe(false);
+		expect(container.isBound(TYPES.Logger)).toBe(true);
+	});
+});
+
+describe('withRequestContainer', () => {
+	it('should run a page load against a request container and dispose it afterwards', async () => {
+		const request = new Request('http://localhost/users', {
+			headers: {
+				'X-Request-Id': 'req-page',
+				traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01'
+			}
+		});
+		let requestContainer: Container | undefined;
+
+		const context = await withRequestContainer({ request }, async (c) => {
+			requestContainer = c;
+			return c.get<IRequestContext>(TYPES.RequestContext);
+		});
+
+		expect(context).toMatchObject({ requestId: 'req-page', env: undefined, principal: null });
+		expect(context.trace.traceId).toBe('0af7651916cd43dd8448eb211c80319c');
+		expect(requestContainer?.isBound(TYPES.RequestContext)).toBe(false);
+	});
+
+	it('should dispose the container when the load fails', async () => {
+		let requestContainer: Container | undefined;
+
+		await expect(
+			withRequestContainer({ request: new Request('http://localhost/') }, async (c) => {
+				requestContainer = c;
+				throw new Error('load failed');
+			})
+		).rejects.toThrow('load failed');
+		expect(requestContainer?.isBound(TYPES.RequestContext)).toBe(false);
+	});
+});
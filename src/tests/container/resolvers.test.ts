@@ -14,12 +14,28 @@ class FakeUserService implements IUserService {
 	async getAllUsers() {
 		return [];
 	}
+	async listUsers() {
+		return { items: [], pagination: { total: 0, limit: 20, nextCursor: null } };
+	}
 	async createUser() {
-		return { id: 1, name: 'x', email: 'x', createdAt: new Date() };
+		return {
+			id: 1,
+			name: 'x',
+			email: 'x',
+			createdAt: new Date(),
+			version: 1,
+			role: 'member' as const
+		};
 	}
 	async updateUser() {
 		return null;
 	}
+	async replaceUser() {
+		return null;
+	}
+	async patchUser() {
+		return null;
+	}
 	async deleteUser() {
 		return false;
 	}
@@ -38,6 +54,9 @@ class FakeLogger implements ILogger {
 	debug() {
 		return;
 	}
+	child() {
+		return this;
+	}
 }
 
 class FakeConfigService implements IConfigService {
@@ -47,6 +66,26 @@ class FakeConfigService implements IConfigService {
 	getDatabaseConfig() {
 		return { url: 'x', maxConnections: 1, timeout: 1 };
 	}
+	getAuthConfig() {
+		return { jwtSecret: 'secret', issuer: 'test', accessTokenTtl: 60, refreshTokenTtl: 120 };
+	}
+	getLogConfig() {
+		return {
+			level: 'debug' as const,
+			format: 'json' as const,
+			redactKeys: [],
+			slowRequestMs: 1000
+		};
+	}
+	getMetricsConfig() {
+		return {};
+	}
+	getRateLimitConfig() {
+		return { store: 'memory' as const };
+	}
+	getIdempotencyConfig() {
+		return { store: 'memory' as const, ttl: 86400 };
+	}
 }
 
 describe('container/resolvers', () => {
@@ -0,0 +1,42 @@
+import 'reflect-metadata';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { container, createRequestContainer } from '../../container/inversify.server';
+import { TYPES } from '../../container/types';
+import { init } from '../../hooks.server';
+import { createTraceContext } from '../../lib/trace';
+
+// A deployed Worker: a built app, whose variables and secrets come with each request
+vi.mock('$app/environment', () => ({ dev: false, browser: false }));
+
+describe('Startup on Workers', () => {
+	const originalEnv = process.env;
+
+	beforeAll(() => {
+		process.env = {};
+	});
+
+	afterAll(() => {
+		process.env = originalEnv;
+	});
+
+	const requestContext = (env: Record<string, unknown>) => ({
+		requestId: 'req-1',
+		trace: createTraceContext(),
+		env,
+		principal: null
+	});
+
+	it('should start with an empty process.env', () => {
+		expect(() => init()).not.toThrow();
+		// The error handler falls back to the root logger when a request's env is invalid
+		expect(() => container.get(TYPES.Logger)).not.toThrow();
+	});
+
+	it("should check the secrets in each request's platform env", () => {
+		expect(() => createRequestContainer(requestContext({}))).toThrow(
+			'JWT_SECRET: Must be set outside the local dev server'
+		);
+		const requestContainer = createRequestContainer(requestContext({ JWT_SECRET: 's3cret' }));
+		expect(requestContainer.get(TYPES.AuthService)).toBeDefined();
+	});
+});
@@ -0,0 +1,18 @@
+import type { Principal } from '../../interfaces/auth.interface';
+import { ConfigService } from '../../services/config.service';
+import { TokenService } from '../../services/token.service';
+
+// Seeded users: John Doe is the admin, Jane Smith a member
+export const adminPrincipal: Principal = { userId: 1, email: 'john@example.com' };
+export const memberPrincipal: Principal = { userId: 2, email: 'jane@example.com' };
+
+// Access token signed with the same config the API uses in tests
+export async function issueAccessToken(principal: Principal = adminPrincipal): Promise<string> {
+	return await new TokenService(new ConfigService()).issueAccessToken(principal);
+}
+
+export async function authHeaders(
+	principal: Principal = adminPrincipal
+): Promise<Record<string, string>> {
+	return { Authorization: `Bearer ${await issueAccessToken(principal)}` };
+}
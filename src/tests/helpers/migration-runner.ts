@@ -0,0 +1,70 @@
+import type { D1Database, Migration } from '../../interfaces/database.interface';
+import type { ILogger } from '../../interfaces/logger.interface';
+import { splitStatements } from '../../lib/migrations';
+
+// Same bookkeeping table as `wrangler d1 migrations apply`, so both tools agree on state
+const MIGRATIONS_TABLE = 'd1_migrations';
+
+/**
+ * Applies versioned SQL migrations to a D1 database, so repository tests get the
+ * real schema. Deployed databases are migrated by wrangler, never by the app.
+ */
+export class MigrationRunner {
+	constructor(
+		private readonly db: D1Database,
+		private readonly migrations: Migration[],
+		private readonly logger?: ILogger
+	) {}
+
+	// Names of migrations that have not been applied yet
+	async pending(): Promise<string[]> {
+		await this.ensureMigrationsTable();
+
+		const { results } = await this.db
+			.prepare(`SELECT name FROM ${MIGRATIONS_TABLE}`)
+			.all<{ name: string }>();
+		const applied = new Set(results.map((row) => row.name));
+
+		return this.migrations.map((m) => m.name).filter((name) => !applied.has(name));
+	}
+
+	// Apply every pending migration in order and return their names
+	async migrate(): Promise<string[]> {
+		const pending = new Set(await this.pending());
+		const applied: string[] = [];
+
+		for (const migration of this.migrations) {
+			if (!pending.has(migration.name)) continue;
+
+			this.logger?.info('Applying migration', { migration: migration.name });
+
+			// D1 runs a batch inside a single transaction, so a failing
+			// statement leaves neither the schema change nor the bookkeeping row
+			const statements = splitStatements(migration.sql).map((sql) => this.db.prepare(sql));
+			await this.db.batch([
+				...statements,
+				this.db.prepare(`INSERT INTO ${MIGRATIONS_TABLE} (name) VALUES (?)`).bind(migration.name)
+			]);
+
+			applied.push(migration.name);
+		}
+
+		if (applied.length > 0) {
+			this.logger?.info('Migrations applied', { count: applied.length });
+		}
+
+		return applied;
+	}
+
+	private async ensureMigrationsTable(): Promise<void> {
+		await this.db
+			.prepare(
+				`CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+					id INTEGER PRIMARY KEY AUTOINCREMENT,
+					name TEXT UNIQUE,
+					applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+				)`
+			)
+			.run();
+	}
+}
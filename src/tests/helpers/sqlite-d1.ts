@@ -0,0 +1,103 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import initSqlJs, { type BindParams, type Database, type SqlValue } from 'sql.js';
+import type {
+	D1Database,
+	D1PreparedStatement,
+	D1Result
+} from '../../interfaces/database.interface';
+
+/**
+ * SQLite-backed stand-in for a Cloudflare D1 binding.
+ * Runs fully in-process on sql.js (WASM), so repository tests exercise
+ * real SQL without wrangler or miniflare.
+ */
+class SqliteStatement implements D1PreparedStatement {
+	constructor(
+		private readonly db: Database,
+		private readonly sql: string,
+		private readonly params: SqlValue[] = []
+	) {}
+
+	bind(...values: unknown[]): D1PreparedStatement {
+		return new SqliteStatement(this.db, this.sql, values as SqlValue[]);
+	}
+
+	async first<T = Record<string, unknown>>(): Promise<T | null> {
+		const { results } = await this.all<T>();
+		return results[0] ?? null;
+	}
+
+	async all<T = Record<string, unknown>>(): Promise<D1Result<T>> {
+		return this.execute<T>();
+	}
+
+	async run<T = Record<string, unknown>>(): Promise<D1Result<T>> {
+		return this.execute<T>();
+	}
+
+	execute<T>(): D1Result<T> {
+		const statement = this.db.prepare(this.sql);
+		const results: T[] = [];
+		try {
+			statement.bind(this.params as BindParams);
+			while (statement.step()) {
+				results.push(statement.getAsObject() as T);
+			}
+		} finally {
+			statement.free();
+		}
+
+		return {
+			results,
+			success: true,
+			meta: {
+				changes: this.db.getRowsModified(),
+				last_row_id: Number(this.db.exec('SELECT last_insert_rowid()')[0]?.values[0]?.[0] ?? 0)
+			}
+		};
+	}
+}
+
+class SqliteD1Database implements D1Database {
+	constructor(private readonly db: Database) {}
+
+	prepare(query: string): D1PreparedStatement {
+		return new SqliteStatement(this.db, query);
+	}
+
+	// D1 batches are atomic, so mirror that with a transaction
+	async batch<T = Record<string, unknown>>(
+		statements: D1PreparedStatement[]
+	): Promise<D1Result<T>[]> {
+		this.db.run('BEGIN');
+		try {
+			const results = statements.map((statement) => (statement as SqliteStatement).execute<T>());
+			this.db.run('COMMIT');
+			return results;
+		} catch (error) {
+			this.db.run('ROLLBACK');
+			throw error;
+		}
+	}
+
+	async exec(query: string): Promise<{ count: number; duration: number }> {
+		const results = this.db.exec(query);
+		return { count: results.length, duration: 0 };
+	}
+}
+
+// Load the WASM binary from disk so this works under jsdom, where sql.js would try to fetch it
+const wasmBinary = readFileSync(
+	createRequire(import.meta.url).resolve('sql.js/dist/sql-wasm.wasm')
+);
+
+export async function createSqliteD1(): Promise<D1Database> {
+	const SQL = await initSqlJs({
+		wasmBinary: wasmBinary.buffer.slice(
+			wasmBinary.byteOffset,
+			wasmBinary.byteOffset + wasmBinary.byteLength
+		) as ArrayBuffer
+	});
+	return new SqliteD1Database(new SQL.Database());
+}
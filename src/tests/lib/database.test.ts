@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { getD1BindingName } from '$lib/database';
+
+describe('getD1BindingName', () => {
+	it('should extract the binding name from a d1:// url', () => {
+		expect(getD1BindingName('d1://DB')).toBe('DB');
+		expect(getD1BindingName(' d1://USERS_DB ')).toBe('USERS_DB');
+	});
+
+	it('should return null for other database urls', () => {
+		expect(getD1BindingName('sqlite://memory')).toBeNull();
+		expect(getD1BindingName('d1://')).toBeNull();
+		expect(getD1BindingName('d1://bad-name')).toBeNull();
+	});
+});
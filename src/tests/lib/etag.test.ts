@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { formatETag, matchesIfMatch, matchesIfNoneMatch } from '$lib/etag';
+
+describe('etag helpers', () => {
+	it('should format versions as strong entity tags', () => {
+		expect(formatETag(3)).toBe('"v3"');
+	});
+
+	it('matchesIfMatch should use strong comparison', () => {
+		expect(matchesIfMatch('"v1", "v2"', '"v2"')).toBe(true);
+		expect(matchesIfMatch('*', '"v2"')).toBe(true);
+		expect(matchesIfMatch('W/"v2"', '"v2"')).toBe(false);
+		expect(matchesIfMatch('"v1"', '"v2"')).toBe(false);
+	});
+
+	it('matchesIfNoneMatch should use weak comparison', () => {
+		expect(matchesIfNoneMatch('W/"v2"', '"v2"')).toBe(true);
+		expect(matchesIfNoneMatch('*', '"v2"')).toBe(true);
+		expect(matchesIfNoneMatch('"v1"', '"v2"')).toBe(false);
+	});
+});
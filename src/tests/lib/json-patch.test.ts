@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { applyJsonPatch, applyMergePatch } from '$lib/json-patch';
+import { BadRequestError, ConflictError } from '../../models/error.model';
+
+describe('json-patch helpers', () => {
+	describe('applyMergePatch (RFC 7396)', () => {
+		it('should replace, add and remove members', () => {
+			const target = { a: 'b', c: { d: 'e', f: 'g' } };
+			const result = applyMergePatch(target, { a: 'z', c: { f: null }, h: [1] });
+
+			expect(result).toEqual({ a: 'z', c: { d: 'e' }, h: [1] });
+			// The original document is left untouched
+			expect(target).toEqual({ a: 'b', c: { d: 'e', f: 'g' } });
+		});
+
+		it('should replace the whole document with a non-object patch', () => {
+			expect(applyMergePatch({ a: 1 }, ['x'])).toEqual(['x']);
+		});
+	});
+
+	describe('applyJsonPatch (RFC 6902)', () => {
+		it('should apply operations in order', () => {
+			const result = applyJsonPatch({ name: 'A', tags: ['x'] }, [
+				{ op: 'test', path: '/name', value: 'A' },
+				{ op: 'replace', path: '/name', value: 'B' },
+				{ op: 'add', path: '/tags/-', value: 'y' },
+				{ op: 'copy', from: '/name', path: '/alias' },
+				{ op: 'move', from: '/alias', path: '/nick' },
+				{ op: 'remove', path: '/tags/0' }
+			]);
+
+			expect(result).toEqual({ name: 'B', nick: 'B', tags: ['y'] });
+		});
+
+		it('should unescape JSON Pointer tokens', () => {
+			const result = applyJsonPatch({ 'a/b': 1, '~c': 2 }, [
+				{ op: 'replace', path: '/a~1b', value: 10 },
+				{ op: 'remove', path: '/~0c' }
+			]);
+
+			expect(result).toEqual({ 'a/b': 10 });
+		});
+
+		it('should raise a ConflictError when a test operation fails', () => {
+			expect(() =>
+				applyJsonPatch({ name: 'A' }, [{ op: 'test', path: '/name', value: 'B' }])
+			).toThrow(ConflictError);
+		});
+
+		it('should reject malformed documents and missing paths', () => {
+			expect(() => applyJsonPatch({}, { op: 'add' })).toThrow('Invalid JSON Patch document');
+			expect(() => applyJsonPatch({}, [{ op: 'replace', path: '/missing', value: 1 }])).toThrow(
+				BadRequestError
+			);
+			expect(() =>
+				applyJsonPatch({ list: [] }, [{ op: 'add', path: '/list/3', value: 1 }])
+			).toThrow('Array index 3 is out of bounds');
+		});
+	});
+});
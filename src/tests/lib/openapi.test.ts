@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { describeRoute, generateOpenAPIDocument, toOpenAPIPath } from '$lib/openapi';
+
+const itemSchema = z.object({ id: z.number(), label: z.string() }).meta({ id: 'Item' });
+
+function createApp() {
+	const app = new Hono().basePath('/api');
+
+	app.get(
+		'/items/:id',
+		describeRoute({
+			summary: 'Get item',
+			tags: ['Items'],
+			params: z.object({ id: z.coerce.number().meta({ description: 'Item ID' }) }),
+			query: z.object({ expand: z.enum(['all', 'none']).optional() }),
+			responses: {
+				200: { description: 'The item', schema: z.object({ data: itemSchema }) },
+				404: { description: 'Not found' }
+			}
+		}),
+		(c) => c.json({ data: { id: Number(c.req.param('id')), label: 'x' } })
+	);
+
+	app.post(
+		'/items',
+		describeRoute({
+			summary: 'Create item',
+			security: ['bearerAuth'],
+			body: { schema: itemSchema.omit({ id: true }), contentTypes: ['application/json'] },
+			responses: { 201: { description: 'Created', schema: itemSchema } }
+		}),
+		(c) => c.json({}, 201)
+	);
+
+	app.get('/undocumented', (c) => c.text('ok'));
+	return app;
+}
+
+describe('openapi helpers', () => {
+	it('toOpenAPIPath should convert Hono params to templates', () => {
+		expect(toOpenAPIPath('/api/users/:id')).toBe('/api/users/{id}');
+		expect(toOpenAPIPath('/files/:name{.+\\.png}')).toBe('/files/{name}');
+	});
+
+	it('describeRoute should not affect request handling', async () => {
+		const response = await createApp().request('/api/items/7');
+		expect(await response.json()).toEqual({ data: { id: 7, label: 'x' } });
+	});
+
+	it('should only document annotated routes', () => {
+		const document = generateOpenAPIDocument(createApp(), { title: 'Test', version: '1.0.0' });
+
+		expect(document.openapi).toBe('3.1.0');
+		expect(document.info).toEqual({ title: 'Test', version: '1.0.0' });
+		expect(Object.keys(document.paths)).toEqual(['/api/items/{id}', '/api/items']);
+	});
+
+	it('should derive parameters, bodies and responses from Zod schemas', () => {
+		const document = generateOpenAPIDocument(createApp(), { title: 'Test', version: '1.0.0' });
+		const getItem = document.paths['/api/items/{id}'].get;
+
+		expect(getItem.tags).toEqual(['Items']);
+		expect(getItem.parameters).toEqual([
+			{
+				name: 'id',
+				in: 'path',
+				required: true,
+				description: 'Item ID',
+				schema: { type: 'number' }
+			},
+			{
+				name: 'expand',
+				in: 'query',
+				required: false,
+				schema: { type: 'string', enum: ['all', 'none'] }
+			}
+		]);
+		expect(getItem.responses['404']).toEqual({ description: 'Not found' });
+		expect(getItem.responses['200'].content?.['application/json'].schema).toMatchObject({
+			properties: { data: { $ref: '#/components/schemas/Item' } }
+		});
+
+		const createItem = document.paths['/api/items'].post;
+		expect(createItem.requestBody?.content['application/json'].schema).toMatchObject({
+			properties: { label: { type: 'string' } },
+			required: ['label']
+		});
+		// Top-level schemas with an id are referenced too
+		expect(createItem.responses['201'].content?.['application/json'].schema).toEqual({
+			$ref: '#/components/schemas/Item'
+		});
+	});
+
+	it('should collect shared schemas as components', () => {
+		const document = generateOpenAPIDocument(createApp(), { title: 'Test', version: '1.0.0' });
+
+		expect(document.components.schemas.Item).toEqual({
+			type: 'object',
+			properties: { id: { type: 'number' }, label: { type: 'string' } },
+			required: ['id', 'label'],
+			additionalProperties: false
+		});
+	});
+
+	it('should document security requirements and schemes', () => {
+		const bearerAuth = { type: 'http' as const, scheme: 'bearer', bearerFormat: 'JWT' };
+		const document = generateOpenAPIDocument(
+			createApp(),
+			{ title: 'Test', version: '1.0.0' },
+			{ securitySchemes: { bearerAuth } }
+		);
+
+		expect(document.paths['/api/items'].post.security).toEqual([{ bearerAuth: [] }]);
+		expect(document.paths['/api/items/{id}'].get.security).toBeUndefined();
+		expect(document.components.securitySchemes).toEqual({ bearerAuth });
+	});
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCursor, decodeCursorFor, encodeCursor, paginate } from '$lib/pagination';
+import { BadRequestError } from '../../models/error.model';
+
+interface Item {
+	id: number;
+	name: string;
+}
+
+const items: Item[] = [
+	{ id: 1, name: 'delta' },
+	{ id: 2, name: 'alpha' },
+	{ id: 3, name: 'charlie' },
+	{ id: 4, name: 'bravo' },
+	{ id: 5, name: 'alpha' }
+];
+
+const byName = {
+	sort: 'name',
+	getSortValue: (item: Item) => item.name,
+	getId: (item: Item) => item.id
+};
+
+describe('pagination helpers', () => {
+	describe('cursor encoding', () => {
+		it('should round-trip a cursor payload', () => {
+			const payload = { sort: 'name', order: 'asc' as const, value: 'Zoë/+?', id: 7 };
+			const cursor = encodeCursor(payload);
+
+			expect(cursor).not.toMatch(/[+/=]/);
+			expect(decodeCursor(cursor)).toEqual(payload);
+		});
+
+		it('should reject malformed cursors', () => {
+			expect(() => decodeCursor('not-a-cursor')).toThrow(BadRequestError);
+			expect(() => decodeCursor(btoa('{"a":1}'))).toThrow('Invalid cursor');
+		});
+
+		it('should reject cursors issued for a different sort', () => {
+			const cursor = encodeCursor({ sort: 'name', order: 'asc', value: 'a', id: 1 });
+			expect(() => decodeCursorFor(cursor, 'email', 'asc')).toThrow(
+				'Cursor does not match the requested sort order'
+			);
+			expect(() => decodeCursorFor(cursor, 'name', 'desc')).toThrow(BadRequestError);
+		});
+	});
+
+	describe('paginate', () => {
+		it('should sort by value and break ties by id', () => {
+			const result = paginate(items, { ...byName, order: 'asc', limit: 10 });
+			expect(result.items.map((i) => i.id)).toEqual([2, 5, 4, 3, 1]);
+			expect(result.pagination).toEqual({ total: 5, limit: 10, nextCursor: null });
+		});
+
+		it('should walk every item exactly once with cursors', () => {
+			const seen: number[] = [];
+			let cursor: string | undefined;
+
+			do {
+				const result = paginate(items, { ...byName, order: 'desc', limit: 2, cursor });
+				seen.push(...result.items.map((i) => i.id));
+				cursor = result.pagination.nextCursor ?? undefined;
+			} while (cursor);
+
+			expect(seen).toEqual([1, 3, 4, 5, 2]);
+		});
+
+		it('should use offset pagination when a page is given', () => {
+			const result = paginate(items, { ...byName, order: 'asc', limit: 2, page: 3 });
+
+			expect(result.items.map((i) => i.id)).toEqual([1]);
+			expect(result.pagination).toEqual({
+				total: 5,
+				limit: 2,
+				nextCursor: null,
+				page: 3,
+				pageSize: 2,
+				totalPages: 3
+			});
+		});
+	});
+});
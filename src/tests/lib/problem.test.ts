@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { HTTPException } from 'hono/http-exception';
+import { createProblem, problemType, toProblem } from '$lib/problem';
+import { ConflictError, NotFoundError, ValidationError } from '../../models/error.model';
+
+describe('problem details', () => {
+	it('should build problems with a type URN derived from the code', () => {
+		expect(createProblem(404, 'not_found', 'User not found', '/api/users/9')).toEqual({
+			type: problemType('not_found'),
+			title: 'Not Found',
+			status: 404,
+			detail: 'User not found',
+			instance: '/api/users/9',
+			code: 'not_found'
+		});
+	});
+
+	it('should keep the status, specific code and field errors of API errors', () => {
+		const error = new ConflictError('Email is already registered', {
+			code: 'email_taken',
+			errors: [{ field: 'email', message: 'Email is already registered', code: 'email_taken' }]
+		});
+
+		expect(toProblem(error, '/api/auth/sign-up')).toMatchObject({
+			status: 409,
+			code: 'email_taken',
+			errors: [{ field: 'email' }]
+		});
+	});
+
+	it('should fall back to the default code for the error class', () => {
+		expect(toProblem(new NotFoundError('gone'), '/')).toMatchObject({
+			status: 404,
+			code: 'not_found'
+		});
+		expect(toProblem(new ValidationError('Validation failed: x'), '/')).toMatchObject({
+			status: 400,
+			code: 'validation_failed'
+		});
+	});
+
+	it('should map HTTP exceptions to bad requests', () => {
+		const error = new HTTPException(400, { message: 'Malformed JSON in request body' });
+		expect(toProblem(error, '/')).toMatchObject({ status: 400, code: 'bad_request' });
+	});
+
+	it('should hide the details of unexpected errors', () => {
+		expect(toProblem(new Error('database password leaked'), '/')).toMatchObject({
+			status: 500,
+			code: 'internal_error',
+			detail: 'Internal server error'
+		});
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { consumeRateLimit, type RateLimitState } from '$lib/rate-limit';
+
+const policy = { limit: 3, windowMs: 1000 };
+
+// Sends `count` requests at `now` and returns the last result
+function hit(state: RateLimitState | null, count: number, now: number) {
+	let last = consumeRateLimit(state, policy, now);
+	for (let i = 1; i < count; i++) {
+		last = consumeRateLimit(last.state, policy, now);
+	}
+	return last;
+}
+
+describe('consumeRateLimit', () => {
+	it('should allow requests up to the limit and count down the remaining budget', () => {
+		const first = consumeRateLimit(null, policy, 10_000);
+		expect(first.result).toEqual({
+			allowed: true,
+			limit: 3,
+			remaining: 2,
+			resetMs: 1000,
+			retryAfterMs: 0
+		});
+		expect(first.state).toEqual({ windowStart: 10_000, current: 1, previous: 0 });
+
+		const third = hit(first.state, 2, 10_250);
+		expect(third.result).toMatchObject({ allowed: true, remaining: 0, resetMs: 750 });
+	});
+
+	it('should reject requests over the limit without counting them', () => {
+		const full = hit(null, 3, 10_000);
+		const rejected = consumeRateLimit(full.state, policy, 10_400);
+
+		expect(rejected.result).toMatchObject({ allowed: false, remaining: 0 });
+		expect(rejected.state.current).toBe(3);
+		// The full window carries over weighted: 3 * (1 - t/1000) + 1 <= 3 at t = 1/3 window
+		expect(rejected.result.retryAfterMs).toBe(600 + 334);
+	});
+
+	it('should weight the previous window by its remaining overlap', () => {
+		const full = hit(null, 3, 10_000);
+
+		// Halfway through the next window 1.5 requests still count
+		const halfway = consumeRateLimit(full.state, policy, 11_500);
+		expect(halfway.result).toMatchObject({ allowed: true, remaining: 0 });
+		expect(halfway.state).toEqual({ windowStart: 11_000, current: 1, previous: 3 });
+
+		const rejected = consumeRateLimit(halfway.state, policy, 11_600);
+		expect(rejected.result.allowed).toBe(false);
+		// 3 * (1 - t/1000) + 1 + 1 <= 3 once t reaches 667
+		expect(rejected.result.retryAfterMs).toBe(67);
+		expect(consumeRateLimit(rejected.state, policy, 11_667).result.allowed).toBe(true);
+	});
+
+	it('should forget counts older than one window', () => {
+		const full = hit(null, 3, 10_000);
+		const later = consumeRateLimit(full.state, policy, 12_100);
+
+		expect(later.result).toMatchObject({ allowed: true, remaining: 2 });
+		expect(later.state).toEqual({ windowStart: 12_000, current: 1, previous: 0 });
+	});
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { REDACTED, redact } from '$lib/redact';
+
+describe('redact', () => {
+	it('should replace matching keys at any depth, ignoring case', () => {
+		const input = {
+			id: 1,
+			Email: 'a@b.c',
+			profile: { password: 'x', name: 'Ada' },
+			contacts: [{ email: 'c@d.e' }]
+		};
+		expect(redact(input, ['email', 'password'])).toEqual({
+			id: 1,
+			Email: REDACTED,
+			profile: { password: REDACTED, name: 'Ada' },
+			contacts: [{ email: REDACTED }]
+		});
+		// The input is left untouched
+		expect(input.Email).toBe('a@b.c');
+	});
+
+	it('should keep non-plain objects and break cycles', () => {
+		const date = new Date(0);
+		const cyclic: Record<string, unknown> = { at: date };
+		cyclic.self = cyclic;
+		expect(redact(cyclic, ['email'])).toEqual({ at: date, self: '[Circular]' });
+	});
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createTraceContext, formatTraceparent, parseTraceparent } from '$lib/trace';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+describe('trace context', () => {
+	it('should parse valid traceparent headers', () => {
+		expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`)).toEqual({
+			traceId: TRACE_ID,
+			spanId: SPAN_ID,
+			flags: '01'
+		});
+		// Later versions may append fields
+		expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-00-extra`)).toMatchObject({
+			traceId: TRACE_ID
+		});
+	});
+
+	it('should reject malformed traceparent headers', () => {
+		expect(parseTraceparent(undefined)).toBeNull();
+		expect(parseTraceparent('garbage')).toBeNull();
+		expect(parseTraceparent(`00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`)).toBeNull();
+		expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeNull();
+		expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01-extra`)).toBeNull();
+		expect(parseTraceparent(`00-${'0'.repeat(32)}-${SPAN_ID}-01`)).toBeNull();
+		expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeNull();
+	});
+
+	it('should continue the parent trace with a new span', () => {
+		const parent = { traceId: TRACE_ID, spanId: SPAN_ID, flags: '00' };
+		const child = createTraceContext(parent);
+
+		expect(child.traceId).toBe(TRACE_ID);
+		expect(child.flags).toBe('00');
+		expect(child.spanId).toMatch(/^[0-9a-f]{16}$/);
+		expect(child.spanId).not.toBe(SPAN_ID);
+	});
+
+	it('should start a sampled trace without a parent', () => {
+		const context = createTraceContext();
+		expect(parseTraceparent(formatTraceparent(context))).toEqual(context);
+		expect(context.flags).toBe('01');
+		expect(createTraceContext().traceId).not.toBe(context.traceId);
+	});
+});
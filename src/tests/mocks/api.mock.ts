@@ -1,44 +1,114 @@
 import { Container } from 'inversify';
 import { TYPES } from '../../container/types';
 import type {
+	AuthSessionResource,
 	HelloResponse,
 	IApiService,
+	IAuthApiService,
 	IHealthApiService,
 	IHelloApiService,
-	IUserApiService
+	IUserApiService,
+	SessionInfoResource,
+	UserListFilter,
+	UserResource
 } from '../../interfaces/api.interface';
-import type { User } from '../../models/user.model';
+import { HttpError } from '../../interfaces/http-client.interface';
+import type { ISessionStore } from '../../interfaces/session.interface';
+import type { UserWriteOptions } from '../../interfaces/user.interface';
+import { applyJsonPatch, applyMergePatch, type JsonPatchOperation } from '../../lib/json-patch';
+import { paginate } from '../../lib/pagination';
+import type { SignInRequest, SignUpRequest } from '../../models/auth.model';
+import { rolePermissions, type Permission, type UserRole } from '../../models/role.model';
+import {
+	DEFAULT_PAGE_SIZE,
+	type CreateUserRequest,
+	type UserListQuery
+} from '../../models/user.model';
+import { QueryCache } from '../../services/client/query-cache.svelte';
 import type { HealthStatus } from '../../types/health';
+import type { PaginatedResult } from '../../types/pagination';
 
 // Mock data
-export const mockUsers: User[] = [
-	{ id: 1, name: 'John Doe', email: 'john@example.com' },
-	{ id: 2, name: 'Jane Smith', email: 'jane@example.com' },
-	{ id: 3, name: 'Bob Johnson', email: 'bob@example.com' }
+export const mockUsers: UserResource[] = [
+	{
+		id: 1,
+		name: 'John Doe',
+		email: 'john@example.com',
+		createdAt: '2024-01-01T00:00:00.000Z',
+		version: 1,
+		role: 'admin'
+	},
+	{
+		id: 2,
+		name: 'Jane Smith',
+		email: 'jane@example.com',
+		createdAt: '2024-01-02T00:00:00.000Z',
+		version: 1,
+		role: 'member'
+	},
+	{
+		id: 3,
+		name: 'Bob Johnson',
+		email: 'bob@example.com',
+		createdAt: '2024-01-03T00:00:00.000Z',
+		version: 1,
+		role: 'viewer'
+	}
 ];
 
 export const mockHealthStatus: HealthStatus = {
-	status: 'healthy',
+	status: 'pass',
 	timestamp: new Date().toISOString(),
-	environment: 'test'
+	environment: 'test',
+	version: '1.0.0',
+	checks: [{ name: 'database', status: 'pass', durationMs: 1 }]
 };
 
 export const mockHelloResponse: HelloResponse = {
 	message: 'Hello from mock API!',
-	timestamp: new Date().toISOString(),
-	environment: 'test'
+	method: 'GET',
+	path: '/api/hello',
+	timestamp: new Date().toISOString()
 };
 
 // Mock User API Service
 export class MockUserApiService implements IUserApiService {
-	private users: User[] = [...mockUsers];
+	private users: UserResource[] = [...mockUsers];
 	private nextId = 4;
 
-	async getAllUsers(): Promise<User[]> {
-		return Promise.resolve([...this.users]);
+	async getAllUsers(filter?: UserListFilter): Promise<UserResource[]> {
+		if (!filter) {
+			return Promise.resolve([...this.users]);
+		}
+		const { items } = await this.listUsers({ ...filter, limit: this.users.length || 1 });
+		return items;
 	}
 
-	async getUserById(id: number): Promise<User> {
+	async listUsers(query: UserListQuery = {}): Promise<PaginatedResult<UserResource>> {
+		const q = query.q?.toLowerCase();
+		const email = query.email?.toLowerCase();
+		const filtered = this.users.filter(
+			(u) =>
+				(!email || u.email.toLowerCase() === email) &&
+				(!q || `${u.name} ${u.email}`.toLowerCase().includes(q))
+		);
+
+		const sort = query.sort ?? 'createdAt';
+		return Promise.resolve(
+			paginate(filtered, {
+				sort,
+				order: query.order ?? 'asc',
+				limit: query.pageSize ?? query.limit ?? DEFAULT_PAGE_SIZE,
+				cursor: query.cursor,
+				page: query.page ?? (query.pageSize !== undefined ? 1 : undefined),
+				getSortValue: (u) =>
+					sort === 'createdAt' ? Date.parse(u.createdAt) : u[sort].toLowerCase(),
+				getId: (u) => u.id
+			})
+		);
+	}
+
+	async getUserById(id: number): Promise<UserResource> {
 		const user = this.users.find((u) => u.id === id);
 		if (!user) {
 			throw new Error(`User with ID ${id} not found`);
@@ -46,24 +116,59 @@ export class MockUserApiService implements IUserApiService {
 		return Promise.resolve(user);
 	}
 
-	async createUser(userData: { name: string; email: string }): Promise<User> {
-		const newUser: User = {
+	async createUser(userData: CreateUserRequest): Promise<UserResource> {
+		const newUser: UserResource = {
 			id: this.nextId++,
 			name: userData.name,
-			email: userData.email
+			email: userData.email,
+			createdAt: new Date().toISOString(),
+			version: 1,
+			role: 'member'
 		};
 		this.users.push(newUser);
 		return Promise.resolve(newUser);
 	}
 
-	async updateUser(id: number, userData: { name?: string; email?: string }): Promise<User> {
+	async updateUser(id: number, userData: { name: string; email: string }): Promise<UserResource> {
 		const userIndex = this.users.findIndex((u) => u.id === id);
 		if (userIndex === -1) {
 			throw new Error(`User with ID ${id} not found`);
 		}
 		this.users[userIndex] = {
 			...this.users[userIndex],
-			...userData
+			...userData,
+			version: this.users[userIndex].version + 1
+		};
+		return Promise.resolve(this.users[userIndex]);
+	}
+
+	async patchUser(
+		id: number,
+		patch: { name?: string; email?: string } | JsonPatchOperation[],
+		options: UserWriteOptions = {}
+	): Promise<UserResource> {
+		const userIndex = this.users.findIndex((u) => u.id === id);
+		if (userIndex === -1) {
+			throw new Error(`User with ID ${id} not found`);
+		}
+		// Like the API's If-Match check
+		const { version } = this.users[userIndex];
+		if (options.expectedVersion !== undefined && options.expectedVersion !== version) {
+			throw new HttpError(
+				'User has been modified since it was last fetched',
+				412,
+				'Precondition Failed',
+				`/api/users/${id}`
+			);
+		}
+		const { name, email } = this.users[userIndex];
+		const patched = Array.isArray(patch)
+			? applyJsonPatch({ name, email }, patch)
+			: applyMergePatch({ name, email }, patch);
+		this.users[userIndex] = {
+			...this.users[userIndex],
+			...(patched as { name: string; email: string }),
+			version: this.users[userIndex].version + 1
 		};
 		return Promise.resolve(this.users[userIndex]);
 	}
@@ -89,6 +194,10 @@ export class MockHealthApiService implements IHealthApiService {
 	async checkHealth(): Promise<HealthStatus> {
 		return Promise.resolve({ ...mockHealthStatus });
 	}
+
+	async checkLiveness(): Promise<HealthStatus> {
+		return Promise.resolve({ ...mockHealthStatus, checks: [] });
+	}
 }
 
 // Mock Hello API Service
@@ -98,16 +207,93 @@ export class MockHelloApiService implements IHelloApiService {
 	}
 }
 
+// Mock Auth API Service - every mock user signs in with mockPassword
+export const mockPassword = 'password123';
+
+export class MockAuthApiService implements IAuthApiService {
+	private currentUser: UserResource | null = null;
+	private accounts = [...mockUsers];
+
+	async signUp(request: SignUpRequest): Promise<AuthSessionResource> {
+		if (this.accounts.some((u) => u.email === request.email)) {
+			throw new Error('Email is already registered');
+		}
+
+		const user: UserResource = {
+			id: Math.max(...this.accounts.map((u) => u.id)) + 1,
+			name: request.name,
+			email: request.email,
+			createdAt: new Date().toISOString(),
+			version: 1,
+			role: 'member'
+		};
+		this.accounts.push(user);
+		return this.startSession(user);
+	}
+
+	async signIn(request: SignInRequest): Promise<AuthSessionResource> {
+		const user = this.accounts.find((u) => u.email === request.email);
+		if (!user || request.password !== mockPassword) {
+			throw new Error('Invalid email or password');
+		}
+		return this.startSession(user);
+	}
+
+	async signOut(): Promise<void> {
+		this.currentUser = null;
+	}
+
+	async getCurrentUser(): Promise<UserResource> {
+		if (!this.currentUser) {
+			throw new Error('Authentication required');
+		}
+		return { ...this.currentUser };
+	}
+
+	async getSession(): Promise<SessionInfoResource> {
+		const user = this.currentUser;
+		return {
+			user: user ? { ...user } : null,
+			role: user?.role ?? null,
+			permissions: user ? [...rolePermissions[user.role]] : []
+		};
+	}
+
+	isAuthenticated(): boolean {
+		return this.currentUser !== null;
+	}
+
+	private startSession(user: UserResource): AuthSessionResource {
+		this.currentUser = user;
+		return {
+			user: { ...user },
+			tokens: {
+				accessToken: `mock-access-token-${user.id}`,
+				refreshToken: `mock-refresh-token-${user.id}`,
+				tokenType: 'Bearer',
+				expiresIn: 900
+			}
+		};
+	}
+}
+
 // Mock combined API Service
 export class MockApiService implements IApiService {
 	public readonly users: IUserApiService;
 	public readonly health: IHealthApiService;
 	public readonly hello: IHelloApiService;
+	public readonly auth: IAuthApiService;
 
-	constructor(users?: IUserApiService, health?: IHealthApiService, hello?: IHelloApiService) {
+	constructor(
+		users?: IUserApiService,
+		health?: IHealthApiService,
+		hello?: IHelloApiService,
+		auth?: IAuthApiService
+	) {
 		this.users = users || new MockUserApiService();
 		this.health = health || new MockHealthApiService();
 		this.hello = hello || new MockHelloApiService();
+		this.auth = auth || new MockAuthApiService();
 	}
 }
 
@@ -119,9 +305,11 @@ export function createMockUserApi(overrides?: Partial<IUserApiService>): IUserAp
 	// Create a new object that implements the full interface
 	return {
 		getAllUsers: overrides.getAllUsers || mock.getAllUsers.bind(mock),
+		listUsers: overrides.listUsers || mock.listUsers.bind(mock),
 		getUserById: overrides.getUserById || mock.getUserById.bind(mock),
 		createUser: overrides.createUser || mock.createUser.bind(mock),
 		updateUser: overrides.updateUser || mock.updateUser.bind(mock),
+		patchUser: overrides.patchUser || mock.patchUser.bind(mock),
 		deleteUser: overrides.deleteUser || mock.deleteUser.bind(mock)
 	};
 }
@@ -131,7 +319,8 @@ export function createMockHealthApi(overrides?: Partial<IHealthApiService>): IHe
 	if (!overrides) return mock;
 
 	return {
-		checkHealth: overrides.checkHealth || mock.checkHealth.bind(mock)
+		checkHealth: overrides.checkHealth || mock.checkHealth.bind(mock),
+		checkLiveness: overrides.checkLiveness || mock.checkLiveness.bind(mock)
 	};
 }
 
@@ -144,12 +333,74 @@ export function createMockHelloApi(overrides?: Partial<IHelloApiService>): IHell
 	};
 }
 
+export function createMockAuthApi(overrides?: Partial<IAuthApiService>): IAuthApiService {
+	const mock = new MockAuthApiService();
+	if (!overrides) return mock;
+
+	return {
+		signUp: overrides.signUp || mock.signUp.bind(mock),
+		signIn: overrides.signIn || mock.signIn.bind(mock),
+		signOut: overrides.signOut || mock.signOut.bind(mock),
+		getCurrentUser: overrides.getCurrentUser || mock.getCurrentUser.bind(mock),
+		getSession: overrides.getSession || mock.getSession.bind(mock),
+		isAuthenticated: overrides.isAuthenticated || mock.isAuthenticated.bind(mock)
+	};
+}
+
+// Mock Session Store - signed in as the given mock user (admin John by default)
+export class MockSessionStore implements ISessionStore {
+	user: UserResource | null = null;
+	role: UserRole | null = null;
+	permissions: Permission[] = [];
+	loaded = true;
+
+	constructor(user: UserResource | null = mockUsers[0]) {
+		this.setUser(user);
+	}
+
+	can(permission: Permission): boolean {
+		return this.permissions.includes(permission);
+	}
+
+	async load(): Promise<void> {}
+
+	async signIn(request: SignInRequest): Promise<void> {
+		const user = mockUsers.find((u) => u.email === request.email);
+		if (!user || request.password !== mockPassword) {
+			throw new Error('Invalid email or password');
+		}
+		this.setUser(user);
+	}
+
+	async signUp(request: SignUpRequest): Promise<void> {
+		this.setUser({
+			id: mockUsers.length + 1,
+			name: request.name,
+			email: request.email,
+			createdAt: new Date().toISOString(),
+			version: 1,
+			role: 'member'
+		});
+	}
+
+	async signOut(): Promise<void> {
+		this.setUser(null);
+	}
+
+	private setUser(user: UserResource | null): void {
+		this.user = user;
+		this.role = user?.role ?? null;
+		this.permissions = user ? [...rolePermissions[user.role]] : [];
+	}
+}
+
 export function createMockApi(overrides?: {
 	users?: IUserApiService;
 	health?: IHealthApiService;
 	hello?: IHelloApiService;
+	auth?: IAuthApiService;
 }): IApiService {
-	return new MockApiService(overrides?.users, overrides?.health, overrides?.hello);
+	return new MockApiService(overrides?.users, overrides?.health, overrides?.hello, overrides?.auth);
 }
 
 // Helper to create a test container with mock services (for Svelte component testing)
@@ -162,6 +413,10 @@ export async function createMockContainer() {
 	container.bind(TYPES.UserApiService).toConstantValue(new MockUserApiService());
 	container.bind(TYPES.HealthApiService).toConstantValue(new MockHealthApiService());
 	container.bind(TYPES.HelloApiService).toConstantValue(new MockHelloApiService());
+	container.bind(TYPES.AuthApiService).toConstantValue(new MockAuthApiService());
+	container.bind(TYPES.SessionStore).toConstantValue(new MockSessionStore());
+	// The real cache: it only holds what the mock services return
+	container.bind(TYPES.QueryCache).toConstantValue(new QueryCache());
 	container.bind(TYPES.ApiService).toConstantValue(new MockApiService());
 
 	return container;
@@ -174,6 +429,10 @@ export function createMockContainerSync() {
 	container.bind(TYPES.UserApiService).toConstantValue(new MockUserApiService());
 	container.bind(TYPES.HealthApiService).toConstantValue(new MockHealthApiService());
 	container.bind(TYPES.HelloApiService).toConstantValue(new MockHelloApiService());
+	container.bind(TYPES.AuthApiService).toConstantValue(new MockAuthApiService());
+	container.bind(TYPES.SessionStore).toConstantValue(new MockSessionStore());
+	// The real cache: it only holds what the mock services return
+	container.bind(TYPES.QueryCache).toConstantValue(new QueryCache());
 	container.bind(TYPES.ApiService).toConstantValue(new MockApiService());
 
 	return container;
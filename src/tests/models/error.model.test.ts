@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
 import {
 	ValidationError,
 	NotFoundError,
@@ -6,7 +7,10 @@ import {
 	UnauthorizedError,
 	ForbiddenError,
 	ConflictError,
+	PreconditionFailedError,
+	UnsupportedMediaTypeError,
 	InternalServerError,
+	errorCodes,
 	errorNames
 } from '../../models/error.model';
 
@@ -58,6 +62,20 @@ describe('error.model', () => {
 		expect(err.message).toBe('conflict');
 	});
 
+	it('should construct PreconditionFailedError with correct name', () => {
+		const err = new PreconditionFailedError('stale');
+		expect(err).toBeInstanceOf(Error);
+		expect(err.name).toBe('PreconditionFailedError');
+		expect(err.message).toBe('stale');
+	});
+
+	it('should construct UnsupportedMediaTypeError with correct name', () => {
+		const err = new UnsupportedMediaTypeError('unsupported');
+		expect(err).toBeInstanceOf(Error);
+		expect(err.name).toBe('UnsupportedMediaTypeError');
+		expect(err.message).toBe('unsupported');
+	});
+
 	it('should construct InternalServerError with correct name', () => {
 		const err = new InternalServerError('boom');
 		expect(err).toBeInstanceOf(Error);
@@ -72,6 +90,31 @@ describe('error.model', () => {
 		expect(errorNames.UnauthorizedError).toBe(401);
 		expect(errorNames.ForbiddenError).toBe(403);
 		expect(errorNames.ConflictError).toBe(409);
+		expect(errorNames.PreconditionFailedError).toBe(412);
+		expect(errorNames.UnsupportedMediaTypeError).toBe(415);
+		expect(errorNames.UnprocessableEntityError).toBe(422);
+		expect(errorNames.TooManyRequestsError).toBe(429);
 		expect(errorNames.InternalServerError).toBe(500);
 	});
+
+	it('should map error names to default problem codes', () => {
+		expect(errorCodes.ValidationError).toBe('validation_failed');
+		expect(errorCodes.NotFoundError).toBe('not_found');
+		expect(errorCodes.PreconditionFailedError).toBe('precondition_failed');
+		expect(errorCodes.InternalServerError).toBe('internal_error');
+	});
+
+	it('should build ValidationError field errors from Zod issues', () => {
+		const result = z
+			.object({ name: z.string().min(1, 'Name is required'), tags: z.array(z.string()) })
+			.safeParse({ name: '', tags: [1] });
+		if (result.success) throw new Error('expected validation to fail');
+
+		const err = ValidationError.fromZodError(result.error);
+		expect(err.message).toContain('Name is required');
+		expect(err.errors).toEqual([
+			{ field: 'name', message: 'Name is required', code: 'too_small' },
+			{ field: 'tags.0', message: expect.any(String), code: 'invalid_type' }
+		]);
+	});
 });
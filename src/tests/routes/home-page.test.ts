@@ -0,0 +1,70 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/svelte';
+import { describe, expect, it, vi } from 'vitest';
+import { TYPES } from '../../container/types';
+import { HttpError } from '../../interfaces/http-client.interface';
+import HomePage from '../../routes/+page.svelte';
+import TestWrapper from '../helpers/TestWrapper.svelte';
+import { createMockContainerSync, MockUserApiService } from '../mocks/api.mock';
+
+describe('/ page', () => {
+	const renderPage = (userApi: MockUserApiService) => {
+		const container = createMockContainerSync();
+		container.rebindSync(TYPES.UserApiService).toConstantValue(userApi);
+		return render(TestWrapper, { props: { container, component: HomePage } });
+	};
+
+	const addUser = async (name: string, email: string) => {
+		await fireEvent.input(screen.getByTestId('name-input'), { target: { value: name } });
+		await fireEvent.input(screen.getByTestId('email-input'), { target: { value: email } });
+		await fireEvent.submit(screen.getByTestId('user-form'));
+	};
+
+	it('should keep the form filled and offer Retry when adding a user fails', async () => {
+		const userApi = new MockUserApiService();
+		vi.spyOn(userApi, 'createUser').mockRejectedValueOnce(new Error('Service unavailable'));
+		renderPage(userApi);
+
+		await addUser('Retry Me', 'retry@example.com');
+
+		await waitFor(() =>
+			expect(screen.getByTestId('create-error')).toHaveTextContent(
+				'Could not add the user: Service unavailable. It was removed from the list.'
+			)
+		);
+		expect(screen.getByTestId('email-input')).toHaveValue('retry@example.com');
+		expect(screen.queryByText('Retry Me')).not.toBeInTheDocument();
+
+		await fireEvent.click(screen.getByTestId('create-error-retry'));
+
+		await waitFor(() => expect(screen.getByText('Retry Me')).toBeInTheDocument());
+		expect(screen.queryByTestId('create-error')).not.toBeInTheDocument();
+		expect(screen.getByTestId('email-input')).toHaveValue('');
+	});
+
+	it('should show field errors in the form instead of offering Retry', async () => {
+		const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const problem = {
+			type: 'urn:problem-type:email_taken',
+			title: 'Conflict',
+			status: 409,
+			detail: 'Email is already registered',
+			instance: '/api/users',
+			code: 'email_taken',
+			errors: [{ field: 'email', message: 'Email is already registered', code: 'email_taken' }]
+		};
+		const userApi = new MockUserApiService();
+		vi.spyOn(userApi, 'createUser').mockRejectedValueOnce(
+			new HttpError(problem.detail, 409, 'Conflict', '/api/users', problem, problem)
+		);
+		renderPage(userApi);
+
+		await addUser('Taken', 'taken@example.com');
+
+		await waitFor(() =>
+			expect(screen.getByTestId('email-error')).toHaveTextContent('Email is already registered')
+		);
+		expect(screen.queryByTestId('create-error')).not.toBeInTheDocument();
+
+		consoleErrorSpy.mockRestore();
+	});
+});
@@ -0,0 +1,90 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/svelte';
+import { describe, expect, it, vi } from 'vitest';
+import { TYPES } from '../../container/types';
+import UserPage from '../../routes/users/[id]/+page.svelte';
+import TestWrapper from '../helpers/TestWrapper.svelte';
+import { createMockContainerSync, MockUserApiService, mockUsers } from '../mocks/api.mock';
+
+describe('/users/[id] page', () => {
+	const renderPage = (userApi: MockUserApiService) => {
+		const container = createMockContainerSync();
+		container.rebindSync(TYPES.UserApiService).toConstantValue(userApi);
+		// As loaded on the server
+		const data = { user: { ...mockUsers[0] } };
+		return render(TestWrapper, { props: { container, component: UserPage, props: { data } } });
+	};
+
+	const edit = async (name: string) => {
+		await fireEvent.click(screen.getByTestId('edit-button'));
+		await fireEvent.input(screen.getByTestId('name-input'), { target: { value: name } });
+		await fireEvent.submit(screen.getByTestId('user-form'));
+	};
+
+	it('should save with the loaded version and guard the next save with the new one', async () => {
+		const userApi = new MockUserApiService();
+		const patchUser = vi.spyOn(userApi, 'patchUser');
+		renderPage(userApi);
+
+		await edit('John Renamed');
+		await waitFor(() => expect(screen.getByTestId('user-name')).toHaveTextContent('John Renamed'));
+		expect(patchUser).toHaveBeenLastCalledWith(
+			mockUsers[0].id,
+			{ name: 'John Renamed', email: mockUsers[0].email },
+			{ expectedVersion: mockUsers[0].version }
+		);
+
+		await edit('John Again');
+		await waitFor(() => expect(screen.getByTestId('user-name')).toHaveTextContent('John Again'));
+		expect(patchUser.mock.lastCall?.[2]).toEqual({ expectedVersion: mockUsers[0].version + 1 });
+	});
+
+	it('should show an error instead of overwriting a concurrent edit', async () => {
+		const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const userApi = new MockUserApiService();
+		// Someone else saves after the page was rendered
+		await userApi.patchUser(mockUsers[0].id, { name: 'Changed elsewhere' });
+		renderPage(userApi);
+
+		await edit('Mine');
+
+		await waitFor(() =>
+			expect(screen.getByTestId('form-error')).toHaveTextContent('Someone else changed this user')
+		);
+		expect((await userApi.getUserById(mockUsers[0].id)).name).toBe('Changed elsewhere');
+
+		consoleErrorSpy.mockRestore();
+	});
+
+	it('should keep the edits and offer Retry when a save fails', async () => {
+		const userApi = new MockUserApiService();
+		vi.spyOn(userApi, 'patchUser').mockRejectedValueOnce(new Error('Service unavailable'));
+		renderPage(userApi);
+
+		await edit('John Retried');
+
+		await waitFor(() =>
+			expect(screen.getByTestId('update-error')).toHaveTextContent(
+				'Could not save the user: Service unavailable.'
+			)
+		);
+		expect(screen.getByTestId('name-input')).toHaveValue('John Retried');
+		expect(screen.queryByTestId('form-error')).not.toBeInTheDocument();
+
+		await fireEvent.click(screen.getByTestId('update-error-retry'));
+		await waitFor(() => expect(screen.getByTestId('user-name')).toHaveTextContent('John Retried'));
+		expect(screen.queryByTestId('update-error')).not.toBeInTheDocument();
+	});
+
+	it('should dismiss a failed save', async () => {
+		const userApi = new MockUserApiService();
+		vi.spyOn(userApi, 'patchUser').mockRejectedValueOnce(new Error('Service unavailable'));
+		renderPage(userApi);
+
+		await edit('John Dismissed');
+		await waitFor(() => expect(screen.getByTestId('update-error')).toBeInTheDocument());
+
+		await fireEvent.click(screen.getByLabelText('Dismiss error'));
+		expect(screen.queryByTestId('update-error')).not.toBeInTheDocument();
+		expect(screen.getByTestId('name-input')).toHaveValue('John Dismissed');
+	});
+});
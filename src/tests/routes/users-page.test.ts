@@ -0,0 +1,62 @@
+import { isHttpError } from '@sveltejs/kit';
+import 'reflect-metadata';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { container } from '../../container/inversify.server';
+import { TYPES } from '../../container/types';
+import { load } from '../../routes/users/+page.server';
+import { MemoryLogSink } from '../../services/log.sink';
+
+type LoadEvent = Parameters<typeof load>[0];
+type LoadResult = Exclude<Awaited<ReturnType<typeof load>>, void>;
+
+const loadUsers = async (search: string) => {
+	const url = new URL(`http://localhost/users${search}`);
+	return (await load({ url, request: new Request(url), params: {} } as LoadEvent)) as LoadResult;
+};
+
+const loadError = async (search: string) => {
+	try {
+		await loadUsers(search);
+	} catch (err) {
+		if (isHttpError(err)) return err;
+		throw err;
+	}
+	throw new Error('Expected the load to fail');
+};
+
+describe('/users page load', () => {
+	// Keeps the user service's JSON logs off stdout
+	beforeAll(() => {
+		container.snapshot();
+		container.rebindSync(TYPES.LogSink).toConstantValue(new MemoryLogSink());
+	});
+
+	afterAll(() => {
+		container.restore();
+	});
+
+	it('should render users from the user service', async () => {
+		const { users, pagination } = await loadUsers('?limit=1&sort=name');
+
+		expect(users).toHaveLength(1);
+		expect(typeof users[0].createdAt).toBe('string');
+		expect(pagination.nextCursor).toEqual(expect.any(String));
+	});
+
+	it('should answer 400 for invalid filters and malformed cursors', async () => {
+		expect(await loadError('?pageSize=1000')).toMatchObject({ status: 400 });
+		expect(await loadError('?cursor=garbage')).toMatchObject({
+			status: 400,
+			body: { message: 'Invalid cursor' }
+		});
+	});
+
+	it('should answer 400 for a cursor from another sort order', async () => {
+		const { pagination } = await loadUsers('?limit=1&sort=name');
+
+		expect(await loadError(`?sort=email&cursor=${pagination.nextCursor}`)).toMatchObject({
+			status: 400,
+			body: { message: 'Cursor does not match the requested sort order' }
+		});
+	});
+});
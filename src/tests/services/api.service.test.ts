@@ -0,0 +1,202 @@
+import 'reflect-metadata';
+import type { RequestEvent } from '@sveltejs/kit';
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+	type MockedFunction
+} from 'vitest';
+import { container } from '../../container/inversify.server';
+import { TYPES } from '../../container/types';
+import { userQueryKeys, type UserResource } from '../../interfaces/api.interface';
+import { HttpError, ResponseValidationError } from '../../interfaces/http-client.interface';
+import { GET } from '../../routes/api/[...paths]/+server';
+import {
+	AuthApiService,
+	HealthApiService,
+	UserApiService
+} from '../../services/client/api.service';
+import { HttpClient } from '../../services/client/http-client.service';
+import { QueryCache } from '../../services/client/query-cache.svelte';
+import { MemoryLogSink } from '../../services/log.sink';
+import { issueAccessToken } from '../helpers/auth';
+
+const fetchMock = global.fetch as MockedFunction<typeof fetch>;
+
+describe('RPC client services', () => {
+	let httpClient: HttpClient;
+	let users: UserApiService;
+
+	// Keeps the server's JSON logs off stdout
+	beforeAll(() => {
+		container.snapshot();
+		container.rebindSync(TYPES.LogSink).toConstantValue(new MemoryLogSink());
+	});
+
+	afterAll(() => {
+		container.restore();
+	});
+
+	beforeEach(async () => {
+		// Route every request into the real Hono app (each exported handler forwards to app.fetch)
+		fetchMock.mockImplementation(async (input, init) =>
+			GET({ request: new Request(input, init) } as RequestEvent)
+		);
+		httpClient = new HttpClient('http://localhost/api');
+		// Signed in as the seeded admin so user writes are allowed
+		httpClient.setTokens({ accessToken: await issueAccessToken(), refreshToken: 'unused' });
+		users = new UserApiService(httpClient);
+	});
+
+	it('should list users with query params and pagination', async () => {
+		const result = await users.listUsers({ sort: 'name', order: 'desc', limit: 1 });
+
+		expect(fetchMock.mock.calls[0][0]).toBe(
+			'http://localhost/api/users?sort=name&order=desc&limit=1'
+		);
+		expect(result.items).toHaveLength(1);
+		expect(result.pagination.limit).toBe(1);
+		expect(result.pagination.nextCursor).toEqual(expect.any(String));
+	});
+
+	it('should follow the cursor through every page when loading all users', async () => {
+		const { pagination } = await users.listUsers();
+		// One user per page, so the seeded users span several pages
+		const listPage = users.listUsers.bind(users);
+		const listUsers = vi
+			.spyOn(users, 'listUsers')
+			.mockImplementation((query) => listPage({ ...query, limit: 1 }));
+
+		const all = await users.getAllUsers({ sort: 'name' });
+
+		expect(pagination.total).toBeGreaterThan(1);
+		expect(all).toHaveLength(pagination.total);
+		expect(listUsers).toHaveBeenCalledTimes(pagination.total);
+		expect(all.map((user) => user.name)).toEqual(all.map((user) => user.name).sort());
+	});
+
+	it('should return the full user resource, including createdAt and version', async () => {
+		const created = await users.createUser({ name: 'Rpc User', email: 'rpc@example.com' });
+
+		expect(created).toMatchObject({ name: 'Rpc User', email: 'rpc@example.com', version: 1 });
+		expect(typeof created.createdAt).toBe('string');
+
+		const fetched = await users.getUserById(created.id);
+		expect(fetched).toEqual(created);
+	});
+
+	it('should send patches with the matching media type and track ETags', async () => {
+		const created = await users.createUser({ name: 'Patch Me', email: 'patch-rpc@example.com' });
+
+		const merged = await users.patchUser(created.id, { name: 'Merged' });
+		const patched = await users.patchUser(created.id, [
+			{ op: 'replace', path: '/email', value: 'patched-rpc@example.com' }
+		]);
+
+		const [, mergeInit] = fetchMock.mock.calls[1];
+		const [, jsonPatchInit] = fetchMock.mock.calls[2];
+		expect(mergeInit?.headers).toMatchObject({ 'content-type': 'application/merge-patch+json' });
+		expect(jsonPatchInit?.headers).toMatchObject({
+			'content-type': 'application/json-patch+json',
+			'If-Match': '"v2"'
+		});
+		expect(merged.name).toBe('Merged');
+		expect(patched).toMatchObject({ email: 'patched-rpc@example.com', version: 3 });
+	});
+
+	it('should guard a patch with the expected version', async () => {
+		const created = await users.createUser({ name: 'Guarded', email: 'guarded@example.com' });
+		// Another client edits the user; this one still holds version 1 (e.g. server-rendered)
+		await users.patchUser(created.id, { name: 'Someone else' });
+		httpClient.clearETags();
+
+		await expect(
+			users.patchUser(created.id, { name: 'Mine' }, { expectedVersion: 1 })
+		).rejects.toMatchObject({ status: 412 });
+		expect(fetchMock.mock.lastCall?.[1]?.headers).toMatchObject({ 'if-match': '"v1"' });
+
+		const saved = await users.patchUser(created.id, { name: 'Mine' }, { expectedVersion: 2 });
+		expect(saved).toMatchObject({ name: 'Mine', version: 3 });
+	});
+
+	it('should surface API errors as HttpError', async () => {
+		await expect(users.getUserById(99999)).rejects.toThrow(HttpError);
+		await expect(users.createUser({ name: '', email: 'bad' })).rejects.toMatchObject({
+			status: 400
+		});
+	});
+
+	it('should reject responses that no longer match the user contract', async () => {
+		const created = await users.createUser({ name: 'Drift', email: 'drift@example.com' });
+		const withoutEmail: Partial<typeof created> = { ...created };
+		delete withoutEmail.email;
+		fetchMock.mockResolvedValueOnce(
+			new Response(JSON.stringify({ success: true, data: withoutEmail, timestamp: 'now' }), {
+				headers: { 'Content-Type': 'application/json' }
+			})
+		);
+
+		const error = await users.getUserById(created.id).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ResponseValidationError);
+		expect(error).toMatchObject({ path: 'data.email' });
+	});
+
+	it('should keep the query cache in step with user writes', async () => {
+		const queryCache = new QueryCache();
+		const cachedUsers = new UserApiService(httpClient, queryCache);
+		const stop = queryCache.observe(userQueryKeys.list(), () => cachedUsers.getAllUsers());
+		await vi.waitFor(() => expect(queryCache.get(userQueryKeys.list()).updatedAt).not.toBeNull());
+
+		const created = await cachedUsers.createUser({ name: 'Cached', email: 'cached@example.com' });
+		expect(queryCache.get(userQueryKeys.detail(created.id)).data).toEqual(created);
+		expect(queryCache.get<UserResource[]>(userQueryKeys.list()).data).toContainEqual(created);
+
+		await cachedUsers.deleteUser(created.id);
+		expect(queryCache.get(userQueryKeys.detail(created.id)).data).toBeUndefined();
+		expect(
+			queryCache.get<UserResource[]>(userQueryKeys.list()).data?.map((user) => user.id)
+		).not.toContain(created.id);
+		stop();
+	});
+
+	it('should type health responses from the server', async () => {
+		const healthApi = new HealthApiService(httpClient);
+		const health = await healthApi.checkHealth();
+		expect(health.status).toMatch(/^(pass|warn)$/);
+		expect(health.checks.map((check) => check.name)).toContain('database');
+		expect(await healthApi.checkLiveness()).toMatchObject({ status: 'pass', checks: [] });
+	});
+
+	it('should keep session tokens on the HttpClient through sign-in and sign-out', async () => {
+		const auth = new AuthApiService(httpClient);
+		const session = await auth.signUp({
+			name: 'Rpc Auth',
+			email: 'rpc-auth@example.com',
+			password: 'rpc-password'
+		});
+
+		expect(auth.isAuthenticated()).toBe(true);
+		expect(httpClient.getTokens()?.accessToken).toBe(session.tokens.accessToken);
+		expect(await auth.getCurrentUser()).toEqual(session.user);
+		expect(await auth.getSession()).toEqual({
+			user: session.user,
+			role: 'member',
+			permissions: ['users:create']
+		});
+
+		// An expired access token is refreshed transparently
+		httpClient.setTokens({ ...session.tokens, accessToken: 'expired' });
+		expect((await auth.getCurrentUser()).id).toBe(session.user.id);
+		expect(httpClient.getTokens()?.refreshToken).not.toBe(session.tokens.refreshToken);
+
+		await auth.signOut();
+		expect(auth.isAuthenticated()).toBe(false);
+		await expect(auth.getCurrentUser()).rejects.toMatchObject({ status: 401 });
+		expect((await auth.getSession()).permissions).toEqual([]);
+	});
+});
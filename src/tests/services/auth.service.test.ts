@@ -0,0 +1,283 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Container } from 'inversify';
+import { TYPES } from '../../container/types';
+import type {
+	IAuthRepository,
+	IAuthService,
+	IPasswordHasher,
+	ITokenService
+} from '../../interfaces/auth.interface';
+import type { IConfigService } from '../../interfaces/config.interface';
+import type { ILogger } from '../../interfaces/logger.interface';
+import type { IMetricsRegistry } from '../../interfaces/metrics.interface';
+import type { IUserRepository, IUserService } from '../../interfaces/user.interface';
+import { ConflictError, UnauthorizedError, ValidationError } from '../../models/error.model';
+import { AuthRepository } from '../../services/auth.repository';
+import { AuthService } from '../../services/auth.service';
+import { MetricsRegistry } from '../../services/metrics.registry';
+import { PasswordHasher } from '../../services/password.hasher';
+import { TokenService } from '../../services/token.service';
+import { UserRepository } from '../../services/user.repository';
+import { UserService } from '../../services/user.service';
+
+const authConfig = {
+	jwtSecret: 'test-secret',
+	issuer: 'test',
+	accessTokenTtl: 60,
+	refreshTokenTtl: 3600
+};
+
+describe('PasswordHasher', () => {
+	// Few iterations keep the tests fast; the format is the same
+	const hasher = new PasswordHasher(1000);
+
+	it('should verify the original password only', async () => {
+		const hash = await hasher.hash('correct horse');
+
+		expect(hash).toMatch(/^pbkdf2-sha256\$1000\$[^$]+\$[^$]+$/);
+		expect(await hasher.verify('correct horse', hash)).toBe(true);
+		expect(await hasher.verify('wrong horse', hash)).toBe(false);
+	});
+
+	it('should salt every hash', async () => {
+		expect(await hasher.hash('same')).not.toBe(await hasher.hash('same'));
+	});
+
+	it('should honour the iteration count stored in the hash', async () => {
+		const hash = await new PasswordHasher(2000).hash('secret');
+		expect(await hasher.verify('secret', hash)).toBe(true);
+	});
+
+	it('should reject malformed hashes', async () => {
+		expect(await hasher.verify('secret', 'plain-text')).toBe(false);
+		expect(await hasher.verify('secret', 'pbkdf2-sha256$x$y$z')).toBe(false);
+	});
+});
+
+describe('TokenService', () => {
+	let tokenService: TokenService;
+	let config: IConfigService;
+
+	beforeEach(() => {
+		config = { getAuthConfig: vi.fn(() => authConfig) } as unknown as IConfigService;
+		tokenService = new TokenService(config);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should round-trip the principal through an access token', async () => {
+		const token = await tokenService.issueAccessToken({ userId: 7, email: 'a@example.com' });
+
+		expect(token.split('.')).toHaveLength(3);
+		expect(await tokenService.verifyAccessToken(token)).toEqual({
+			userId: 7,
+			email: 'a@example.com'
+		});
+	});
+
+	it('should reject tampered, foreign and expired tokens', async () => {
+		const token = await tokenService.issueAccessToken({ userId: 7, email: 'a@example.com' });
+		const [header, , signature] = token.split('.');
+		const forged = [header, btoa(JSON.stringify({ sub: '1' })), signature].join('.');
+
+		await expect(tokenService.verifyAccessToken(forged)).rejects.toThrow(UnauthorizedError);
+
+		const foreign = new TokenService({
+			getAuthConfig: () => ({ ...authConfig, jwtSecret: 'other-secret' })
+		} as unknown as IConfigService);
+		await expect(foreign.verifyAccessToken(token)).rejects.toThrow(UnauthorizedError);
+
+		vi.useFakeTimers();
+		vi.setSystemTime(Date.now() + 61_000);
+		await expect(tokenService.verifyAccessToken(token)).rejects.toThrow(
+			'Invalid or expired access token'
+		);
+	});
+
+	it('should generate distinct refresh tokens and hash them deterministically', async () => {
+		const token = tokenService.generateRefreshToken();
+
+		expect(token).not.toBe(tokenService.generateRefreshToken());
+		expect(await tokenService.hashRefreshToken(token)).toBe(
+			await tokenService.hashRefreshToken(token)
+		);
+		expect(await tokenService.hashRefreshToken(token)).toMatch(/^[0-9a-f]{64}$/);
+	});
+});
+
+describe('AuthService', () => {
+	let authService: IAuthService;
+	let authRepository: IAuthRepository;
+
+	beforeEach(() => {
+		const container = new Container();
+		authRepository = new AuthRepository();
+
+		container.bind<IUserRepository>(TYPES.UserRepository).toConstantValue(new UserRepository());
+		container.bind<IUserService>(TYPES.UserService).to(UserService);
+		container.bind<IMetricsRegistry>(TYPES.MetricsRegistry).toConstantValue(new MetricsRegistry());
+		container.bind<IAuthRepository>(TYPES.AuthRepository).toConstantValue(authRepository);
+		container.bind<IPasswordHasher>(TYPES.PasswordHasher).toConstantValue(new PasswordHasher(1000));
+		container.bind<ITokenService>(TYPES.TokenService).to(TokenService);
+		container
+			.bind<IConfigService>(TYPES.ConfigService)
+			.toConstantValue({ getAuthConfig: () => authConfig } as unknown as IConfigService);
+		container.bind<ILogger>(TYPES.Logger).toConstantValue({
+			info: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+			debug: vi.fn(),
+			child: vi.fn()
+		});
+		container.bind<IAuthService>(TYPES.AuthService).to(AuthService);
+
+		authService = container.get<IAuthService>(TYPES.AuthService);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	const signUp = () =>
+		authService.signUp({ name: 'Ada Lovelace', email: 'ada@example.com', password: 'analytical' });
+
+	describe('signUp', () => {
+		it('should create the user, store a hashed password and start a session', async () => {
+			const session = await signUp();
+
+			expect(session.user).toMatchObject({ id: 3, email: 'ada@example.com' });
+			expect(session.tokens).toMatchObject({ tokenType: 'Bearer', expiresIn: 60 });
+
+			const credential = await authRepository.findCredential(session.user.id);
+			expect(credential?.passwordHash).not.toContain('analytical');
+			expect(await authService.authenticate(session.tokens.accessToken)).toEqual({
+				userId: 3,
+				email: 'ada@example.com'
+			});
+		});
+
+		it('should remove the user again when the credential cannot be saved', async () => {
+			vi.spyOn(authRepository, 'saveCredential').mockRejectedValueOnce(new Error('D1 is down'));
+
+			await expect(signUp()).rejects.toThrow('D1 is down');
+
+			// The email is free again, so the sign-up can simply be retried
+			const session = await signUp();
+			expect(session.user.email).toBe('ada@example.com');
+			expect(await authRepository.findCredential(session.user.id)).not.toBeNull();
+		});
+
+		it('should reject taken emails regardless of case', async () => {
+			await expect(
+				authService.signUp({ name: 'John', email: 'JOHN@example.com', password: 'long enough' })
+			).rejects.toThrow(ConflictError);
+		});
+
+		it('should validate the request', async () => {
+			await expect(
+				authService.signUp({ name: 'Ada', email: 'not-an-email', password: 'short' })
+			).rejects.toThrow(ValidationError);
+		});
+	});
+
+	describe('signIn', () => {
+		it('should sign in with the right password only', async () => {
+			await signUp();
+
+			const session = await authService.signIn({
+				email: 'ada@example.com',
+				password: 'analytical'
+			});
+			expect(session.user.email).toBe('ada@example.com');
+
+			await expect(
+				authService.signIn({ email: 'ada@example.com', password: 'wrong password' })
+			).rejects.toThrow('Invalid email or password');
+		});
+
+		it('should give the same error for unknown emails and users without a password', async () => {
+			await expect(
+				authService.signIn({ email: 'nobody@example.com', password: 'whatever' })
+			).rejects.toThrow('Invalid email or password');
+			await expect(
+				authService.signIn({ email: 'john@example.com', password: 'whatever' })
+			).rejects.toThrow('Invalid email or password');
+		});
+
+		it('should hash the password even when there is no credential to check', async () => {
+			const verify = vi.spyOn(PasswordHasher.prototype, 'verify');
+
+			await expect(
+				authService.signIn({ email: 'nobody@example.com', password: 'whatever' })
+			).rejects.toThrow('Invalid email or password');
+			await expect(
+				authService.signIn({ email: 'john@example.com', password: 'whatever' })
+			).rejects.toThrow('Invalid email or password');
+
+			expect(verify).toHaveBeenCalledTimes(2);
+			for (const [password, hash] of verify.mock.calls) {
+				expect(password).toBe('whatever');
+				expect(hash).toMatch(/^pbkdf2-sha256\$100000\$/);
+			}
+			expect(await verify.mock.results[0].value).toBe(false);
+			verify.mockRestore();
+		});
+	});
+
+	describe('refresh', () => {
+		it('should rotate the refresh token', async () => {
+			const { tokens } = await signUp();
+			const rotated = await authService.refresh(tokens.refreshToken);
+
+			expect(rotated.refreshToken).not.toBe(tokens.refreshToken);
+			expect(await authService.authenticate(rotated.accessToken)).toMatchObject({ userId: 3 });
+		});
+
+		it('should revoke the whole family when a rotated token is reused', async () => {
+			const { tokens } = await signUp();
+			const rotated = await authService.refresh(tokens.refreshToken);
+
+			await expect(authService.refresh(tokens.refreshToken)).rejects.toThrow(
+				'Refresh token has already been used'
+			);
+			await expect(authService.refresh(rotated.refreshToken)).rejects.toThrow(
+				'Invalid refresh token'
+			);
+		});
+
+		it('should only let one of two concurrent refreshes win', async () => {
+			const { tokens } = await signUp();
+
+			const results = await Promise.allSettled([
+				authService.refresh(tokens.refreshToken),
+				authService.refresh(tokens.refreshToken)
+			]);
+
+			expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+		});
+
+		it('should reject unknown and expired tokens', async () => {
+			await expect(authService.refresh('unknown')).rejects.toThrow(UnauthorizedError);
+
+			const { tokens } = await signUp();
+			vi.useFakeTimers();
+			vi.setSystemTime(Date.now() + 3601_000);
+			await expect(authService.refresh(tokens.refreshToken)).rejects.toThrow(
+				'Refresh token has expired'
+			);
+		});
+	});
+
+	describe('signOut', () => {
+		it('should revoke the session and ignore unknown tokens', async () => {
+			const { tokens } = await signUp();
+
+			await authService.signOut(tokens.refreshToken);
+			await expect(authService.refresh(tokens.refreshToken)).rejects.toThrow(UnauthorizedError);
+			await expect(authService.signOut('unknown')).resolves.toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,114 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ITokenService } from '../../interfaces/auth.interface';
+import type { ILogger } from '../../interfaces/logger.interface';
+import { ForbiddenError, UnauthorizedError } from '../../models/error.model';
+import { hasPermission } from '../../models/role.model';
+import { AuthorizationService } from '../../services/authorization.service';
+import {
+	BearerTokenPrincipalResolver,
+	ChainedPrincipalResolver,
+	signPrincipalHeader,
+	SignedHeaderPrincipalResolver
+} from '../../services/principal.resolver';
+import { UserRepository } from '../../services/user.repository';
+
+const logger: ILogger = {
+	info: vi.fn(),
+	warn: vi.fn(),
+	error: vi.fn(),
+	debug: vi.fn(),
+	child: vi.fn()
+};
+
+const admin = { userId: 1, email: 'john@example.com' };
+const member = { userId: 2, email: 'jane@example.com' };
+
+describe('hasPermission', () => {
+	it('should follow the role matrix', () => {
+		expect(hasPermission('admin', 'users:delete')).toBe(true);
+		expect(hasPermission('member', 'users:create')).toBe(true);
+		expect(hasPermission('member', 'users:update')).toBe(false);
+		expect(hasPermission('member', 'users:delete')).toBe(false);
+		expect(hasPermission('viewer', 'users:create')).toBe(false);
+		expect(hasPermission(null, 'users:create')).toBe(false);
+	});
+});
+
+describe('AuthorizationService', () => {
+	let userRepository: UserRepository;
+	let authorizationService: AuthorizationService;
+
+	beforeEach(() => {
+		userRepository = new UserRepository();
+		authorizationService = new AuthorizationService(userRepository, logger);
+	});
+
+	it('should resolve the role and permissions of the caller', async () => {
+		expect(await authorizationService.getRole(admin)).toBe('admin');
+		expect(await authorizationService.getPermissions(member)).toEqual(['users:create']);
+		expect(await authorizationService.getPermissions(null)).toEqual([]);
+	});
+
+	it('should reject anonymous callers with 401 and missing permissions with 403', async () => {
+		await expect(authorizationService.authorize(null, 'users:create')).rejects.toThrow(
+			UnauthorizedError
+		);
+		await expect(authorizationService.authorize(member, 'users:delete')).rejects.toThrow(
+			ForbiddenError
+		);
+		await expect(authorizationService.authorize(admin, 'users:delete')).resolves.toBeUndefined();
+	});
+
+	it('should apply role changes and deletions immediately', async () => {
+		await userRepository.update(2, { role: 'viewer' });
+		expect(await authorizationService.can(member, 'users:create')).toBe(false);
+
+		await userRepository.delete(1);
+		expect(await authorizationService.getRole(admin)).toBeNull();
+	});
+});
+
+describe('Principal resolvers', () => {
+	const request = (headers: Record<string, string> = {}) =>
+		new Request('http://localhost/api/users', { headers });
+
+	it('should resolve Bearer tokens through the token service', async () => {
+		const tokenService = {
+			verifyAccessToken: vi.fn(async () => admin)
+		} as unknown as ITokenService;
+		const resolver = new BearerTokenPrincipalResolver(tokenService);
+
+		expect(await resolver.resolve(request({ Authorization: 'Bearer abc' }))).toEqual(admin);
+		expect(tokenService.verifyAccessToken).toHaveBeenCalledWith('abc');
+		expect(await resolver.resolve(request({ Authorization: 'Basic abc' }))).toBeNull();
+	});
+
+	it('should only accept X-Principal headers signed with the secret', async () => {
+		const resolver = new SignedHeaderPrincipalResolver('secret', new UserRepository());
+
+		expect(
+			await resolver.resolve(request({ 'X-Principal': await signPrincipalHeader(2, 'secret') }))
+		).toEqual(member);
+		expect(await resolver.resolve(request())).toBeNull();
+
+		const forged = await signPrincipalHeader(1, 'other-secret');
+		await expect(resolver.resolve(request({ 'X-Principal': forged }))).rejects.toThrow(
+			UnauthorizedError
+		);
+		await expect(
+			resolver.resolve(request({ 'X-Principal': await signPrincipalHeader(99, 'secret') }))
+		).rejects.toThrow(UnauthorizedError);
+	});
+
+	it('should return the first principal found in the chain', async () => {
+		const chain = new ChainedPrincipalResolver([
+			{ resolve: async () => null },
+			{ resolve: async () => member },
+			{ resolve: async () => admin }
+		]);
+
+		expect(await chain.resolve(request())).toEqual(member);
+		expect(await new ChainedPrincipalResolver([]).resolve(request())).toBeNull();
+	});
+});
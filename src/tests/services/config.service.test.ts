@@ -1,5 +1,6 @@
 import 'reflect-metadata';
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConfigError } from '../../models/error.model';
 import { ConfigService } from '../../services/config.service';
 
 // We simulate environment by temporarily assigning to globalThis.process.env where available
@@ -37,9 +38,9 @@ describe('ConfigService', () => {
 				PORT: '8080',
 				NODE_ENV: 'production',
 				API_VERSION: '2.3.4',
-				DATABASE_URL: 'postgres://localhost/db',
+				JWT_SECRET: 's3cret',
 				DB_MAX_CONNECTIONS: '25',
-				DB_TIMEOUT: '45000'
+				DB_TIMEOUT: ''
 			};
 		}
 
@@ -48,7 +49,84 @@ describe('ConfigService', () => {
 		const db = svc.getDatabaseConfig();
 
 		expect(app).toEqual({ port: 8080, environment: 'production', apiVersion: '2.3.4' });
-		expect(db).toEqual({ url: 'postgres://localhost/db', maxConnections: 25, timeout: 45000 });
+		expect(db).toEqual({ url: 'sqlite://memory', maxConnections: 25, timeout: 30000 });
+	});
+
+	it('should read variables and bindings from the platform env', () => {
+		const DB = { prepare: vi.fn(), batch: vi.fn(), exec: vi.fn() };
+		const svc = new ConfigService({
+			ENVIRONMENT: 'staging',
+			NODE_ENV: 'production',
+			DATABASE_URL: 'd1://DB',
+			DB
+		});
+
+		expect(svc.getAppConfig().environment).toBe('staging');
+		expect(svc.getDatabaseConfig().url).toBe('d1://DB');
+	});
+
+	it('should report every invalid or missing value at once', () => {
+		const create = () =>
+			new ConfigService({
+				ENVIRONMENT: 'production',
+				PORT: 'eighty',
+				ACCESS_TOKEN_TTL: '-5',
+				DATABASE_URL: 'd1://DB',
+				DB: {}
+			});
+
+		expect(create).toThrow(ConfigError);
+		try {
+			create();
+		} catch (error) {
+			expect((error as ConfigError).issues).toEqual([
+				'PORT: Must be a positive integer',
+				'ACCESS_TOKEN_TTL: Must be a positive integer',
+				'DB: Expected a D1 database binding',
+				'JWT_SECRET: Must be set in production',
+				'DATABASE_URL: D1 binding "DB" is not available in this environment'
+			]);
+		}
+
+		expect(
+			() => new ConfigService({ ENVIRONMENT: 'production', DATABASE_URL: 'postgres://x' })
+		).toThrow(
+			'Invalid configuration:\n' +
+				'  - DATABASE_URL: Must be sqlite://memory or d1://<BINDING>\n' +
+				'  - JWT_SECRET: Must be set in production'
+		);
+	});
+
+	it('should require the D1 binding named by DATABASE_URL', () => {
+		expect(() => new ConfigService({ DATABASE_URL: 'd1://USERS_DB' })).toThrow(
+			'DATABASE_URL: D1 binding "USERS_DB" is not available in this environment'
+		);
+	});
+
+	it('should choose the rate-limit store and require its binding', () => {
+		expect(new ConfigService({}).getRateLimitConfig()).toEqual({ store: 'memory' });
+		expect(() => new ConfigService({ RATE_LIMIT_STORE: 'kv' })).toThrow(
+			'RATE_LIMIT_STORE: The kv store needs the CACHE binding'
+		);
+		expect(() => new ConfigService({ RATE_LIMIT_STORE: 'durable-object' })).toThrow(
+			'RATE_LIMIT_STORE: The durable-object store needs the RATE_LIMITER binding'
+		);
+
+		const cache = { get: async () => null, put: async () => {}, delete: async () => {} };
+		expect(
+			new ConfigService({ RATE_LIMIT_STORE: 'kv', CACHE: cache }).getRateLimitConfig()
+		).toEqual({ store: 'kv' });
+	});
+
+	it('should read the idempotency store and TTL', () => {
+		expect(new ConfigService({}).getIdempotencyConfig()).toEqual({ store: 'memory', ttl: 86400 });
+		expect(() => new ConfigService({ IDEMPOTENCY_STORE: 'kv' })).toThrow(
+			'IDEMPOTENCY_STORE: The kv store needs the CACHE binding'
+		);
+		expect(() => new ConfigService({ IDEMPOTENCY_STORE: 'durable-object' })).toThrow(
+			'IDEMPOTENCY_STORE: Must be one of memory, kv'
+		);
+		expect(new ConfigService({ IDEMPOTENCY_TTL: '600' }).getIdempotencyConfig().ttl).toBe(600);
 	});
 
 	it('should handle environment without process object', () => {
@@ -93,6 +171,92 @@ describe('ConfigService', () => {
 		globalWithProcess.process = originalProcess;
 	});
 
+	it('should read auth config and require a JWT secret in production', () => {
+		const globalWithProcess = globalThis as typeof globalThis & {
+			process: { env: Record<string, string | undefined> };
+		};
+
+		expect(new ConfigService().getAuthConfig()).toMatchObject({
+			issuer: 'sveltekit-hono',
+			accessTokenTtl: 900,
+			refreshTokenTtl: 2592000
+		});
+
+		globalWithProcess.process.env = { JWT_SECRET: 's3cret', ACCESS_TOKEN_TTL: '60' };
+		expect(new ConfigService().getAuthConfig()).toMatchObject({
+			jwtSecret: 's3cret',
+			accessTokenTtl: 60
+		});
+
+		globalWithProcess.process.env = { NODE_ENV: 'production' };
+		expect(() => new ConfigService()).toThrow('JWT_SECRET: Must be set in production');
+	});
+
+	it('should only enable the signed principal header outside production', () => {
+		const globalWithProcess = globalThis as typeof globalThis & {
+			process: { env: Record<string, string | undefined> };
+		};
+
+		globalWithProcess.process.env = { PRINCIPAL_HEADER_SECRET: 'header-secret' };
+		expect(new ConfigService().getAuthConfig().principalHeaderSecret).toBe('header-secret');
+
+		globalWithProcess.process.env = {
+			NODE_ENV: 'production',
+			JWT_SECRET: 's3cret',
+			PRINCIPAL_HEADER_SECRET: 'header-secret'
+		};
+		expect(new ConfigService().getAuthConfig().principalHeaderSecret).toBeUndefined();
+	});
+
+	it('should require a JWT secret and ignore the principal header outside the dev server', async () => {
+		// A built app, whatever its ENVIRONMENT (e.g. the default `wrangler deploy`)
+		vi.resetModules();
+		vi.doMock('$app/environment', () => ({ dev: false }));
+		try {
+			const { ConfigService: BuiltConfigService } = await import('../../services/config.service');
+
+			expect(() => new BuiltConfigService({ ENVIRONMENT: 'development' })).toThrow(
+				'JWT_SECRET: Must be set outside the local dev server'
+			);
+
+			const config = new BuiltConfigService({
+				ENVIRONMENT: 'development',
+				JWT_SECRET: 's3cret',
+				PRINCIPAL_HEADER_SECRET: 'header-secret'
+			});
+			expect(config.getAuthConfig()).toMatchObject({
+				jwtSecret: 's3cret',
+				principalHeaderSecret: undefined
+			});
+		} finally {
+			vi.doUnmock('$app/environment');
+			vi.resetModules();
+		}
+	});
+
+	it('should derive log defaults from the environment and honour overrides', () => {
+		expect(new ConfigService({}).getLogConfig()).toEqual({
+			level: 'debug',
+			format: 'pretty',
+			redactKeys: ['email', 'password', 'authorization'],
+			slowRequestMs: 1000
+		});
+		expect(
+			new ConfigService({ ENVIRONMENT: 'production', JWT_SECRET: 's3cret' }).getLogConfig()
+		).toMatchObject({ level: 'info', format: 'json' });
+		expect(
+			new ConfigService({
+				LOG_LEVEL: 'warn',
+				LOG_FORMAT: 'json',
+				LOG_REDACT_KEYS: 'token, ssn',
+				LOG_SLOW_REQUEST_MS: '250'
+			}).getLogConfig()
+		).toEqual({ level: 'warn', format: 'json', redactKeys: ['token', 'ssn'], slowRequestMs: 250 });
+		expect(() => new ConfigService({ LOG_LEVEL: 'verbose' })).toThrow(
+			'LOG_LEVEL: Must be one of debug, info, warn, error'
+		);
+	});
+
 	afterEach(() => {
 		// Restore environment
 		if (typeof globalThis !== 'undefined' && 'process' in globalThis) {
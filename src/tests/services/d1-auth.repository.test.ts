@@ -0,0 +1,67 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { RefreshTokenRecord } from '../../interfaces/auth.interface';
+import type { D1Database } from '../../interfaces/database.interface';
+import { migrations } from '../../lib/migrations';
+import { D1AuthRepository } from '../../services/d1-auth.repository';
+import { MigrationRunner } from '../helpers/migration-runner';
+import { createSqliteD1 } from '../helpers/sqlite-d1';
+
+describe('D1AuthRepository', () => {
+	let db: D1Database;
+	let repo: D1AuthRepository;
+
+	const record = (tokenHash: string, familyId = 'family-1'): RefreshTokenRecord => ({
+		tokenHash,
+		userId: 1,
+		familyId,
+		expiresAt: new Date('2030-01-01'),
+		rotatedAt: null,
+		revokedAt: null
+	});
+
+	beforeEach(async () => {
+		db = await createSqliteD1();
+		await new MigrationRunner(db, migrations).migrate();
+		repo = new D1AuthRepository(db);
+	});
+
+	it('should save and replace credentials', async () => {
+		expect(await repo.findCredential(1)).toBeNull();
+
+		await repo.saveCredential({ userId: 1, passwordHash: 'first' });
+		await repo.saveCredential({ userId: 1, passwordHash: 'second' });
+
+		expect(await repo.findCredential(1)).toEqual({ userId: 1, passwordHash: 'second' });
+	});
+
+	it('should store and find refresh tokens', async () => {
+		await repo.createRefreshToken(record('hash-1'));
+
+		expect(await repo.findRefreshToken('hash-1')).toEqual(record('hash-1'));
+		expect(await repo.findRefreshToken('missing')).toBeNull();
+	});
+
+	it('should rotate a token only once', async () => {
+		const rotatedAt = new Date('2025-01-01');
+		await repo.createRefreshToken(record('hash-1'));
+
+		expect(await repo.markRefreshTokenRotated('hash-1', rotatedAt)).toBe(true);
+		expect(await repo.markRefreshTokenRotated('hash-1', rotatedAt)).toBe(false);
+		expect((await repo.findRefreshToken('hash-1'))?.rotatedAt).toEqual(rotatedAt);
+	});
+
+	it('should revoke every token of a family', async () => {
+		const revokedAt = new Date('2025-01-01');
+		await repo.createRefreshToken(record('hash-1'));
+		await repo.createRefreshToken(record('hash-2'));
+		await repo.createRefreshToken(record('other', 'family-2'));
+
+		await repo.revokeRefreshTokenFamily('family-1', revokedAt);
+
+		expect((await repo.findRefreshToken('hash-1'))?.revokedAt).toEqual(revokedAt);
+		expect((await repo.findRefreshToken('hash-2'))?.revokedAt).toEqual(revokedAt);
+		expect((await repo.findRefreshToken('other'))?.revokedAt).toBeNull();
+		expect(await repo.markRefreshTokenRotated('hash-1', revokedAt)).toBe(false);
+	});
+});
@@ -0,0 +1,180 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { D1Database } from '../../interfaces/database.interface';
+import { migrations, seeds } from '../../lib/migrations';
+import { ConflictError, PreconditionFailedError } from '../../models/error.model';
+import { D1UserRepository } from '../../services/d1-user.repository';
+import { MigrationRunner } from '../helpers/migration-runner';
+import { createSqliteD1 } from '../helpers/sqlite-d1';
+
+describe('D1UserRepository', () => {
+	let db: D1Database;
+	let repo: D1UserRepository;
+
+	beforeEach(async () => {
+		db = await createSqliteD1();
+		await new MigrationRunner(db, migrations).migrate();
+		for (const seed of seeds) {
+			await db.exec(seed.sql);
+		}
+		repo = new D1UserRepository(db);
+	});
+
+	it('findAll should return seeded users', async () => {
+		const users = await repo.findAll();
+		expect(users).toHaveLength(2);
+		expect(users[0]).toMatchObject({ id: 1, name: 'John Doe' });
+		expect(users[0].createdAt).toEqual(new Date('2024-01-01'));
+	});
+
+	it('findById should return null when missing', async () => {
+		expect(await repo.findById(1)).toMatchObject({ email: 'john@example.com' });
+		expect(await repo.findById(999)).toBeNull();
+	});
+
+	it('create should insert a user and return it with its id', async () => {
+		const createdAt = new Date('2024-01-10');
+		const newUser = await repo.create({ name: 'New', email: 'new@example.com', createdAt });
+
+		expect(newUser).toEqual({
+			id: 3,
+			name: 'New',
+			email: 'new@example.com',
+			createdAt,
+			version: 1,
+			role: 'member'
+		});
+		expect(await repo.findAll()).toHaveLength(3);
+	});
+
+	it('should store roles and keep the seeded admin', async () => {
+		expect(await repo.findById(1)).toMatchObject({ role: 'admin' });
+		expect(await repo.findById(2)).toMatchObject({ role: 'member' });
+
+		const viewer = await repo.create({
+			name: 'V',
+			email: 'v@example.com',
+			createdAt: new Date(),
+			role: 'viewer'
+		});
+		expect((await repo.findById(viewer.id))?.role).toBe('viewer');
+	});
+
+	it('should keep emails unique regardless of case', async () => {
+		const user = { name: 'Dup', email: 'JANE@example.com', createdAt: new Date() };
+
+		await expect(repo.create(user)).rejects.toThrow(ConflictError);
+		await expect(repo.update(1, { email: 'jane@example.com' })).rejects.toMatchObject({
+			code: 'email_taken'
+		});
+		expect(await repo.update(2, { email: 'Jane@Example.com' })).toMatchObject({ version: 2 });
+		expect(await repo.findAll()).toHaveLength(2);
+	});
+
+	it('update should modify only the given fields', async () => {
+		const updated = await repo.update(1, { name: 'Johnny' });
+		expect(updated).toMatchObject({ id: 1, name: 'Johnny', email: 'john@example.com' });
+		expect(await repo.update(999, { name: 'X' })).toBeNull();
+	});
+
+	it('update should bump the version and honour the expected version', async () => {
+		const updated = await repo.update(1, { name: 'Johnny' }, { expectedVersion: 1 });
+		expect(updated?.version).toBe(2);
+
+		await expect(repo.update(1, { name: 'Lost' }, { expectedVersion: 1 })).rejects.toThrow(
+			PreconditionFailedError
+		);
+		await expect(repo.delete(1, { expectedVersion: 1 })).rejects.toThrow(PreconditionFailedError);
+		expect(await repo.update(999, { name: 'X' }, { expectedVersion: 1 })).toBeNull();
+		expect(await repo.delete(1, { expectedVersion: 2 })).toBe(true);
+	});
+
+	it('delete should report whether a row was removed', async () => {
+		expect(await repo.delete(1)).toBe(true);
+		expect(await repo.delete(1)).toBe(false);
+		expect(await repo.findById(1)).toBeNull();
+	});
+
+	describe('findMany', () => {
+		beforeEach(async () => {
+			await repo.create({
+				name: 'al_ice',
+				email: 'alice@test.com',
+				createdAt: new Date('2024-02-01')
+			});
+			await repo.create({ name: 'Bob', email: 'bob@test.com', createdAt: new Date('2024-03-01') });
+		});
+
+		it('should filter by search term and exact email', async () => {
+			const byQuery = await repo.findMany({ q: 'TEST.COM' });
+			expect(byQuery.items.map((u) => u.name)).toEqual(['al_ice', 'Bob']);
+			expect(byQuery.pagination.total).toBe(2);
+
+			// LIKE wildcards in the search term are matched literally
+			const literal = await repo.findMany({ q: 'l_i' });
+			expect(literal.items.map((u) => u.name)).toEqual(['al_ice']);
+
+			const byEmail = await repo.findMany({ email: 'BOB@test.com' });
+			expect(byEmail.items.map((u) => u.name)).toEqual(['Bob']);
+		});
+
+		it('should walk all pages with cursors in the requested order', async () => {
+			const names: string[] = [];
+			let cursor: string | undefined;
+
+			do {
+				const page = await repo.findMany({ sort: 'name', order: 'desc', limit: 3, cursor });
+				names.push(...page.items.map((u) => u.name));
+				expect(page.pagination.total).toBe(4);
+				cursor = page.pagination.nextCursor ?? undefined;
+			} while (cursor);
+
+			expect(names).toEqual(['John Doe', 'Jane Smith', 'Bob', 'al_ice']);
+		});
+
+		it('should support page/pageSize offset pagination', async () => {
+			const result = await repo.findMany({ page: 2, pageSize: 3 });
+			expect(result.items.map((u) => u.name)).toEqual(['Bob']);
+			expect(result.pagination).toEqual({
+				total: 4,
+				limit: 3,
+				nextCursor: null,
+				page: 2,
+				pageSize: 3,
+				totalPages: 2
+			});
+		});
+	});
+});
+
+describe('MigrationRunner', () => {
+	it('should apply pending migrations once and track them', async () => {
+		const db = await createSqliteD1();
+		const runner = new MigrationRunner(db, migrations);
+
+		expect(await runner.pending()).toEqual(migrations.map((m) => m.name));
+		expect(await runner.migrate()).toEqual([
+			'0001_create_users.sql',
+			'0003_add_user_version.sql',
+			'0004_create_auth_tables.sql',
+			'0005_add_user_role.sql',
+			'0006_unique_user_email.sql'
+		]);
+		expect(await runner.pending()).toEqual([]);
+		expect(await runner.migrate()).toEqual([]);
+	});
+
+	it('should roll back a migration that fails part way', async () => {
+		const db = await createSqliteD1();
+		const runner = new MigrationRunner(db, [
+			{
+				name: '0001_broken.sql',
+				sql: 'CREATE TABLE a (id INTEGER);\nINSERT INTO missing VALUES (1);'
+			}
+		]);
+
+		await expect(runner.migrate()).rejects.toThrow();
+		expect(await runner.pending()).toEqual(['0001_broken.sql']);
+		expect(await db.prepare("SELECT name FROM sqlite_master WHERE name = 'a'").first()).toBeNull();
+	});
+});
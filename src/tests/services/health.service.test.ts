@@ -0,0 +1,143 @@
+import 'reflect-metadata';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { IAuthConfig, IConfigService } from '../../interfaces/config.interface';
+import type { HealthCheckOutcome, IHealthCheck } from '../../interfaces/health.interface';
+import { HEALTH_CHECK_TIMEOUT_MS, HealthService } from '../../services/health.service';
+
+const config = {
+	getAppConfig: () => ({ port: 3000, environment: 'test', apiVersion: '2.0.0', commit: 'abc' })
+} as IConfigService;
+
+function probe(
+	name: string,
+	check: () => Promise<HealthCheckOutcome>,
+	critical = true
+): IHealthCheck {
+	return { name, critical, check };
+}
+
+describe('HealthService', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should report liveness without running checks', () => {
+		const check = vi.fn(async () => ({ status: 'fail' as const }));
+		const service = new HealthService([probe('database', check)], config);
+
+		expect(service.live()).toMatchObject({
+			status: 'pass',
+			environment: 'test',
+			version: '2.0.0',
+			commit: 'abc',
+			checks: []
+		});
+		expect(check).not.toHaveBeenCalled();
+	});
+
+	it('should aggregate the worst check status with per-check durations', async () => {
+		const service = new HealthService(
+			[
+				probe('database', async () => ({ status: 'pass' })),
+				probe('config', async () => ({ status: 'warn', output: 'dev key' }))
+			],
+			config
+		);
+
+		const report = await service.ready();
+		expect(report.status).toBe('warn');
+		expect(report.checks).toEqual([
+			{ name: 'database', status: 'pass', durationMs: expect.any(Number) },
+			{ name: 'config', status: 'warn', durationMs: expect.any(Number), output: 'dev key' }
+		]);
+	});
+
+	it('should fail on thrown errors, downgraded to warn for non-critical checks', async () => {
+		const service = new HealthService(
+			[
+				probe('database', async () => {
+					throw new Error('connection refused');
+				}),
+				probe(
+					'kv',
+					async () => {
+						throw new Error('KV unavailable');
+					},
+					false
+				)
+			],
+			config
+		);
+
+		const report = await service.ready();
+		expect(report.status).toBe('fail');
+		expect(report.checks.map(({ status, output }) => ({ status, output }))).toEqual([
+			{ status: 'fail', output: 'connection refused' },
+			{ status: 'warn', output: 'KV unavailable' }
+		]);
+	});
+
+	it('should fail checks that do not answer in time', async () => {
+		vi.useFakeTimers();
+		const service = new HealthService(
+			[probe('database', () => new Promise<HealthCheckOutcome>(() => {}))],
+			config
+		);
+
+		const pending = service.ready();
+		await vi.advanceTimersByTimeAsync(HEALTH_CHECK_TIMEOUT_MS);
+		const report = await pending;
+
+		expect(report.checks[0]).toMatchObject({
+			status: 'fail',
+			output: `Timed out after ${HEALTH_CHECK_TIMEOUT_MS}ms`
+		});
+	});
+});
+
+describe('ConfigHealthCheck', () => {
+	const authConfig = (overrides: Partial<IAuthConfig> = {}) =>
+		({
+			getAuthConfig: () => ({
+				jwtSecret: 's3cret',
+				issuer: 'test',
+				accessTokenTtl: 900,
+				refreshTokenTtl: 3600,
+				...overrides
+			})
+		}) as IConfigService;
+
+	// As in a built app, where the development settings should never be active
+	const loadBuiltCheck = async () => {
+		vi.resetModules();
+		vi.doMock('$app/environment', () => ({ dev: false }));
+		const [{ ConfigHealthCheck }, { DEV_JWT_SECRET }] = await Promise.all([
+			import('../../services/health.checks'),
+			import('../../services/config.service')
+		]);
+		return { ConfigHealthCheck, DEV_JWT_SECRET };
+	};
+
+	afterEach(() => {
+		vi.doUnmock('$app/environment');
+		vi.resetModules();
+	});
+
+	it('should fail with a generic detail when development auth settings are active', async () => {
+		const { ConfigHealthCheck, DEV_JWT_SECRET } = await loadBuiltCheck();
+
+		for (const overrides of [{ jwtSecret: DEV_JWT_SECRET }, { principalHeaderSecret: 'secret' }]) {
+			const outcome = await new ConfigHealthCheck(authConfig(overrides)).check();
+			expect(outcome).toEqual({
+				status: 'fail',
+				output: 'Configuration is not fit for deployment'
+			});
+		}
+	});
+
+	it('should pass with a real secret whatever the environment', async () => {
+		const { ConfigHealthCheck } = await loadBuiltCheck();
+
+		expect(await new ConfigHealthCheck(authConfig()).check()).toEqual({ status: 'pass' });
+	});
+});
@@ -0,0 +1,626 @@
+import 'reflect-metadata';
+import { afterEach, describe, it, expect, beforeEach, vi, type MockedFunction } from 'vitest';
+import {
+	HttpError,
+	NetworkError,
+	RateLimitError,
+	ResponseValidationError,
+	TimeoutError,
+	type IHttpInterceptor,
+	type ILockManager
+} from '../../interfaces/http-client.interface';
+import { z } from 'zod';
+import { HttpClient, parseRetryAfter } from '../../services/client/http-client.service';
+import { MemoryTokenStore } from '../../services/client/token-store';
+
+const fetchMock = global.fetch as MockedFunction<typeof fetch>;
+
+function jsonResponse(data: unknown, headers: Record<string, string> = {}): Response {
+	return new Response(JSON.stringify(data), {
+		status: 200,
+		headers: { 'Content-Type': 'application/json', ...headers }
+	});
+}
+
+function sentHeaders(call: number): Record<string, string> {
+	return fetchMock.mock.calls[call][1]?.headers as Record<string, string>;
+}
+
+describe('HttpClient ETag handling', () => {
+	let client: HttpClient;
+
+	beforeEach(() => {
+		client = new HttpClient('/api');
+	});
+
+	it('should remember ETags and send them as If-Match on writes', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse({ id: 1 }, { ETag: '"v1"' }));
+		fetchMock.mockResolvedValueOnce(jsonResponse({ id: 1 }, { ETag: '"v2"' }));
+
+		await client.get('/users/1', { params: { fields: 'all' } });
+		expect(client.getETag('/users/1')).toBe('"v1"');
+
+		await client.patch('/users/1', { name: 'New' });
+		expect(sentHeaders(1)['If-Match']).toBe('"v1"');
+		expect(client.getETag('/users/1')).toBe('"v2"');
+	});
+
+	it('should not override an explicit If-Match header', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse({ id: 1 }, { ETag: '"v1"' }));
+		fetchMock.mockResolvedValueOnce(jsonResponse({ id: 1 }));
+
+		await client.get('/users/1');
+		await client.put('/users/1', {}, { headers: { 'if-match': '*' } });
+
+		expect(sentHeaders(1)).toEqual(expect.objectContaining({ 'if-match': '*' }));
+		expect(sentHeaders(1)).not.toHaveProperty('If-Match');
+	});
+
+	it('should forget the ETag once the resource is deleted', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse({ id: 1 }, { ETag: '"v1"' }));
+		fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+		await client.get('/users/1');
+		await client.delete('/users/1');
+
+		expect(sentHeaders(1)['If-Match']).toBe('"v1"');
+		expect(client.getETag('/users/1')).toBeUndefined();
+	});
+
+	it('should leave requests unconditional without a known ETag', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse({ id: 1 }));
+
+		await client.delete('/users/2');
+
+		expect(sentHeaders(0)).not.toHaveProperty('If-Match');
+	});
+});
+
+describe('HttpClient.fetch', () => {
+	it('should resolve URLs and merge default headers with caller headers', async () => {
+		const client = new HttpClient('/api', { 'X-Client': 'web' });
+		fetchMock.mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+		const response = await client.fetch('/users?limit=1', {
+			method: 'post',
+			headers: new Headers({ 'content-type': 'application/merge-patch+json' }),
+			body: '{}'
+		});
+
+		expect(await response.json()).toEqual({ ok: true });
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe('/api/users?limit=1');
+		expect(init).toMatchObject({
+			method: 'POST',
+			body: '{}',
+			headers: { 'X-Client': 'web', 'content-type': 'application/merge-patch+json' }
+		});
+		expect(init?.headers).not.toHaveProperty('Content-Type');
+	});
+
+	it('should start a trace per request unless the caller sends traceparent', async () => {
+		const client = new HttpClient('/api');
+		const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse({}))
+			.mockResolvedValueOnce(jsonResponse({}))
+			.mockResolvedValueOnce(jsonResponse({}));
+
+		await client.get('/users');
+		await client.fetch('/users');
+		await client.get('/users', { headers: { traceparent } });
+
+		const first = sentHeaders(0).traceparent;
+		expect(first).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+		expect(sentHeaders(1).traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+		expect(sentHeaders(1).traceparent).not.toBe(first);
+		expect(sentHeaders(2).traceparent).toBe(traceparent);
+	});
+
+	it('should throw HttpError for error responses', async () => {
+		const client = new HttpClient('/api');
+		fetchMock.mockResolvedValueOnce(
+			new Response(JSON.stringify({ error: 'User not found' }), {
+				status: 404,
+				headers: { 'Content-Type': 'application/json' }
+			})
+		);
+
+		const error = await client.fetch('/users/9').catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(HttpError);
+		expect(error).toMatchObject({ status: 404, message: 'User not found' });
+	});
+
+	it('should throw RateLimitError with the Retry-After delay for 429 responses', async () => {
+		const client = new HttpClient('/api');
+		fetchMock.mockResolvedValueOnce(
+			new Response(JSON.stringify({ status: 429, code: 'rate_limited', detail: 'Slow down' }), {
+				status: 429,
+				headers: { 'Content-Type': 'application/problem+json', 'Retry-After': '12' }
+			})
+		);
+
+		const error = await client.fetch('/auth/sign-in', { method: 'POST' }).catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(RateLimitError);
+		expect(error).toBeInstanceOf(HttpError);
+		expect(error).toMatchObject({ status: 429, code: 'rate_limited', retryAfterMs: 12_000 });
+	});
+
+	it('parseRetryAfter should accept delays in seconds and HTTP dates', () => {
+		const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+		expect(parseRetryAfter('30', now)).toBe(30_000);
+		expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5_000);
+		expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+		expect(parseRetryAfter('soon', now)).toBeNull();
+		expect(parseRetryAfter(null, now)).toBeNull();
+	});
+
+	it('should parse problem details into a code and field errors', async () => {
+		const client = new HttpClient('/api');
+		fetchMock.mockResolvedValueOnce(
+			new Response(
+				JSON.stringify({
+					type: 'urn:problem-type:email_taken',
+					title: 'Conflict',
+					status: 409,
+					detail: 'Email is already registered',
+					instance: '/api/users',
+					code: 'email_taken',
+					errors: [{ field: 'email', message: 'Email is already registered', code: 'email_taken' }]
+				}),
+				{ status: 409, headers: { 'Content-Type': 'application/problem+json' } }
+			)
+		);
+
+		const error = (await client
+			.fetch('/users', { method: 'POST' })
+			.catch((e: unknown) => e)) as HttpError;
+		expect(error).toMatchObject({
+			status: 409,
+			code: 'email_taken',
+			message: 'Email is already registered'
+		});
+		expect(error.problem?.instance).toBe('/api/users');
+		expect(error.getFieldError('email')).toBe('Email is already registered');
+		expect(error.getFieldError('name')).toBeUndefined();
+	});
+});
+
+describe('HttpClient authentication', () => {
+	let client: HttpClient;
+	const tokens = { accessToken: 'access-1', refreshToken: 'refresh-1' };
+
+	function unauthorized(): Response {
+		return new Response(JSON.stringify({ error: 'Invalid or expired access token' }), {
+			status: 401,
+			headers: { 'Content-Type': 'application/json' }
+		});
+	}
+
+	beforeEach(() => {
+		client = new HttpClient('/api');
+	});
+
+	it('should attach the access token unless Authorization is set', async () => {
+		fetchMock.mockImplementation(async () => jsonResponse({ ok: true }));
+		client.setTokens(tokens);
+
+		await client.get('/auth/me');
+		await client.get('/auth/me', { headers: { authorization: 'Bearer explicit' } });
+
+		expect(sentHeaders(0)).toHaveProperty('Authorization', 'Bearer access-1');
+		expect(sentHeaders(1)).not.toHaveProperty('Authorization');
+		expect(sentHeaders(1)).toHaveProperty('authorization', 'Bearer explicit');
+	});
+
+	it('should refresh the tokens once on 401 and retry the request', async () => {
+		client.setTokens(tokens);
+		fetchMock
+			.mockResolvedValueOnce(unauthorized())
+			.mockResolvedValueOnce(
+				jsonResponse({ data: { accessToken: 'access-2', refreshToken: 'refresh-2' } })
+			)
+			.mockResolvedValueOnce(jsonResponse({ id: 1 }));
+
+		expect(await client.patch('/users/1', { name: 'X' })).toEqual({ id: 1 });
+
+		const [refreshUrl, refreshInit] = fetchMock.mock.calls[1];
+		expect(refreshUrl).toBe('/api/auth/refresh');
+		expect(refreshInit?.body).toBe(JSON.stringify({ refreshToken: 'refresh-1' }));
+		expect(fetchMock.mock.calls[2][1]).toMatchObject({ method: 'PATCH', body: '{"name":"X"}' });
+		expect(sentHeaders(2)).toHaveProperty('Authorization', 'Bearer access-2');
+		expect(client.getTokens()).toEqual({ accessToken: 'access-2', refreshToken: 'refresh-2' });
+	});
+
+	it('should send one Idempotency-Key per POST and keep it for the retry', async () => {
+		client.setTokens(tokens);
+		fetchMock
+			.mockResolvedValueOnce(unauthorized())
+			.mockResolvedValueOnce(
+				jsonResponse({ data: { accessToken: 'access-2', refreshToken: 'refresh-2' } })
+			)
+			.mockResolvedValueOnce(jsonResponse({ id: 3 }))
+			.mockResolvedValueOnce(jsonResponse({ id: 4 }))
+			.mockResolvedValueOnce(jsonResponse({ id: 5 }));
+
+		await client.post('/users', { name: 'A' });
+		await client.post('/users', { name: 'B' });
+		await client.post('/users', { name: 'C' }, { headers: { 'Idempotency-Key': 'mine' } });
+
+		const key = sentHeaders(0)['Idempotency-Key'];
+		expect(key).toMatch(/^[0-9a-f-]{36}$/);
+		expect(sentHeaders(2)['Idempotency-Key']).toBe(key);
+		expect(sentHeaders(3)['Idempotency-Key']).not.toBe(key);
+		expect(sentHeaders(4)['Idempotency-Key']).toBe('mine');
+		expect(sentHeaders(1)).not.toHaveProperty('Idempotency-Key');
+	});
+
+	it('should share one refresh between concurrent requests', async () => {
+		client.setTokens(tokens);
+		fetchMock.mockImplementation(async (input, init) => {
+			if (input === '/api/auth/refresh') {
+				return jsonResponse({ data: { accessToken: 'access-2', refreshToken: 'refresh-2' } });
+			}
+			const headers = init?.headers as Record<string, string>;
+			return headers.Authorization === 'Bearer access-2'
+				? jsonResponse({ ok: true })
+				: unauthorized();
+		});
+
+		await Promise.all([client.get('/users/1'), client.get('/users/2')]);
+
+		const refreshCalls = fetchMock.mock.calls.filter(([url]) => url === '/api/auth/refresh');
+		expect(refreshCalls).toHaveLength(1);
+	});
+
+	it('should let only one tab refresh a shared session', async () => {
+		// Two tabs: separate clients over one token store (localStorage) and one lock manager
+		const tokenStore = new MemoryTokenStore();
+		let tail: Promise<unknown> = Promise.resolve();
+		const locks: ILockManager = {
+			request: (_name, callback) => {
+				const result = tail.then(callback);
+				tail = result.catch(() => undefined);
+				return result;
+			}
+		};
+		const tabs = [1, 2].map(() => new HttpClient('/api', {}, { tokenStore, locks }));
+		tokenStore.set(tokens);
+
+		const used = new Set<string>();
+		fetchMock.mockImplementation(async (input, init) => {
+			if (input === '/api/auth/refresh') {
+				const { refreshToken } = JSON.parse(init?.body as string) as { refreshToken: string };
+				// Refresh tokens are single-use: a second refresh with refresh-1 ends the session
+				if (used.has(refreshToken)) return unauthorized();
+				used.add(refreshToken);
+				return jsonResponse({ data: { accessToken: 'access-2', refreshToken: 'refresh-2' } });
+			}
+			const headers = init?.headers as Record<string, string>;
+			return headers.Authorization === 'Bearer access-2'
+				? jsonResponse({ ok: true })
+				: unauthorized();
+		});
+
+		await Promise.all(tabs.map((tab) => tab.get('/users/1')));
+
+		const refreshCalls = fetchMock.mock.calls.filter(([url]) => url === '/api/auth/refresh');
+		expect(refreshCalls).toHaveLength(1);
+		expect(tokenStore.get()).toEqual({ accessToken: 'access-2', refreshToken: 'refresh-2' });
+	});
+
+	it('should clear the tokens and surface the 401 when the refresh is rejected', async () => {
+		client.setTokens(tokens);
+		fetchMock.mockResolvedValueOnce(unauthorized()).mockResolvedValueOnce(unauthorized());
+
+		const error = await client.get('/auth/me').catch((e: unknown) => e);
+
+		expect(error).toMatchObject({ status: 401 });
+		expect(client.getTokens()).toBeNull();
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should not try to refresh without tokens', async () => {
+		fetchMock.mockResolvedValueOnce(unauthorized());
+
+		await expect(client.get('/auth/me')).rejects.toMatchObject({ status: 401 });
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('HttpClient retries and timeouts', () => {
+	let client: HttpClient;
+
+	function status(code: number, headers: Record<string, string> = {}): Response {
+		return new Response(null, { status: code, headers });
+	}
+
+	// Never answers; rejects like fetch once the request is aborted
+	function hang(_input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+		return new Promise((_resolve, reject) => {
+			init?.signal?.addEventListener('abort', () =>
+				reject(new DOMException('The operation was aborted', 'AbortError'))
+			);
+		});
+	}
+
+	beforeEach(() => {
+		fetchMock.mockReset();
+		vi.useFakeTimers();
+		client = new HttpClient('/api', {}, { timeout: 1000, retry: { baseDelayMs: 100 } });
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should retry idempotent requests on retryable statuses and network errors', async () => {
+		fetchMock
+			.mockResolvedValueOnce(status(503))
+			.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+			.mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+		const result = client.get('/users');
+		await vi.runAllTimersAsync();
+
+		expect(await result).toEqual({ ok: true });
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('should cancel the body of each response it retries', async () => {
+		const busy = new Response('Service busy', { status: 503 });
+		const cancel = vi.spyOn(busy.body!, 'cancel');
+		fetchMock.mockResolvedValueOnce(busy).mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+		const result = client.get('/users');
+		await vi.runAllTimersAsync();
+
+		expect(await result).toEqual({ ok: true });
+		expect(cancel).toHaveBeenCalledOnce();
+	});
+
+	it('should give up after maxAttempts and surface the last error', async () => {
+		fetchMock.mockResolvedValue(status(502));
+
+		const result = client.get('/users').catch((e: unknown) => e);
+		await vi.runAllTimersAsync();
+
+		expect(await result).toMatchObject({ status: 502 });
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('should only retry unsafe methods that carry an Idempotency-Key', async () => {
+		fetchMock.mockResolvedValue(status(503));
+
+		const patch = client.patch('/users/1', { name: 'X' }).catch((e: unknown) => e);
+		await vi.runAllTimersAsync();
+		expect(await patch).toMatchObject({ status: 503 });
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		const post = client.post('/users', { name: 'X' }).catch((e: unknown) => e);
+		await vi.runAllTimersAsync();
+		expect(await post).toMatchObject({ status: 503 });
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+		expect(sentHeaders(3)['Idempotency-Key']).toBe(sentHeaders(1)['Idempotency-Key']);
+	});
+
+	it('should neither key nor retry POSTs to routes without idempotency support', async () => {
+		fetchMock.mockResolvedValue(status(503));
+
+		const signIn = client.post('/auth/sign-in', { email: 'a@b.c' }).catch((e: unknown) => e);
+		await vi.runAllTimersAsync();
+		expect(await signIn).toMatchObject({ status: 503 });
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(sentHeaders(0)).not.toHaveProperty('Idempotency-Key');
+
+		fetchMock.mockImplementation(async () => jsonResponse({}));
+		const custom = new HttpClient('/api', {}, { idempotentPosts: ['/orders'] });
+		await custom.post('/users', {});
+		await custom.post('/orders', {});
+		expect(sentHeaders(1)).not.toHaveProperty('Idempotency-Key');
+		expect(sentHeaders(2)).toHaveProperty('Idempotency-Key');
+	});
+
+	it('should not retry statuses outside the policy or when retries are disabled', async () => {
+		fetchMock.mockResolvedValue(status(500));
+		await expect(client.get('/users')).rejects.toMatchObject({ status: 500 });
+
+		fetchMock.mockResolvedValue(status(503));
+		await expect(client.get('/users', { retry: false })).rejects.toMatchObject({ status: 503 });
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should wait for Retry-After instead of the backoff', async () => {
+		fetchMock
+			.mockResolvedValueOnce(status(429, { 'Retry-After': '2' }))
+			.mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+		const result = client.get('/users');
+		await vi.advanceTimersByTimeAsync(1999);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		await vi.advanceTimersByTimeAsync(1);
+		expect(await result).toEqual({ ok: true });
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should not wait longer than maxDelayMs for Retry-After', async () => {
+		fetchMock.mockResolvedValueOnce(status(429, { 'Retry-After': '60' }));
+
+		const error = await client.get('/users').catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(RateLimitError);
+		expect(error).toMatchObject({ retryAfterMs: 60_000 });
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should abort attempts after the timeout with a TimeoutError', async () => {
+		fetchMock.mockImplementation(hang);
+
+		const result = client.get('/users', { timeout: 50, retry: false }).catch((e: unknown) => e);
+		await vi.advanceTimersByTimeAsync(50);
+
+		const error = await result;
+		expect(error).toBeInstanceOf(TimeoutError);
+		expect(error).toMatchObject({ timeoutMs: 50, url: '/api/users' });
+	});
+
+	it('should report failed requests as NetworkError with the cause', async () => {
+		const cause = new TypeError('Failed to fetch');
+		fetchMock.mockRejectedValueOnce(cause);
+
+		const error = await client.post('/users', {}, { retry: false }).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(NetworkError);
+		expect(error).not.toBeInstanceOf(TimeoutError);
+		expect(error).toMatchObject({ message: 'Network request failed: Failed to fetch', cause });
+	});
+
+	it("should pass the caller's abort through and stop retrying", async () => {
+		fetchMock.mockImplementation(hang);
+		const controller = new AbortController();
+
+		const result = client.get('/users', { signal: controller.signal }).catch((e: unknown) => e);
+		// Let the request reach fetch before cancelling it
+		await vi.advanceTimersByTimeAsync(0);
+		controller.abort();
+
+		const error = await result;
+		expect(error).not.toBeInstanceOf(NetworkError);
+		expect(error).toMatchObject({ name: 'AbortError' });
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('HttpClient interceptors', () => {
+	beforeEach(() => {
+		fetchMock.mockReset();
+	});
+
+	function recorder(name: string, calls: string[]): IHttpInterceptor {
+		return {
+			onRequest: async (request) => {
+				calls.push(`${name}:request`);
+				return { ...request, headers: { ...request.headers, [`X-${name}`]: '1' } };
+			},
+			onResponse: (response) => {
+				calls.push(`${name}:response`);
+				return response;
+			}
+		};
+	}
+
+	it('should run request hooks in order and response hooks in reverse', async () => {
+		const calls: string[] = [];
+		fetchMock.mockResolvedValue(jsonResponse({ ok: true }));
+		const client = new HttpClient('/api', {}, { interceptors: [recorder('A', calls)] });
+
+		await client.get('/users', { interceptors: [recorder('B', calls)] });
+
+		expect(calls).toEqual(['A:request', 'B:request', 'B:response', 'A:response']);
+		expect(sentHeaders(0)).toMatchObject({ 'X-A': '1', 'X-B': '1' });
+	});
+
+	it('should apply per-call interceptors to fetch() and only to that call', async () => {
+		const calls: string[] = [];
+		fetchMock.mockImplementation(async () => jsonResponse({ ok: true }));
+		const client = new HttpClient('/api');
+
+		await client.fetch('/users', { interceptors: [recorder('B', calls)] });
+		await client.fetch('/users');
+
+		expect(calls).toEqual(['B:request', 'B:response']);
+		expect(sentHeaders(1)).not.toHaveProperty('X-B');
+	});
+
+	it('should let onResponse send the request again through next', async () => {
+		fetchMock.mockResolvedValueOnce(new Response(null, { status: 409 }));
+		fetchMock.mockResolvedValueOnce(jsonResponse({ id: 1 }));
+		const resend: IHttpInterceptor = {
+			onResponse: (response, request, next) =>
+				response.status === 409
+					? next({ ...request, headers: { ...request.headers, 'X-Resent': '1' } })
+					: response
+		};
+		const client = new HttpClient('/api', {}, { interceptors: [resend] });
+
+		expect(await client.put('/users/1', { name: 'X' })).toEqual({ id: 1 });
+		expect(sentHeaders(1)).toHaveProperty('X-Resent', '1');
+	});
+
+	it('should let onError recover from a failure with a response', async () => {
+		fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+		const errors: unknown[] = [];
+		const fallback: IHttpInterceptor = {
+			onError: (error) => {
+				errors.push(error);
+				return jsonResponse({ offline: true });
+			}
+		};
+		const client = new HttpClient('/api', {}, { interceptors: [fallback] });
+
+		expect(await client.post('/users', {})).toEqual({ offline: true });
+		expect(errors).toHaveLength(1);
+		expect(errors[0]).toBeInstanceOf(NetworkError);
+	});
+
+	it('should run the interceptors again for every retry', async () => {
+		const calls: string[] = [];
+		fetchMock
+			.mockResolvedValueOnce(new Response(null, { status: 503 }))
+			.mockResolvedValueOnce(jsonResponse({ ok: true }));
+		const client = new HttpClient(
+			'/api',
+			{},
+			{ interceptors: [recorder('A', calls)], retry: { baseDelayMs: 0 } }
+		);
+
+		await client.get('/users');
+
+		expect(calls).toEqual(['A:request', 'A:response', 'A:request', 'A:response']);
+	});
+});
+
+describe('HttpClient response validation', () => {
+	const schema = z.object({ id: z.number(), tags: z.array(z.string()) });
+
+	beforeEach(() => {
+		fetchMock.mockReset();
+	});
+
+	it('should return the parsed body when it matches the schema', async () => {
+		fetchMock.mockResolvedValue(jsonResponse({ id: 1, tags: ['a'], extra: true }));
+		const client = new HttpClient('/api');
+
+		expect(await client.get('/items/1', { schema })).toEqual({ id: 1, tags: ['a'] });
+	});
+
+	it('should throw ResponseValidationError with the offending path', async () => {
+		fetchMock.mockResolvedValue(jsonResponse({ id: 1, tags: ['a', 2] }));
+		const client = new HttpClient('/api');
+
+		const error = await client.get('/items/1', { schema }).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ResponseValidationError);
+		expect(error).toMatchObject({
+			url: '/api/items/1',
+			path: 'tags.1',
+			errors: [expect.objectContaining({ field: 'tags.1', code: 'invalid_type' })]
+		});
+		expect((error as Error).message).toMatch(
+			/^Unexpected response from \/api\/items\/1 at tags\.1: /
+		);
+	});
+
+	it('should only log mismatches in warn mode', async () => {
+		const warn = vi.fn();
+		fetchMock.mockResolvedValue(jsonResponse({ id: '1', tags: [] }));
+		const client = new HttpClient('/api', {}, { responseValidation: 'warn', logger: { warn } });
+
+		expect(await client.get('/items/1', { schema })).toEqual({ id: '1', tags: [] });
+		expect(warn).toHaveBeenCalledWith(
+			expect.stringContaining('Unexpected response from /api/items/1 at id'),
+			[expect.objectContaining({ field: 'id' })]
+		);
+	});
+});
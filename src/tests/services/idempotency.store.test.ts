@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { KVNamespace } from '../../models/env.model';
+import { KvIdempotencyStore, MemoryIdempotencyStore } from '../../services/idempotency.store';
+
+class FakeKv implements KVNamespace {
+	readonly values = new Map<string, string>();
+	readonly ttls = new Map<string, number | undefined>();
+
+	async get(key: string) {
+		return this.values.get(key) ?? null;
+	}
+
+	async put(key: string, value: string, options?: { expirationTtl?: number }) {
+		this.values.set(key, value);
+		this.ttls.set(key, options?.expirationTtl);
+	}
+
+	async delete(key: string) {
+		this.values.delete(key);
+	}
+}
+
+const response = { status: 201, headers: { ETag: '"v1"' }, body: '{"id":3}' };
+
+describe('Idempotency stores', () => {
+	describe.each([
+		['MemoryIdempotencyStore', () => new MemoryIdempotencyStore()],
+		['KvIdempotencyStore', () => new KvIdempotencyStore(new FakeKv())]
+	])('%s', (_name, createStore) => {
+		it('should reserve a key once and return its record afterwards', async () => {
+			const store = createStore();
+
+			expect(await store.reserve('user:1:key', 'hash', 60)).toBeNull();
+			expect(await store.reserve('user:1:key', 'other', 60)).toEqual({ fingerprint: 'hash' });
+
+			await store.complete('user:1:key', { fingerprint: 'hash', response }, 60);
+			expect(await store.reserve('user:1:key', 'hash', 60)).toEqual({
+				fingerprint: 'hash',
+				response
+			});
+		});
+
+		it('should free released keys', async () => {
+			const store = createStore();
+
+			await store.reserve('user:1:key', 'hash', 60);
+			await store.release('user:1:key');
+			expect(await store.reserve('user:1:key', 'other', 60)).toBeNull();
+		});
+	});
+
+	it('MemoryIdempotencyStore should forget expired records', async () => {
+		let now = 0;
+		const store = new MemoryIdempotencyStore(() => now);
+
+		await store.reserve('key', 'hash', 60);
+		now = 60_000;
+		expect(await store.reserve('key', 'other', 60)).toBeNull();
+	});
+
+	it('KvIdempotencyStore should prefix keys and respect the minimum KV TTL', async () => {
+		const kv = new FakeKv();
+		await new KvIdempotencyStore(kv).reserve('user:1:key', 'hash', 30);
+
+		expect(kv.values.get('idempotency:user:1:key')).toBe('{"fingerprint":"hash"}');
+		expect(kv.ttls.get('idempotency:user:1:key')).toBe(60);
+	});
+});
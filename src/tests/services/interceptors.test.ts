@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { HttpRequest } from '../../interfaces/http-client.interface';
+import {
+	JsonDateReviver,
+	LoggingInterceptor,
+	REQUEST_ID_HEADER,
+	RequestIdInterceptor,
+	reviveDates
+} from '../../services/client/interceptors';
+
+function request(headers: Record<string, string> = {}): HttpRequest {
+	return { method: 'GET', url: '/api/users', headers };
+}
+
+describe('RequestIdInterceptor', () => {
+	it('should add a request ID unless one is set', () => {
+		const interceptor = new RequestIdInterceptor(() => 'generated');
+
+		expect(interceptor.onRequest(request()).headers).toEqual({ [REQUEST_ID_HEADER]: 'generated' });
+		expect(interceptor.onRequest(request({ 'x-request-id': 'mine' })).headers).toEqual({
+			'x-request-id': 'mine'
+		});
+	});
+});
+
+describe('LoggingInterceptor', () => {
+	const logger = { debug: vi.fn(), warn: vi.fn() };
+
+	it('should log successes at debug and error statuses at warn', () => {
+		const interceptor = new LoggingInterceptor(logger);
+		const sent = interceptor.onRequest(request({ [REQUEST_ID_HEADER]: 'req-1' }));
+
+		interceptor.onResponse(new Response(null, { status: 200 }), sent);
+		interceptor.onResponse(new Response(null, { status: 404 }), sent);
+
+		expect(logger.debug).toHaveBeenCalledWith(
+			expect.stringMatching(/^\[http\] GET \/api\/users \(req-1\) 200 \d+ms$/)
+		);
+		expect(logger.warn).toHaveBeenCalledWith(expect.stringMatching(/ 404 \d+ms$/));
+	});
+
+	it('should log failures and rethrow them', () => {
+		const interceptor = new LoggingInterceptor(logger);
+		const sent = interceptor.onRequest(request());
+		const error = new TypeError('Failed to fetch');
+
+		expect(() => interceptor.onError(error, sent)).toThrow(error);
+		expect(logger.warn).toHaveBeenCalledWith(
+			expect.stringMatching(/^\[http\] GET \/api\/users failed after \d+ms: Failed to fetch$/)
+		);
+	});
+});
+
+describe('JsonDateReviver', () => {
+	it('should revive ISO timestamps at any depth', () => {
+		const revived = reviveDates({
+			createdAt: '2024-01-02T03:04:05.000Z',
+			items: [{ at: '2024-01-02T03:04:05+02:00' }],
+			day: '2024-01-02',
+			name: 'Ada'
+		}) as { createdAt: Date; items: { at: Date }[]; day: string; name: string };
+
+		expect(revived.createdAt).toEqual(new Date('2024-01-02T03:04:05.000Z'));
+		expect(revived.items[0].at).toBeInstanceOf(Date);
+		expect(revived.day).toBe('2024-01-02');
+		expect(revived.name).toBe('Ada');
+	});
+
+	it('should only change JSON responses', async () => {
+		const interceptor = new JsonDateReviver();
+		const json = interceptor.onResponse(
+			new Response('{"at":"2024-01-02T03:04:05.000Z"}', {
+				status: 201,
+				headers: { 'Content-Type': 'application/json' }
+			})
+		);
+		const text = new Response('2024-01-02T03:04:05.000Z', {
+			headers: { 'Content-Type': 'text/plain' }
+		});
+
+		expect(json.status).toBe(201);
+		expect(await json.json()).toEqual({ at: new Date('2024-01-02T03:04:05.000Z') });
+		expect(interceptor.onResponse(text)).toBe(text);
+	});
+});
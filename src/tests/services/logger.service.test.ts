@@ -1,5 +1,7 @@
 import 'reflect-metadata';
 import { describe, it, expect, beforeEach, vi, afterAll } from 'vitest';
+import type { IConfigService } from '../../interfaces/config.interface';
+import { ConsoleJsonSink, MemoryLogSink, PrettyConsoleSink } from '../../services/log.sink';
 import { Logger, LoggerFactory } from '../../services/logger.service';
 
 // Helper to parse JSON log lines
@@ -74,14 +76,91 @@ describe('Logger', () => {
 		expect(parsed.meta).toEqual({ flag: true });
 	});
 
-	it('LoggerFactory should create loggers with given context', () => {
-		const factory = new LoggerFactory();
-		const apiLogger = factory.createLogger('API');
-		apiLogger.info('x');
-		expect(console.log).toHaveBeenCalledTimes(1);
-		const mockLog = vi.mocked(console.log);
-		const parsed = parseLog(mockLog.mock.calls[0][0]);
-		expect(parsed.context).toBe('API');
+	it('child loggers should stamp their bindings on every entry', () => {
+		const logger = new Logger('API').child({ requestId: 'req-1' }).child({ traceId: 'abc' });
+		logger.info('handled', { status: 200 });
+		const parsed = parseLog(vi.mocked(console.log).mock.calls[0][0]) as Record<string, unknown>;
+		expect(parsed).toMatchObject({
+			context: 'API',
+			requestId: 'req-1',
+			traceId: 'abc',
+			message: 'handled',
+			meta: { status: 200 }
+		});
+	});
+
+	it('should drop entries below the minimum level', () => {
+		const sink = new MemoryLogSink();
+		const logger = new Logger('API', { level: 'warn', sink });
+		logger.debug('noise');
+		logger.info('still noise');
+		logger.warn('careful');
+		logger.error('broken');
+		expect(sink.entries.map((entry) => entry.level)).toEqual(['warn', 'error']);
+	});
+
+	it('should redact configured keys in meta and bindings', () => {
+		const sink = new MemoryLogSink();
+		const logger = new Logger('API', { sink, bindings: { Authorization: 'Bearer x' } });
+		logger.info('created', { user: { id: 1, email: 'a@b.c' }, password: 'hunter2' });
+		expect(sink.entries[0]).toMatchObject({
+			bindings: { Authorization: '[REDACTED]' },
+			meta: { user: { id: 1, email: '[REDACTED]' }, password: '[REDACTED]' }
+		});
+	});
+
+	it('child loggers should share the sink, level and redaction of their parent', () => {
+		const sink = new MemoryLogSink();
+		const child = new Logger('API', { level: 'info', redactKeys: ['token'], sink }).child({
+			requestId: 'req-1'
+		});
+		child.debug('hidden');
+		child.info('visible', { token: 'abc', email: 'a@b.c' });
+		expect(sink.entries).toHaveLength(1);
+		expect(sink.entries[0]).toMatchObject({
+			bindings: { requestId: 'req-1' },
+			meta: { token: '[REDACTED]', email: 'a@b.c' }
+		});
+		sink.clear();
+		expect(sink.entries).toEqual([]);
+	});
+
+	it('PrettyConsoleSink should print a readable line', () => {
+		const logger = new Logger('API', {
+			sink: new PrettyConsoleSink(),
+			bindings: { requestId: 'r' }
+		});
+		logger.warn('slow', { ms: 900 });
+		const line = vi.mocked(console.warn).mock.calls[0][0] as string;
+		expect(line).toMatch(
+			/^\d{2}:\d{2}:\d{2}\.\d{3} WARN {2}\[API\] slow \{"ms":900\} requestId=r$/
+		);
+	});
+
+	it('LoggerFactory should create loggers from the log config', () => {
+		const sink = new MemoryLogSink();
+		const config = {
+			getLogConfig: () => ({ level: 'info', format: 'json', redactKeys: ['email'] })
+		} as unknown as IConfigService;
+		const factory = new LoggerFactory(config, sink);
+		const apiLogger = factory.createLogger('API', { requestId: 'req-1' });
+		apiLogger.debug('x');
+		apiLogger.info('y', { email: 'a@b.c' });
+		expect(sink.entries).toHaveLength(1);
+		expect(sink.entries[0]).toMatchObject({
+			context: 'API',
+			message: 'y',
+			bindings: { requestId: 'req-1' },
+			meta: { email: '[REDACTED]' }
+		});
+	});
+
+	it('LoggerFactory output should go through the given sink', () => {
+		const config = {
+			getLogConfig: () => ({ level: 'debug', format: 'json', redactKeys: [] })
+		} as unknown as IConfigService;
+		new LoggerFactory(config, new ConsoleJsonSink()).createLogger('API').info('x');
+		expect(parseLog(vi.mocked(console.log).mock.calls[0][0]).context).toBe('API');
 	});
 
 	afterAll(() => {
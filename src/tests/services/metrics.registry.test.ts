@@ -0,0 +1,78 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MetricsRegistry } from '../../services/metrics.registry';
+
+describe('MetricsRegistry', () => {
+	let registry: MetricsRegistry;
+
+	beforeEach(() => {
+		registry = new MetricsRegistry();
+	});
+
+	it('should render counters and gauges in the Prometheus text format', () => {
+		const requests = registry.counter('requests_total', {
+			help: 'Requests served',
+			labelNames: ['method', 'status']
+		});
+		requests.inc({ method: 'GET', status: 200 });
+		requests.inc({ method: 'GET', status: 200 }, 2);
+		requests.inc({ method: 'POST', status: 201 });
+		const inFlight = registry.gauge('in_flight', { help: 'Requests in flight' });
+		inFlight.inc();
+		inFlight.inc();
+		inFlight.dec();
+
+		expect(registry.render()).toBe(
+			[
+				'# HELP requests_total Requests served',
+				'# TYPE requests_total counter',
+				'requests_total{method="GET",status="200"} 3',
+				'requests_total{method="POST",status="201"} 1',
+				'# HELP in_flight Requests in flight',
+				'# TYPE in_flight gauge',
+				'in_flight 1',
+				''
+			].join('\n')
+		);
+	});
+
+	it('should render cumulative histogram buckets with sum and count', () => {
+		const latency = registry.histogram('latency_seconds', {
+			help: 'Latency',
+			labelNames: ['route'],
+			buckets: [0.1, 0.5]
+		});
+		latency.observe(0.05, { route: '/a' });
+		latency.observe(0.3, { route: '/a' });
+		latency.observe(2, { route: '/a' });
+
+		expect(latency.count({ route: '/a' })).toBe(3);
+		expect(registry.render()).toContain(
+			[
+				'latency_seconds_bucket{route="/a",le="0.1"} 1',
+				'latency_seconds_bucket{route="/a",le="0.5"} 2',
+				'latency_seconds_bucket{route="/a",le="+Inf"} 3',
+				'latency_seconds_sum{route="/a"} 2.35',
+				'latency_seconds_count{route="/a"} 3'
+			].join('\n')
+		);
+	});
+
+	it('should return the registered metric and reject conflicting registrations', () => {
+		const first = registry.counter('events_total', { help: 'Events' });
+		expect(registry.counter('events_total', { help: 'Events' })).toBe(first);
+		expect(() => registry.gauge('events_total', { help: 'Events' })).toThrow(
+			'Metric events_total is already registered as a counter'
+		);
+		expect(() => registry.counter('bad-name', { help: 'x' })).toThrow('Invalid metric name');
+		expect(() => first.inc({ unknown: 'x' })).toThrow('Unknown label "unknown"');
+		expect(() => first.inc({}, -1)).toThrow('can only increase');
+	});
+
+	it('should escape label values', () => {
+		registry.counter('paths_total', { help: 'Paths', labelNames: ['path'] }).inc({
+			path: 'a"b\\c\nd'
+		});
+		expect(registry.render()).toContain('paths_total{path="a\\"b\\\\c\\nd"} 1');
+	});
+});
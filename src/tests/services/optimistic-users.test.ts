@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { userQueryKeys, type UserResource } from '../../interfaces/api.interface';
+import { QueryCache } from '../../services/client/query-cache.svelte';
+import {
+	isPendingUser,
+	optimisticCreate,
+	optimisticDelete,
+	optimisticUpdate
+} from '../../services/client/optimistic-users';
+import { mockUsers } from '../mocks/api.mock';
+
+describe('Optimistic user updates', () => {
+	const setup = () => {
+		const cache = new QueryCache();
+		cache.setData(userQueryKeys.list(), [...mockUsers]);
+		cache.setData(userQueryKeys.list({ q: 'john' }), [mockUsers[0]]);
+		const list = (query = {}) => cache.get<UserResource[]>(userQueryKeys.list(query)).data ?? [];
+		return { cache, list };
+	};
+
+	it('should append a pending user and replace it with the created one', () => {
+		const { cache, list } = setup();
+
+		const update = optimisticCreate(cache, { name: ' Ada ', email: 'ada@example.com' });
+		const placeholder = list().at(-1)!;
+		expect(placeholder).toMatchObject({ name: 'Ada', email: 'ada@example.com' });
+		expect(isPendingUser(placeholder)).toBe(true);
+
+		const created = { ...placeholder, id: 42 };
+		update.commit?.(created);
+		expect(list().at(-1)).toEqual(created);
+		expect(list()).toHaveLength(mockUsers.length + 1);
+	});
+
+	it('should drop the pending user when the create is rolled back', () => {
+		const { cache, list } = setup();
+
+		const update = optimisticCreate(cache, { name: 'Ada', email: 'ada@example.com' });
+		update.rollback();
+
+		expect(list()).toEqual(mockUsers);
+	});
+
+	it('should roll back only its own edit of a user', () => {
+		const { cache, list } = setup();
+
+		const rename = optimisticUpdate(cache, 1, { name: 'Renamed' });
+		expect(list()[0].name).toBe('Renamed');
+		expect(list({ q: 'john' })[0].name).toBe('Renamed');
+
+		// Another user edited meanwhile keeps the change
+		optimisticUpdate(cache, 2, { email: 'jane@new.example.com' });
+		rename.rollback();
+
+		expect(list()[0]).toEqual(mockUsers[0]);
+		expect(list({ q: 'john' })[0]).toEqual(mockUsers[0]);
+		expect(list()[1].email).toBe('jane@new.example.com');
+	});
+
+	it('should put a user back where it was when the delete is rolled back', () => {
+		const { cache, list } = setup();
+
+		const update = optimisticDelete(cache, 2);
+		expect(list().map((user) => user.id)).toEqual([1, 3]);
+
+		update.rollback();
+		expect(list()).toEqual(mockUsers);
+	});
+});
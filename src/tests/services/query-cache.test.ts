@@ -0,0 +1,266 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_GC_TIME_MS, QueryCache } from '../../services/client/query-cache.svelte';
+
+// Resolves when told to, so in-flight states can be observed
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	let reject!: (error: unknown) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('QueryCache', () => {
+	it('should share one request between concurrent fetches of a key', async () => {
+		const cache = new QueryCache();
+		const fetcher = vi.fn(async () => ['Ada']);
+
+		const [a, b] = await Promise.all([
+			cache.fetch(['users'], fetcher),
+			cache.fetch(['users'], fetcher)
+		]);
+
+		expect(a).toEqual(['Ada']);
+		expect(b).toBe(a);
+		expect(fetcher).toHaveBeenCalledTimes(1);
+	});
+
+	it('should treat keys with the same object fields in any order as one query', async () => {
+		const cache = new QueryCache();
+		await cache.fetch(['users', { sort: 'name', limit: 5 }], async () => 'first');
+
+		expect(cache.get(['users', { limit: 5, sort: 'name' }]).data).toBe('first');
+	});
+
+	it('should serve fresh data from the cache and refetch once stale', async () => {
+		let now = 1_000;
+		const cache = new QueryCache(() => now);
+		const fetcher = vi.fn(async () => now);
+
+		await cache.fetch(['clock'], fetcher, { staleTime: 100 });
+		now += 50;
+		expect(await cache.fetch(['clock'], fetcher, { staleTime: 100 })).toBe(1_000);
+
+		now += 50;
+		expect(await cache.fetch(['clock'], fetcher, { staleTime: 100 })).toBe(1_100);
+		expect(fetcher).toHaveBeenCalledTimes(2);
+	});
+
+	it('should keep stale data while revalidating and record failures', async () => {
+		const cache = new QueryCache();
+		cache.setData(['users'], ['Ada']);
+		await cache.invalidate(['users']);
+		const request = deferred<string[]>();
+
+		const stop = cache.observe(['users'], () => request.promise);
+		const state = cache.get<string[]>(['users']);
+		expect(state).toMatchObject({ data: ['Ada'], isFetching: true, isLoading: false });
+
+		request.reject(new Error('offline'));
+		await flush();
+		expect(state).toMatchObject({ data: ['Ada'], isFetching: false });
+		expect(state.error).toEqual(new Error('offline'));
+		stop();
+	});
+
+	it('should abort a fetch once its last observer stops', async () => {
+		const cache = new QueryCache();
+		const request = deferred<string[]>();
+		let signal: AbortSignal | undefined;
+		const fetcher = (received: AbortSignal) => {
+			signal = received;
+			return request.promise;
+		};
+
+		const stopFirst = cache.observe(['users'], fetcher);
+		const stopSecond = cache.observe(['users'], fetcher);
+		stopFirst();
+		expect(signal?.aborted).toBe(false);
+
+		stopSecond();
+		expect(signal?.aborted).toBe(true);
+		request.reject(signal?.reason);
+		await flush();
+		expect(cache.get(['users'])).toMatchObject({ data: undefined, error: null, isFetching: false });
+
+		// Observing again starts afresh
+		const restart = vi.fn(async () => ['Ada']);
+		const stop = cache.observe(['users'], restart);
+		await flush();
+		expect(restart).toHaveBeenCalledTimes(1);
+		expect(cache.get(['users']).data).toEqual(['Ada']);
+		stop();
+	});
+
+	it('should refetch only observed queries under an invalidated prefix', async () => {
+		const cache = new QueryCache();
+		const list = vi.fn(async () => ['Ada']);
+		const detail = vi.fn(async () => 'Ada');
+		const other = vi.fn(async () => 'ok');
+
+		const stop = cache.observe(['users', 'list'], list);
+		await cache.fetch(['users', 'detail', 1], detail);
+		cache.observe(['health'], other);
+		await flush();
+
+		await cache.invalidate(['users']);
+
+		expect(list).toHaveBeenCalledTimes(2);
+		expect(detail).toHaveBeenCalledTimes(1);
+		expect(cache.get(['users', 'detail', 1]).updatedAt).toBeNull();
+		expect(other).toHaveBeenCalledTimes(1);
+
+		stop();
+		await cache.invalidate(['users']);
+		expect(list).toHaveBeenCalledTimes(2);
+	});
+
+	it('should let the latest fetch win after an invalidation', async () => {
+		const cache = new QueryCache();
+		const before = deferred<string>();
+		const fetcher = vi
+			.fn<() => Promise<string>>()
+			.mockImplementationOnce(() => before.promise)
+			.mockResolvedValueOnce('after');
+
+		cache.observe(['users'], fetcher);
+		const invalidated = cache.invalidate(['users']);
+		before.resolve('before');
+		await invalidated;
+
+		expect(cache.get(['users']).data).toBe('after');
+	});
+
+	it('should revalidate stale observed queries on focus and reconnect', async () => {
+		let now = 0;
+		const cache = new QueryCache(() => now);
+		const fetcher = vi.fn(async () => now);
+		const target = new EventTarget();
+		const stopListening = cache.listen(target);
+
+		cache.observe(['clock'], fetcher, { staleTime: 100 });
+		await flush();
+		target.dispatchEvent(new Event('focus'));
+		expect(fetcher).toHaveBeenCalledTimes(1);
+
+		now = 100;
+		target.dispatchEvent(new Event('online'));
+		await flush();
+		expect(fetcher).toHaveBeenCalledTimes(2);
+		expect(cache.get(['clock']).data).toBe(100);
+
+		stopListening();
+		now = 200;
+		target.dispatchEvent(new Event('focus'));
+		expect(fetcher).toHaveBeenCalledTimes(2);
+	});
+
+	it('should set data from a value or an updater and forget removed keys', () => {
+		const cache = new QueryCache();
+
+		cache.setData(['users'], ['Ada']);
+		cache.setData<string[]>(['users'], (current = []) => [...current, 'Grace']);
+		expect(cache.get(['users']).data).toEqual(['Ada', 'Grace']);
+
+		cache.remove(['users']);
+		expect(cache.get(['users']).data).toBeUndefined();
+	});
+
+	it('should update every cached key under a prefix and skip keys without data', () => {
+		const cache = new QueryCache();
+		cache.setData(['users', 'list', { page: 1 }], ['Ada']);
+		cache.setData(['users', 'list', { page: 2 }], ['Grace']);
+		cache.get(['users', 'list', { page: 3 }]);
+		cache.setData(['posts'], ['Hello']);
+
+		cache.updateAll<string[]>(['users', 'list'], (names, key) => [
+			...names,
+			JSON.stringify(key[2])
+		]);
+
+		expect(cache.get(['users', 'list', { page: 1 }]).data).toEqual(['Ada', '{"page":1}']);
+		expect(cache.get(['users', 'list', { page: 2 }]).data).toEqual(['Grace', '{"page":2}']);
+		expect(cache.get(['users', 'list', { page: 3 }]).data).toBeUndefined();
+		expect(cache.get(['posts']).data).toEqual(['Hello']);
+	});
+
+	it('should run serialized tasks on one key in call order, even after a failure', async () => {
+		const cache = new QueryCache();
+		const first = deferred<string>();
+		const order: string[] = [];
+
+		const a = cache.serialize(['users', 1], async () => {
+			order.push('a');
+			return first.promise;
+		});
+		const b = cache.serialize(['users', 1], async () => {
+			order.push('b');
+			return 'b';
+		});
+		const other = cache.serialize(['users', 2], async () => {
+			order.push('other');
+			return 'other';
+		});
+
+		await other;
+		expect(order).toEqual(['a', 'other']);
+
+		first.reject(new Error('Conflict'));
+		await expect(a).rejects.toThrow('Conflict');
+		await expect(b).resolves.toBe('b');
+		expect(order).toEqual(['a', 'other', 'b']);
+	});
+});
+
+describe('QueryCache garbage collection', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should forget a key nobody observes once gcTime has passed since its last use', () => {
+		const cache = new QueryCache();
+		cache.setData(['users', 1], 'Ada');
+		cache.setData(['users', 2], 'Grace');
+
+		vi.advanceTimersByTime(DEFAULT_GC_TIME_MS / 2);
+		// Reading a key counts as using it
+		expect(cache.get(['users', 2]).data).toBe('Grace');
+		vi.advanceTimersByTime(DEFAULT_GC_TIME_MS / 2);
+
+		expect(cache.get(['users', 1]).data).toBeUndefined();
+		expect(cache.get(['users', 2]).data).toBe('Grace');
+	});
+
+	it('should keep observed keys and start the wait when the last observer stops', async () => {
+		const cache = new QueryCache();
+		const stop = cache.observe(['users'], async () => ['Ada'], { gcTime: 1_000 });
+		await vi.advanceTimersByTimeAsync(5_000);
+		expect(cache.get(['users']).data).toEqual(['Ada']);
+
+		stop();
+		await vi.advanceTimersByTimeAsync(1_000);
+
+		expect(cache.get(['users']).data).toBeUndefined();
+	});
+
+	it('should wait for a fetch in flight before forgetting its key', async () => {
+		const cache = new QueryCache();
+		const request = deferred<string[]>();
+
+		const result = cache.fetch(['users'], () => request.promise, { gcTime: 1_000 });
+		await vi.advanceTimersByTimeAsync(1_000);
+		expect(cache.get(['users']).isFetching).toBe(true);
+
+		request.resolve(['Ada']);
+		expect(await result).toEqual(['Ada']);
+		expect(cache.get(['users']).data).toEqual(['Ada']);
+	});
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { RateLimitState } from '../../lib/rate-limit';
+import type { DurableObjectNamespace, KVNamespace } from '../../models/env.model';
+import {
+	DurableObjectRateLimitStore,
+	KvRateLimitStore,
+	MemoryRateLimitStore,
+	RateLimiterDurableObject,
+	type DurableObjectState
+} from '../../services/rate-limit.store';
+
+const policy = { limit: 2, windowMs: 60_000 };
+
+class FakeKv implements KVNamespace {
+	readonly values = new Map<string, string>();
+	readonly ttls = new Map<string, number | undefined>();
+
+	async get(key: string) {
+		return this.values.get(key) ?? null;
+	}
+
+	async put(key: string, value: string, options?: { expirationTtl?: number }) {
+		this.values.set(key, value);
+		this.ttls.set(key, options?.expirationTtl);
+	}
+
+	async delete(key: string) {
+		this.values.delete(key);
+	}
+}
+
+// One RateLimiterDurableObject per name, reached through its fetch handler
+function fakeNamespace(now: () => number): DurableObjectNamespace {
+	const objects = new Map<string, RateLimiterDurableObject>();
+	return {
+		idFromName: (name) => ({ toString: () => name }),
+		get: (id) => ({
+			fetch: async (input, init) => {
+				const name = id.toString();
+				if (!objects.has(name)) {
+					const storage = new Map<string, unknown>();
+					const state: DurableObjectState = {
+						storage: {
+							get: async <T>(key: string) => storage.get(key) as T | undefined,
+							put: async (key, value) => void storage.set(key, value)
+						}
+					};
+					objects.set(name, new RateLimiterDurableObject(state, now));
+				}
+				return objects.get(name)!.fetch(new Request(input, init));
+			}
+		})
+	};
+}
+
+describe('Rate limit stores', () => {
+	const now = () => 120_000;
+
+	describe.each([
+		['MemoryRateLimitStore', () => new MemoryRateLimitStore(now)],
+		['KvRateLimitStore', () => new KvRateLimitStore(new FakeKv(), now)],
+		['DurableObjectRateLimitStore', () => new DurableObjectRateLimitStore(fakeNamespace(now))]
+	])('%s', (_name, createStore) => {
+		it('should limit each key separately', async () => {
+			const store = createStore();
+
+			expect(await store.hit('a', policy)).toMatchObject({ allowed: true, remaining: 1 });
+			expect(await store.hit('a', policy)).toMatchObject({ allowed: true, remaining: 0 });
+			expect(await store.hit('a', policy)).toMatchObject({
+				allowed: false,
+				retryAfterMs: 90_000
+			});
+			expect(await store.hit('b', policy)).toMatchObject({ allowed: true, remaining: 1 });
+		});
+	});
+
+	it('KvRateLimitStore should prefix keys, expire them and skip writes for rejections', async () => {
+		const kv = new FakeKv();
+		const store = new KvRateLimitStore(kv, now);
+
+		await store.hit('auth:ip:1.2.3.4', policy);
+		await store.hit('auth:ip:1.2.3.4', policy);
+		const stored = kv.values.get('ratelimit:auth:ip:1.2.3.4');
+		expect(JSON.parse(stored!) as RateLimitState).toEqual({
+			windowStart: 120_000,
+			current: 2,
+			previous: 0
+		});
+		expect(kv.ttls.get('ratelimit:auth:ip:1.2.3.4')).toBe(120);
+
+		await store.hit('auth:ip:1.2.3.4', policy);
+		expect(kv.values.get('ratelimit:auth:ip:1.2.3.4')).toBe(stored);
+	});
+
+	it('DurableObjectRateLimitStore should surface rate limiter failures', async () => {
+		const namespace: DurableObjectNamespace = {
+			idFromName: (name) => ({ toString: () => name }),
+			get: () => ({ fetch: async () => new Response(null, { status: 500 }) })
+		};
+
+		await expect(new DurableObjectRateLimitStore(namespace).hit('a', policy)).rejects.toThrow(
+			'Rate limiter responded with 500'
+		);
+	});
+});
@@ -1,5 +1,6 @@
 import 'reflect-metadata';
 import { describe, it, expect } from 'vitest';
+import { ConflictError, PreconditionFailedError } from '../../models/error.model';
 import { UserRepository } from '../../services/user.repository';
 
 // Utility to get a fresh instance for isolation
@@ -37,16 +38,45 @@ describe('UserRepository', () => {
 		expect(newUser.id).toBeGreaterThan(2);
 		expect(newUser.name).toBe('New');
 		expect(newUser.email).toBe('new@example.com');
+		expect(newUser.role).toBe('member');
 		const all = await repo.findAll();
 		expect(all).toHaveLength(3);
 	});
 
+	it('should keep emails unique regardless of case', async () => {
+		const repo = createRepo();
+		const user = { name: 'Dup', email: 'JANE@example.com', createdAt: new Date() };
+
+		await expect(repo.create(user)).rejects.toThrow(ConflictError);
+		await expect(repo.update(1, { email: 'jane@example.com' })).rejects.toThrow(ConflictError);
+		expect(await repo.update(2, { email: 'Jane@Example.com' })).toMatchObject({ version: 2 });
+		expect(await repo.findAll()).toHaveLength(2);
+	});
+
 	it('update should modify existing user and return updated entity', async () => {
 		const repo = createRepo();
 		const updated = await repo.update(1, { name: 'Johnny' });
 		expect(updated?.name).toBe('Johnny');
 	});
 
+	it('update should bump the version on every write', async () => {
+		const repo = createRepo();
+		const first = await repo.update(1, { name: 'Johnny' });
+		const second = await repo.update(1, { name: 'John', version: 99 });
+		expect(first?.version).toBe(2);
+		expect(second?.version).toBe(3);
+	});
+
+	it('update should reject a stale expected version', async () => {
+		const repo = createRepo();
+		await repo.update(1, { name: 'Johnny' }, { expectedVersion: 1 });
+		await expect(repo.update(1, { name: 'Lost' }, { expectedVersion: 1 })).rejects.toThrow(
+			PreconditionFailedError
+		);
+		await expect(repo.delete(1, { expectedVersion: 1 })).rejects.toThrow(PreconditionFailedError);
+		expect((await repo.findById(1))?.name).toBe('Johnny');
+	});
+
 	it('update should return null for non-existent user', async () => {
 		const repo = createRepo();
 		const updated = await repo.update(999, { name: 'X' });
@@ -66,4 +96,47 @@ describe('UserRepository', () => {
 		const ok = await repo.delete(999);
 		expect(ok).toBe(false);
 	});
+
+	describe('findMany', () => {
+		it('should return the first page with pagination metadata', async () => {
+			const repo = createRepo();
+			const result = await repo.findMany({});
+			expect(result.items.map((u) => u.id)).toEqual([1, 2]);
+			expect(result.pagination).toEqual({ total: 2, limit: 20, nextCursor: null });
+		});
+
+		it('should filter by search term and exact email', async () => {
+			const repo = createRepo();
+			const byQuery = await repo.findMany({ q: 'SMITH' });
+			expect(byQuery.items.map((u) => u.id)).toEqual([2]);
+
+			const byEmail = await repo.findMany({ email: 'JOHN@example.com' });
+			expect(byEmail.items.map((u) => u.id)).toEqual([1]);
+			expect(byEmail.pagination.total).toBe(1);
+		});
+
+		it('should sort by the requested field and order', async () => {
+			const repo = createRepo();
+			const result = await repo.findMany({ sort: 'name', order: 'desc' });
+			expect(result.items.map((u) => u.name)).toEqual(['John Doe', 'Jane Smith']);
+		});
+
+		it('should continue from a cursor', async () => {
+			const repo = createRepo();
+			const first = await repo.findMany({ limit: 1 });
+			expect(first.items.map((u) => u.id)).toEqual([1]);
+			expect(first.pagination.nextCursor).toBeTruthy();
+
+			const second = await repo.findMany({ limit: 1, cursor: first.pagination.nextCursor! });
+			expect(second.items.map((u) => u.id)).toEqual([2]);
+			expect(second.pagination.nextCursor).toBeNull();
+		});
+
+		it('should support page/pageSize offset pagination', async () => {
+			const repo = createRepo();
+			const result = await repo.findMany({ pageSize: 1, page: 2 });
+			expect(result.items.map((u) => u.id)).toEqual([2]);
+			expect(result.pagination).toMatchObject({ page: 2, pageSize: 1, totalPages: 2 });
+		});
+	});
 });
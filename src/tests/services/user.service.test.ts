@@ -5,11 +5,14 @@ import { TYPES } from '../../container/types';
 import { UserService } from '../../services/user.service';
 import type { IUserRepository } from '../../interfaces/user.interface';
 import type { ILogger } from '../../interfaces/logger.interface';
+import type { IMetricsRegistry } from '../../interfaces/metrics.interface';
+import { MetricsRegistry } from '../../services/metrics.registry';
 
 describe('UserService', () => {
 	let userService: UserService;
 	let mockUserRepository: IUserRepository;
 	let mockLogger: ILogger;
+	let metrics: MetricsRegistry;
 	let container: Container;
 
 	beforeEach(() => {
@@ -17,6 +20,7 @@ describe('UserService', () => {
 		mockUserRepository = {
 			findById: vi.fn(),
 			findAll: vi.fn(),
+			findMany: vi.fn(),
 			create: vi.fn(),
 			update: vi.fn(),
 			delete: vi.fn()
@@ -26,13 +30,16 @@ describe('UserService', () => {
 			info: vi.fn(),
 			warn: vi.fn(),
 			error: vi.fn(),
-			debug: vi.fn()
+			debug: vi.fn(),
+			child: vi.fn()
 		} as ILogger;
 
 		// Set up container with mocks
 		container = new Container();
 		container.bind<IUserRepository>(TYPES.UserRepository).toConstantValue(mockUserRepository);
 		container.bind<ILogger>(TYPES.Logger).toConstantValue(mockLogger);
+		metrics = new MetricsRegistry();
+		container.bind<IMetricsRegistry>(TYPES.MetricsRegistry).toConstantValue(metrics);
 		container.bind<UserService>(TYPES.UserService).to(UserService);
 
 		// Create service instance with injected dependencies
@@ -74,6 +81,36 @@ describe('UserService', () => {
 		});
 	});
 
+	describe('listUsers', () => {
+		it('should parse query params and delegate to the repository', async () => {
+			const page = { items: [], pagination: { total: 0, limit: 5, nextCursor: null } };
+			(mockUserRepository.findMany as Mock).mockResolvedValue(page);
+
+			const result = await userService.listUsers({ limit: '5', sort: 'email', order: 'desc' });
+
+			expect(result).toBe(page);
+			expect(mockUserRepository.findMany).toHaveBeenCalledWith({
+				limit: 5,
+				sort: 'email',
+				order: 'desc'
+			});
+		});
+
+		it('should throw a validation error for invalid query params', async () => {
+			const query: Record<string, string> = { sort: 'password', limit: '0' };
+			await expect(userService.listUsers(query)).rejects.toThrow(
+				'Validation failed: Page size must be at least 1, Sort must be one of: name, email, createdAt'
+			);
+			expect(mockUserRepository.findMany).not.toHaveBeenCalled();
+		});
+
+		it('should reject mixing cursor and page pagination', async () => {
+			await expect(userService.listUsers({ cursor: 'abc', page: '2' })).rejects.toThrow(
+				'Cursor pagination cannot be combined with page or pageSize'
+			);
+		});
+	});
+
 	describe('createUser', () => {
 		it('should create user when validation passes', async () => {
 			// Arrange
@@ -89,6 +126,19 @@ describe('UserService', () => {
 			expect(result).toEqual(expectedUser);
 			expect(mockUserRepository.create).toHaveBeenCalled();
 			expect(mockLogger.info).toHaveBeenCalledWith('Creating new user', { email: userData.email });
+			expect(metrics.counter('users_created_total', { help: '' }).get()).toBe(1);
+		});
+
+		it('should save only the validated, trimmed fields', async () => {
+			(mockUserRepository.create as Mock).mockImplementation(async (data) => ({ id: 5, ...data }));
+
+			await userService.createUser({ name: '  Ada  ', email: ' ada@example.com ' });
+
+			expect(mockUserRepository.create).toHaveBeenCalledWith({
+				name: 'Ada',
+				email: 'ada@example.com',
+				createdAt: expect.any(Date)
+			});
 		});
 
 		it('should throw error when validation fails', async () => {
@@ -100,6 +150,7 @@ describe('UserService', () => {
 			);
 			expect(mockUserRepository.create).not.toHaveBeenCalled();
 			expect(mockLogger.error).toHaveBeenCalled();
+			expect(metrics.render()).not.toContain('users_created_total');
 		});
 	});
 
@@ -124,6 +175,7 @@ describe('UserService', () => {
 			expect(mockUserRepository.findById).toHaveBeenCalledWith(userId);
 			expect(mockUserRepository.update).toHaveBeenCalledWith(userId, updateData);
 			expect(mockLogger.info).toHaveBeenCalledWith('User updated successfully', { userId });
+			expect(metrics.render()).toContain('users_updated_total{operation="update"} 1');
 		});
 
 		it('should throw error when update validation fails', async () => {
@@ -159,12 +211,111 @@ describe('UserService', () => {
 			(mockUserRepository.findById as Mock).mockResolvedValue(existingUser);
 			(mockUserRepository.delete as Mock).mockResolvedValue(true);
 
-			const result = await userService.deleteUser(userId);
+			const result = await userService.deleteUser(userId, { expectedVersion: 2 });
 
 			expect(result).toBe(true);
 			expect(mockUserRepository.findById).toHaveBeenCalledWith(userId);
-			expect(mockUserRepository.delete).toHaveBeenCalledWith(userId);
+			expect(mockUserRepository.delete).toHaveBeenCalledWith(userId, { expectedVersion: 2 });
 			expect(mockLogger.info).toHaveBeenCalledWith('User deleted successfully', { userId });
+			expect(metrics.counter('users_deleted_total', { help: '' }).get()).toBe(1);
+		});
+	});
+
+	describe('replaceUser', () => {
+		const existingUser = {
+			id: 1,
+			name: 'Old Name',
+			email: 'old@example.com',
+			createdAt: new Date()
+		};
+
+		it('should replace every field of an existing user', async () => {
+			const replacement = { name: 'New Name', email: 'new@example.com' };
+			(mockUserRepository.findById as Mock).mockResolvedValue(existingUser);
+			(mockUserRepository.update as Mock).mockResolvedValue({ ...existingUser, ...replacement });
+
+			const result = await userService.replaceUser(1, replacement, { expectedVersion: 1 });
+
+			expect(result).toMatchObject(replacement);
+			expect(mockUserRepository.update).toHaveBeenCalledWith(1, replacement, {
+				expectedVersion: 1
+			});
+		});
+
+		it('should require every field', async () => {
+			(mockUserRepository.findById as Mock).mockResolvedValue(existingUser);
+
+			await expect(
+				userService.replaceUser(1, { name: 'Only Name' } as { name: string; email: string })
+			).rejects.toThrow('Validation failed');
+			expect(mockUserRepository.update).not.toHaveBeenCalled();
+		});
+
+		it('should return null when user does not exist', async () => {
+			(mockUserRepository.findById as Mock).mockResolvedValue(null);
+
+			const result = await userService.replaceUser(999, { name: 'X Y', email: 'x@example.com' });
+
+			expect(result).toBeNull();
+			expect(mockLogger.warn).toHaveBeenCalledWith('Replace failed - user not found', {
+				userId: 999
+			});
+		});
+	});
+
+	describe('patchUser', () => {
+		const existingUser = {
+			id: 1,
+			name: 'Old Name',
+			email: 'old@example.com',
+			createdAt: new Date()
+		};
+
+		beforeEach(() => {
+			(mockUserRepository.findById as Mock).mockResolvedValue(existingUser);
+			(mockUserRepository.update as Mock).mockImplementation(async (id, data) => ({
+				...existingUser,
+				...data
+			}));
+		});
+
+		it('should apply a merge patch', async () => {
+			const result = await userService.patchUser(1, {
+				type: 'merge-patch',
+				document: { name: '  Patched  ' }
+			});
+
+			expect(result?.name).toBe('Patched');
+			expect(mockUserRepository.update).toHaveBeenCalledWith(
+				1,
+				{ name: 'Patched', email: 'old@example.com' },
+				undefined
+			);
+		});
+
+		it('should apply a JSON patch', async () => {
+			const result = await userService.patchUser(1, {
+				type: 'json-patch',
+				operations: [{ op: 'replace', path: '/email', value: 'patched@example.com' }]
+			});
+
+			expect(result?.email).toBe('patched@example.com');
+		});
+
+		it('should reject patches that remove required fields', async () => {
+			await expect(
+				userService.patchUser(1, { type: 'merge-patch', document: { name: null } })
+			).rejects.toThrow('Validation failed');
+			expect(mockUserRepository.update).not.toHaveBeenCalled();
+		});
+
+		it('should reject patches that touch unknown fields', async () => {
+			await expect(
+				userService.patchUser(1, {
+					type: 'json-patch',
+					operations: [{ op: 'add', path: '/id', value: 42 }]
+				})
+			).rejects.toThrow('Validation failed');
 		});
 	});
 });
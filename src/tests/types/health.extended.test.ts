@@ -1,14 +1,16 @@
 import { describe, it, expect } from 'vitest';
 
 // Type import to ensure coverage of health.ts
-import { type HealthStatus } from '../../types/health';
+import { type HealthCheckResult, type HealthStatus } from '../../types/health';
 
 describe('health.ts type', () => {
 	it('should define HealthStatus interface correctly', () => {
 		const healthStatus = {
-			status: 'ok',
+			status: 'pass',
 			environment: 'test',
-			timestamp: new Date().toISOString()
+			timestamp: new Date().toISOString(),
+			version: '1.0.0',
+			checks: []
 		} satisfies HealthStatus;
 
 		expect(healthStatus).toHaveProperty('status');
@@ -17,19 +19,18 @@ describe('health.ts type', () => {
 		expect(typeof healthStatus.status).toBe('string');
 		expect(typeof healthStatus.environment).toBe('string');
 		expect(typeof healthStatus.timestamp).toBe('string');
+		expect(Array.isArray(healthStatus.checks)).toBe(true);
 	});
 
-	it('should accept various status values', () => {
-		const statuses = ['ok', 'error', 'degraded'];
+	it('should describe each check with a status and duration', () => {
+		const checks = [
+			{ name: 'database', status: 'pass', durationMs: 2 },
+			{ name: 'config', status: 'warn', durationMs: 0, output: 'JWT_SECRET is not set' },
+			{ name: 'kv', status: 'fail', durationMs: 2000, output: 'Timed out' }
+		] satisfies HealthCheckResult[];
 
-		statuses.forEach((status) => {
-			const health = {
-				status,
-				environment: 'test',
-				timestamp: '2024-01-01T00:00:00.000Z'
-			} satisfies HealthStatus;
-
-			expect(health.status).toBe(status);
+		checks.forEach((check) => {
+			expect(typeof check.durationMs).toBe('number');
 		});
 	});
 });
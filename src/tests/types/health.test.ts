@@ -1,33 +1,43 @@
 import { describe, it, expect } from 'vitest';
-import type { HealthStatus } from '$lib/../types/health';
+import {
+	healthStatusSchema,
+	worstStatus,
+	type HealthCheckStatus,
+	type HealthStatus
+} from '$lib/../types/health';
 
 describe('Health Types', () => {
 	describe('HealthStatus type definition', () => {
 		it('should have correct structure', () => {
 			const healthStatus: HealthStatus = {
-				status: 'ok',
+				status: 'pass',
 				environment: 'production',
-				timestamp: '2024-01-01T00:00:00.000Z'
+				timestamp: '2024-01-01T00:00:00.000Z',
+				version: '1.0.0',
+				commit: 'abc1234',
+				checks: [{ name: 'database', status: 'pass', durationMs: 3 }]
 			};
 
 			expect(healthStatus).toHaveProperty('status');
 			expect(healthStatus).toHaveProperty('environment');
 			expect(healthStatus).toHaveProperty('timestamp');
-			expect(typeof healthStatus.status).toBe('string');
-			expect(typeof healthStatus.environment).toBe('string');
-			expect(typeof healthStatus.timestamp).toBe('string');
+			expect(healthStatus).toHaveProperty('version');
+			expect(healthStatus.checks[0]).toHaveProperty('durationMs');
+			expect(healthStatusSchema.parse(healthStatus)).toEqual(healthStatus);
 		});
 
-		it('should accept various status values', () => {
-			const statusValues = ['ok', 'error', 'warning', 'maintenance'];
+		it('should accept pass, warn and fail statuses', () => {
+			const statusValues: HealthCheckStatus[] = ['pass', 'warn', 'fail'];
 
 			statusValues.forEach((status) => {
 				const healthStatus: HealthStatus = {
 					status,
 					environment: 'test',
-					timestamp: new Date().toISOString()
+					timestamp: new Date().toISOString(),
+					version: '1.0.0',
+					checks: [{ name: 'kv', status, durationMs: 0, output: 'details' }]
 				};
-				expect(healthStatus.status).toBe(status);
+				expect(healthStatusSchema.parse(healthStatus).status).toBe(status);
 			});
 		});
 
@@ -36,109 +46,49 @@ describe('Health Types', () => {
 
 			environments.forEach((environment) => {
 				const healthStatus: HealthStatus = {
-					status: 'ok',
+					status: 'pass',
 					environment,
-					timestamp: new Date().toISOString()
+					timestamp: new Date().toISOString(),
+					version: '1.0.0',
+					checks: []
 				};
 				expect(healthStatus.environment).toBe(environment);
 			});
 		});
 	});
 
-	describe('HealthStatus validation helpers', () => {
-		// Helper functions for health status validation
-		const isValidHealthStatus = (health: HealthStatus): health is HealthStatus => {
-			return (
-				typeof health === 'object' &&
-				health !== null &&
-				typeof health.status === 'string' &&
-				typeof health.environment === 'string' &&
-				typeof health.timestamp === 'string' &&
-				health.status.length > 0 &&
-				health.environment.length > 0 &&
-				isValidISODate(health.timestamp)
-			);
-		};
-
-		const isValidISODate = (dateString: string): boolean => {
-			const date = new Date(dateString);
-			return date instanceof Date && !isNaN(date.getTime()) && dateString.includes('T');
-		};
-
-		const createHealthStatus = (
-			status: string = 'ok',
-			environment: string = 'development',
-			timestamp?: string
-		): HealthStatus => {
-			return {
-				status,
-				environment,
-				timestamp: timestamp || new Date().toISOString()
-			};
-		};
-
-		it('should validate correct health status objects', () => {
-			const validHealth: HealthStatus = {
-				status: 'ok',
-				environment: 'production',
-				timestamp: '2024-01-01T12:00:00.000Z'
-			};
-			expect(isValidHealthStatus(validHealth)).toBe(true);
-		});
-
+	describe('HealthStatus validation', () => {
 		it('should reject invalid health status objects', () => {
+			const base = {
+				status: 'pass',
+				environment: 'prod',
+				timestamp: '2024-01-01T12:00:00.000Z',
+				version: '1.0.0',
+				checks: []
+			};
 			const invalidHealthStatuses = [
-				{ status: '', environment: 'prod', timestamp: '2024-01-01T12:00:00.000Z' }, // empty status
-				{ status: 'ok', environment: '', timestamp: '2024-01-01T12:00:00.000Z' }, // empty environment
-				{ status: 'ok', environment: 'prod', timestamp: 'invalid-date' }, // invalid timestamp
-				{ status: 'ok', environment: 'prod' }, // missing timestamp
-				{ environment: 'prod', timestamp: '2024-01-01T12:00:00.000Z' }, // missing status
-				null, // null
-				undefined, // undefined
-				'not an object' // wrong type
+				{ ...base, status: 'ok' }, // legacy status
+				{ ...base, status: '' }, // empty status
+				{ ...base, version: undefined }, // missing version
+				{ ...base, checks: [{ name: 'db', status: 'down', durationMs: 1 }] }, // unknown check status
+				{ ...base, checks: [{ name: 'db', status: 'pass' }] }, // missing duration
+				null,
+				undefined,
+				'not an object'
 			];
 
 			invalidHealthStatuses.forEach((health) => {
-				expect(isValidHealthStatus(health as HealthStatus)).toBe(false);
-			});
-		});
-
-		it('should create health status objects correctly', () => {
-			const health = createHealthStatus('ok', 'production', '2024-01-01T12:00:00.000Z');
-
-			expect(health).toEqual({
-				status: 'ok',
-				environment: 'production',
-				timestamp: '2024-01-01T12:00:00.000Z'
+				expect(healthStatusSchema.safeParse(health).success).toBe(false);
 			});
-			expect(isValidHealthStatus(health)).toBe(true);
-		});
-
-		it('should create health status with default values', () => {
-			const health = createHealthStatus();
-
-			expect(health.status).toBe('ok');
-			expect(health.environment).toBe('development');
-			expect(health.timestamp).toBeTruthy();
-			expect(isValidHealthStatus(health)).toBe(true);
 		});
+	});
 
-		it('should validate ISO date format', () => {
-			const validDates = [
-				'2024-01-01T12:00:00.000Z',
-				'2024-12-31T23:59:59.999Z',
-				'2024-06-15T14:30:45.123Z'
-			];
-
-			const invalidDates = ['2024-01-01', 'invalid-date', '2024/01/01', '', '2024-01-01 12:00:00'];
-
-			validDates.forEach((date) => {
-				expect(isValidISODate(date)).toBe(true);
-			});
-
-			invalidDates.forEach((date) => {
-				expect(isValidISODate(date)).toBe(false);
-			});
+	describe('worstStatus', () => {
+		it('should report the most severe status', () => {
+			expect(worstStatus([])).toBe('pass');
+			expect(worstStatus(['pass', 'pass'])).toBe('pass');
+			expect(worstStatus(['pass', 'warn'])).toBe('warn');
+			expect(worstStatus(['warn', 'fail', 'pass'])).toBe('fail');
 		});
 	});
 });
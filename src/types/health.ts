@@ -1,5 +1,42 @@
-export type HealthStatus = {
-	status: string;
-	environment: string;
-	timestamp: string;
-};
+import { z } from 'zod';
+
+// pass: healthy; warn: serving, but degraded; fail: not ready for traffic
+export const healthCheckStatuses = ['pass', 'warn', 'fail'] as const;
+
+export type HealthCheckStatus = (typeof healthCheckStatuses)[number];
+
+export const healthCheckResultSchema = z
+	.object({
+		name: z.string(),
+		status: z.enum(healthCheckStatuses),
+		durationMs: z.number(),
+		// Why the check did not pass, or what it found
+		output: z.string().optional()
+	})
+	.meta({ id: 'HealthCheckResult' });
+
+export const healthStatusSchema = z
+	.object({
+		// The worst status among the checks
+		status: z.enum(healthCheckStatuses),
+		environment: z.string(),
+		timestamp: z.string(),
+		version: z.string(),
+		commit: z.string().optional(),
+		// Empty for the liveness probe, which runs no checks
+		checks: z.array(healthCheckResultSchema)
+	})
+	.meta({ id: 'HealthStatus' });
+
+export type HealthCheckResult = z.infer<typeof healthCheckResultSchema>;
+export type HealthStatus = z.infer<typeof healthStatusSchema>;
+
+// Order used to pick the overall status
+const severity: Record<HealthCheckStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export function worstStatus(statuses: HealthCheckStatus[]): HealthCheckStatus {
+	return statuses.reduce<HealthCheckStatus>(
+		(worst, status) => (severity[status] > severity[worst] ? status : worst),
+		'pass'
+	);
+}
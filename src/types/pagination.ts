@@ -0,0 +1,15 @@
+export type SortOrder = 'asc' | 'desc';
+
+export type PaginationMeta = {
+	total: number;
+	limit: number;
+	nextCursor: string | null;
+	page?: number;
+	pageSize?: number;
+	totalPages?: number;
+};
+
+export type PaginatedResult<T> = {
+	items: T[];
+	pagination: PaginationMeta;
+};